@@ -25,42 +25,61 @@ import Ratings from './pages/Ratings';
 import NotFound from './pages/NotFound';
 import Success from './pages/Success';
 import Failure from './pages/Failure';
+import LoginPage from './pages/LoginPage';
+import AuditLog from './pages/AuditLog';
+import MediaLibrary from './pages/MediaLibrary';
+import Analytics from './pages/Analytics';
+import FrontDesk from './pages/FrontDesk';
+import DocumentTemplates from './pages/DocumentTemplates';
 
 function App() {
   return (
     <AuthProvider>
       <Router>
-        <ProtectedRoute>
-          <Routes>
-            <Route path="/" element={<Layout />}>
-              <Route index element={<Dashboard />} />
-              <Route path="accommodations" element={<Accommodations />} />
-              <Route path="accommodations/new" element={<AccommodationForm />} />
-              <Route path="accommodations/:id" element={<AccommodationForm />} />
-              <Route path="gallery" element={<Gallery />} />
-              <Route path="services" element={<Services />} />
-              <Route path="services/new" element={<ServiceForm />} />
-              <Route path="services/:id" element={<ServiceForm />} />
-              <Route path="bookings" element={<Bookings />} />
-              <Route path="bookings/new" element={<CreateBooking />} />
-              <Route path="calendar" element={<Calendar />} />
-              <Route path="amenities" element={<Amenities />} />
-              <Route path="cities" element={<Cities />} />
-              <Route path="ratings" element={<Ratings />} />
-              <Route path="coupons" element={<Coupons />} />
-              <Route path="blogs" element={<Blogs />} />
-              <Route path="blogs/new" element={<BlogForm />} />
-              <Route path="blogs/:id" element={<BlogForm />} />
-              <Route path="categories" element={<Categories />} />
-              <Route path="categories/:id" element={<CategoryForm />} />
-              <Route path="users" element={<Users />} />
-              <Route path="users/:id" element={<UserForm />} />
-              <Route path="payment-success" element={<Success />} />
-              <Route path="payment-failure" element={<Failure />} />
-              <Route path="*" element={<NotFound />} />
-            </Route>
-          </Routes>
-        </ProtectedRoute>
+        <Routes>
+          <Route path="/login" element={<LoginPage />} />
+          <Route
+            path="/"
+            element={
+              <ProtectedRoute>
+                <Layout />
+              </ProtectedRoute>
+            }
+          >
+            <Route index element={<ProtectedRoute capability="dashboard:view"><Dashboard /></ProtectedRoute>} />
+            <Route path="analytics" element={<ProtectedRoute capability="analytics:view"><Analytics /></ProtectedRoute>} />
+            <Route path="accommodations" element={<ProtectedRoute capability="properties:view"><Accommodations /></ProtectedRoute>} />
+            <Route path="accommodations/new" element={<ProtectedRoute capability="properties:edit"><AccommodationForm /></ProtectedRoute>} />
+            <Route path="accommodations/:id" element={<ProtectedRoute capability="properties:edit"><AccommodationForm /></ProtectedRoute>} />
+            <Route path="gallery" element={<ProtectedRoute capability="gallery:manage"><Gallery /></ProtectedRoute>} />
+            <Route path="media" element={<ProtectedRoute capability="media:manage"><MediaLibrary /></ProtectedRoute>} />
+            <Route path="services" element={<ProtectedRoute capability="services:manage"><Services /></ProtectedRoute>} />
+            <Route path="services/new" element={<ProtectedRoute capability="services:manage"><ServiceForm /></ProtectedRoute>} />
+            <Route path="services/:id" element={<ProtectedRoute capability="services:manage"><ServiceForm /></ProtectedRoute>} />
+            <Route path="bookings" element={<ProtectedRoute capability="bookings:view"><Bookings /></ProtectedRoute>} />
+            <Route path="front-desk" element={<ProtectedRoute capability="bookings:view"><FrontDesk /></ProtectedRoute>} />
+            <Route path="bookings/new" element={<ProtectedRoute capability="bookings:create"><CreateBooking /></ProtectedRoute>} />
+            <Route path="bookings/:id/edit" element={<ProtectedRoute capability="bookings:edit"><CreateBooking /></ProtectedRoute>} />
+            <Route path="calendar" element={<ProtectedRoute capability="calendar:manage"><Calendar /></ProtectedRoute>} />
+            <Route path="amenities" element={<ProtectedRoute capability="catalog:manage"><Amenities /></ProtectedRoute>} />
+            <Route path="cities" element={<ProtectedRoute capability="catalog:manage"><Cities /></ProtectedRoute>} />
+            <Route path="ratings" element={<ProtectedRoute capability="ratings:manage"><Ratings /></ProtectedRoute>} />
+            <Route path="coupons" element={<ProtectedRoute capability="coupons:view"><Coupons /></ProtectedRoute>} />
+            <Route path="blogs" element={<ProtectedRoute capability="blogs:manage"><Blogs /></ProtectedRoute>} />
+            <Route path="blogs/new" element={<ProtectedRoute capability="blogs:manage"><BlogForm /></ProtectedRoute>} />
+            <Route path="blogs/:id" element={<ProtectedRoute capability="blogs:manage"><BlogForm /></ProtectedRoute>} />
+            <Route path="categories" element={<ProtectedRoute capability="categories:manage"><Categories /></ProtectedRoute>} />
+            <Route path="categories/new" element={<ProtectedRoute capability="categories:manage"><CategoryForm /></ProtectedRoute>} />
+            <Route path="categories/:id" element={<ProtectedRoute capability="categories:manage"><CategoryForm /></ProtectedRoute>} />
+            <Route path="users" element={<ProtectedRoute capability="users:manage"><Users /></ProtectedRoute>} />
+            <Route path="users/:id" element={<ProtectedRoute capability="users:manage"><UserForm /></ProtectedRoute>} />
+            <Route path="document-templates" element={<ProtectedRoute capability="templates:manage"><DocumentTemplates /></ProtectedRoute>} />
+            <Route path="audit" element={<ProtectedRoute capability="audit:view"><AuditLog /></ProtectedRoute>} />
+            <Route path="payment-success" element={<Success />} />
+            <Route path="payment-failure" element={<Failure />} />
+            <Route path="*" element={<NotFound />} />
+          </Route>
+        </Routes>
       </Router>
     </AuthProvider>
   );
@@ -1,53 +1,56 @@
-import React, { useState } from 'react';
-import { X, DollarSign, CreditCard, Smartphone, Tag, AlertCircle } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { X, DollarSign, AlertCircle } from 'lucide-react';
+import { getErrorMessage, isCanceled } from '../lib/api';
+import { queueNotification } from '../lib/notifications';
+import { PAYMENT_METHOD_OPTIONS, fetchPayments, getLedgerTotals, recordPayment, type PaymentEntry } from '../lib/payments';
 
 interface Booking {
   id: number;
   bookingId: string;
   guest: string;
-  email: string;
-  phone: string;
-  accommodation: string;
-  amount: string;
-  paidAmount: string;
-  paymentStatus: string;
+  email?: string;
+  phone?: string;
+  totalAmount: number;
 }
 
 interface AddPaymentModalProps {
   booking: Booking;
   onClose: () => void;
   onPaymentAdded?: () => void;
-  apiBaseUrl?: string;
 }
 
 const AddPaymentModal: React.FC<AddPaymentModalProps> = ({ 
   booking, 
   onClose, 
-  onPaymentAdded,
-  apiBaseUrl = 'http://localhost:5000/admin'
+  onPaymentAdded
 }) => {
   const [paymentType, setPaymentType] = useState<'full' | 'partial'>('full');
   const [paymentMethod, setPaymentMethod] = useState('');
   const [amount, setAmount] = useState('');
   const [transactionId, setTransactionId] = useState('');
   const [notes, setNotes] = useState('');
+  // Stays null until the ledger loads so an unknown balance can't be charged again
+  const [entries, setEntries] = useState<PaymentEntry[] | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  // Extract numeric value from formatted price string (e.g., "₹38,500" -> 38500)
-  const getTotalAmount = () => {
-    const numericString = booking.amount.replace(/[^\d]/g, '');
-    return parseInt(numericString, 10);
-  };
+  // Paid and remaining amounts come from the booking's ledger
+  useEffect(() => {
+    const controller = new AbortController();
 
-  const getPaidAmount = () => {
-    const numericString = booking.paidAmount.replace(/[^\d]/g, '');
-    return parseInt(numericString, 10);
-  };
+    fetchPayments(booking.id, controller.signal)
+      .then(setEntries)
+      .catch((err) => {
+        if (isCanceled(err)) return;
+        console.error('Error fetching payments:', err);
+        setError(getErrorMessage(err, 'Failed to load payments'));
+      });
 
-  const getRemainingAmount = () => {
-    return getTotalAmount() - getPaidAmount();
-  };
+    return () => controller.abort();
+  }, [booking.id]);
+
+  const totals = getLedgerTotals(booking.totalAmount, entries ?? []);
+  const paymentAmount = paymentType === 'full' ? totals.remaining : parseFloat(amount);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -55,64 +58,52 @@ const AddPaymentModal: React.FC<AddPaymentModalProps> = ({
     setError(null);
 
     try {
-      const paymentAmount = paymentType === 'full' ? getRemainingAmount() : parseInt(amount);
-      
+      if (!entries) {
+        throw new Error('Payments for this booking could not be loaded. Close and try again.');
+      }
+
       if (!paymentAmount || paymentAmount <= 0) {
         throw new Error('Please enter a valid payment amount');
       }
 
-      if (paymentAmount > getRemainingAmount()) {
+      if (paymentAmount > totals.remaining) {
         throw new Error('Payment amount cannot exceed remaining balance');
       }
 
-      const paymentData = {
-        amount: paymentAmount,
-        payment_method: paymentMethod,
-        transaction_id: transactionId || undefined,
-        notes: notes || undefined
-      };
-
-      const response = await fetch(`${apiBaseUrl}/bookings/${booking.id}/payments`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
+      const entry = await recordPayment(
+        booking.id,
+        booking.bookingId,
+        {
+          amount: paymentAmount,
+          payment_method: paymentMethod,
+          transaction_id: transactionId || undefined,
+          notes: notes || undefined
         },
-        body: JSON.stringify(paymentData),
-      });
+        totals.net
+      );
 
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
-      }
+      queueNotification({
+        bookingId: booking.id,
+        bookingRef: booking.bookingId,
+        event: 'payment-received',
+        email: booking.email,
+        phone: booking.phone,
+        values: entry?.id ? { payment_id: entry.id } : undefined,
+      }).catch((err) => console.error('Error queueing payment notification:', err));
 
-      const result = await response.json();
-      
-      if (result.success) {
-        // Call the callback to refresh the bookings list
-        if (onPaymentAdded) {
-          onPaymentAdded();
-        }
-        onClose();
-      } else {
-        throw new Error(result.message || 'Failed to add payment');
+      // Call the callback to refresh the bookings list
+      if (onPaymentAdded) {
+        onPaymentAdded();
       }
+      onClose();
     } catch (err) {
       console.error('Error adding payment:', err);
-      setError(err instanceof Error ? err.message : 'Failed to add payment');
+      setError(getErrorMessage(err, 'Failed to add payment'));
     } finally {
       setLoading(false);
     }
   };
 
-  // Update amount when payment type changes
-  React.useEffect(() => {
-    if (paymentType === 'full') {
-      setAmount(getRemainingAmount().toString());
-    } else {
-      setAmount('');
-    }
-  }, [paymentType]);
-
   return (
     <div className="fixed inset-0 z-50 overflow-y-auto">
       <div className="flex items-end justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
@@ -147,13 +138,13 @@ const AddPaymentModal: React.FC<AddPaymentModalProps> = ({
                   </p>
                   <div className="flex justify-between mt-1">
                     <p className="text-sm text-gray-500">
-                      Total: <span className="font-medium text-gray-700">{booking.amount}</span>
+                      Total: <span className="font-medium text-gray-700">₹{booking.totalAmount.toLocaleString('en-IN')}</span>
                     </p>
                     <p className="text-sm text-gray-500">
-                      Paid: <span className="font-medium text-gray-700">{booking.paidAmount}</span>
+                      Paid: <span className="font-medium text-gray-700">{!entries ? '…' : `₹${totals.net.toLocaleString('en-IN')}`}</span>
                     </p>
                     <p className="text-sm text-gray-500">
-                      Remaining: <span className="font-medium text-green-600">₹{getRemainingAmount().toLocaleString()}</span>
+                      Remaining: <span className="font-medium text-green-600">{!entries ? '…' : `₹${totals.remaining.toLocaleString('en-IN')}`}</span>
                     </p>
                   </div>
                 </div>
@@ -185,7 +176,7 @@ const AddPaymentModal: React.FC<AddPaymentModalProps> = ({
                           disabled={loading}
                         />
                         <label htmlFor="full-payment" className="ml-2 block text-sm text-gray-700">
-                          Full Payment (₹{getRemainingAmount().toLocaleString()})
+                          Full Payment (₹{totals.remaining.toLocaleString('en-IN')})
                         </label>
                       </div>
                       <div className="flex items-center">
@@ -219,14 +210,11 @@ const AddPaymentModal: React.FC<AddPaymentModalProps> = ({
                       disabled={loading}
                     >
                       <option value="">Select Payment Method</option>
-                      <option value="card">Credit/Debit Card</option>
-                      <option value="gpay">Google Pay</option>
-                      <option value="phonepe">PhonePe</option>
-                      <option value="paytm">Paytm</option>
-                      <option value="cash">Cash</option>
-                      <option value="bank">Bank Transfer</option>
-                      <option value="upi">UPI</option>
-                      <option value="cheque">Cheque</option>
+                      {PAYMENT_METHOD_OPTIONS.map((option) => (
+                        <option key={option.value} value={option.value}>
+                          {option.label}
+                        </option>
+                      ))}
                     </select>
                   </div>
 
@@ -238,10 +226,10 @@ const AddPaymentModal: React.FC<AddPaymentModalProps> = ({
                     <input
                       type="number"
                       id="amount"
-                      value={amount}
+                      value={paymentType === 'full' ? totals.remaining.toString() : amount}
                       onChange={(e) => setAmount(e.target.value)}
                       min="1"
-                      max={getRemainingAmount()}
+                      max={totals.remaining}
                       className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
                       required
                       disabled={loading || paymentType === 'full'}
@@ -249,7 +237,7 @@ const AddPaymentModal: React.FC<AddPaymentModalProps> = ({
                     />
                     {paymentType === 'partial' && (
                       <p className="mt-1 text-xs text-gray-500">
-                        Maximum: ₹{getRemainingAmount().toLocaleString()}
+                        Maximum: ₹{totals.remaining.toLocaleString('en-IN')}
                       </p>
                     )}
                   </div>
@@ -293,7 +281,7 @@ const AddPaymentModal: React.FC<AddPaymentModalProps> = ({
             <button
               type="submit"
               onClick={handleSubmit}
-              disabled={loading || !paymentMethod || !amount}
+              disabled={loading || !entries || !paymentMethod || !paymentAmount}
               className="w-full inline-flex justify-center rounded-md border border-transparent shadow-sm px-4 py-2 bg-blue-600 text-base font-medium text-white hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 sm:ml-3 sm:w-auto sm:text-sm disabled:opacity-50 disabled:cursor-not-allowed"
             >
               {loading ? (
@@ -1,5 +1,12 @@
-import React from 'react';
-import { X, Calendar, User, Building2, CreditCard, Clock, Users, MapPin, Utensils, Activity } from 'lucide-react';
+import React, { useState } from 'react';
+import { X, Calendar, User, Building2, Clock, Users, MapPin, Utensils, Activity, FileDown, Send } from 'lucide-react';
+import BookingInvoices from './BookingInvoices';
+import BookingNotifications from './BookingNotifications';
+import PaymentLedger from './PaymentLedger';
+import { useAuth } from '../contexts/AuthContext';
+import { getErrorMessage } from '../lib/api';
+import { downloadBookingConfirmation, resendBookingConfirmation } from '../lib/bookingDocuments';
+import { getBookingStatusColor, getBookingStatusLabel, type BookingStatus } from '../lib/bookingStatus';
 
 interface Booking {
   id: number;
@@ -16,9 +23,8 @@ interface Booking {
   rooms: number;
   guests: number;
   amount: string;
-  paidAmount: string;
   paymentStatus: 'Paid' | 'Partial' | 'Unpaid';
-  bookingStatus: 'Confirmed' | 'Pending' | 'Cancelled';
+  bookingStatus: BookingStatus;
   specialRequests?: string;
   mealPlan?: string;
   activities?: Array<{
@@ -26,23 +32,51 @@ interface Booking {
     title: string;
     price: number;
   }>;
-  payments?: Array<{
-    id: number;
-    amount: number;
-    payment_method: string;
-    transaction_id?: string;
-    created_at: string;
-    status: string;
-  }>;
   rawData?: any;
 }
 
 interface BookingDetailsModalProps {
   booking: Booking;
   onClose: () => void;
+  onPaymentsChange?: () => void;
 }
 
-const BookingDetailsModal: React.FC<BookingDetailsModalProps> = ({ booking, onClose }) => {
+const BookingDetailsModal: React.FC<BookingDetailsModalProps> = ({ booking, onClose, onPaymentsChange }) => {
+  const { can } = useAuth();
+  const [confirmationBusy, setConfirmationBusy] = useState(false);
+  const [confirmationMessage, setConfirmationMessage] = useState('');
+  const [confirmationError, setConfirmationError] = useState('');
+
+  const handleDownloadConfirmation = async () => {
+    try {
+      setConfirmationBusy(true);
+      setConfirmationError('');
+      setConfirmationMessage('');
+      await downloadBookingConfirmation(booking.id);
+    } catch (err) {
+      console.error('Error generating confirmation:', err);
+      setConfirmationError(getErrorMessage(err, 'Failed to generate the confirmation'));
+    } finally {
+      setConfirmationBusy(false);
+    }
+  };
+
+  const handleResendConfirmation = async () => {
+    if (!window.confirm(`Email the booking confirmation to ${booking.email}?`)) return;
+    try {
+      setConfirmationBusy(true);
+      setConfirmationError('');
+      setConfirmationMessage('');
+      const sentTo = await resendBookingConfirmation(booking.id);
+      setConfirmationMessage(`Confirmation sent to ${sentTo}`);
+    } catch (err) {
+      console.error('Error resending confirmation:', err);
+      setConfirmationError(getErrorMessage(err, 'Failed to resend the confirmation'));
+    } finally {
+      setConfirmationBusy(false);
+    }
+  };
+
   const formatDate = (dateString: string) => {
     if (!dateString) return 'N/A';
     const date = new Date(dateString);
@@ -53,30 +87,6 @@ const BookingDetailsModal: React.FC<BookingDetailsModalProps> = ({ booking, onCl
     });
   };
 
-  const getPaymentStatusColor = (status: string) => {
-    switch (status) {
-      case 'Paid':
-        return 'text-green-600';
-      case 'Partial':
-        return 'text-yellow-600';
-      default:
-        return 'text-red-600';
-    }
-  };
-
-  const getBookingStatusColor = (status: string) => {
-    switch (status) {
-      case 'Confirmed':
-        return 'bg-green-100 text-green-800';
-      case 'Pending':
-        return 'bg-blue-100 text-blue-800';
-      case 'Cancelled':
-        return 'bg-red-100 text-red-800';
-      default:
-        return 'bg-gray-100 text-gray-800';
-    }
-  };
-
   return (
     <div className="fixed inset-0 z-50 overflow-y-auto">
       <div className="flex items-end justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
@@ -212,65 +222,44 @@ const BookingDetailsModal: React.FC<BookingDetailsModalProps> = ({ booking, onCl
                     </div>
                   )}
 
-                  {/* Payment Information */}
-                  <div>
-                    <h4 className="text-sm font-medium text-gray-500 mb-2 flex items-center">
-                      <CreditCard className="h-4 w-4 mr-1" /> Payment Details
-                    </h4>
-                    <div className="bg-gray-50 p-3 rounded-md">
-                      <div className="grid grid-cols-3 gap-3">
-                        <div>
-                          <p className="text-xs text-gray-500">Total Amount</p>
-                          <p className="text-sm font-medium text-gray-900">{booking.amount}</p>
-                        </div>
-                        <div>
-                          <p className="text-xs text-gray-500">Paid Amount</p>
-                          <p className="text-sm font-medium text-gray-900">{booking.paidAmount}</p>
-                        </div>
-                        <div>
-                          <p className="text-xs text-gray-500">Payment Status</p>
-                          <p className={`text-sm font-medium ${getPaymentStatusColor(booking.paymentStatus)}`}>
-                            {booking.paymentStatus}
-                          </p>
-                        </div>
-                      </div>
-                    </div>
-                  </div>
+                  <PaymentLedger
+                    bookingId={booking.id}
+                    booking={{
+                      bookingRef: booking.bookingId,
+                      guest: booking.guest,
+                      email: booking.email,
+                      phone: booking.phone,
+                      accommodation: booking.accommodation,
+                      checkIn: booking.rawData?.check_in ?? booking.checkIn,
+                      checkOut: booking.rawData?.check_out ?? booking.checkOut,
+                      totalAmount: parseFloat(booking.rawData?.total_amount) || 0,
+                    }}
+                    onChange={onPaymentsChange}
+                  />
 
-                  {/* Payment History */}
-                  {booking.payments && booking.payments.length > 0 && (
-                    <div>
-                      <h4 className="text-sm font-medium text-gray-500 mb-2 flex items-center">
-                        <CreditCard className="h-4 w-4 mr-1" /> Payment History
-                      </h4>
-                      <div className="bg-gray-50 p-3 rounded-md">
-                        <div className="space-y-2">
-                          {booking.payments.map((payment) => (
-                            <div key={payment.id} className="flex justify-between items-center border-b border-gray-200 pb-2 last:border-b-0">
-                              <div>
-                                <p className="text-sm font-medium text-gray-900">
-                                  ₹{payment.amount.toLocaleString('en-IN')}
-                                </p>
-                                <p className="text-xs text-gray-500">
-                                  {payment.payment_method} • {formatDate(payment.created_at)}
-                                </p>
-                                {payment.transaction_id && (
-                                  <p className="text-xs text-gray-500">ID: {payment.transaction_id}</p>
-                                )}
-                              </div>
-                              <span className={`px-2 py-1 text-xs rounded-full ${
-                                payment.status === 'success' 
-                                  ? 'bg-green-100 text-green-800' 
-                                  : 'bg-gray-100 text-gray-800'
-                              }`}>
-                                {payment.status}
-                              </span>
-                            </div>
-                          ))}
-                        </div>
-                      </div>
-                    </div>
-                  )}
+                  <BookingInvoices
+                    bookingId={booking.id}
+                    booking={{
+                      bookingRef: booking.bookingId,
+                      guest: booking.guest,
+                      email: booking.email,
+                      phone: booking.phone,
+                      accommodation: booking.accommodation,
+                      checkIn: booking.rawData?.check_in ?? booking.checkIn,
+                      checkOut: booking.rawData?.check_out ?? booking.checkOut,
+                      rooms: booking.rooms,
+                      mealCount:
+                        (booking.rawData?.food_veg || 0) + (booking.rawData?.food_nonveg || 0) + (booking.rawData?.food_jain || 0),
+                      totalAmount: parseFloat(booking.rawData?.total_amount) || 0,
+                      status: booking.bookingStatus,
+                      cancellationReason: booking.rawData?.cancellation_reason,
+                    }}
+                  />
+
+                  <BookingNotifications
+                    bookingId={booking.id}
+                    booking={{ bookingRef: booking.bookingId, email: booking.email, phone: booking.phone }}
+                  />
 
                   {/* Booking Status */}
                   <div>
@@ -281,7 +270,7 @@ const BookingDetailsModal: React.FC<BookingDetailsModalProps> = ({ booking, onCl
                       <span
                         className={`px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${getBookingStatusColor(booking.bookingStatus)}`}
                       >
-                        {booking.bookingStatus}
+                        {getBookingStatusLabel(booking.bookingStatus)}
                       </span>
                     </div>
                   </div>
@@ -289,6 +278,11 @@ const BookingDetailsModal: React.FC<BookingDetailsModalProps> = ({ booking, onCl
               </div>
             </div>
           </div>
+          {(confirmationError || confirmationMessage) && (
+            <div className={`px-4 py-2 sm:px-6 text-sm ${confirmationError ? 'bg-red-50 text-red-700' : 'bg-green-50 text-green-700'}`}>
+              {confirmationError || confirmationMessage}
+            </div>
+          )}
           <div className="bg-gray-50 px-4 py-3 sm:px-6 sm:flex sm:flex-row-reverse">
             <button
               type="button"
@@ -297,6 +291,24 @@ const BookingDetailsModal: React.FC<BookingDetailsModalProps> = ({ booking, onCl
             >
               Close
             </button>
+            {can('bookings:edit') && booking.email && (
+              <button
+                type="button"
+                onClick={handleResendConfirmation}
+                disabled={confirmationBusy}
+                className="mt-3 w-full inline-flex justify-center items-center rounded-md border border-gray-300 shadow-sm px-4 py-2 bg-white text-base font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 sm:mt-0 sm:ml-3 sm:w-auto sm:text-sm"
+              >
+                <Send className="h-4 w-4 mr-1" /> Resend Confirmation
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={handleDownloadConfirmation}
+              disabled={confirmationBusy}
+              className="mt-3 w-full inline-flex justify-center items-center rounded-md border border-gray-300 shadow-sm px-4 py-2 bg-white text-base font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 sm:mt-0 sm:ml-3 sm:w-auto sm:text-sm"
+            >
+              <FileDown className="h-4 w-4 mr-1" /> {confirmationBusy ? 'Preparing...' : 'Download Confirmation'}
+            </button>
           </div>
         </div>
       </div>
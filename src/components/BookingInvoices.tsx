@@ -0,0 +1,477 @@
+import React, { useEffect, useState } from 'react';
+import { AlertCircle, FileDown, FileMinus, FileText } from 'lucide-react';
+import { getErrorMessage, isCanceled } from '../lib/api';
+import { useAuth } from '../contexts/AuthContext';
+import type { BookingStatus } from '../lib/bookingStatus';
+import { toLocalDateKey } from '../lib/bookingQueries';
+import {
+  INDIAN_STATES,
+  buildStayTaxLines,
+  getGstinStateCode,
+  isValidGstin,
+  roundCurrency,
+  scaleTaxLines,
+  sumTaxLines,
+  type TaxLine,
+} from '../lib/gst';
+import { downloadTaxDocument } from '../lib/invoicePdf';
+import {
+  INVOICE_SUPPLIER,
+  SUPPLIER_STATE_CODE,
+  fetchInvoices,
+  getFinancialYear,
+  getInvoiceTypeLabel,
+  issueTaxDocument,
+  type TaxDocument,
+} from '../lib/invoices';
+import { fetchPayments, getLedgerTotals } from '../lib/payments';
+import { getStayDates } from '../lib/pricing';
+
+export interface InvoiceBooking {
+  bookingRef: string;
+  guest: string;
+  email?: string;
+  phone?: string;
+  accommodation: string;
+  checkIn: string;
+  checkOut: string;
+  rooms: number;
+  mealCount: number;
+  totalAmount: number;
+  status: BookingStatus;
+  cancellationReason?: string | null;
+}
+
+interface BookingInvoicesProps {
+  bookingId: number;
+  booking: InvoiceBooking;
+}
+
+type FormMode = 'invoice' | 'credit-note' | null;
+
+const formatAmount = (amount: number) =>
+  `₹${amount.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric' });
+
+const inputClass =
+  'block w-full border border-gray-300 rounded-md shadow-sm py-1.5 px-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-sm';
+
+const TaxPreview: React.FC<{ lines: TaxLine[] }> = ({ lines }) => {
+  const totals = sumTaxLines(lines);
+  return (
+    <table className="min-w-full text-xs">
+      <thead>
+        <tr className="text-gray-500">
+          <th className="text-left font-medium py-1">Item</th>
+          <th className="text-left font-medium py-1">SAC</th>
+          <th className="text-right font-medium py-1">Taxable</th>
+          <th className="text-right font-medium py-1">GST</th>
+          <th className="text-right font-medium py-1">Total</th>
+        </tr>
+      </thead>
+      <tbody>
+        {lines.map((line) => (
+          <tr key={line.kind} className="border-t border-gray-100">
+            <td className="py-1 text-gray-900">{line.description}</td>
+            <td className="py-1 text-gray-500">{line.sac}</td>
+            <td className="py-1 text-right">{formatAmount(line.taxable_value)}</td>
+            <td className="py-1 text-right">
+              {formatAmount(line.cgst + line.sgst + line.igst)} ({line.rate}%{line.igst > 0 ? ' IGST' : ''})
+            </td>
+            <td className="py-1 text-right">{formatAmount(line.total)}</td>
+          </tr>
+        ))}
+        <tr className="border-t border-gray-200 font-medium">
+          <td className="py-1" colSpan={2}>
+            Total
+          </td>
+          <td className="py-1 text-right">{formatAmount(totals.taxable_value)}</td>
+          <td className="py-1 text-right">{formatAmount(totals.cgst + totals.sgst + totals.igst)}</td>
+          <td className="py-1 text-right">{formatAmount(totals.total)}</td>
+        </tr>
+      </tbody>
+    </table>
+  );
+};
+
+const BookingInvoices: React.FC<BookingInvoicesProps> = ({ bookingId, booking }) => {
+  const { can } = useAuth();
+  const [documents, setDocuments] = useState<TaxDocument[]>([]);
+  const [retained, setRetained] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [refreshKey, setRefreshKey] = useState(0);
+  const [mode, setMode] = useState<FormMode>(null);
+  const [saving, setSaving] = useState(false);
+
+  // Invoice form
+  const [placeOfSupply, setPlaceOfSupply] = useState(SUPPLIER_STATE_CODE);
+  const [customerGstin, setCustomerGstin] = useState('');
+  const [customerAddress, setCustomerAddress] = useState('');
+  const [foodAmount, setFoodAmount] = useState('0');
+
+  // Credit note form
+  const [creditAmount, setCreditAmount] = useState('');
+  const [creditReason, setCreditReason] = useState('');
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setLoading(true);
+    setError(null);
+
+    Promise.all([fetchInvoices(bookingId, controller.signal), fetchPayments(bookingId, controller.signal)])
+      .then(([invoices, payments]) => {
+        setDocuments(invoices);
+        // What the guest has paid and not been refunded is kept, so it is not credited back
+        setRetained(getLedgerTotals(booking.totalAmount, payments).net);
+      })
+      .catch((err) => {
+        if (isCanceled(err)) return;
+        console.error('Error fetching invoices:', err);
+        setError(getErrorMessage(err, 'Failed to load invoices'));
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false);
+      });
+
+    return () => controller.abort();
+  }, [bookingId, booking.totalAmount, refreshKey]);
+
+  const invoice = documents.find((document) => document.type === 'invoice');
+  const credited = roundCurrency(
+    documents
+      .filter((document) => document.type === 'credit-note' && document.original_invoice_id === invoice?.id)
+      .reduce((sum, document) => sum + document.total, 0)
+  );
+  const creditable = invoice ? roundCurrency(invoice.total - credited) : 0;
+
+  const canIssueInvoice =
+    can('payments:record') && !invoice && booking.status !== 'cancelled' && booking.status !== 'pending';
+  const canIssueCreditNote = can('payments:adjust') && !!invoice && booking.status === 'cancelled' && creditable > 0;
+
+  const interState = placeOfSupply !== SUPPLIER_STATE_CODE;
+  const checkIn = toLocalDateKey(booking.checkIn);
+  const checkOut = toLocalDateKey(booking.checkOut);
+  const invoiceLines = buildStayTaxLines({
+    accommodationName: booking.accommodation,
+    checkIn,
+    checkOut,
+    nights: getStayDates(checkIn, checkOut).length,
+    rooms: booking.rooms,
+    totalAmount: booking.totalAmount,
+    foodAmount: parseFloat(foodAmount) || 0,
+    interState,
+    specifiedPremises: INVOICE_SUPPLIER.specifiedPremises,
+  });
+  const creditLines =
+    invoice && mode === 'credit-note'
+      ? scaleTaxLines(
+          invoice.lines,
+          Math.min(parseFloat(creditAmount) || 0, creditable),
+          invoice.place_of_supply !== SUPPLIER_STATE_CODE
+        )
+      : [];
+
+  const openInvoiceForm = () => {
+    setError(null);
+    setPlaceOfSupply(SUPPLIER_STATE_CODE);
+    setCustomerGstin('');
+    setCustomerAddress('');
+    setFoodAmount('0');
+    setMode('invoice');
+  };
+
+  const openCreditNoteForm = () => {
+    setError(null);
+    setCreditAmount(Math.max(0, roundCurrency(creditable - retained)).toString());
+    setCreditReason(booking.cancellationReason ? `Booking cancelled: ${booking.cancellationReason}` : 'Booking cancelled');
+    setMode('credit-note');
+  };
+
+  const handleGstinChange = (value: string) => {
+    const gstin = value.toUpperCase();
+    setCustomerGstin(gstin);
+    // Registered recipients are billed in the state of their GSTIN
+    if (isValidGstin(gstin)) setPlaceOfSupply(getGstinStateCode(gstin));
+  };
+
+  const handleIssueInvoice = async () => {
+    if (customerGstin && !isValidGstin(customerGstin)) {
+      setError('Please enter a valid GSTIN or leave it blank');
+      return;
+    }
+    if (invoiceLines.length === 0) {
+      setError('This booking has no billable amount');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      const issued = await issueTaxDocument(bookingId, booking.bookingRef, {
+        type: 'invoice',
+        financial_year: getFinancialYear(),
+        place_of_supply: placeOfSupply,
+        customer_name: booking.guest,
+        customer_email: booking.email || null,
+        customer_phone: booking.phone || null,
+        customer_address: customerAddress.trim() || null,
+        customer_gstin: customerGstin.trim() || null,
+        lines: invoiceLines,
+      });
+      setMode(null);
+      setRefreshKey((key) => key + 1);
+      downloadTaxDocument(issued, booking.bookingRef);
+    } catch (err) {
+      console.error('Error issuing invoice:', err);
+      setError(getErrorMessage(err, 'Failed to issue invoice'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleIssueCreditNote = async () => {
+    if (!invoice) return;
+    const amount = parseFloat(creditAmount);
+    if (isNaN(amount) || amount <= 0 || amount > creditable) {
+      setError(`Credit amount must be between ₹1 and ${formatAmount(creditable)}`);
+      return;
+    }
+    if (!creditReason.trim()) {
+      setError('Please give a reason for the credit note');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      const issued = await issueTaxDocument(bookingId, booking.bookingRef, {
+        type: 'credit-note',
+        financial_year: getFinancialYear(),
+        place_of_supply: invoice.place_of_supply,
+        customer_name: invoice.customer_name,
+        customer_email: invoice.customer_email,
+        customer_phone: invoice.customer_phone,
+        customer_address: invoice.customer_address,
+        customer_gstin: invoice.customer_gstin,
+        original_invoice_id: invoice.id,
+        original_invoice_number: invoice.invoice_number,
+        reason: creditReason.trim(),
+        lines: creditLines,
+      });
+      setMode(null);
+      setRefreshKey((key) => key + 1);
+      downloadTaxDocument(issued, booking.bookingRef);
+    } catch (err) {
+      console.error('Error issuing credit note:', err);
+      setError(getErrorMessage(err, 'Failed to issue credit note'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div>
+      <h4 className="text-sm font-medium text-gray-500 mb-2 flex items-center">
+        <FileText className="h-4 w-4 mr-1" /> Tax Invoices
+      </h4>
+      <div className="bg-gray-50 p-3 rounded-md space-y-3">
+        {error && (
+          <div className="flex items-start p-2 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+            <AlertCircle className="h-4 w-4 mr-2 flex-shrink-0 mt-0.5" />
+            {error}
+          </div>
+        )}
+
+        {loading ? (
+          <div className="animate-pulse h-4 w-1/2 bg-gray-200 rounded"></div>
+        ) : documents.length === 0 ? (
+          <p className="text-sm text-gray-500">No invoice issued yet.</p>
+        ) : (
+          <div className="divide-y divide-gray-200">
+            {documents.map((document) => (
+              <div key={document.id} className="flex justify-between items-center py-2">
+                <div>
+                  <p className="text-sm font-medium text-gray-900">
+                    {document.invoice_number}
+                    <span className="ml-2 text-xs font-normal text-gray-500">{getInvoiceTypeLabel(document.type)}</span>
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {formatDate(document.issued_at)} • {formatAmount(document.total)}
+                    {document.original_invoice_number && ` • against ${document.original_invoice_number}`}
+                  </p>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => downloadTaxDocument(document, booking.bookingRef)}
+                  className="text-blue-600 hover:text-blue-900"
+                  title={`Download ${getInvoiceTypeLabel(document.type).toLowerCase()}`}
+                >
+                  <FileDown className="h-4 w-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {!loading && mode === null && (canIssueInvoice || canIssueCreditNote) && (
+          <div className="flex space-x-2">
+            {canIssueInvoice && (
+              <button
+                type="button"
+                onClick={openInvoiceForm}
+                disabled={!INVOICE_SUPPLIER.gstin}
+                className="inline-flex items-center px-3 py-1.5 text-sm rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+                title={INVOICE_SUPPLIER.gstin ? 'Issue tax invoice' : 'Set VITE_GSTIN to issue tax invoices'}
+              >
+                <FileText className="h-4 w-4 mr-1" /> Issue Invoice
+              </button>
+            )}
+            {canIssueCreditNote && (
+              <button
+                type="button"
+                onClick={openCreditNoteForm}
+                className="inline-flex items-center px-3 py-1.5 text-sm rounded-md text-white bg-red-600 hover:bg-red-700"
+              >
+                <FileMinus className="h-4 w-4 mr-1" /> Issue Credit Note
+              </button>
+            )}
+          </div>
+        )}
+
+        {mode === 'invoice' && (
+          <div className="p-3 bg-white border border-gray-200 rounded-md space-y-2">
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className="block text-xs text-gray-500 mb-1">Guest GSTIN (optional)</label>
+                <input
+                  type="text"
+                  value={customerGstin}
+                  onChange={(e) => handleGstinChange(e.target.value)}
+                  className={inputClass}
+                  disabled={saving}
+                  maxLength={15}
+                  placeholder="27ABCDE1234F1Z5"
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-gray-500 mb-1">Place of supply</label>
+                <select
+                  value={placeOfSupply}
+                  onChange={(e) => setPlaceOfSupply(e.target.value)}
+                  className={inputClass}
+                  disabled={saving}
+                >
+                  {INDIAN_STATES.map((state) => (
+                    <option key={state.code} value={state.code}>
+                      {state.code} - {state.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs text-gray-500 mb-1">Billing address (optional)</label>
+                <input
+                  type="text"
+                  value={customerAddress}
+                  onChange={(e) => setCustomerAddress(e.target.value)}
+                  className={inputClass}
+                  disabled={saving}
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-gray-500 mb-1">
+                  Food value incl. GST (₹){booking.mealCount > 0 && ` – ${booking.mealCount} meal guests`}
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  max={booking.totalAmount}
+                  value={foodAmount}
+                  onChange={(e) => setFoodAmount(e.target.value)}
+                  className={inputClass}
+                  disabled={saving}
+                />
+              </div>
+            </div>
+            <TaxPreview lines={invoiceLines} />
+            <div className="flex justify-end space-x-2">
+              <button
+                type="button"
+                onClick={() => setMode(null)}
+                disabled={saving}
+                className="px-3 py-1.5 text-sm border border-gray-300 rounded-md text-gray-700 bg-white hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={handleIssueInvoice}
+                disabled={saving || invoiceLines.length === 0}
+                className="px-3 py-1.5 text-sm rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+              >
+                {saving ? 'Issuing...' : 'Issue Invoice'}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {mode === 'credit-note' && invoice && (
+          <div className="p-3 bg-white border border-red-200 rounded-md space-y-2">
+            <p className="text-xs text-gray-500">
+              Against {invoice.invoice_number} ({formatAmount(invoice.total)}). {formatAmount(retained)} kept after refunds
+              stays invoiced.
+            </p>
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className="block text-xs text-gray-500 mb-1">Credit amount incl. GST (₹)</label>
+                <input
+                  type="number"
+                  min="1"
+                  max={creditable}
+                  value={creditAmount}
+                  onChange={(e) => setCreditAmount(e.target.value)}
+                  className={inputClass}
+                  disabled={saving}
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-gray-500 mb-1">Reason *</label>
+                <input
+                  type="text"
+                  value={creditReason}
+                  onChange={(e) => setCreditReason(e.target.value)}
+                  className={inputClass}
+                  disabled={saving}
+                />
+              </div>
+            </div>
+            <TaxPreview lines={creditLines} />
+            <div className="flex justify-end space-x-2">
+              <button
+                type="button"
+                onClick={() => setMode(null)}
+                disabled={saving}
+                className="px-3 py-1.5 text-sm border border-gray-300 rounded-md text-gray-700 bg-white hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={handleIssueCreditNote}
+                disabled={saving || creditLines.length === 0 || !creditReason.trim()}
+                className="px-3 py-1.5 text-sm rounded-md text-white bg-red-600 hover:bg-red-700 disabled:opacity-50"
+              >
+                {saving ? 'Issuing...' : 'Issue Credit Note'}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BookingInvoices;
@@ -0,0 +1,237 @@
+import React, { useEffect, useState } from 'react';
+import { Bell, Mail, MessageCircle, RotateCcw, Send, X } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { getErrorMessage, isCanceled } from '../lib/api';
+import {
+  MAX_DELIVERY_ATTEMPTS,
+  NOTIFICATION_CHANNELS,
+  NOTIFICATION_EVENTS,
+  cancelNotification,
+  fetchBookingNotifications,
+  getNotificationStatusColor,
+  getNotificationTransport,
+  queueNotification,
+  retryNotification,
+  subscribeNotifications,
+  toWhatsAppNumber,
+  type NotificationChannel,
+  type NotificationEvent,
+  type NotificationMessage,
+} from '../lib/notifications';
+
+interface BookingNotificationsProps {
+  bookingId: number;
+  booking: {
+    bookingRef: string;
+    email?: string;
+    phone?: string;
+  };
+}
+
+const formatTime = (value: string) =>
+  new Date(value).toLocaleString('en-IN', { day: '2-digit', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+const inputClass =
+  'block w-full border border-gray-300 rounded-md shadow-sm py-1.5 px-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-sm';
+
+const BookingNotifications: React.FC<BookingNotificationsProps> = ({ bookingId, booking }) => {
+  const { can } = useAuth();
+  const [messages, setMessages] = useState<NotificationMessage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [event, setEvent] = useState<NotificationEvent>('booking-confirmed');
+  const [channels, setChannels] = useState<NotificationChannel[]>(['email', 'whatsapp']);
+  const [error, setError] = useState<string | null>(null);
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  // Reloads whenever this session queues, delivers or updates a message
+  useEffect(() => subscribeNotifications(() => setRefreshKey((key) => key + 1)), []);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    fetchBookingNotifications(bookingId, controller.signal)
+      .then(setMessages)
+      .catch((err) => {
+        if (isCanceled(err)) return;
+        console.error('Error fetching notifications:', err);
+        setError(getErrorMessage(err, 'Failed to load notifications'));
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false);
+      });
+
+    return () => controller.abort();
+  }, [bookingId, refreshKey]);
+
+  const canSend = can('bookings:edit');
+  const reachable: Record<NotificationChannel, boolean> = {
+    email: !!booking.email,
+    whatsapp: !!toWhatsAppNumber(booking.phone),
+  };
+
+  const toggleChannel = (channel: NotificationChannel) => {
+    setChannels((prev) => (prev.includes(channel) ? prev.filter((value) => value !== channel) : [...prev, channel]));
+  };
+
+  const runAction = async (action: () => Promise<void>, fallback: string) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      console.error(`${fallback}:`, err);
+      setError(getErrorMessage(err, fallback));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleQueue = () =>
+    runAction(async () => {
+      const queued = await queueNotification({
+        bookingId,
+        bookingRef: booking.bookingRef,
+        event,
+        email: booking.email,
+        phone: booking.phone,
+        channels,
+      });
+      if (queued.length === 0) setError('The guest has no email address or WhatsApp number for the selected channels');
+    }, 'Failed to queue message');
+
+  return (
+    <div>
+      <h4 className="text-sm font-medium text-gray-500 mb-2 flex items-center">
+        <Bell className="h-4 w-4 mr-1" /> Guest Notifications
+        <span className="ml-2 text-xs font-normal text-gray-400">via {getNotificationTransport().label}</span>
+      </h4>
+      <div className="bg-gray-50 p-3 rounded-md space-y-3">
+        {canSend && (
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value={event}
+              onChange={(e) => setEvent(e.target.value as NotificationEvent)}
+              className={`${inputClass} w-auto`}
+              aria-label="Message"
+            >
+              {(Object.keys(NOTIFICATION_EVENTS) as NotificationEvent[]).map((key) => (
+                <option key={key} value={key}>
+                  {NOTIFICATION_EVENTS[key].label}
+                </option>
+              ))}
+            </select>
+            {NOTIFICATION_CHANNELS.map((channel) => (
+              <label key={channel.value} className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={channels.includes(channel.value) && reachable[channel.value]}
+                  onChange={() => toggleChannel(channel.value)}
+                  disabled={!reachable[channel.value]}
+                  className="h-4 w-4 text-blue-600 border-gray-300 rounded mr-1"
+                />
+                {channel.label}
+              </label>
+            ))}
+            <button
+              type="button"
+              onClick={handleQueue}
+              disabled={busy || !channels.some((channel) => reachable[channel])}
+              className="flex items-center px-3 py-1.5 rounded-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+            >
+              <Send className="h-4 w-4 mr-1" /> Send
+            </button>
+          </div>
+        )}
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {loading ? (
+          <p className="text-sm text-gray-500">Loading messages...</p>
+        ) : messages.length === 0 ? (
+          <p className="text-sm text-gray-500">No messages sent for this booking yet.</p>
+        ) : (
+          <div className="divide-y divide-gray-200">
+            {messages.map((message) => (
+              <div key={message.id} className="py-2">
+                <div className="flex justify-between items-start">
+                  <button
+                    type="button"
+                    onClick={() => setExpandedId(expandedId === message.id ? null : message.id)}
+                    className="text-left"
+                    disabled={!message.body}
+                  >
+                    <p className="text-sm font-medium text-gray-900 flex items-center">
+                      {message.channel === 'email' ? (
+                        <Mail className="h-4 w-4 mr-1 text-gray-400" />
+                      ) : (
+                        <MessageCircle className="h-4 w-4 mr-1 text-gray-400" />
+                      )}
+                      {NOTIFICATION_EVENTS[message.event].label}
+                      <span className="ml-2 text-xs font-normal text-gray-500">{message.recipient}</span>
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {message.sent_at
+                        ? `Sent ${formatTime(message.sent_at)}`
+                        : message.status === 'queued'
+                        ? `${message.attempts > 0 ? 'Retrying' : 'Scheduled for'} ${formatTime(message.send_after)}`
+                        : `Queued ${formatTime(message.created_at)}`}
+                      {message.attempts > 0 && ` • Attempt ${message.attempts} of ${MAX_DELIVERY_ATTEMPTS}`}
+                    </p>
+                    {message.last_error && <p className="text-xs text-red-600">{message.last_error}</p>}
+                  </button>
+                  <div className="flex items-center space-x-2">
+                    <span className={`px-2 py-1 text-xs rounded-full ${getNotificationStatusColor(message.status)}`}>
+                      {message.status}
+                    </span>
+                    {canSend && (message.status === 'failed' || message.status === 'skipped') && (
+                      <button
+                        type="button"
+                        onClick={() => runAction(() => retryNotification(message.id), 'Failed to retry message')}
+                        disabled={busy}
+                        className="text-blue-600 hover:text-blue-900"
+                        title="Send again"
+                      >
+                        <RotateCcw className="h-4 w-4" />
+                      </button>
+                    )}
+                    {canSend && message.status === 'queued' && (
+                      <button
+                        type="button"
+                        onClick={() => runAction(() => cancelNotification(message.id), 'Failed to cancel message')}
+                        disabled={busy}
+                        className="text-red-600 hover:text-red-900"
+                        title="Cancel message"
+                      >
+                        <X className="h-4 w-4" />
+                      </button>
+                    )}
+                  </div>
+                </div>
+
+                {expandedId === message.id && message.body && (
+                  <div className="mt-2 p-2 bg-white border border-gray-200 rounded-md text-xs text-gray-700">
+                    {message.channel === 'email' ? (
+                      <>
+                        <p className="mb-1">
+                          Subject: <span className="font-medium">{message.subject}</span>
+                        </p>
+                        {/* Sandboxed so template markup can't run scripts in the admin */}
+                        <iframe title="Email preview" sandbox="" srcDoc={message.body} className="w-full h-64 border-0" />
+                      </>
+                    ) : (
+                      <p className="whitespace-pre-wrap">{message.body}</p>
+                    )}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BookingNotifications;
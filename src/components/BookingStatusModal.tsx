@@ -0,0 +1,312 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { X, AlertCircle, RefreshCw } from 'lucide-react';
+import { api, getErrorMessage, isCanceled, unwrap } from '../lib/api';
+import {
+  BOOKING_TRANSITIONS,
+  getBookingStatusLabel,
+  type BookingStatus,
+  type BookingTransition,
+} from '../lib/bookingStatus';
+import { formatDocumentAmount, formatDocumentDate } from '../lib/bookingDocuments';
+import { parseLocalDate } from '../lib/bookingQueries';
+import { calculateRefund } from '../lib/cancellationPolicy';
+import { cancelScheduledNotifications, queueNotification, scheduleStayNotifications } from '../lib/notifications';
+import { fetchPayments, getLedgerTotals } from '../lib/payments';
+
+interface Booking {
+  id: number;
+  bookingId: string;
+  guest: string;
+  email?: string;
+  phone?: string;
+  bookingStatus: BookingStatus;
+  rawData?: {
+    check_in: string;
+    total_amount: string;
+  };
+}
+
+interface BookingStatusModalProps {
+  booking: Booking;
+  transition: BookingTransition;
+  onClose: () => void;
+  onStatusChanged?: () => void;
+}
+
+const BookingStatusModal: React.FC<BookingStatusModalProps> = ({
+  booking,
+  transition,
+  onClose,
+  onStatusChanged
+}) => {
+  const { label, to } = BOOKING_TRANSITIONS[transition];
+  const isCancel = transition === 'cancel';
+
+  const checkIn = booking.rawData?.check_in;
+  // Check-in is a calendar day, compared against the local day the cancellation is made
+  const checkInDate = useMemo(() => (checkIn ? parseLocalDate(checkIn) : new Date()), [checkIn]);
+  const totalAmount = parseFloat(booking.rawData?.total_amount || '0') || 0;
+
+  // What the guest has paid so far comes from the payment ledger; null until it loads
+  const [paidToDate, setPaidToDate] = useState<number | null>(isCancel ? null : 0);
+  const quote = useMemo(
+    () => calculateRefund(paidToDate ?? 0, checkInDate),
+    [paidToDate, checkInDate]
+  );
+
+  const [reason, setReason] = useState('');
+  const [refundAmount, setRefundAmount] = useState('0');
+  const [refundMethod, setRefundMethod] = useState('bank');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isCancel) return;
+    const controller = new AbortController();
+
+    fetchPayments(booking.id, controller.signal)
+      .then((entries) => {
+        const { net } = getLedgerTotals(totalAmount, entries);
+        setPaidToDate(net);
+        setRefundAmount(calculateRefund(net, checkInDate).refundAmount.toString());
+      })
+      .catch((err) => {
+        if (isCanceled(err)) return;
+        console.error('Error fetching payments:', err);
+        setError(getErrorMessage(err, 'Failed to load payments'));
+      });
+
+    return () => controller.abort();
+  }, [booking.id, isCancel, totalAmount, checkInDate]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError(null);
+
+    try {
+      const refund = isCancel ? parseInt(refundAmount || '0', 10) : 0;
+
+      if (isCancel && !reason.trim()) {
+        throw new Error('Please enter a cancellation reason');
+      }
+      if (isCancel && paidToDate === null) {
+        throw new Error('Payments for this booking could not be loaded. Close and try again.');
+      }
+      if (isCancel && (isNaN(refund) || refund < 0 || refund > (paidToDate ?? 0))) {
+        throw new Error('Refund must be between ₹0 and the amount paid');
+      }
+
+      // The refund is sent with the status change so the backend cancels the booking and records the
+      // negative payment entry together; a failure leaves the booking as it was for a retry
+      const refundEntry =
+        isCancel && refund > 0
+          ? {
+              amount: -refund,
+              type: 'refund',
+              payment_method: refundMethod,
+              notes: `Cancellation refund (${quote.refundPercent}% – ${quote.tier.label}). Reason: ${reason.trim()}`,
+            }
+          : undefined;
+
+      const response = await api.patch(
+        `/bookings/${booking.id}/status`,
+        {
+          status: to,
+          reason: reason.trim() || undefined,
+          ...(isCancel ? { refund_amount: refund, policy_tier: quote.tier.label, refund: refundEntry } : {}),
+        },
+        {
+          audit: {
+            action: `booking.${transition}`,
+            entityType: 'booking',
+            entityId: booking.id,
+            summary: `${label} ${booking.bookingId}${reason.trim() ? `: ${reason.trim()}` : ''}`,
+            before: { status: booking.bookingStatus },
+            after: { status: to, ...(isCancel ? { refund_amount: refund, refund_method: refundEntry?.payment_method } : {}) },
+          }
+        }
+      );
+      unwrap(response.data);
+
+      const recipient = { bookingId: booking.id, bookingRef: booking.bookingId, email: booking.email, phone: booking.phone };
+      if (isCancel) {
+        cancelScheduledNotifications(booking.id, 'Booking is cancelled').catch((err) =>
+          console.error('Error cancelling scheduled notifications:', err)
+        );
+        queueNotification({
+          ...recipient,
+          event: 'cancellation',
+          values: {
+            cancellation_date: formatDocumentDate(new Date().toISOString()),
+            cancellation_reason: reason.trim(),
+            refund_amount: refund > 0 ? formatDocumentAmount(refund) : '',
+          },
+        }).catch((err) => console.error('Error queueing cancellation notification:', err));
+      } else if (transition === 'confirm') {
+        Promise.all([
+          queueNotification({ ...recipient, event: 'booking-confirmed' }),
+          booking.rawData?.check_in && scheduleStayNotifications({ ...recipient, checkIn: booking.rawData.check_in }),
+        ]).catch((err) => console.error('Error queueing confirmation notifications:', err));
+      }
+
+      if (onStatusChanged) {
+        onStatusChanged();
+      }
+      onClose();
+    } catch (err) {
+      console.error('Error updating booking status:', err);
+      setError(getErrorMessage(err, 'Failed to update booking status'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex items-end justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+        <div className="fixed inset-0 transition-opacity" aria-hidden="true">
+          <div className="absolute inset-0 bg-gray-500 opacity-75" onClick={onClose}></div>
+        </div>
+
+        <span className="hidden sm:inline-block sm:align-middle sm:h-screen" aria-hidden="true">&#8203;</span>
+
+        <div className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-lg sm:w-full">
+          <div className="bg-white px-4 pt-5 pb-4 sm:p-6 sm:pb-4">
+            <div className="flex justify-between items-center border-b pb-3">
+              <h3 className="text-lg leading-6 font-medium text-gray-900 flex items-center">
+                <RefreshCw className="h-5 w-5 text-blue-500 mr-2" />
+                {label} {booking.bookingId}
+              </h3>
+              <button
+                onClick={onClose}
+                className="bg-white rounded-md text-gray-400 hover:text-gray-500 focus:outline-none"
+                disabled={loading}
+              >
+                <span className="sr-only">Close</span>
+                <X className="h-6 w-6" />
+              </button>
+            </div>
+
+            <p className="mt-3 text-sm text-gray-500">
+              Guest: <span className="font-medium text-gray-700">{booking.guest}</span>
+            </p>
+            <p className="mt-1 text-sm text-gray-500">
+              Status: <span className="font-medium text-gray-700">{getBookingStatusLabel(booking.bookingStatus)}</span>
+              {' → '}
+              <span className="font-medium text-gray-700">{getBookingStatusLabel(to)}</span>
+            </p>
+
+            {error && (
+              <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-md">
+                <div className="flex">
+                  <AlertCircle className="h-5 w-5 text-red-400 mr-2 flex-shrink-0 mt-0.5" />
+                  <div className="text-sm text-red-700">{error}</div>
+                </div>
+              </div>
+            )}
+
+            <form onSubmit={handleSubmit} className="mt-4 space-y-4">
+              {isCancel && (
+                <div className="p-3 bg-gray-50 border border-gray-200 rounded-md text-sm text-gray-700 space-y-1">
+                  <div className="flex justify-between">
+                    <span>Paid to date</span>
+                    <span className="font-medium">
+                      {paidToDate === null ? '…' : `₹${paidToDate.toLocaleString('en-IN')}`}
+                    </span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span>Days before check-in</span>
+                    <span className="font-medium">{quote.daysBeforeCheckIn}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span>Policy</span>
+                    <span className="font-medium">{quote.tier.label} ({quote.refundPercent}% refund)</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span>Refundable</span>
+                    <span className="font-medium text-green-600">₹{quote.refundAmount.toLocaleString('en-IN')}</span>
+                  </div>
+                </div>
+              )}
+
+              <div>
+                <label htmlFor="status-reason" className="block text-sm font-medium text-gray-700 mb-1">
+                  {isCancel ? 'Cancellation Reason *' : 'Notes (Optional)'}
+                </label>
+                <textarea
+                  id="status-reason"
+                  rows={2}
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                  disabled={loading}
+                  required={isCancel}
+                />
+              </div>
+
+              {isCancel && paidToDate !== null && paidToDate > 0 && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label htmlFor="refund-amount" className="block text-sm font-medium text-gray-700 mb-1">
+                      Refund Amount (₹)
+                    </label>
+                    <input
+                      type="number"
+                      id="refund-amount"
+                      value={refundAmount}
+                      onChange={(e) => setRefundAmount(e.target.value)}
+                      min="0"
+                      max={paidToDate}
+                      className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                      disabled={loading}
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="refund-method" className="block text-sm font-medium text-gray-700 mb-1">
+                      Refund Method
+                    </label>
+                    <select
+                      id="refund-method"
+                      value={refundMethod}
+                      onChange={(e) => setRefundMethod(e.target.value)}
+                      className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                      disabled={loading}
+                    >
+                      <option value="bank">Bank Transfer</option>
+                      <option value="upi">UPI</option>
+                      <option value="cash">Cash</option>
+                      <option value="card">Card Reversal</option>
+                    </select>
+                  </div>
+                </div>
+              )}
+            </form>
+          </div>
+          <div className="bg-gray-50 px-4 py-3 sm:px-6 sm:flex sm:flex-row-reverse">
+            <button
+              type="submit"
+              onClick={handleSubmit}
+              disabled={loading || (isCancel && (!reason.trim() || paidToDate === null))}
+              className={`w-full inline-flex justify-center rounded-md border border-transparent shadow-sm px-4 py-2 text-base font-medium text-white focus:outline-none focus:ring-2 focus:ring-offset-2 sm:ml-3 sm:w-auto sm:text-sm disabled:opacity-50 disabled:cursor-not-allowed ${
+                isCancel ? 'bg-red-600 hover:bg-red-700 focus:ring-red-500' : 'bg-blue-600 hover:bg-blue-700 focus:ring-blue-500'
+              }`}
+            >
+              {loading ? 'Saving...' : label}
+            </button>
+            <button
+              type="button"
+              onClick={onClose}
+              disabled={loading}
+              className="mt-3 w-full inline-flex justify-center rounded-md border border-gray-300 shadow-sm px-4 py-2 bg-white text-base font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 sm:mt-0 sm:ml-3 sm:w-auto sm:text-sm"
+            >
+              Close
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BookingStatusModal;
@@ -0,0 +1,76 @@
+import React from 'react';
+
+export interface ComparisonBarChartItem {
+  label: string;
+  current: number;
+  // Same period a year earlier; omit to draw a single series
+  previous?: number;
+}
+
+interface ComparisonBarChartProps {
+  data: ComparisonBarChartItem[];
+  formatValue?: (value: number) => string;
+  currentLabel?: string;
+  previousLabel?: string;
+  height?: number;
+}
+
+const ComparisonBarChart: React.FC<ComparisonBarChartProps> = ({
+  data,
+  formatValue = (value) => value.toLocaleString('en-IN'),
+  currentLabel = 'This period',
+  previousLabel = 'Previous year',
+  height = 192,
+}) => {
+  const showPrevious = data.some(item => item.previous !== undefined);
+  const max = Math.max(1, ...data.flatMap(item => [item.current, item.previous ?? 0]));
+  const barHeight = (value: number) => `${Math.max(0, (value / max) * 100)}%`;
+
+  if (data.length === 0) {
+    return <p className="py-12 text-center text-sm text-gray-500">No data for this period</p>;
+  }
+
+  return (
+    <div>
+      {showPrevious && (
+        <div className="flex items-center justify-end space-x-4 mb-2 text-xs text-gray-500">
+          <span className="flex items-center">
+            <span className="h-2.5 w-2.5 rounded-sm bg-blue-600 mr-1" />
+            {currentLabel}
+          </span>
+          <span className="flex items-center">
+            <span className="h-2.5 w-2.5 rounded-sm bg-gray-300 mr-1" />
+            {previousLabel}
+          </span>
+        </div>
+      )}
+      <div className="flex items-end space-x-2 border-b border-gray-200" style={{ height }}>
+        {data.map(item => (
+          <div key={item.label} className="flex-1 flex items-end justify-center space-x-0.5 h-full min-w-0">
+            <div
+              className="w-full max-w-[2rem] bg-blue-600 rounded-t hover:bg-blue-700 transition-colors"
+              style={{ height: barHeight(item.current) }}
+              title={`${item.label} – ${currentLabel}: ${formatValue(item.current)}`}
+            />
+            {showPrevious && (
+              <div
+                className="w-full max-w-[2rem] bg-gray-300 rounded-t hover:bg-gray-400 transition-colors"
+                style={{ height: barHeight(item.previous ?? 0) }}
+                title={`${item.label} – ${previousLabel}: ${formatValue(item.previous ?? 0)}`}
+              />
+            )}
+          </div>
+        ))}
+      </div>
+      <div className="flex space-x-2 mt-1">
+        {data.map(item => (
+          <span key={item.label} className="flex-1 min-w-0 truncate text-center text-xs text-gray-500" title={item.label}>
+            {item.label}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ComparisonBarChart;
@@ -0,0 +1,123 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { AlertCircle, ArrowRight, GripVertical, X } from 'lucide-react';
+
+interface DashboardWidgetProps {
+  title: string;
+  icon?: React.ReactNode;
+  count?: number;
+  // Pre-filtered page the widget drills down into
+  link?: string;
+  linkLabel?: string;
+  loading?: boolean;
+  error?: string | null;
+  wide?: boolean;
+  // Render the content without the card chrome (for widgets made of their own cards)
+  bare?: boolean;
+  editing?: boolean;
+  dragging?: boolean;
+  dropTarget?: boolean;
+  dragProps?: React.HTMLAttributes<HTMLDivElement>;
+  onRemove?: () => void;
+  children: React.ReactNode;
+}
+
+const DashboardWidget: React.FC<DashboardWidgetProps> = ({
+  title,
+  icon,
+  count,
+  link,
+  linkLabel = 'View all',
+  loading = false,
+  error,
+  wide = false,
+  bare = false,
+  editing = false,
+  dragging = false,
+  dropTarget = false,
+  dragProps,
+  onRemove,
+  children
+}) => {
+  const editControls = editing && (
+    <div className="flex items-center space-x-1 text-gray-400">
+      <GripVertical className="h-4 w-4 cursor-move" />
+      {onRemove && (
+        <button
+          type="button"
+          onClick={onRemove}
+          className="p-0.5 rounded hover:text-red-600 hover:bg-red-50"
+          title={`Remove ${title}`}
+        >
+          <X className="h-4 w-4" />
+        </button>
+      )}
+    </div>
+  );
+
+  const body = loading ? (
+    <div className="space-y-2 p-4">
+      <div className="animate-pulse h-4 w-3/4 bg-gray-200 rounded"></div>
+      <div className="animate-pulse h-4 w-1/2 bg-gray-200 rounded"></div>
+    </div>
+  ) : error ? (
+    <div className="flex items-center p-4 text-sm text-red-600">
+      <AlertCircle className="h-4 w-4 mr-2 flex-shrink-0" />
+      {error}
+    </div>
+  ) : (
+    children
+  );
+
+  const containerClass = `${wide ? 'lg:col-span-2' : ''} ${dragging ? 'opacity-40' : ''} ${
+    dropTarget ? 'ring-2 ring-blue-500 rounded-lg' : ''
+  }`;
+
+  if (bare && !editing) {
+    return <div className={containerClass}>{body}</div>;
+  }
+
+  if (bare) {
+    return (
+      <div {...dragProps} className={`${containerClass} border-2 border-dashed border-gray-300 rounded-lg p-2`}>
+        <div className="flex items-center justify-between px-2 pb-2 text-sm font-medium text-gray-600">
+          {title}
+          {editControls}
+        </div>
+        {body}
+      </div>
+    );
+  }
+
+  return (
+    <div
+      {...(editing ? dragProps : {})}
+      className={`${containerClass} bg-white rounded-lg shadow flex flex-col ${editing ? 'border-2 border-dashed border-gray-300' : ''}`}
+    >
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+        <h3 className="flex items-center text-base font-medium text-gray-900">
+          {icon && <span className="mr-2">{icon}</span>}
+          {title}
+          {count !== undefined && !loading && (
+            <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-semibold bg-blue-100 text-blue-800">
+              {count}
+            </span>
+          )}
+        </h3>
+        {editControls}
+      </div>
+      <div className="flex-1">{body}</div>
+      {link && !editing && (
+        <Link
+          to={link}
+          className="flex items-center justify-end px-4 py-2 border-t border-gray-100 text-sm font-medium text-blue-600 hover:text-blue-800"
+        >
+          {linkLabel}
+          <ArrowRight className="h-4 w-4 ml-1" />
+        </Link>
+      )}
+    </div>
+  );
+};
+
+export default DashboardWidget;
@@ -3,9 +3,13 @@ import { Outlet } from 'react-router-dom';
 import Sidebar from './Sidebar';
 import Header from './Header';
 import MobileNav from './MobileNav';
+import { useAuth } from '../contexts/AuthContext';
+import { useNotificationQueue } from '../hooks/useNotificationQueue';
 
 const Layout: React.FC = () => {
   const [sidebarOpen, setSidebarOpen] = useState(false);
+  const { can } = useAuth();
+  useNotificationQueue(can('bookings:view'));
 
   const toggleSidebar = () => {
     setSidebarOpen(!sidebarOpen);
@@ -0,0 +1,251 @@
+import React, { useEffect, useState } from 'react';
+import { X, Search, UploadCloud, Loader, AlertCircle, Check, Image as ImageIcon } from 'lucide-react';
+import { getErrorMessage, isCanceled } from '../lib/api';
+import { fetchMedia, uploadMediaBatch, type MediaItem, type UploadProgress } from '../lib/media';
+import UploadProgressList from './UploadProgressList';
+
+interface MediaPickerModalProps {
+  // Allow picking several images at once (galleries, property photos)
+  multiple?: boolean;
+  title?: string;
+  onSelect: (items: MediaItem[]) => void;
+  onClose: () => void;
+}
+
+const PAGE_SIZE = 24;
+
+const MediaPickerModal: React.FC<MediaPickerModalProps> = ({
+  multiple = false,
+  title = 'Media Library',
+  onSelect,
+  onClose
+}) => {
+  const [items, setItems] = useState<MediaItem[]>([]);
+  const [selected, setSelected] = useState<MediaItem[]>([]);
+  const [search, setSearch] = useState('');
+  const [page, setPage] = useState(1);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const [uploads, setUploads] = useState<UploadProgress[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    const loadMedia = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const { items: pageItems, pagination } = await fetchMedia(
+          { search: search.trim() || undefined, page, limit: PAGE_SIZE },
+          controller.signal
+        );
+        setItems(prev => (page === 1 ? pageItems : [...prev, ...pageItems]));
+        setHasMore(pagination ? pagination.page < pagination.totalPages : pageItems.length === PAGE_SIZE);
+      } catch (err) {
+        if (isCanceled(err)) return;
+        console.error('Error fetching media:', err);
+        setError(getErrorMessage(err, 'Failed to load media library'));
+      } finally {
+        if (!controller.signal.aborted) setLoading(false);
+      }
+    };
+
+    // Debounce typing in the search box
+    const timer = setTimeout(loadMedia, search ? 300 : 0);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [search, page]);
+
+  const toggle = (item: MediaItem) => {
+    if (!multiple) {
+      setSelected([item]);
+      return;
+    }
+    setSelected(prev =>
+      prev.some(entry => entry.id === item.id) ? prev.filter(entry => entry.id !== item.id) : [...prev, item]
+    );
+  };
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    if (files.length === 0) return;
+
+    setUploading(true);
+    setError(null);
+    setUploads(files.map(file => ({ name: file.name, status: 'queued', progress: 0, attempt: 0 })));
+    try {
+      const results = await uploadMediaBatch(files, {
+        onUpdate: (index, progress) =>
+          setUploads(prev => prev.map((upload, i) => (i === index ? progress : upload))),
+      });
+      const uploaded = results.flatMap(result => (result.item ? [result.item] : []));
+      setItems(prev => [...uploaded, ...prev]);
+      // Freshly uploaded images are almost always the ones being picked
+      setSelected(prev => (multiple ? [...prev, ...uploaded] : uploaded.slice(-1)));
+      if (uploaded.length < files.length) {
+        setError(`${files.length - uploaded.length} image(s) failed to upload`);
+      } else {
+        setUploads([]);
+      }
+    } finally {
+      setUploading(false);
+      e.target.value = '';
+    }
+  };
+
+  const handleConfirm = () => {
+    onSelect(selected);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex items-end justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+        <div className="fixed inset-0 transition-opacity" aria-hidden="true">
+          <div className="absolute inset-0 bg-gray-500 opacity-75" onClick={onClose}></div>
+        </div>
+
+        <span className="hidden sm:inline-block sm:align-middle sm:h-screen" aria-hidden="true">&#8203;</span>
+
+        <div className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-4xl sm:w-full">
+          <div className="bg-white px-4 pt-5 pb-4 sm:p-6 sm:pb-4">
+            <div className="flex justify-between items-center border-b pb-3">
+              <h3 className="text-lg leading-6 font-medium text-gray-900 flex items-center">
+                <ImageIcon className="h-5 w-5 text-blue-500 mr-2" />
+                {title}
+              </h3>
+              <button
+                type="button"
+                onClick={onClose}
+                className="bg-white rounded-md text-gray-400 hover:text-gray-500 focus:outline-none"
+              >
+                <span className="sr-only">Close</span>
+                <X className="h-6 w-6" />
+              </button>
+            </div>
+
+            <div className="mt-4 flex flex-col sm:flex-row gap-3">
+              <div className="relative flex-1">
+                <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                  <Search className="h-4 w-4 text-gray-400" />
+                </div>
+                <input
+                  type="text"
+                  value={search}
+                  onChange={(e) => {
+                    setSearch(e.target.value);
+                    setPage(1);
+                  }}
+                  placeholder="Search by file name or alt text"
+                  className="block w-full pl-9 pr-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+              <label className="inline-flex items-center justify-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 cursor-pointer">
+                {uploading ? <Loader className="h-4 w-4 mr-2 animate-spin" /> : <UploadCloud className="h-4 w-4 mr-2" />}
+                {uploading ? 'Uploading...' : 'Upload New'}
+                <input
+                  type="file"
+                  accept="image/*"
+                  multiple={multiple}
+                  className="sr-only"
+                  onChange={handleUpload}
+                  disabled={uploading}
+                />
+              </label>
+            </div>
+
+            {error && (
+              <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-md">
+                <div className="flex">
+                  <AlertCircle className="h-5 w-5 text-red-400 mr-2 flex-shrink-0 mt-0.5" />
+                  <div className="text-sm text-red-700">{error}</div>
+                </div>
+              </div>
+            )}
+
+            {uploads.length > 0 && (
+              <div className="mt-4">
+                <UploadProgressList uploads={uploads} onDismiss={() => setUploads([])} />
+              </div>
+            )}
+
+            <div className="mt-4 max-h-[28rem] overflow-y-auto">
+              {items.length === 0 && !loading ? (
+                <p className="py-12 text-center text-sm text-gray-500">
+                  {search ? 'No images match your search.' : 'The library is empty. Upload an image to get started.'}
+                </p>
+              ) : (
+                <div className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-6 gap-3">
+                  {items.map(item => {
+                    const isSelected = selected.some(entry => entry.id === item.id);
+                    return (
+                      <button
+                        type="button"
+                        key={item.id}
+                        onClick={() => toggle(item)}
+                        className={`relative aspect-square rounded-md overflow-hidden border-2 focus:outline-none ${
+                          isSelected ? 'border-blue-600 ring-2 ring-blue-300' : 'border-transparent hover:border-gray-300'
+                        }`}
+                        title={item.alt_text || item.filename}
+                      >
+                        <img src={item.thumbnail_url || item.url} alt={item.alt_text} className="h-full w-full object-cover" loading="lazy" />
+                        {isSelected && (
+                          <span className="absolute top-1 right-1 bg-blue-600 rounded-full p-0.5">
+                            <Check className="h-3 w-3 text-white" />
+                          </span>
+                        )}
+                      </button>
+                    );
+                  })}
+                </div>
+              )}
+
+              {loading && (
+                <div className="flex justify-center py-6">
+                  <Loader className="h-6 w-6 animate-spin text-blue-600" />
+                </div>
+              )}
+              {hasMore && !loading && (
+                <div className="flex justify-center py-4">
+                  <button
+                    type="button"
+                    onClick={() => setPage(prev => prev + 1)}
+                    className="px-4 py-2 border border-gray-300 rounded-md text-sm text-gray-700 bg-white hover:bg-gray-50"
+                  >
+                    Load more
+                  </button>
+                </div>
+              )}
+            </div>
+          </div>
+          <div className="bg-gray-50 px-4 py-3 sm:px-6 sm:flex sm:flex-row-reverse sm:items-center">
+            <button
+              type="button"
+              onClick={handleConfirm}
+              disabled={selected.length === 0 || uploading}
+              className="w-full inline-flex justify-center rounded-md border border-transparent shadow-sm px-4 py-2 bg-blue-600 text-base font-medium text-white hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 sm:ml-3 sm:w-auto sm:text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {multiple && selected.length > 1 ? `Use ${selected.length} Images` : 'Use Image'}
+            </button>
+            <button
+              type="button"
+              onClick={onClose}
+              className="mt-3 w-full inline-flex justify-center rounded-md border border-gray-300 shadow-sm px-4 py-2 bg-white text-base font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 sm:mt-0 sm:ml-3 sm:w-auto sm:text-sm"
+            >
+              Cancel
+            </button>
+            {selected.length > 0 && (
+              <span className="mt-3 sm:mt-0 sm:mr-auto text-sm text-gray-500">{selected.length} selected</span>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MediaPickerModal;
@@ -1,19 +1,24 @@
 import React from 'react';
 import { NavLink } from 'react-router-dom';
 import { Home, Building2, Image, Coffee, Calendar, Ticket, FileText, Grid, Package, Users } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import type { Capability } from '../lib/permissions';
 
 const MobileNav: React.FC = () => {
-  const navItems = [
-    { name: 'Dashboard', path: '/', icon: <Home size={20} /> },
-    { name: 'Accommodations', path: '/accommodations', icon: <Building2 size={20} /> },
-    { name: 'Bookings', path: '/bookings', icon: <Calendar size={20} /> },
-    { name: 'Coupons', path: '/coupons', icon: <Ticket size={20} /> },
-    { name: 'Users', path: '/users', icon: <Users size={20} /> },
+  const { can } = useAuth();
+
+  const allItems: { name: string; path: string; icon: React.ReactNode; capability: Capability }[] = [
+    { name: 'Dashboard', path: '/', icon: <Home size={20} />, capability: 'dashboard:view' },
+    { name: 'Accommodations', path: '/accommodations', icon: <Building2 size={20} />, capability: 'properties:view' },
+    { name: 'Bookings', path: '/bookings', icon: <Calendar size={20} />, capability: 'bookings:view' },
+    { name: 'Coupons', path: '/coupons', icon: <Ticket size={20} />, capability: 'coupons:view' },
+    { name: 'Users', path: '/users', icon: <Users size={20} />, capability: 'users:manage' },
   ];
+  const navItems = allItems.filter((item) => can(item.capability));
 
   return (
     <div className="fixed bottom-0 left-0 right-0 bg-white border-t border-gray-200 z-10">
-      <div className="grid grid-cols-5">
+      <div className="grid" style={{ gridTemplateColumns: `repeat(${navItems.length}, minmax(0, 1fr))` }}>
         {navItems.map((item) => (
           <NavLink
             key={item.name}
@@ -0,0 +1,409 @@
+import React, { useEffect, useState } from 'react';
+import { AlertCircle, Ban, CreditCard, FileDown, Pencil } from 'lucide-react';
+import { getErrorMessage, isCanceled } from '../lib/api';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  PAYMENT_METHOD_OPTIONS,
+  fetchPayments,
+  formatReceiptNumber,
+  getLedgerTotals,
+  getPaymentMethodLabel,
+  isRefund,
+  isVoided,
+  updatePayment,
+  voidPayment,
+  type PaymentEntry,
+} from '../lib/payments';
+import { downloadPaymentReceipt, type ReceiptBooking } from '../lib/receipts';
+
+interface PaymentLedgerProps {
+  bookingId: number;
+  booking: ReceiptBooking;
+  // Called after an entry is corrected or voided so the caller can refresh its totals
+  onChange?: () => void;
+}
+
+interface EntryDraft {
+  amount: string;
+  payment_method: string;
+  transaction_id: string;
+  notes: string;
+  reason: string;
+}
+
+const formatAmount = (amount: number) => `₹${amount.toLocaleString('en-IN')}`;
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric' });
+
+const inputClass =
+  'block w-full border border-gray-300 rounded-md shadow-sm py-1.5 px-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-sm';
+
+const PaymentLedger: React.FC<PaymentLedgerProps> = ({ bookingId, booking, onChange }) => {
+  const { can } = useAuth();
+  const [entries, setEntries] = useState<PaymentEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [refreshKey, setRefreshKey] = useState(0);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [voidingId, setVoidingId] = useState<number | null>(null);
+  const [draft, setDraft] = useState<EntryDraft | null>(null);
+  const [voidReason, setVoidReason] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [downloadingId, setDownloadingId] = useState<number | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setLoading(true);
+    setError(null);
+
+    fetchPayments(bookingId, controller.signal)
+      .then(setEntries)
+      .catch((err) => {
+        if (isCanceled(err)) return;
+        console.error('Error fetching payments:', err);
+        setError(getErrorMessage(err, 'Failed to load payments'));
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false);
+      });
+
+    return () => controller.abort();
+  }, [bookingId, refreshKey]);
+
+  const totals = getLedgerTotals(booking.totalAmount, entries);
+  const canAdjust = can('payments:adjust');
+
+  const closeForms = () => {
+    setEditingId(null);
+    setVoidingId(null);
+    setDraft(null);
+    setVoidReason('');
+  };
+
+  const startEdit = (entry: PaymentEntry) => {
+    closeForms();
+    setEditingId(entry.id);
+    setDraft({
+      amount: Math.abs(entry.amount).toString(),
+      payment_method: entry.payment_method,
+      transaction_id: entry.transaction_id || '',
+      notes: entry.notes || '',
+      reason: '',
+    });
+  };
+
+  const startVoid = (entry: PaymentEntry) => {
+    closeForms();
+    setVoidingId(entry.id);
+  };
+
+  const afterChange = () => {
+    closeForms();
+    setRefreshKey((key) => key + 1);
+    onChange?.();
+  };
+
+  const handleSaveEdit = async (entry: PaymentEntry) => {
+    if (!draft) return;
+    const amount = parseFloat(draft.amount);
+    if (isNaN(amount) || amount <= 0) {
+      setError('Please enter a valid amount');
+      return;
+    }
+    if (!draft.reason.trim()) {
+      setError('Please give a reason for the correction');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      await updatePayment(
+        bookingId,
+        booking.bookingRef,
+        entry,
+        {
+          // Refunds keep their sign; the form always edits the absolute amount
+          amount: isRefund(entry) ? -amount : amount,
+          payment_method: draft.payment_method,
+          transaction_id: draft.transaction_id.trim() || undefined,
+          notes: draft.notes.trim() || undefined,
+        },
+        draft.reason.trim()
+      );
+      afterChange();
+    } catch (err) {
+      console.error('Error updating payment:', err);
+      setError(getErrorMessage(err, 'Failed to update payment'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleVoid = async (entry: PaymentEntry) => {
+    if (!voidReason.trim()) {
+      setError('Please give a reason for voiding this entry');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      await voidPayment(bookingId, booking.bookingRef, entry, voidReason.trim());
+      afterChange();
+    } catch (err) {
+      console.error('Error voiding payment:', err);
+      setError(getErrorMessage(err, 'Failed to void payment'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDownloadReceipt = async (entry: PaymentEntry) => {
+    setDownloadingId(entry.id);
+    try {
+      await downloadPaymentReceipt(booking, entry, totals);
+    } catch (err) {
+      console.error('Receipt generation failed:', err);
+      setError('Failed to generate receipt');
+    } finally {
+      setDownloadingId(null);
+    }
+  };
+
+  return (
+    <div>
+      <h4 className="text-sm font-medium text-gray-500 mb-2 flex items-center">
+        <CreditCard className="h-4 w-4 mr-1" /> Payment Ledger
+      </h4>
+      <div className="bg-gray-50 p-3 rounded-md space-y-3">
+        <div className="grid grid-cols-4 gap-3">
+          <div>
+            <p className="text-xs text-gray-500">Total Amount</p>
+            <p className="text-sm font-medium text-gray-900">{formatAmount(booking.totalAmount)}</p>
+          </div>
+          <div>
+            <p className="text-xs text-gray-500">Paid</p>
+            <p className="text-sm font-medium text-gray-900">{loading ? '…' : formatAmount(totals.paid)}</p>
+          </div>
+          <div>
+            <p className="text-xs text-gray-500">Refunded</p>
+            <p className="text-sm font-medium text-gray-900">{loading ? '…' : formatAmount(totals.refunded)}</p>
+          </div>
+          <div>
+            <p className="text-xs text-gray-500">Remaining</p>
+            <p className={`text-sm font-medium ${totals.remaining > 0 ? 'text-red-600' : 'text-green-600'}`}>
+              {loading ? '…' : formatAmount(totals.remaining)}
+            </p>
+          </div>
+        </div>
+
+        {error && (
+          <div className="flex items-start p-2 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+            <AlertCircle className="h-4 w-4 mr-2 flex-shrink-0 mt-0.5" />
+            {error}
+          </div>
+        )}
+
+        {loading ? (
+          <div className="space-y-2">
+            <div className="animate-pulse h-4 w-3/4 bg-gray-200 rounded"></div>
+            <div className="animate-pulse h-4 w-1/2 bg-gray-200 rounded"></div>
+          </div>
+        ) : entries.length === 0 ? (
+          <p className="text-sm text-gray-500">No payments recorded yet.</p>
+        ) : (
+          <div className="divide-y divide-gray-200">
+            {entries.map((entry) => {
+              const voided = isVoided(entry);
+              return (
+                <div key={entry.id} className="py-2">
+                  <div className="flex justify-between items-start">
+                    <div className={voided ? 'opacity-60' : ''}>
+                      <p className={`text-sm font-medium ${isRefund(entry) ? 'text-red-600' : 'text-gray-900'} ${voided ? 'line-through' : ''}`}>
+                        {isRefund(entry) ? '−' : ''}
+                        {formatAmount(Math.abs(entry.amount))}
+                        <span className="ml-2 text-xs font-normal text-gray-500">{formatReceiptNumber(entry)}</span>
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {isRefund(entry) ? 'Refund • ' : ''}
+                        {getPaymentMethodLabel(entry.payment_method)} • {formatDate(entry.created_at)}
+                      </p>
+                      {entry.transaction_id && <p className="text-xs text-gray-500">ID: {entry.transaction_id}</p>}
+                      {entry.notes && <p className="text-xs text-gray-500">{entry.notes}</p>}
+                      {voided && entry.void_reason && (
+                        <p className="text-xs text-red-600">Voided: {entry.void_reason}</p>
+                      )}
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <span
+                        className={`px-2 py-1 text-xs rounded-full ${
+                          voided
+                            ? 'bg-red-100 text-red-800'
+                            : entry.status === 'success'
+                            ? 'bg-green-100 text-green-800'
+                            : 'bg-gray-100 text-gray-800'
+                        }`}
+                      >
+                        {voided ? 'voided' : entry.status}
+                      </span>
+                      <button
+                        type="button"
+                        onClick={() => handleDownloadReceipt(entry)}
+                        disabled={downloadingId === entry.id}
+                        className="text-blue-600 hover:text-blue-900 disabled:opacity-50"
+                        title="Download receipt"
+                      >
+                        <FileDown className="h-4 w-4" />
+                      </button>
+                      {canAdjust && !voided && (
+                        <>
+                          <button
+                            type="button"
+                            onClick={() => startEdit(entry)}
+                            className="text-gray-600 hover:text-gray-900"
+                            title="Correct entry"
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => startVoid(entry)}
+                            className="text-red-600 hover:text-red-900"
+                            title="Void entry"
+                          >
+                            <Ban className="h-4 w-4" />
+                          </button>
+                        </>
+                      )}
+                    </div>
+                  </div>
+
+                  {editingId === entry.id && draft && (
+                    <div className="mt-2 p-3 bg-white border border-gray-200 rounded-md space-y-2">
+                      <div className="grid grid-cols-2 gap-2">
+                        <div>
+                          <label className="block text-xs text-gray-500 mb-1">Amount (₹)</label>
+                          <input
+                            type="number"
+                            min="1"
+                            value={draft.amount}
+                            onChange={(e) => setDraft({ ...draft, amount: e.target.value })}
+                            className={inputClass}
+                            disabled={saving}
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-xs text-gray-500 mb-1">Method</label>
+                          <select
+                            value={draft.payment_method}
+                            onChange={(e) => setDraft({ ...draft, payment_method: e.target.value })}
+                            className={inputClass}
+                            disabled={saving}
+                          >
+                            {!PAYMENT_METHOD_OPTIONS.some((option) => option.value === draft.payment_method) && (
+                              <option value={draft.payment_method}>{draft.payment_method}</option>
+                            )}
+                            {PAYMENT_METHOD_OPTIONS.map((option) => (
+                              <option key={option.value} value={option.value}>
+                                {option.label}
+                              </option>
+                            ))}
+                          </select>
+                        </div>
+                        <div>
+                          <label className="block text-xs text-gray-500 mb-1">Transaction ID</label>
+                          <input
+                            type="text"
+                            value={draft.transaction_id}
+                            onChange={(e) => setDraft({ ...draft, transaction_id: e.target.value })}
+                            className={inputClass}
+                            disabled={saving}
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-xs text-gray-500 mb-1">Notes</label>
+                          <input
+                            type="text"
+                            value={draft.notes}
+                            onChange={(e) => setDraft({ ...draft, notes: e.target.value })}
+                            className={inputClass}
+                            disabled={saving}
+                          />
+                        </div>
+                      </div>
+                      <div>
+                        <label className="block text-xs text-gray-500 mb-1">Reason for correction *</label>
+                        <input
+                          type="text"
+                          value={draft.reason}
+                          onChange={(e) => setDraft({ ...draft, reason: e.target.value })}
+                          className={inputClass}
+                          disabled={saving}
+                          placeholder="e.g. Wrong amount entered at the desk"
+                        />
+                      </div>
+                      <div className="flex justify-end space-x-2">
+                        <button
+                          type="button"
+                          onClick={closeForms}
+                          disabled={saving}
+                          className="px-3 py-1.5 text-sm border border-gray-300 rounded-md text-gray-700 bg-white hover:bg-gray-50"
+                        >
+                          Cancel
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => handleSaveEdit(entry)}
+                          disabled={saving || !draft.reason.trim()}
+                          className="px-3 py-1.5 text-sm rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+                        >
+                          {saving ? 'Saving...' : 'Save Correction'}
+                        </button>
+                      </div>
+                    </div>
+                  )}
+
+                  {voidingId === entry.id && (
+                    <div className="mt-2 p-3 bg-white border border-red-200 rounded-md space-y-2">
+                      <label className="block text-xs text-gray-500">Reason for voiding *</label>
+                      <input
+                        type="text"
+                        value={voidReason}
+                        onChange={(e) => setVoidReason(e.target.value)}
+                        className={inputClass}
+                        disabled={saving}
+                        placeholder="e.g. Duplicate entry"
+                      />
+                      <div className="flex justify-end space-x-2">
+                        <button
+                          type="button"
+                          onClick={closeForms}
+                          disabled={saving}
+                          className="px-3 py-1.5 text-sm border border-gray-300 rounded-md text-gray-700 bg-white hover:bg-gray-50"
+                        >
+                          Cancel
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => handleVoid(entry)}
+                          disabled={saving || !voidReason.trim()}
+                          className="px-3 py-1.5 text-sm rounded-md text-white bg-red-600 hover:bg-red-700 disabled:opacity-50"
+                        >
+                          {saving ? 'Voiding...' : 'Void Entry'}
+                        </button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PaymentLedger;
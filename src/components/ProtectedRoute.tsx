@@ -1,13 +1,18 @@
 import React from 'react';
+import { Link, Navigate, useLocation } from 'react-router-dom';
+import { ShieldAlert } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
-import LoginPage from '../pages/LoginPage';
+import type { Capability } from '../lib/permissions';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
+  // Capability the current role needs to open this route; omit for any signed-in user
+  capability?: Capability;
 }
 
-const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children }) => {
-  const { user, isLoading } = useAuth();
+const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children, capability }) => {
+  const { user, isLoading, can } = useAuth();
+  const location = useLocation();
 
   if (isLoading) {
     return (
@@ -21,7 +26,23 @@ const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children }) => {
   }
 
   if (!user) {
-    return <LoginPage />;
+    // Remember where the user was headed so login can send them back
+    return <Navigate to="/login" state={{ from: location }} replace />;
+  }
+
+  if (capability && !can(capability)) {
+    return (
+      <div className="flex flex-col items-center justify-center py-16 text-center">
+        <ShieldAlert className="h-12 w-12 text-red-400" />
+        <h2 className="mt-4 text-lg font-medium text-gray-900">Access denied</h2>
+        <p className="mt-1 text-sm text-gray-500">
+          Your role doesn't have permission to view this page.
+        </p>
+        <Link to="/" className="mt-4 text-sm font-medium text-blue-600 hover:text-blue-800">
+          Back to dashboard
+        </Link>
+      </div>
+    );
   }
 
   return <>{children}</>;
@@ -4,6 +4,7 @@ import {
   Home, 
   Building2, 
   Image, 
+  Images,
   Coffee, 
   Calendar,
   X,
@@ -14,8 +15,14 @@ import {
   Users,
   Wifi,
   MapPin,
-  Star
+  Star,
+  History,
+  BarChart3,
+  ConciergeBell,
+  FileCode
 } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import type { Capability } from '../lib/permissions';
 
 interface SidebarProps {
   isOpen: boolean;
@@ -23,20 +30,27 @@ interface SidebarProps {
 }
 
 const Sidebar: React.FC<SidebarProps> = ({ isOpen, closeSidebar }) => {
-  const navItems = [
-    { name: 'Dashboard', path: '/', icon: <Home size={20} /> },
-    { name: 'Properties', path: '/accommodations', icon: <Building2 size={20} /> },
-    { name: 'Gallery', path: '/gallery', icon: <Image size={20} /> },
-    // { name: 'Services', path: '/services', icon: <Coffee size={20} /> },
-    { name: 'Bookings', path: '/bookings', icon: <Calendar size={20} /> },
-    { name: 'Calendar', path: '/calendar', icon: <Calendar size={20} /> },
-    { name: 'Amenities', path: '/amenities', icon: <Wifi size={20} /> },
-    { name: 'Cities', path: '/cities', icon: <MapPin size={20} /> },
-    { name: 'Ratings', path: '/ratings', icon: <Star size={20} /> },
-    { name: 'Coupons', path: '/coupons', icon: <Ticket size={20} /> },
-    { name: 'Blogs', path: '/blogs', icon: <FileText size={20} /> },
-    { name: 'Categories', path: '/categories', icon: <Grid size={20} /> },
-    { name: 'Users', path: '/users', icon: <Users size={20} /> },
+  const { can } = useAuth();
+
+  const navItems: { name: string; path: string; icon: React.ReactNode; capability: Capability }[] = [
+    { name: 'Dashboard', path: '/', icon: <Home size={20} />, capability: 'dashboard:view' },
+    { name: 'Analytics', path: '/analytics', icon: <BarChart3 size={20} />, capability: 'analytics:view' },
+    { name: 'Properties', path: '/accommodations', icon: <Building2 size={20} />, capability: 'properties:view' },
+    { name: 'Gallery', path: '/gallery', icon: <Image size={20} />, capability: 'gallery:manage' },
+    { name: 'Media', path: '/media', icon: <Images size={20} />, capability: 'media:manage' },
+    // { name: 'Services', path: '/services', icon: <Coffee size={20} />, capability: 'services:manage' },
+    { name: 'Bookings', path: '/bookings', icon: <Calendar size={20} />, capability: 'bookings:view' },
+    { name: 'Front Desk', path: '/front-desk', icon: <ConciergeBell size={20} />, capability: 'bookings:view' },
+    { name: 'Calendar', path: '/calendar', icon: <Calendar size={20} />, capability: 'calendar:manage' },
+    { name: 'Amenities', path: '/amenities', icon: <Wifi size={20} />, capability: 'catalog:manage' },
+    { name: 'Cities', path: '/cities', icon: <MapPin size={20} />, capability: 'catalog:manage' },
+    { name: 'Ratings', path: '/ratings', icon: <Star size={20} />, capability: 'ratings:manage' },
+    { name: 'Coupons', path: '/coupons', icon: <Ticket size={20} />, capability: 'coupons:view' },
+    { name: 'Blogs', path: '/blogs', icon: <FileText size={20} />, capability: 'blogs:manage' },
+    { name: 'Categories', path: '/categories', icon: <Grid size={20} />, capability: 'categories:manage' },
+    { name: 'Templates', path: '/document-templates', icon: <FileCode size={20} />, capability: 'templates:manage' },
+    { name: 'Users', path: '/users', icon: <Users size={20} />, capability: 'users:manage' },
+    { name: 'Audit Log', path: '/audit', icon: <History size={20} />, capability: 'audit:view' },
   ];
 
   return (
@@ -69,7 +83,7 @@ const Sidebar: React.FC<SidebarProps> = ({ isOpen, closeSidebar }) => {
 
           {/* Navigation */}
           <nav className="flex-1 space-y-1 px-2 py-4">
-            {navItems.map((item) => (
+            {navItems.filter((item) => can(item.capability)).map((item) => (
               <NavLink
                 key={item.name}
                 to={item.path}
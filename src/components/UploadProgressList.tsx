@@ -0,0 +1,71 @@
+import React from 'react';
+import { CheckCircle, AlertCircle, Loader, RotateCcw } from 'lucide-react';
+import type { UploadProgress, UploadStatus } from '../lib/media';
+
+interface UploadProgressListProps {
+  uploads: UploadProgress[];
+  onDismiss?: () => void;
+}
+
+const STATUS_LABELS: Record<UploadStatus, string> = {
+  queued: 'Waiting',
+  processing: 'Optimising',
+  uploading: 'Uploading',
+  retrying: 'Retrying',
+  done: 'Done',
+  error: 'Failed',
+};
+
+const UploadProgressList: React.FC<UploadProgressListProps> = ({ uploads, onDismiss }) => {
+  if (uploads.length === 0) return null;
+
+  const finished = uploads.filter(upload => upload.status === 'done' || upload.status === 'error').length;
+
+  return (
+    <div className="bg-white shadow rounded-lg p-4">
+      <div className="flex items-center justify-between mb-3">
+        <p className="text-sm font-medium text-gray-900">
+          Uploading {finished}/{uploads.length}
+        </p>
+        {onDismiss && finished === uploads.length && (
+          <button type="button" onClick={onDismiss} className="text-sm text-gray-500 hover:text-gray-700">
+            Dismiss
+          </button>
+        )}
+      </div>
+      <ul className="space-y-2">
+        {uploads.map((upload, index) => (
+          <li key={`${upload.name}-${index}`} className="text-sm">
+            <div className="flex items-center justify-between">
+              <span className="truncate text-gray-700 mr-2">{upload.name}</span>
+              <span
+                className={`flex items-center flex-shrink-0 text-xs ${
+                  upload.status === 'error' ? 'text-red-600' : upload.status === 'done' ? 'text-green-600' : 'text-gray-500'
+                }`}
+              >
+                {upload.status === 'done' && <CheckCircle className="h-3.5 w-3.5 mr-1" />}
+                {upload.status === 'error' && <AlertCircle className="h-3.5 w-3.5 mr-1" />}
+                {upload.status === 'retrying' && <RotateCcw className="h-3.5 w-3.5 mr-1" />}
+                {(upload.status === 'processing' || upload.status === 'uploading') && (
+                  <Loader className="h-3.5 w-3.5 mr-1 animate-spin" />
+                )}
+                {STATUS_LABELS[upload.status]}
+                {upload.status === 'retrying' && ` (attempt ${upload.attempt})`}
+                {upload.status === 'uploading' && ` ${Math.round(upload.progress * 100)}%`}
+              </span>
+            </div>
+            <div className="mt-1 h-1.5 bg-gray-100 rounded-full overflow-hidden">
+              <div
+                className={`h-full transition-all ${upload.status === 'error' ? 'bg-red-500' : 'bg-blue-600'}`}
+                style={{ width: `${Math.round((upload.status === 'error' ? 1 : upload.progress) * 100)}%` }}
+              />
+            </div>
+            {upload.error && <p className="mt-1 text-xs text-red-600">{upload.error}</p>}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default UploadProgressList;
@@ -1,5 +1,7 @@
-import React, { createContext, useContext, useState } from 'react';
-import bcrypt from 'bcryptjs';
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import { api, unwrap } from '../lib/api';
+import { hasCapability, type Capability } from '../lib/permissions';
+import { clearTokens, getTokens, onSessionExpired, setSessionUser, setTokens } from '../lib/session';
 
 interface User {
   id: string;
@@ -9,11 +11,18 @@ interface User {
   role: string;
 }
 
+interface LoginResponse {
+  accessToken: string;
+  refreshToken: string;
+  user: User;
+}
+
 interface AuthContextType {
   user: User | null;
   login: (email: string, password: string) => Promise<boolean>;
   logout: () => void;
   isLoading: boolean;
+  can: (capability: Capability) => boolean;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -27,57 +36,73 @@ export const useAuth = () => {
 };
 
 export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const [user, setUser] = useState<User | null>(() => {
-    const savedUser = localStorage.getItem('authUser');
-    return savedUser ? JSON.parse(savedUser) : null;
-  });
-  const [isLoading, setIsLoading] = useState(false);
+  const [user, setUser] = useState<User | null>(null);
+  // Start in the loading state when there is a stored session to restore
+  const [isLoading, setIsLoading] = useState(() => getTokens() !== null);
+
+  // Restore the session from stored tokens; the API client refreshes an expired access token
+  useEffect(() => {
+    if (!getTokens()) return;
+
+    const controller = new AbortController();
+    api.get('/auth/me', { signal: controller.signal })
+      .then((response) => setUser(unwrap<User>(response.data)))
+      .catch((err) => {
+        if (controller.signal.aborted) return;
+        console.error('Session restore error:', err);
+        clearTokens();
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsLoading(false);
+      });
+
+    return () => controller.abort();
+  }, []);
+
+  useEffect(() => {
+    setSessionUser(user ? { id: user.id, name: user.name, role: user.role } : null);
+  }, [user]);
+
+  // Refresh token rejected: drop the user so ProtectedRoute sends them to /login
+  useEffect(() => onSessionExpired(() => setUser(null)), []);
 
   const login = async (email: string, password: string): Promise<boolean> => {
     setIsLoading(true);
     try {
-      const response = await fetch('https://a.plumeriaretreat.com/admin/users');
-      const users = await response.json();
-      console.log('Fetched users:', users);
-      const matchedUser = users.find((u: any) => (u.email === email.trim() || u.phoneNumber === email.trim()));
-      if (!matchedUser) {
-        setIsLoading(false);
-        return false;
-      }
-      console.log(matchedUser);
-
-      const isPasswordMatch = await bcrypt.compare(password, matchedUser.password);
-      if (!isPasswordMatch) {
-        setIsLoading(false);
-        return false;
-      }
-
-      const authUser: User = {
-        id: matchedUser.id,
-        name: matchedUser.name,
-        phoneNumber: matchedUser.phoneNumber,
-        email: matchedUser.email,
-        role: matchedUser.role,
-      };
-
-      setUser(authUser);
-      localStorage.setItem('authUser', JSON.stringify(authUser)); // persist login
-      setIsLoading(false);
+      const response = await api.post('/auth/login', {
+        identifier: email.trim(),
+        password,
+      });
+      const session = unwrap<LoginResponse>(response.data);
+
+      setTokens({ accessToken: session.accessToken, refreshToken: session.refreshToken });
+      setUser(session.user);
       return true;
     } catch (err) {
       console.error('Login error:', err);
-      setIsLoading(false);
       return false;
+    } finally {
+      setIsLoading(false);
     }
   };
 
   const logout = () => {
+    const tokens = getTokens();
+    if (tokens) {
+      // Best effort: revoke the refresh token server-side, the local session ends either way
+      api.post('/auth/logout', { refreshToken: tokens.refreshToken }).catch((err) => {
+        console.error('Logout error:', err);
+      });
+    }
+    clearTokens();
     setUser(null);
-    localStorage.removeItem('authUser'); // clear stored login
   };
 
+  // Stable between renders so pages can list it in hook dependencies
+  const can = useCallback((capability: Capability) => hasCapability(user?.role, capability), [user?.role]);
+
   return (
-    <AuthContext.Provider value={{ user, login, logout, isLoading }}>
+    <AuthContext.Provider value={{ user, login, logout, isLoading, can }}>
       {children}
     </AuthContext.Provider>
   );
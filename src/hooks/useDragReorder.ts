@@ -0,0 +1,52 @@
+// File: src/hooks/useDragReorder.ts
+import { useState } from 'react';
+import type React from 'react';
+
+// Returns a copy of the list with the item at `from` moved to position `to`
+export function moveItem<T>(items: T[], from: number, to: number): T[] {
+  const next = [...items];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+}
+
+// Native HTML5 drag-and-drop sorting for grids and lists. Spread getItemProps(index) onto each item;
+// onReorder receives the reordered list when an item is dropped on another position.
+export function useDragReorder<T>(items: T[], onReorder: (items: T[]) => void, enabled = true) {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [overIndex, setOverIndex] = useState<number | null>(null);
+
+  const reset = () => {
+    setDragIndex(null);
+    setOverIndex(null);
+  };
+
+  const getItemProps = (index: number) => {
+    if (!enabled) return {};
+    return {
+      draggable: true,
+      onDragStart: (e: React.DragEvent) => {
+        e.dataTransfer.effectAllowed = 'move';
+        // Firefox will not start a drag without some data set
+        e.dataTransfer.setData('text/plain', String(index));
+        setDragIndex(index);
+      },
+      onDragOver: (e: React.DragEvent) => {
+        if (dragIndex === null) return;
+        e.preventDefault();
+        e.dataTransfer.dropEffect = 'move';
+        if (overIndex !== index) setOverIndex(index);
+      },
+      onDrop: (e: React.DragEvent) => {
+        e.preventDefault();
+        if (dragIndex !== null && dragIndex !== index) {
+          onReorder(moveItem(items, dragIndex, index));
+        }
+        reset();
+      },
+      onDragEnd: reset,
+    };
+  };
+
+  return { dragIndex, overIndex, getItemProps };
+}
@@ -0,0 +1,17 @@
+import { useEffect } from 'react';
+import { processNotificationQueue } from '../lib/notifications';
+
+const POLL_INTERVAL_MS = 60000;
+
+// Helps the backend work the shared guest notification queue while the admin is open: due and retrying
+// messages are delivered on mount and then once a minute. Messages are claimed on the backend before
+// they are sent, so every open tab can poll without sending duplicates. Only sessions allowed to see
+// bookings take part.
+export function useNotificationQueue(enabled: boolean) {
+  useEffect(() => {
+    if (!enabled) return;
+    void processNotificationQueue();
+    const timer = window.setInterval(() => void processNotificationQueue(), POLL_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [enabled]);
+}
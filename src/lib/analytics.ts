@@ -0,0 +1,273 @@
+// Revenue and occupancy analytics computed from the booking list. Revenue is spread evenly over the
+// nights of a stay, so a booking that straddles a range or month boundary is split between them.
+
+import { parseBookingStatus, type BookingStatus } from './bookingStatus';
+import { toLocalDateKey } from './bookingQueries';
+import { getStayDates } from './pricing';
+
+export interface AnalyticsBooking {
+  id: number;
+  accommodation_id?: number | null;
+  accommodation_name: string | null;
+  check_in: string;
+  check_out: string;
+  rooms: number;
+  total_amount: string | number;
+  status?: string | null;
+  // 'online' (paid through PayU on the website) or 'offline' (entered from the admin panel)
+  source?: string | null;
+  payment_txn_id: string | null;
+  created_at: string;
+}
+
+export interface AnalyticsAccommodation {
+  id: number;
+  name: string;
+  rooms: number;
+}
+
+// Inclusive YYYY-MM-DD dates
+export interface DateRange {
+  from: string;
+  to: string;
+}
+
+export type BookingChannel = 'online' | 'offline';
+
+export const CHANNEL_LABELS: Record<BookingChannel, string> = {
+  online: 'Online (PayU)',
+  offline: 'Offline',
+};
+
+export interface AccommodationPerformance {
+  id: number | null;
+  name: string;
+  availableRoomNights: number;
+  soldRoomNights: number;
+  revenue: number;
+  occupancy: number;
+  adr: number;
+  revpar: number;
+}
+
+export interface DistributionBucket {
+  label: string;
+  count: number;
+}
+
+export interface ChannelSummary {
+  channel: BookingChannel;
+  bookings: number;
+  revenue: number;
+}
+
+export interface AnalyticsSummary {
+  revenue: number;
+  bookings: number;
+  availableRoomNights: number;
+  soldRoomNights: number;
+  occupancy: number;
+  adr: number;
+  revpar: number;
+  averageLeadTime: number;
+  averageLengthOfStay: number;
+  accommodations: AccommodationPerformance[];
+  revenueByMonth: { month: string; revenue: number }[];
+  leadTime: DistributionBucket[];
+  lengthOfStay: DistributionBucket[];
+  channels: ChannelSummary[];
+}
+
+// Cancelled stays never happened and pending ones are not paid yet
+const EXCLUDED_STATUSES: BookingStatus[] = ['cancelled', 'pending'];
+
+const LEAD_TIME_BUCKETS: { label: string; max: number }[] = [
+  { label: 'Same/next day', max: 1 },
+  { label: '2–7 days', max: 7 },
+  { label: '8–14 days', max: 14 },
+  { label: '15–30 days', max: 30 },
+  { label: '31–60 days', max: 60 },
+  { label: '61+ days', max: Infinity },
+];
+
+const LENGTH_OF_STAY_BUCKETS: { label: string; max: number }[] = [
+  { label: '1 night', max: 1 },
+  { label: '2 nights', max: 2 },
+  { label: '3 nights', max: 3 },
+  { label: '4 nights', max: 4 },
+  { label: '5–6 nights', max: 6 },
+  { label: '7+ nights', max: Infinity },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toAmount = (value: string | number) => {
+  const amount = typeof value === 'number' ? value : parseFloat(value);
+  return isNaN(amount) ? 0 : amount;
+};
+
+const ratio = (numerator: number, denominator: number) => (denominator > 0 ? numerator / denominator : 0);
+
+// Older bookings have no source; only website bookings carry a PayU transaction id
+export const getBookingChannel = (booking: AnalyticsBooking): BookingChannel => {
+  const source = (booking.source || '').toLowerCase();
+  if (source === 'online' || source === 'offline') return source;
+  return booking.payment_txn_id ? 'online' : 'offline';
+};
+
+export const countsTowardRevenue = (booking: AnalyticsBooking) =>
+  !EXCLUDED_STATUSES.includes(parseBookingStatus(booking.status));
+
+export const getDaysInRange = (range: DateRange) => {
+  const days = (new Date(range.to).getTime() - new Date(range.from).getTime()) / DAY_MS + 1;
+  return isNaN(days) ? 0 : Math.max(0, Math.round(days));
+};
+
+const shiftDate = (date: string, years: number) => {
+  const d = new Date(date);
+  d.setUTCFullYear(d.getUTCFullYear() + years);
+  return d.toISOString().split('T')[0];
+};
+
+export const getPreviousYearRange = (range: DateRange): DateRange => ({
+  from: shiftDate(range.from, -1),
+  to: shiftDate(range.to, -1),
+});
+
+// Every month touched by the range as YYYY-MM
+export const getMonthsInRange = (range: DateRange) => {
+  const months: string[] = [];
+  const end = range.to.slice(0, 7);
+  const d = new Date(`${range.from.slice(0, 7)}-01`);
+  while (!isNaN(d.getTime()) && d.toISOString().slice(0, 7) <= end) {
+    months.push(d.toISOString().slice(0, 7));
+    d.setUTCMonth(d.getUTCMonth() + 1);
+  }
+  return months;
+};
+
+export const formatMonth = (month: string) =>
+  new Date(`${month}-01`).toLocaleDateString('en-IN', { month: 'short', year: 'numeric', timeZone: 'UTC' });
+
+// Stay dates and booking timestamps are bucketed by the local calendar day
+const getBookingNights = (booking: AnalyticsBooking) =>
+  getStayDates(toLocalDateKey(booking.check_in), toLocalDateKey(booking.check_out));
+
+const getLeadTimeDays = (booking: AnalyticsBooking) =>
+  Math.max(0, Math.round((new Date(toLocalDateKey(booking.check_in)).getTime() - new Date(toLocalDateKey(booking.created_at)).getTime()) / DAY_MS));
+
+const toBuckets = (values: number[], buckets: { label: string; max: number }[]): DistributionBucket[] =>
+  buckets.map((bucket, index) => {
+    const min = index === 0 ? -Infinity : buckets[index - 1].max;
+    return { label: bucket.label, count: values.filter(value => value > min && value <= bucket.max).length };
+  });
+
+const average = (values: number[]) => ratio(values.reduce((sum, value) => sum + value, 0), values.length);
+
+export const summarizeBookings = (
+  bookings: AnalyticsBooking[],
+  accommodations: AnalyticsAccommodation[],
+  range: DateRange
+): AnalyticsSummary => {
+  const days = getDaysInRange(range);
+  const stays = bookings.filter(countsTowardRevenue);
+
+  const performance = new Map<string, AccommodationPerformance>();
+  accommodations.forEach(accommodation => {
+    performance.set(String(accommodation.id), {
+      id: accommodation.id,
+      name: accommodation.name,
+      availableRoomNights: (Number(accommodation.rooms) || 0) * days,
+      soldRoomNights: 0,
+      revenue: 0,
+      occupancy: 0,
+      adr: 0,
+      revpar: 0,
+    });
+  });
+
+  // Bookings may only carry the accommodation name, so fall back to matching on it
+  const findPerformance = (booking: AnalyticsBooking) => {
+    const byId = booking.accommodation_id != null ? performance.get(String(booking.accommodation_id)) : undefined;
+    if (byId) return byId;
+    const name = booking.accommodation_name || 'Unknown';
+    const byName = Array.from(performance.values()).find(entry => entry.name === name);
+    if (byName) return byName;
+    const entry: AccommodationPerformance = {
+      id: null, name, availableRoomNights: 0, soldRoomNights: 0, revenue: 0, occupancy: 0, adr: 0, revpar: 0,
+    };
+    performance.set(`name:${name}`, entry);
+    return entry;
+  };
+
+  const monthly = new Map<string, number>(getMonthsInRange(range).map(month => [month, 0]));
+  const checkIns: AnalyticsBooking[] = [];
+
+  stays.forEach(booking => {
+    const nights = getBookingNights(booking);
+    if (nights.length === 0) return;
+
+    const rooms = Number(booking.rooms) || 1;
+    const nightlyRevenue = toAmount(booking.total_amount) / nights.length;
+    const nightsInRange = nights.filter(date => date >= range.from && date <= range.to);
+
+    if (nightsInRange.length > 0) {
+      const entry = findPerformance(booking);
+      entry.soldRoomNights += nightsInRange.length * rooms;
+      entry.revenue += nightsInRange.length * nightlyRevenue;
+      nightsInRange.forEach(date => {
+        const month = date.slice(0, 7);
+        monthly.set(month, (monthly.get(month) || 0) + nightlyRevenue);
+      });
+    }
+
+    const checkIn = toLocalDateKey(booking.check_in);
+    if (checkIn >= range.from && checkIn <= range.to) checkIns.push(booking);
+  });
+
+  const accommodationsPerformance = Array.from(performance.values())
+    .map(entry => ({
+      ...entry,
+      occupancy: ratio(entry.soldRoomNights, entry.availableRoomNights),
+      adr: ratio(entry.revenue, entry.soldRoomNights),
+      revpar: ratio(entry.revenue, entry.availableRoomNights),
+    }))
+    .sort((a, b) => b.revenue - a.revenue);
+
+  const revenue = accommodationsPerformance.reduce((sum, entry) => sum + entry.revenue, 0);
+  const soldRoomNights = accommodationsPerformance.reduce((sum, entry) => sum + entry.soldRoomNights, 0);
+  const availableRoomNights = accommodationsPerformance.reduce((sum, entry) => sum + entry.availableRoomNights, 0);
+
+  const leadTimes = checkIns.map(getLeadTimeDays);
+  const lengths = checkIns.map(booking => getBookingNights(booking).length);
+
+  const channels = (Object.keys(CHANNEL_LABELS) as BookingChannel[]).map(channel => {
+    const inChannel = checkIns.filter(booking => getBookingChannel(booking) === channel);
+    return {
+      channel,
+      bookings: inChannel.length,
+      revenue: inChannel.reduce((sum, booking) => sum + toAmount(booking.total_amount), 0),
+    };
+  });
+
+  return {
+    revenue,
+    bookings: checkIns.length,
+    availableRoomNights,
+    soldRoomNights,
+    occupancy: ratio(soldRoomNights, availableRoomNights),
+    adr: ratio(revenue, soldRoomNights),
+    revpar: ratio(revenue, availableRoomNights),
+    averageLeadTime: average(leadTimes),
+    averageLengthOfStay: average(lengths),
+    accommodations: accommodationsPerformance,
+    revenueByMonth: Array.from(monthly.entries()).map(([month, value]) => ({ month, revenue: value })),
+    leadTime: toBuckets(leadTimes, LEAD_TIME_BUCKETS),
+    lengthOfStay: toBuckets(lengths, LENGTH_OF_STAY_BUCKETS),
+    channels,
+  };
+};
+
+// Percentage change against the comparison period, or null when there is nothing to compare with
+export const getChange = (current: number, previous: number) =>
+  previous > 0 ? ((current - previous) / previous) * 100 : null;
@@ -0,0 +1,189 @@
+import axios, { AxiosError, InternalAxiosRequestConfig } from 'axios';
+import { expireSession, getTokens, setTokens, type SessionTokens } from './session';
+
+// Backend origin, e.g. https://a.plumeriaretreat.com or http://localhost:5000.
+// Override with VITE_API_BASE_URL in .env.local to target staging or a local backend.
+export const API_ORIGIN = (import.meta.env.VITE_API_BASE_URL || 'https://a.plumeriaretreat.com').replace(/\/+$/, '');
+export const ADMIN_API_URL = `${API_ORIGIN}/admin`;
+
+// Public-site upload endpoint that stores image files and returns their URL
+export const UPLOAD_URL = import.meta.env.VITE_UPLOAD_URL || 'https://plumeriaretreat.com/upload.php';
+
+export interface Pagination {
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+// Standard response shape returned by most /admin endpoints
+export interface ApiEnvelope<T> {
+  success: boolean;
+  data: T;
+  pagination?: Pagination;
+  message?: string;
+  error?: string;
+}
+
+export class ApiError extends Error {
+  status?: number;
+  data?: unknown;
+  canceled: boolean;
+
+  constructor(message: string, options: { status?: number; data?: unknown; canceled?: boolean } = {}) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = options.status;
+    this.data = options.data;
+    this.canceled = options.canceled ?? false;
+  }
+}
+
+export const api = axios.create({
+  baseURL: ADMIN_API_URL,
+  timeout: 30000,
+});
+
+// Normalize every failure (HTTP error, network error, cancellation) into an ApiError
+export const toApiError = (err: unknown): ApiError => {
+  if (err instanceof ApiError) return err;
+
+  if (axios.isCancel(err)) {
+    return new ApiError('Request was cancelled', { canceled: true });
+  }
+
+  if (axios.isAxiosError(err)) {
+    const axiosError = err as AxiosError<{ message?: string; error?: string }>;
+    const body = axiosError.response?.data;
+    const message =
+      (body && typeof body === 'object' && (body.message || body.error)) ||
+      (axiosError.code === 'ECONNABORTED' ? 'Request timed out' : axiosError.message) ||
+      'Request failed';
+    return new ApiError(message, { status: axiosError.response?.status, data: body });
+  }
+
+  if (err instanceof Error) return new ApiError(err.message);
+  return new ApiError(String(err));
+};
+
+// Only our own backend gets the bearer token, never third-party hosts like the upload endpoint
+const isOwnApiRequest = (config: InternalAxiosRequestConfig) => {
+  const url = config.url || '';
+  return !/^https?:\/\//i.test(url) || url.startsWith(API_ORIGIN);
+};
+
+const isAuthEndpoint = (config?: InternalAxiosRequestConfig) =>
+  !!config?.url && /\/auth\/(login|refresh)$/.test(config.url);
+
+api.interceptors.request.use((config) => {
+  const tokens = getTokens();
+  if (tokens && isOwnApiRequest(config)) {
+    config.headers.Authorization = `Bearer ${tokens.accessToken}`;
+  }
+  return config;
+});
+
+// Concurrent 401s share one refresh call instead of racing each other
+let refreshPromise: Promise<string> | null = null;
+
+const refreshAccessToken = (): Promise<string> => {
+  if (!refreshPromise) {
+    refreshPromise = (async () => {
+      const tokens = getTokens();
+      if (!tokens) throw new ApiError('Session expired', { status: 401 });
+
+      // Plain axios so a failed refresh doesn't loop back through this interceptor
+      const { data } = await axios.post<ApiEnvelope<SessionTokens>>(`${ADMIN_API_URL}/auth/refresh`, {
+        refreshToken: tokens.refreshToken,
+      });
+      const next = unwrap<SessionTokens>(data);
+      setTokens({ accessToken: next.accessToken, refreshToken: next.refreshToken || tokens.refreshToken });
+      return next.accessToken;
+    })().finally(() => {
+      refreshPromise = null;
+    });
+  }
+  return refreshPromise;
+};
+
+type RetriableConfig = InternalAxiosRequestConfig & { _retried?: boolean };
+
+api.interceptors.response.use(
+  (response) => response,
+  async (error) => {
+    const config = (axios.isAxiosError(error) ? error.config : undefined) as RetriableConfig | undefined;
+    const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+
+    if (status === 401 && config && !config._retried && !isAuthEndpoint(config) && isOwnApiRequest(config) && getTokens()) {
+      config._retried = true;
+      try {
+        const accessToken = await refreshAccessToken();
+        config.headers.Authorization = `Bearer ${accessToken}`;
+        return api(config);
+      } catch (refreshError) {
+        expireSession();
+        return Promise.reject(toApiError(refreshError));
+      }
+    }
+
+    if (status === 401 && config && !isAuthEndpoint(config) && isOwnApiRequest(config)) {
+      expireSession();
+    }
+
+    return Promise.reject(toApiError(error));
+  }
+);
+
+export const isCanceled = (err: unknown): boolean => err instanceof ApiError && err.canceled;
+
+export const getErrorMessage = (err: unknown, fallback = 'Something went wrong'): string => {
+  if (err instanceof Error && err.message) return err.message;
+  return fallback;
+};
+
+// Some endpoints wrap results in an envelope, others return the payload directly
+export const unwrap = <T>(body: ApiEnvelope<T> | T): T => {
+  if (body && typeof body === 'object' && 'success' in body && 'data' in body) {
+    const envelope = body as ApiEnvelope<T>;
+    if (!envelope.success) {
+      throw new ApiError(envelope.message || envelope.error || 'Request failed', { data: body });
+    }
+    return envelope.data;
+  }
+  return body as T;
+};
+
+// Like unwrap, but keeps the envelope so callers can read pagination and message
+export const assertSuccess = <T>(body: ApiEnvelope<T>, fallback: string): ApiEnvelope<T> => {
+  if (!body || !body.success) {
+    throw new ApiError(body?.message || body?.error || fallback, { data: body });
+  }
+  return body;
+};
+
+// Upload a single image file to the public site and return its stored URL.
+// onProgress receives the fraction (0–1) of the request body sent so far.
+export const uploadImage = async (
+  file: File,
+  signal?: AbortSignal,
+  onProgress?: (fraction: number) => void
+): Promise<string> => {
+  const formData = new FormData();
+  formData.append('image', file);
+
+  const { data } = await api.post<{ success: boolean; url?: string; filename?: string; message?: string }>(
+    UPLOAD_URL,
+    formData,
+    {
+      signal,
+      onUploadProgress: onProgress
+        ? (event) => onProgress(event.total ? event.loaded / event.total : 0)
+        : undefined,
+    }
+  );
+
+  if (!data.success || !data.url) {
+    throw new ApiError(data.message || 'Upload failed on server', { data });
+  }
+  return data.url;
+};
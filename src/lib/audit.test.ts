@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { diffChanges, encodeAuditMeta, redactSecrets } from './audit';
+
+const decode = (header: string) => JSON.parse(decodeURIComponent(header));
+
+describe('redactSecrets', () => {
+  it('redacts credential fields at any depth and keeps the rest', () => {
+    expect(
+      redactSecrets({
+        name: 'Asha',
+        password: 'hunter2',
+        confirmPassword: 'hunter2',
+        settings: { apiToken: 'abc', client_secret: 'xyz', theme: 'dark' },
+      })
+    ).toEqual({
+      name: 'Asha',
+      password: '[redacted]',
+      confirmPassword: '[redacted]',
+      settings: { apiToken: '[redacted]', client_secret: '[redacted]', theme: 'dark' },
+    });
+  });
+
+  it('leaves empty secrets as they are so a cleared field still shows in the diff', () => {
+    expect(redactSecrets({ password: '', token: null })).toEqual({ password: '', token: null });
+    expect(redactSecrets(null)).toBeNull();
+  });
+});
+
+describe('diffChanges', () => {
+  it('lists only the fields that changed', () => {
+    expect(diffChanges({ status: 'pending', rooms: 1 }, { status: 'confirmed', rooms: 1, notes: 'VIP' })).toEqual([
+      { field: 'status', from: 'pending', to: 'confirmed' },
+      { field: 'notes', from: null, to: 'VIP' },
+    ]);
+  });
+});
+
+describe('encodeAuditMeta', () => {
+  it('describes the change without any actor or timestamp, with secrets redacted', () => {
+    const meta = decode(
+      encodeAuditMeta({
+        action: 'user.update',
+        entityType: 'user',
+        entityId: 7,
+        summary: 'Reset password for Asha',
+        before: { role: 'viewer' },
+        after: { role: 'manager', password: 'hunter2' },
+      })
+    );
+    expect(meta).toEqual({
+      action: 'user.update',
+      entity_type: 'user',
+      entity_id: '7',
+      summary: 'Reset password for Asha',
+      before: { role: 'viewer' },
+      after: { role: 'manager', password: '[redacted]' },
+      changes: [
+        { field: 'role', from: 'viewer', to: 'manager' },
+        { field: 'password', from: null, to: '[redacted]' },
+      ],
+    });
+  });
+
+  it('drops snapshots that would not fit in a header', () => {
+    const meta = decode(
+      encodeAuditMeta({
+        action: 'document-template.update',
+        entityType: 'document-template',
+        entityId: 'booking-confirmation',
+        after: { html: 'x'.repeat(10000) },
+      })
+    );
+    expect(meta).toEqual({
+      action: 'document-template.update',
+      entity_type: 'document-template',
+      entity_id: 'booking-confirmation',
+    });
+  });
+});
@@ -0,0 +1,223 @@
+import { InternalAxiosRequestConfig } from 'axios';
+import { api, unwrap } from './api';
+
+export type AuditEntityType =
+  | 'booking'
+  | 'payment'
+  | 'coupon'
+  | 'blocked-date'
+  | 'accommodation'
+  | 'user'
+  | 'blog'
+  | 'category'
+  | 'gallery'
+  | 'amenity'
+  | 'city'
+  | 'rating'
+  | 'service'
+  | 'media'
+  | 'document-template'
+  | 'other';
+
+export interface AuditChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+export interface AuditEntry {
+  id: number;
+  actor_id: string | null;
+  actor_name: string;
+  action: string;
+  entity_type: AuditEntityType;
+  entity_id: string | null;
+  summary?: string;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  changes: AuditChange[];
+  created_at: string;
+}
+
+// Describes a mutating request so the audit trail can record a meaningful entry
+export interface AuditMeta {
+  action: string;
+  entityType: AuditEntityType;
+  entityId?: string | number | null;
+  summary?: string;
+  before?: Record<string, unknown> | null;
+  after?: Record<string, unknown> | null;
+}
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    // Set to false to skip auditing a request, or pass details to override the inferred entry
+    audit?: AuditMeta | false;
+  }
+}
+
+export const AUDIT_ENTITY_TYPES: { value: AuditEntityType; label: string }[] = [
+  { value: 'booking', label: 'Booking' },
+  { value: 'payment', label: 'Payment' },
+  { value: 'coupon', label: 'Coupon' },
+  { value: 'blocked-date', label: 'Blocked date' },
+  { value: 'accommodation', label: 'Accommodation' },
+  { value: 'user', label: 'User' },
+  { value: 'blog', label: 'Blog' },
+  { value: 'category', label: 'Category' },
+  { value: 'gallery', label: 'Gallery' },
+  { value: 'amenity', label: 'Amenity' },
+  { value: 'city', label: 'City' },
+  { value: 'rating', label: 'Rating' },
+  { value: 'service', label: 'Service' },
+  { value: 'media', label: 'Media' },
+  { value: 'document-template', label: 'Document template' },
+  { value: 'other', label: 'Other' },
+];
+
+const MUTATING_METHODS = ['post', 'put', 'patch', 'delete'];
+
+const ACTION_BY_METHOD: Record<string, string> = {
+  post: 'create',
+  put: 'update',
+  patch: 'update',
+  delete: 'delete',
+};
+
+// First path segment of an /admin URL → entity type
+const ENTITY_BY_SEGMENT: Record<string, AuditEntityType> = {
+  bookings: 'booking',
+  coupons: 'coupon',
+  calendar: 'blocked-date',
+  properties: 'accommodation',
+  users: 'user',
+  blogs: 'blog',
+  categories: 'category',
+  gallery: 'gallery',
+  amenities: 'amenity',
+  cities: 'city',
+  ratings: 'rating',
+  services: 'service',
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value) && !(value instanceof FormData);
+
+// Top-level field differences between two snapshots
+export const diffChanges = (
+  before?: Record<string, unknown> | null,
+  after?: Record<string, unknown> | null
+): AuditChange[] => {
+  const fields = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+  const changes: AuditChange[] = [];
+
+  fields.forEach((field) => {
+    const from = before?.[field];
+    const to = after?.[field];
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes.push({ field, from: from ?? null, to: to ?? null });
+    }
+  });
+
+  return changes;
+};
+
+// Credentials never reach the audit log; matched anywhere in a snapshot, including nested objects
+const SECRET_FIELD = /pass(word)?|token|secret/i;
+
+export const redactSecrets = (snapshot: Record<string, unknown> | null): Record<string, unknown> | null => {
+  if (!snapshot) return null;
+  return Object.fromEntries(
+    Object.entries(snapshot).map(([field, value]) => {
+      if (SECRET_FIELD.test(field)) return [field, value ? '[redacted]' : value];
+      return [field, isPlainObject(value) ? redactSecrets(value) : value];
+    })
+  );
+};
+
+const parseBody = (data: unknown): Record<string, unknown> | null => {
+  if (typeof data === 'string') {
+    try {
+      const parsed = JSON.parse(data);
+      return isPlainObject(parsed) ? parsed : null;
+    } catch {
+      return null;
+    }
+  }
+  return isPlainObject(data) ? data : null;
+};
+
+// Fallback entry for requests that didn't describe themselves
+const inferMeta = (config: InternalAxiosRequestConfig, before: Record<string, unknown> | null): AuditMeta => {
+  const method = (config.method || 'post').toLowerCase();
+  const segments = (config.url || '').split('?')[0].split('/').filter(Boolean);
+  const entityType = ENTITY_BY_SEGMENT[segments[0]] || 'other';
+  const entityId = segments.find((segment) => /^\d+$/.test(segment)) ?? null;
+
+  return {
+    action: `${entityType}.${ACTION_BY_METHOD[method] || method}`,
+    entityType,
+    entityId,
+    summary: `${method.toUpperCase()} /${segments.join('/')}`,
+    before,
+    after: method === 'delete' ? null : parseBody(config.data),
+  };
+};
+
+// Entries are written by the backend while it handles the mutation itself: it takes the actor from the
+// access token and the time from its own clock, so the browser can neither forge nor skip an entry.
+// The client only describes the change, in a header on the same request.
+export const AUDIT_HEADER = 'X-Audit-Meta';
+// Snapshots are left out, for the backend to take itself, when they would make the header too large
+const MAX_AUDIT_HEADER_LENGTH = 6000;
+
+export const encodeAuditMeta = (meta: AuditMeta): string => {
+  const description = {
+    action: meta.action,
+    entity_type: meta.entityType,
+    entity_id: meta.entityId != null ? String(meta.entityId) : null,
+    summary: meta.summary,
+  };
+  const before = redactSecrets(meta.before ?? null);
+  const after = redactSecrets(meta.after ?? null);
+  const full = encodeURIComponent(JSON.stringify({ ...description, before, after, changes: diffChanges(before, after) }));
+  return full.length <= MAX_AUDIT_HEADER_LENGTH ? full : encodeURIComponent(JSON.stringify(description));
+};
+
+const isAudited = (config: InternalAxiosRequestConfig) => {
+  const method = (config.method || '').toLowerCase();
+  const url = config.url || '';
+  const isOwnApi = !/^https?:\/\//i.test(url);
+  return MUTATING_METHODS.includes(method) && isOwnApi && config.audit !== false && !/^\/?auth\//.test(url);
+};
+
+// Only resources the audit log knows how to label are read back; other endpoints (e.g. media usage
+// bookkeeping) would just pay for an extra round trip
+const hasReadableSnapshot = (config: InternalAxiosRequestConfig) => {
+  const segment = (config.url || '').split('?')[0].split('/').filter(Boolean)[0];
+  return !!segment && Object.prototype.hasOwnProperty.call(ENTITY_BY_SEGMENT, segment);
+};
+
+// Reads the current state of the resource an update or delete targets, so inferred entries can show
+// a before/after diff. Resources that can't be read at the same URL are recorded without one.
+const fetchBeforeSnapshot = async (config: InternalAxiosRequestConfig) => {
+  if (!hasReadableSnapshot(config)) return null;
+  try {
+    const response = await api.get(config.url || '', { params: config.params, audit: false });
+    const snapshot = unwrap<unknown>(response.data);
+    return isPlainObject(snapshot) ? snapshot : null;
+  } catch {
+    return null;
+  }
+};
+
+// Describe every mutating call made through the shared API client so the backend can log it
+export const installAuditTrail = () => {
+  api.interceptors.request.use(async (config) => {
+    if (!isAudited(config)) return config;
+    const method = (config.method || '').toLowerCase();
+    const before = !config.audit && method !== 'post' ? await fetchBeforeSnapshot(config) : null;
+    config.headers.set(AUDIT_HEADER, encodeAuditMeta(config.audit || inferMeta(config, before)));
+    return config;
+  });
+};
@@ -0,0 +1,33 @@
+// Blog publishing workflow: drafts, published posts and posts scheduled for a future publish date
+
+import { getTodayKey, toLocalDateKey } from './bookingQueries';
+
+export type BlogStatus = 'draft' | 'published' | 'scheduled';
+
+export const BLOG_STATUS_OPTIONS: { value: BlogStatus; label: string }[] = [
+  { value: 'draft', label: 'Draft' },
+  { value: 'published', label: 'Published' },
+  { value: 'scheduled', label: 'Scheduled' },
+];
+
+// A post saved as published with a future date is really scheduled, and a scheduled post whose
+// date has passed is live. Drafts stay drafts regardless of the date. Dates are compared by the local
+// calendar day, so a post goes live at local midnight rather than at midnight UTC.
+export const getEffectiveBlogStatus = (status: BlogStatus, publishDate: string): BlogStatus => {
+  if (status === 'draft') return 'draft';
+  return toLocalDateKey(publishDate || '') > getTodayKey() ? 'scheduled' : 'published';
+};
+
+export const getBlogStatusLabel = (status: BlogStatus) =>
+  BLOG_STATUS_OPTIONS.find((option) => option.value === status)?.label || status;
+
+export const getBlogStatusColor = (status: BlogStatus) => {
+  switch (status) {
+    case 'published':
+      return 'bg-green-100 text-green-800';
+    case 'scheduled':
+      return 'bg-blue-100 text-blue-800';
+    default:
+      return 'bg-yellow-100 text-yellow-800';
+  }
+};
@@ -0,0 +1,239 @@
+// Builds template placeholder values from a booking and renders documents from the saved templates
+
+import { api, assertSuccess, type ApiEnvelope } from './api';
+import { downloadHtmlAsPdf } from './pdf';
+import { formatBookingRef } from './bookingQueries';
+import { parseBookingStatus, type BookingStatus } from './bookingStatus';
+import {
+  fetchDocumentTemplate,
+  getMapLink,
+  renderDocument,
+  sendDocumentEmail,
+  type DocumentTemplateId,
+  type RenderedDocument,
+  type TemplateValues,
+} from './documentTemplates';
+import { fetchPayments, getLedgerTotals, type PaymentEntry } from './payments';
+import type { NightQuote } from './pricing';
+
+export const DEFAULT_CONTACT_EMAIL = 'booking@plumeriaretreat.com';
+
+export interface BookingDocumentSource {
+  bookingRef: string;
+  guestName: string;
+  guestEmail?: string | null;
+  guestPhone?: string | null;
+  accommodationName: string;
+  accommodationAddress?: string | null;
+  latitude?: number | string | null;
+  longitude?: number | string | null;
+  isVilla?: boolean;
+  checkIn: string;
+  checkOut: string;
+  createdAt?: string | null;
+  adults: number;
+  children: number;
+  extraAdults?: number;
+  rooms: number;
+  vegCount?: number;
+  nonVegCount?: number;
+  jainCount?: number;
+  nights?: NightQuote[];
+  fullAmount?: number;
+  couponCode?: string | null;
+  discount?: number;
+  totalAmount: number;
+  advanceAmount: number;
+  // Net of refunds; defaults to the advance when the ledger hasn't been loaded
+  paidAmount?: number;
+  contactName?: string | null;
+  contactPhone?: string | null;
+  contactEmail?: string | null;
+}
+
+export const formatDocumentAmount = (amount: number) =>
+  amount.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+export const formatDocumentDate = (value?: string | null) => {
+  if (!value) return '';
+  const date = new Date(value);
+  return isNaN(date.getTime())
+    ? value
+    : date.toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric' });
+};
+
+// One line per night so date-specific prices are visible on the confirmation
+const buildNightlyBreakdown = (nights: NightQuote[]) =>
+  nights
+    .map(
+      (night) =>
+        `<p style="margin:0 0 6px;font-size:12px;">${night.date}${
+          night.overridden ? ' (special rate)' : night.ratePlan ? ` (${night.ratePlan})` : ''
+        }: <b style="float:right;">${formatDocumentAmount(night.amount)}</b></p>`
+    )
+    .join('');
+
+const countNights = (checkIn: string, checkOut: string) => {
+  const nights = Math.round((new Date(checkOut).getTime() - new Date(checkIn).getTime()) / 86400000);
+  return isNaN(nights) ? 0 : Math.max(0, nights);
+};
+
+export const buildBookingValues = (source: BookingDocumentSource): TemplateValues => {
+  const paid = source.paidAmount ?? source.advanceAmount;
+  return {
+    booking_ref: source.bookingRef,
+    booking_date: formatDocumentDate(source.createdAt || new Date().toISOString()),
+    guest_name: source.guestName,
+    guest_email: source.guestEmail,
+    guest_phone: source.guestPhone,
+    accommodation_name: source.accommodationName,
+    accommodation_address: source.accommodationAddress,
+    map_link: getMapLink(source.latitude, source.longitude),
+    check_in: formatDocumentDate(source.checkIn),
+    check_out: formatDocumentDate(source.checkOut),
+    nights: source.nights?.length || countNights(source.checkIn, source.checkOut),
+    total_guests: source.adults + source.children + (source.extraAdults || 0),
+    adults: source.adults,
+    children: source.children,
+    extra_adults: source.extraAdults || 0,
+    rooms: source.rooms,
+    is_villa: !!source.isVilla,
+    veg_count: source.vegCount || 0,
+    nonveg_count: source.nonVegCount || 0,
+    jain_count: source.jainCount || 0,
+    nightly_breakdown: buildNightlyBreakdown(source.nights || []),
+    full_amount: formatDocumentAmount(source.fullAmount ?? source.totalAmount),
+    coupon_code: source.couponCode,
+    discount: formatDocumentAmount(source.discount || 0),
+    total_amount: formatDocumentAmount(source.totalAmount),
+    advance_amount: formatDocumentAmount(source.advanceAmount),
+    paid_amount: formatDocumentAmount(paid),
+    balance_due: formatDocumentAmount(Math.max(0, source.totalAmount - paid)),
+    contact_name: source.contactName,
+    contact_phone: source.contactPhone,
+    contact_email: source.contactEmail || DEFAULT_CONTACT_EMAIL,
+  };
+};
+
+export const renderBookingDocument = async (
+  templateId: DocumentTemplateId,
+  values: TemplateValues
+): Promise<RenderedDocument> => renderDocument(await fetchDocumentTemplate(templateId), values);
+
+export const downloadBookingDocument = async (templateId: DocumentTemplateId, values: TemplateValues, filename: string) => {
+  const document = await renderBookingDocument(templateId, values);
+  await downloadHtmlAsPdf(document.html, filename);
+};
+
+// A booking as returned by GET /bookings/:id
+interface StoredBooking {
+  id: number;
+  guest_name: string;
+  guest_email: string;
+  guest_phone: string | null;
+  accommodation_id: number;
+  accommodation_name?: string | null;
+  check_in: string;
+  check_out: string;
+  adults: number;
+  children: number;
+  extra_adults?: number | null;
+  rooms: number;
+  food_veg: number;
+  food_nonveg: number;
+  food_jain: number;
+  coupon?: string | null;
+  discount?: string | number | null;
+  full_amount?: string | number | null;
+  total_amount: string | number;
+  advance_amount: string | number;
+  status?: string | null;
+  created_at: string;
+}
+
+// The subset of GET /properties/accommodations/:id a confirmation needs
+interface StoredAccommodation {
+  basicInfo?: { name?: string; type?: string };
+  location?: {
+    address?: string;
+    coordinates?: { latitude?: number; longitude?: number };
+    owner?: { name?: string; phone?: string; email?: string } | null;
+  };
+}
+
+export interface BookingConfirmation {
+  guestEmail: string;
+  guestPhone: string | null;
+  status: BookingStatus;
+  balanceDue: number;
+  payments: PaymentEntry[];
+  values: TemplateValues;
+}
+
+const toAmount = (value: string | number | null | undefined) => parseFloat(String(value ?? 0)) || 0;
+
+// Rebuilds the confirmation from the stored booking, with paid and balance amounts taken from the
+// current payment ledger rather than the advance recorded at booking time
+export const loadBookingConfirmation = async (bookingId: number, signal?: AbortSignal): Promise<BookingConfirmation> => {
+  const { data } = await api.get<ApiEnvelope<StoredBooking>>(`/bookings/${bookingId}`, { signal });
+  const booking = assertSuccess(data, 'Failed to load booking').data;
+
+  const [{ data: accommodation }, payments] = await Promise.all([
+    api.get<StoredAccommodation>(`/properties/accommodations/${booking.accommodation_id}`, { signal }),
+    fetchPayments(bookingId, signal),
+  ]);
+  const totalAmount = toAmount(booking.total_amount);
+  const paidAmount = getLedgerTotals(totalAmount, payments).net;
+  const owner = accommodation.location?.owner;
+
+  return {
+    guestEmail: booking.guest_email,
+    guestPhone: booking.guest_phone,
+    status: parseBookingStatus(booking.status),
+    balanceDue: Math.max(0, totalAmount - paidAmount),
+    payments,
+    values: buildBookingValues({
+      bookingRef: formatBookingRef(booking.id),
+      guestName: booking.guest_name,
+      guestEmail: booking.guest_email,
+      guestPhone: booking.guest_phone,
+      accommodationName: accommodation.basicInfo?.name || booking.accommodation_name || '',
+      accommodationAddress: accommodation.location?.address,
+      latitude: accommodation.location?.coordinates?.latitude,
+      longitude: accommodation.location?.coordinates?.longitude,
+      isVilla: accommodation.basicInfo?.type === 'Villa',
+      checkIn: booking.check_in,
+      checkOut: booking.check_out,
+      createdAt: booking.created_at,
+      adults: booking.adults,
+      children: booking.children,
+      extraAdults: booking.extra_adults || 0,
+      rooms: booking.rooms,
+      vegCount: booking.food_veg,
+      nonVegCount: booking.food_nonveg,
+      jainCount: booking.food_jain,
+      fullAmount: booking.full_amount != null ? toAmount(booking.full_amount) : undefined,
+      couponCode: booking.coupon,
+      discount: toAmount(booking.discount),
+      totalAmount,
+      advanceAmount: toAmount(booking.advance_amount),
+      paidAmount,
+      contactName: owner?.name,
+      contactPhone: owner?.phone,
+      contactEmail: owner?.email,
+    }),
+  };
+};
+
+export const downloadBookingConfirmation = async (bookingId: number) => {
+  const { values } = await loadBookingConfirmation(bookingId);
+  await downloadBookingDocument('booking-confirmation', values, `Booking-${formatBookingRef(bookingId)}.pdf`);
+};
+
+// Emails the regenerated confirmation to the guest and returns the address it was sent to
+export const resendBookingConfirmation = async (bookingId: number) => {
+  const { guestEmail, values } = await loadBookingConfirmation(bookingId);
+  if (!guestEmail) throw new Error('This booking has no guest email address');
+  await sendDocumentEmail('booking-confirmation', guestEmail, await renderBookingDocument('booking-confirmation', values), bookingId);
+  return guestEmail;
+};
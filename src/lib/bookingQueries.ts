@@ -0,0 +1,108 @@
+// Selectors over the raw /bookings list shared by the dashboard widgets and the Bookings page filters
+
+import { format } from 'date-fns';
+import { api, assertSuccess, type ApiEnvelope } from './api';
+import { parseBookingStatus, type BookingStatus } from './bookingStatus';
+import { fetchLedgerTotals, type LedgerTotals } from './payments';
+
+export interface BookingSummary {
+  id: number;
+  guest_name: string;
+  accommodation_id?: number | null;
+  accommodation_name: string | null;
+  check_in: string;
+  check_out: string;
+  adults: number;
+  children: number;
+  rooms: number;
+  total_amount: string | number;
+  advance_amount: string | number;
+  status?: string | null;
+}
+
+// Which booking date a date-range filter applies to
+export type BookingDateField = 'check_in' | 'check_out';
+
+// Server-side filters accepted by GET /bookings; start_date and end_date are inclusive and apply to date_field
+export interface BookingListQuery {
+  date_field?: BookingDateField;
+  start_date?: string;
+  end_date?: string;
+  status?: string;
+}
+
+const BOOKINGS_PAGE_SIZE = 200;
+
+// Reads every page of /bookings for the query. A single request with a large limit silently drops
+// whatever falls past it, which skews totals once the table grows.
+export const fetchAllBookings = async <T = BookingSummary>(
+  query: BookingListQuery = {},
+  signal?: AbortSignal
+): Promise<T[]> => {
+  const bookings: T[] = [];
+  for (let page = 1; ; page++) {
+    const response = await api.get<ApiEnvelope<T[]>>('/bookings', {
+      params: { ...query, page, limit: BOOKINGS_PAGE_SIZE },
+      signal,
+    });
+    const { data, pagination } = assertSuccess(response.data, 'Failed to load bookings');
+    const rows = data || [];
+    bookings.push(...rows);
+    const lastPage = pagination ? page >= pagination.totalPages : rows.length < BOOKINGS_PAGE_SIZE;
+    if (lastPage || rows.length === 0) return bookings;
+  }
+};
+
+// Date-only strings are read as local midnight; new Date('YYYY-MM-DD') would give UTC midnight
+export const parseLocalDate = (value: string) => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value.trim());
+  return match ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])) : new Date(value);
+};
+
+// Stay dates come back either as YYYY-MM-DD or as a UTC timestamp of local midnight, so compare
+// them by the local calendar day
+export const toLocalDateKey = (value: string | Date) => {
+  const date = typeof value === 'string' ? parseLocalDate(value) : value;
+  return isNaN(date.getTime()) ? '' : format(date, 'yyyy-MM-dd');
+};
+
+export const getTodayKey = () => toLocalDateKey(new Date());
+
+// Human-facing booking number, e.g. BK-0042
+export const formatBookingRef = (id: number) => `BK-${id.toString().padStart(4, '0')}`;
+
+const toAmount = (value: string | number) => {
+  const amount = typeof value === 'number' ? value : parseFloat(value);
+  return isNaN(amount) ? 0 : amount;
+};
+
+// Ledger totals keyed by booking id; undefined while loading, null when the ledger failed to load
+export type BookingBalances = Record<number, LedgerTotals | null | undefined>;
+
+export const fetchBookingBalances = (
+  bookings: Pick<BookingSummary, 'id' | 'total_amount'>[],
+  signal?: AbortSignal
+): Promise<BookingBalances> =>
+  fetchLedgerTotals(
+    bookings.map(booking => ({ id: booking.id, totalAmount: toAmount(booking.total_amount) })),
+    signal
+  );
+
+// Still owed according to the payment ledger; a ledger that hasn't loaded counts as nothing owed
+export const getBalanceDue = (booking: Pick<BookingSummary, 'id'>, balances: BookingBalances) =>
+  balances[booking.id]?.remaining ?? 0;
+
+const ARRIVING_STATUSES: BookingStatus[] = ['pending', 'confirmed'];
+const DEPARTING_STATUSES: BookingStatus[] = ['confirmed', 'checked-in'];
+
+// Guests still expected to check in on the given day
+export const isArrivalOn = (booking: BookingSummary, dateKey: string) =>
+  toLocalDateKey(booking.check_in) === dateKey && ARRIVING_STATUSES.includes(parseBookingStatus(booking.status));
+
+// Guests still expected to check out on the given day
+export const isDepartureOn = (booking: BookingSummary, dateKey: string) =>
+  toLocalDateKey(booking.check_out) === dateKey && DEPARTING_STATUSES.includes(parseBookingStatus(booking.status));
+
+// Cancelled bookings owe nothing even if the advance never covered the total
+export const hasBalanceDue = (booking: Pick<BookingSummary, 'id' | 'status'>, balances: BookingBalances) =>
+  parseBookingStatus(booking.status) !== 'cancelled' && getBalanceDue(booking, balances) > 0;
@@ -0,0 +1,61 @@
+// Booking lifecycle: the statuses a booking can be in and the transitions between them
+
+export type BookingStatus = 'pending' | 'confirmed' | 'checked-in' | 'checked-out' | 'cancelled' | 'no-show';
+
+export type BookingTransition = 'confirm' | 'cancel' | 'no-show' | 'check-in' | 'check-out';
+
+export const BOOKING_STATUS_OPTIONS: { value: BookingStatus; label: string }[] = [
+  { value: 'pending', label: 'Pending' },
+  { value: 'confirmed', label: 'Confirmed' },
+  { value: 'checked-in', label: 'Checked In' },
+  { value: 'checked-out', label: 'Checked Out' },
+  { value: 'cancelled', label: 'Cancelled' },
+  { value: 'no-show', label: 'No Show' },
+];
+
+export const BOOKING_TRANSITIONS: Record<BookingTransition, { label: string; from: BookingStatus[]; to: BookingStatus }> = {
+  confirm: { label: 'Confirm', from: ['pending'], to: 'confirmed' },
+  'check-in': { label: 'Check In', from: ['confirmed'], to: 'checked-in' },
+  'check-out': { label: 'Check Out', from: ['checked-in'], to: 'checked-out' },
+  'no-show': { label: 'Mark No-Show', from: ['confirmed'], to: 'no-show' },
+  cancel: { label: 'Cancel', from: ['pending', 'confirmed'], to: 'cancelled' },
+};
+
+// Bookings created before the lifecycle existed have no status and were always treated as confirmed
+export const parseBookingStatus = (status?: string | null): BookingStatus => {
+  const key = (status || '').trim().toLowerCase().replace(/[\s_]+/g, '-');
+  if (key === 'noshow') return 'no-show';
+  return BOOKING_STATUS_OPTIONS.some((option) => option.value === key) ? (key as BookingStatus) : 'confirmed';
+};
+
+export const getBookingStatusLabel = (status: BookingStatus) =>
+  BOOKING_STATUS_OPTIONS.find((option) => option.value === status)?.label || status;
+
+export const getBookingStatusColor = (status: BookingStatus) => {
+  switch (status) {
+    case 'confirmed':
+      return 'bg-green-100 text-green-800';
+    case 'pending':
+      return 'bg-blue-100 text-blue-800';
+    case 'checked-in':
+      return 'bg-indigo-100 text-indigo-800';
+    case 'checked-out':
+      return 'bg-gray-100 text-gray-800';
+    case 'cancelled':
+      return 'bg-red-100 text-red-800';
+    case 'no-show':
+      return 'bg-amber-100 text-amber-800';
+    default:
+      return 'bg-gray-100 text-gray-800';
+  }
+};
+
+export const getAvailableTransitions = (status: BookingStatus): BookingTransition[] =>
+  (Object.keys(BOOKING_TRANSITIONS) as BookingTransition[]).filter((transition) =>
+    BOOKING_TRANSITIONS[transition].from.includes(status)
+  );
+
+// Dates, rooms and guests can still change until the guest has checked out
+export const EDITABLE_BOOKING_STATUSES: BookingStatus[] = ['pending', 'confirmed', 'checked-in'];
+
+export const isBookingEditable = (status: BookingStatus) => EDITABLE_BOOKING_STATUSES.includes(status);
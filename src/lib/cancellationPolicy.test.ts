@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { calculateRefund, daysUntil } from './cancellationPolicy';
+
+// Local dates, the way the modal parses check-in
+const day = (value: string, time = '00:00') => new Date(`${value}T${time}:00`);
+
+describe('daysUntil', () => {
+  it('counts whole local calendar days regardless of the time of day', () => {
+    expect(daysUntil(day('2026-11-01'), day('2026-10-31', '23:59'))).toBe(1);
+    expect(daysUntil(day('2026-11-01'), day('2026-11-01', '18:00'))).toBe(0);
+    expect(daysUntil(day('2026-11-01'), day('2026-11-03'))).toBe(-2);
+  });
+});
+
+describe('calculateRefund', () => {
+  const checkIn = day('2026-11-20');
+
+  it.each([
+    ['2026-10-20', 31, 100],
+    ['2026-11-05', 15, 100],
+    ['2026-11-06', 14, 50],
+    ['2026-11-13', 7, 50],
+    ['2026-11-14', 6, 25],
+    ['2026-11-18', 2, 25],
+    ['2026-11-19', 1, 0],
+    ['2026-11-21', -1, 0],
+  ])('cancelling on %s (%i days before) refunds %i%%', (cancelledOn, days, percent) => {
+    const quote = calculateRefund(10000, checkIn, day(cancelledOn, '21:30'));
+    expect(quote.daysBeforeCheckIn).toBe(days);
+    expect(quote.refundPercent).toBe(percent);
+    expect(quote.refundAmount).toBe(percent * 100);
+    expect(quote.retainedAmount).toBe(10000 - percent * 100);
+  });
+
+  it('rounds the refund to whole rupees and never refunds a negative balance', () => {
+    expect(calculateRefund(999, checkIn, day('2026-11-10')).refundAmount).toBe(500);
+    expect(calculateRefund(-500, checkIn, day('2026-11-01'))).toMatchObject({ refundAmount: 0, retainedAmount: 0 });
+  });
+
+  it('uses a custom policy when given one', () => {
+    const policy = [
+      { minDaysBefore: 3, refundPercent: 80, label: '3+ days' },
+      { minDaysBefore: -Infinity, refundPercent: 10, label: 'Late' },
+    ];
+    expect(calculateRefund(1000, checkIn, day('2026-11-17'), policy)).toMatchObject({ refundAmount: 800 });
+    expect(calculateRefund(1000, checkIn, day('2026-11-18'), policy)).toMatchObject({ refundAmount: 100 });
+  });
+});
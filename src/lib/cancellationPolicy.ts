@@ -0,0 +1,51 @@
+// Cancellation policy: how much of the advance is refunded based on notice given before check-in
+
+export interface CancellationTier {
+  // Minimum whole days between cancellation and check-in for this tier to apply
+  minDaysBefore: number;
+  refundPercent: number;
+  label: string;
+}
+
+export interface RefundQuote {
+  daysBeforeCheckIn: number;
+  tier: CancellationTier;
+  refundPercent: number;
+  refundAmount: number;
+  retainedAmount: number;
+}
+
+// Ordered from most to least generous
+export const DEFAULT_CANCELLATION_POLICY: CancellationTier[] = [
+  { minDaysBefore: 15, refundPercent: 100, label: '15+ days before check-in' },
+  { minDaysBefore: 7, refundPercent: 50, label: '7–14 days before check-in' },
+  { minDaysBefore: 2, refundPercent: 25, label: '2–6 days before check-in' },
+  { minDaysBefore: -Infinity, refundPercent: 0, label: 'Less than 2 days before check-in' },
+];
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+export const daysUntil = (checkIn: Date, from: Date = new Date()) =>
+  Math.round((startOfDay(checkIn).getTime() - startOfDay(from).getTime()) / MS_PER_DAY);
+
+export const calculateRefund = (
+  advancePaid: number,
+  checkIn: Date,
+  cancelledAt: Date = new Date(),
+  policy: CancellationTier[] = DEFAULT_CANCELLATION_POLICY
+): RefundQuote => {
+  const daysBeforeCheckIn = daysUntil(checkIn, cancelledAt);
+  const tier = policy.find((t) => daysBeforeCheckIn >= t.minDaysBefore) || policy[policy.length - 1];
+  const paid = Math.max(0, advancePaid);
+  const refundAmount = Math.round((paid * tier.refundPercent) / 100);
+
+  return {
+    daysBeforeCheckIn,
+    tier,
+    refundPercent: tier.refundPercent,
+    refundAmount,
+    retainedAmount: paid - refundAmount,
+  };
+};
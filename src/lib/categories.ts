@@ -0,0 +1,65 @@
+// Managed categories (Categories / CategoryForm pages) and helpers for their parent/child hierarchy
+
+export interface Category {
+  id: number;
+  name: string;
+  description: string;
+  slug: string;
+  parent_id?: number | null;
+  active: boolean;
+  // Number of blog posts filed directly under this category
+  post_count?: number;
+}
+
+export interface CategoryOption {
+  category: Category;
+  depth: number;
+  // Name indented by depth, for use in <select> options
+  label: string;
+}
+
+const byName = (a: Category, b: Category) => a.name.localeCompare(b.name);
+
+export const getChildCategories = (categories: Category[], parentId: number | null) =>
+  categories.filter((category) => (category.parent_id ?? null) === parentId).sort(byName);
+
+// Depth-first list of categories with each child directly under its parent. Categories whose parent
+// no longer exists are treated as top-level so they never disappear from pickers.
+export const buildCategoryOptions = (categories: Category[]): CategoryOption[] => {
+  const ids = new Set(categories.map((category) => category.id));
+  const roots = categories
+    .filter((category) => category.parent_id == null || !ids.has(category.parent_id))
+    .sort(byName);
+
+  const options: CategoryOption[] = [];
+  const visit = (category: Category, depth: number) => {
+    // Non-breaking spaces, since browsers collapse ordinary whitespace inside <option>
+    options.push({ category, depth, label: `${'\u00A0\u00A0\u00A0'.repeat(depth)}${depth > 0 ? '└ ' : ''}${category.name}` });
+    getChildCategories(categories, category.id).forEach((child) => visit(child, depth + 1));
+  };
+  roots.forEach((root) => visit(root, 0));
+  return options;
+};
+
+// The category and everything nested below it
+export const getDescendantIds = (categories: Category[], id: number): number[] => {
+  const result = [id];
+  for (let i = 0; i < result.length; i++) {
+    getChildCategories(categories, result[i]).forEach((child) => {
+      if (!result.includes(child.id)) result.push(child.id);
+    });
+  }
+  return result;
+};
+
+export const getCategoryPath = (categories: Category[], id: number | null | undefined): string => {
+  const names: string[] = [];
+  const seen = new Set<number>();
+  let current = categories.find((category) => category.id === id);
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id);
+    names.unshift(current.name);
+    current = categories.find((category) => category.id === current?.parent_id);
+  }
+  return names.join(' / ');
+};
@@ -0,0 +1,13 @@
+// Coupon expiry checks shared by the Coupons page and the dashboard
+
+// Active coupons expiring within this many days are flagged as expiring soon
+export const EXPIRING_SOON_DAYS = 7;
+
+export const isCouponExpired = (expiryDate: string) => new Date(expiryDate) < new Date();
+
+export const isCouponExpiringSoon = (coupon: { active: boolean; expiryDate: string }) => {
+  if (!coupon.active || isCouponExpired(coupon.expiryDate)) return false;
+  const cutoff = new Date();
+  cutoff.setDate(cutoff.getDate() + EXPIRING_SOON_DAYS);
+  return new Date(coupon.expiryDate) <= cutoff;
+};
@@ -0,0 +1,97 @@
+// Dashboard widget registry and the per-user layout (which widgets are shown, in what order).
+// Layouts are saved on the user's account so they follow them across browsers; localStorage keeps a
+// copy under the user's id for the first paint.
+
+import { api, unwrap, type ApiEnvelope } from './api';
+import type { Capability } from './permissions';
+
+export type DashboardWidgetId =
+  | 'stats'
+  | 'arrivals'
+  | 'departures'
+  | 'pending-balances'
+  | 'expiring-coupons'
+  | 'blocked-inventory'
+  | 'quick-access'
+  | 'recent-bookings';
+
+export interface DashboardWidgetDefinition {
+  id: DashboardWidgetId;
+  title: string;
+  description: string;
+  capability: Capability;
+  // Spans the full width of the grid
+  wide?: boolean;
+}
+
+export const DASHBOARD_WIDGETS: DashboardWidgetDefinition[] = [
+  { id: 'stats', title: 'Key Metrics', description: 'Bookings, occupancy, revenue and visitors', capability: 'dashboard:view', wide: true },
+  { id: 'arrivals', title: "Today's Arrivals", description: 'Guests due to check in today', capability: 'bookings:view' },
+  { id: 'departures', title: "Today's Departures", description: 'Guests due to check out today', capability: 'bookings:view' },
+  { id: 'pending-balances', title: 'Pending Balances', description: 'Bookings with an unpaid balance', capability: 'bookings:view' },
+  { id: 'expiring-coupons', title: 'Expiring Coupons', description: 'Active coupons about to expire', capability: 'coupons:view' },
+  { id: 'blocked-inventory', title: 'Blocked Inventory', description: 'Rooms blocked over the next two weeks', capability: 'calendar:manage' },
+  { id: 'quick-access', title: 'Quick Access', description: 'Counts of properties, images and services', capability: 'dashboard:view', wide: true },
+  { id: 'recent-bookings', title: 'Recent Bookings', description: 'Latest 5 bookings from guests', capability: 'bookings:view', wide: true },
+];
+
+export const DEFAULT_WIDGET_LAYOUT: DashboardWidgetId[] = [
+  'stats',
+  'arrivals',
+  'departures',
+  'pending-balances',
+  'expiring-coupons',
+  'blocked-inventory',
+  'recent-bookings',
+];
+
+const LAYOUT_ENDPOINT = '/users/me/dashboard-layout';
+
+const layoutKey = (userId: string) => `dashboardWidgets:${userId}`;
+
+export const getWidgetDefinition = (id: DashboardWidgetId) => DASHBOARD_WIDGETS.find((widget) => widget.id === id);
+
+// Unknown ids (e.g. widgets removed in a later release) are dropped
+const parseLayout = (ids: unknown): DashboardWidgetId[] | null =>
+  Array.isArray(ids)
+    ? ids.filter((id): id is DashboardWidgetId => DASHBOARD_WIDGETS.some((widget) => widget.id === id))
+    : null;
+
+const cacheLayout = (userId: string, layout: DashboardWidgetId[] | null) => {
+  if (layout) localStorage.setItem(layoutKey(userId), JSON.stringify(layout));
+  else localStorage.removeItem(layoutKey(userId));
+};
+
+// Cached copy for the first render; fetchWidgetLayout has the account's saved layout
+export const loadWidgetLayout = (userId: string | undefined): DashboardWidgetId[] => {
+  if (!userId) return DEFAULT_WIDGET_LAYOUT;
+  const saved = localStorage.getItem(layoutKey(userId));
+  if (!saved) return DEFAULT_WIDGET_LAYOUT;
+  try {
+    return parseLayout(JSON.parse(saved)) || DEFAULT_WIDGET_LAYOUT;
+  } catch {
+    return DEFAULT_WIDGET_LAYOUT;
+  }
+};
+
+// Null widgets means the user never customised the dashboard
+export const fetchWidgetLayout = async (userId: string, signal?: AbortSignal): Promise<DashboardWidgetId[]> => {
+  const response = await api.get<ApiEnvelope<{ widgets: string[] | null }>>(LAYOUT_ENDPOINT, { signal });
+  const layout = parseLayout(unwrap(response.data)?.widgets);
+  cacheLayout(userId, layout);
+  return layout || DEFAULT_WIDGET_LAYOUT;
+};
+
+export const saveWidgetLayout = async (userId: string | undefined, layout: DashboardWidgetId[]) => {
+  if (!userId) return;
+  cacheLayout(userId, layout);
+  const response = await api.put(LAYOUT_ENDPOINT, { widgets: layout }, { audit: false });
+  unwrap(response.data);
+};
+
+export const resetWidgetLayout = async (userId: string | undefined) => {
+  if (!userId) return;
+  cacheLayout(userId, null);
+  const response = await api.delete(LAYOUT_ENDPOINT, { audit: false });
+  unwrap(response.data);
+};
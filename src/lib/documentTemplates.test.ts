@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_TEMPLATES, getSampleValues, renderDocument, renderTemplate } from './documentTemplates';
+
+describe('renderTemplate', () => {
+  it('escapes values in double braces', () => {
+    expect(renderTemplate('<p>{{guest_name}}</p>', { guest_name: '<img src=x onerror="alert(1)">' })).toBe(
+      '<p>&lt;img src=x onerror=&quot;alert(1)&quot;&gt;</p>'
+    );
+  });
+
+  it('inserts triple-brace values as-is and blanks missing ones', () => {
+    expect(renderTemplate('{{{rows}}}|{{missing}}', { rows: '<tr><td>1</td></tr>' })).toBe('<tr><td>1</td></tr>|');
+  });
+
+  it('shows sections only when the value is set, and inverted sections only when it is not', () => {
+    const template = '{{#discount}}Saved {{discount}}{{/discount}}{{^discount}}No discount{{/discount}}';
+    expect(renderTemplate(template, { discount: '500' })).toBe('Saved 500');
+    expect(renderTemplate(template, { discount: 0 })).toBe('No discount');
+    expect(renderTemplate(template, {})).toBe('No discount');
+  });
+});
+
+describe('renderDocument', () => {
+  it('keeps the subject as plain text and escapes the body', () => {
+    const rendered = renderDocument(
+      { id: 'payment-receipt', subject: 'Receipt for {{guest_name}}', body: '<p>{{guest_name}}</p>' },
+      { guest_name: 'Asha & Ravi' }
+    );
+    expect(rendered).toEqual({ subject: 'Receipt for Asha & Ravi', html: '<p>Asha &amp; Ravi</p>' });
+  });
+
+  it('fills every placeholder of the default templates from the sample values', () => {
+    Object.values(DEFAULT_TEMPLATES).forEach((template) => {
+      const { subject, html } = renderDocument(template, getSampleValues(template.id));
+      expect(`${subject}${html}`).not.toMatch(/\{\{/);
+    });
+  });
+});
@@ -0,0 +1,362 @@
+// Editable document templates (booking confirmations, receipts, payment reminders, pre-arrival
+// messages, cancellation notices). The same rendered HTML is used for the PDF download and the email body.
+//
+// Placeholders use a small mustache-style syntax:
+//   {{key}}              value, HTML-escaped
+//   {{{key}}}            value inserted as-is (for pre-built HTML fragments)
+//   {{#key}}...{{/key}}  section shown only when the value is set (not empty, 0 or false)
+//   {{^key}}...{{/key}}  section shown only when the value is not set
+
+import { api, assertSuccess, unwrap } from './api';
+import { escapeHtml } from './pdf';
+
+export type DocumentTemplateId =
+  | 'booking-confirmation'
+  | 'payment-receipt'
+  | 'payment-reminder'
+  | 'pre-arrival'
+  | 'cancellation-notice';
+
+export interface DocumentTemplate {
+  id: DocumentTemplateId;
+  subject: string;
+  body: string;
+  updated_at?: string | null;
+  // True when the template has been edited and saved on the server
+  customized?: boolean;
+}
+
+export type TemplateValue = string | number | boolean | null | undefined;
+export type TemplateValues = Partial<Record<string, TemplateValue>>;
+
+export interface RenderedDocument {
+  subject: string;
+  html: string;
+}
+
+export interface TemplatePlaceholder {
+  key: string;
+  label: string;
+  sample: TemplateValue;
+  // Pre-built HTML, used with triple braces
+  html?: boolean;
+}
+
+export const DOCUMENT_TEMPLATE_TYPES: { id: DocumentTemplateId; name: string; description: string }[] = [
+  { id: 'booking-confirmation', name: 'Booking Confirmation', description: 'E-voucher sent when a booking is made' },
+  { id: 'payment-receipt', name: 'Payment Receipt', description: 'Numbered receipt for a single payment or refund' },
+  { id: 'payment-reminder', name: 'Payment Reminder', description: 'Reminder of the balance due before arrival' },
+  { id: 'pre-arrival', name: 'Pre-arrival', description: 'Directions and check-in details sent the day before arrival' },
+  { id: 'cancellation-notice', name: 'Cancellation Notice', description: 'Sent when a booking is cancelled' },
+];
+
+const BOOKING_PLACEHOLDERS: TemplatePlaceholder[] = [
+  { key: 'booking_ref', label: 'Booking ID', sample: 'BK-0042' },
+  { key: 'booking_date', label: 'Booking date', sample: '18 Oct 2026' },
+  { key: 'guest_name', label: 'Guest name', sample: 'Asha Kulkarni' },
+  { key: 'guest_email', label: 'Guest email', sample: 'asha@example.com' },
+  { key: 'guest_phone', label: 'Guest phone', sample: '98200 12345' },
+  { key: 'accommodation_name', label: 'Accommodation', sample: 'Lakeside AC Cottage' },
+  { key: 'accommodation_address', label: 'Address', sample: 'Thakursai, Pawna Lake' },
+  { key: 'map_link', label: 'Map link', sample: 'https://maps.google.com/maps?q=18.6632,73.4918' },
+  { key: 'check_in', label: 'Check-in', sample: '24 Oct 2026' },
+  { key: 'check_out', label: 'Check-out', sample: '25 Oct 2026' },
+  { key: 'nights', label: 'Nights', sample: 1 },
+  { key: 'total_guests', label: 'Total guests', sample: 3 },
+  { key: 'adults', label: 'Adults', sample: 2 },
+  { key: 'children', label: 'Children', sample: 1 },
+  { key: 'extra_adults', label: 'Extra adults (villas)', sample: 0 },
+  { key: 'rooms', label: 'Rooms', sample: 1 },
+  { key: 'is_villa', label: 'Is a villa', sample: false },
+  { key: 'veg_count', label: 'Veg meals', sample: 2 },
+  { key: 'nonveg_count', label: 'Non-veg meals', sample: 1 },
+  { key: 'jain_count', label: 'Jain meals', sample: 0 },
+  { key: 'nightly_breakdown', label: 'Nightly rates', sample: '<p style="margin:0 0 6px;">2026-10-24: <b>4,500.00</b></p>', html: true },
+  { key: 'full_amount', label: 'Amount before discount', sample: '4,500.00' },
+  { key: 'coupon_code', label: 'Coupon', sample: '' },
+  { key: 'discount', label: 'Discount', sample: '0.00' },
+  { key: 'total_amount', label: 'Total amount', sample: '4,500.00' },
+  { key: 'advance_amount', label: 'Advance amount', sample: '1,500.00' },
+  { key: 'paid_amount', label: 'Paid to date', sample: '1,500.00' },
+  { key: 'balance_due', label: 'Balance due', sample: '3,000.00' },
+  { key: 'contact_name', label: 'Contact name', sample: 'Rahul' },
+  { key: 'contact_phone', label: 'Contact phone', sample: '98765 43210' },
+  { key: 'contact_email', label: 'Contact email', sample: 'booking@plumeriaretreat.com' },
+];
+
+const PAYMENT_PLACEHOLDERS: TemplatePlaceholder[] = [
+  { key: 'receipt_number', label: 'Receipt number', sample: 'RCPT-000123' },
+  { key: 'receipt_title', label: 'Receipt title', sample: 'Payment Receipt' },
+  { key: 'payment_date', label: 'Payment date', sample: '18 Oct 2026' },
+  { key: 'payment_amount', label: 'Payment amount', sample: '1,500.00' },
+  { key: 'payment_method', label: 'Payment method', sample: 'UPI' },
+  { key: 'payment_reference', label: 'Transaction ID', sample: 'UPI-7781' },
+  { key: 'payment_notes', label: 'Payment notes', sample: '' },
+  { key: 'is_void', label: 'Entry is voided', sample: false },
+  { key: 'void_reason', label: 'Void reason', sample: '' },
+];
+
+const CANCELLATION_PLACEHOLDERS: TemplatePlaceholder[] = [
+  { key: 'cancellation_date', label: 'Cancellation date', sample: '20 Oct 2026' },
+  { key: 'cancellation_reason', label: 'Cancellation reason', sample: 'Change of plans' },
+  { key: 'refund_amount', label: 'Refund amount', sample: '750.00' },
+];
+
+export const TEMPLATE_PLACEHOLDERS: Record<DocumentTemplateId, TemplatePlaceholder[]> = {
+  'booking-confirmation': BOOKING_PLACEHOLDERS,
+  'payment-receipt': [...BOOKING_PLACEHOLDERS, ...PAYMENT_PLACEHOLDERS],
+  'payment-reminder': BOOKING_PLACEHOLDERS,
+  'pre-arrival': BOOKING_PLACEHOLDERS,
+  'cancellation-notice': [...BOOKING_PLACEHOLDERS, ...CANCELLATION_PLACEHOLDERS],
+};
+
+export const getSampleValues = (id: DocumentTemplateId): TemplateValues =>
+  Object.fromEntries(TEMPLATE_PLACEHOLDERS[id].map((placeholder) => [placeholder.key, placeholder.sample]));
+
+export const getMapLink = (latitude?: number | string | null, longitude?: number | string | null) =>
+  latitude && longitude && Number(latitude) !== 0 ? `https://maps.google.com/maps?q=${latitude},${longitude}` : '';
+
+const isSet = (value: TemplateValue) => value !== undefined && value !== null && value !== '' && value !== false && value !== 0;
+
+// Values are HTML-escaped by default; pass a plain formatter for text such as email subjects
+export const renderTemplate = (
+  template: string,
+  values: TemplateValues,
+  format: (value: TemplateValue) => string = escapeHtml
+): string =>
+  template
+    .replace(/\{\{([#^])\s*(\w+)\s*\}\}([\s\S]*?)\{\{\/\s*\2\s*\}\}/g, (_match, kind: string, key: string, inner: string) =>
+      isSet(values[key]) === (kind === '#') ? renderTemplate(inner, values, format) : ''
+    )
+    .replace(/\{\{\{\s*(\w+)\s*\}\}\}/g, (_match, key: string) => String(values[key] ?? ''))
+    .replace(/\{\{\s*(\w+)\s*\}\}/g, (_match, key: string) => format(values[key]));
+
+export const renderDocument = (template: DocumentTemplate, values: TemplateValues): RenderedDocument => ({
+  subject: renderTemplate(template.subject, values, (value) => String(value ?? '')),
+  html: renderTemplate(template.body, values),
+});
+
+const frame = (title: string, content: string) => `<div style="font-family:Lato, Arial, sans-serif;font-size:15px;line-height:22px;color:#000000;padding:32px 40px;">
+  <table width="100%" cellspacing="0" cellpadding="0" style="border-bottom:3px solid #216896;padding-bottom:12px;margin-bottom:20px;">
+    <tr>
+      <td>
+        <div style="color:#444444;font-size:22px;font-weight:bold;line-height:28px;">${title}</div>
+        <div>{{accommodation_name}}</div>
+        <div>Booking ID - <b>{{booking_ref}}</b></div>
+      </td>
+      <td style="text-align:right;">
+        <img src="https://plumeriaretreat.com/assets/plumeria-removebg-preview-CWtMayYt.png" alt="Logo" height="55" style="max-height:55px;" />
+      </td>
+    </tr>
+  </table>
+${content}
+  <table width="100%" cellspacing="0" cellpadding="0" style="margin-top:24px;border-top:1px solid #dddddd;padding-top:12px;font-size:14px;">
+    <tr>
+      <td style="width:50%;vertical-align:top;">
+        <b>{{accommodation_name}}</b><br />
+        {{#accommodation_address}}At- {{accommodation_address}}<br />{{/accommodation_address}}
+        {{#map_link}}<a href="{{map_link}}" style="color:#216896;">Google Maps Link</a>{{/map_link}}
+      </td>
+      <td style="width:50%;vertical-align:top;">
+        <b>Email-</b> <a href="mailto:{{contact_email}}" style="color:#164e6f;">{{contact_email}}</a><br />
+        {{#contact_phone}}<b>Contact Number-</b> {{contact_name}} - {{contact_phone}}{{/contact_phone}}
+      </td>
+    </tr>
+  </table>
+</div>`;
+
+const GUEST_DETAILS = `<p style="margin:0 0 5px;">Mobile: <b>{{guest_phone}}</b></p>
+        <p style="margin:0 0 5px;">Check In: <b>{{check_in}}</b></p>
+        <p style="margin:0 0 5px;">Check Out: <b>{{check_out}}</b></p>
+        <p style="margin:0 0 5px;">Total Person: <b>{{total_guests}}</b></p>
+        <p style="margin:0 0 5px;">Adult: <b>{{adults}}</b></p>
+        {{#is_villa}}<p style="margin:0 0 5px;">Extra Adults: <b>{{extra_adults}}</b></p>{{/is_villa}}
+        {{^is_villa}}<p style="margin:0 0 5px;">Child: <b>{{children}}</b></p>
+        <p style="margin:0 0 5px;">Rooms: <b>{{rooms}}</b></p>
+        <p style="margin:0 0 5px;">Veg Count: <b>{{veg_count}}</b></p>
+        <p style="margin:0 0 5px;">Non Veg Count: <b>{{nonveg_count}}</b></p>
+        <p style="margin:0 0 5px;">Jain Count: <b>{{jain_count}}</b></p>{{/is_villa}}`;
+
+const cellStyle = 'border:1px solid #dddddd;padding:8px 7px;vertical-align:top;font-size:14px;';
+const headStyle = 'border:1px solid #dddddd;border-top:3px solid #216896;padding:9px 7px;color:#878887;font-size:13.5px;text-align:left;';
+
+export const DEFAULT_TEMPLATES: Record<DocumentTemplateId, DocumentTemplate> = {
+  'booking-confirmation': {
+    id: 'booking-confirmation',
+    subject: 'Booking confirmation {{booking_ref}} – {{accommodation_name}}',
+    body: frame(
+      'Booking Confirmation',
+      `  <p><b>Dear {{guest_name}},</b></p>
+  <p>{{accommodation_name}} has received a request for booking of your stay as per the details below. The primary guest {{guest_name}} will be carrying a copy of this e-voucher. For your reference, Booking ID is <b>{{booking_ref}}</b> (booked on {{booking_date}}).</p>
+  <p><b>The amount payable for this booking is INR {{advance_amount}} as per the details below. Please email us at <a href="mailto:{{contact_email}}" style="color:#216896;">{{contact_email}}</a> if there is any discrepancy in this payment amount.</b></p>
+  <p>All prices indicated below are in INR.</p>
+  <table width="100%" cellspacing="0" cellpadding="0" style="border-collapse:collapse;margin-bottom:16px;">
+    <tr><th style="${headStyle}">BOOKING DETAILS</th><th style="${headStyle}">PAYMENT BREAKUP</th></tr>
+    <tr>
+      <td style="${cellStyle}">
+        ${GUEST_DETAILS}
+      </td>
+      <td style="${cellStyle}">
+        <p style="margin:0 0 10px;"><b>TARIFF</b></p>
+        {{{nightly_breakdown}}}
+        <p style="margin:0 0 10px;">Full Amount: <b style="float:right;">{{full_amount}}</b></p>
+        {{#coupon_code}}<p style="margin:0 0 10px;">Coupon: <b style="float:right;">{{coupon_code}}</b></p>
+        <p style="margin:0 0 10px;">Discount: <b style="float:right;">{{discount}}</b></p>{{/coupon_code}}
+        <p style="margin:0 0 10px;">Total Amount: <b style="float:right;">{{total_amount}}</b></p>
+        <p style="margin:0 0 10px;">Paid Amount: <b style="float:right;">{{paid_amount}}</b></p>
+        <p style="margin:0 0 10px;">Remaining Amount: <b style="float:right;">{{balance_due}}</b></p>
+      </td>
+    </tr>
+  </table>
+  <p><b>Booking Cancellation Policy:</b> From {{booking_date}}, 100% penalty will be charged. In case of no show: no refund. Booking cannot be cancelled/modified on or after the booking date and time mentioned in this confirmation voucher.</p>
+  <p><b>Note</b><br />If your contact details have changed, please notify us so that the same can be updated in our records. If the booking is cancelled or changed by the guest at a later stage, you will be notified and this confirmation will be null and void.</p>
+  <p><b>Things to Carry</b><br />
+  • Always good to carry extra pair of clothes<br />
+  • Winter and warm clothes as it will be cold night<br />
+  • Toothbrush and paste (toiletries)<br />
+  • Any other things you feel necessary<br />
+  • Personal medicine if any</p>
+  <p><b>Team {{accommodation_name}}</b></p>`
+    ),
+  },
+  'payment-receipt': {
+    id: 'payment-receipt',
+    subject: '{{receipt_title}} {{receipt_number}} for booking {{booking_ref}}',
+    body: frame(
+      '{{receipt_title}}',
+      `  {{#is_void}}<div style="margin-bottom:16px;padding:10px;border:2px solid #dc2626;color:#dc2626;font-weight:bold;text-align:center;">VOID{{#void_reason}} – {{void_reason}}{{/void_reason}}</div>{{/is_void}}
+  <table width="100%" cellspacing="0" cellpadding="0" style="margin-bottom:16px;">
+    <tr><td style="color:#878887;width:40%;padding:4px 0;">Receipt No.</td><td><b>{{receipt_number}}</b></td></tr>
+    <tr><td style="color:#878887;padding:4px 0;">Date</td><td>{{payment_date}}</td></tr>
+    <tr><td style="color:#878887;padding:4px 0;">Guest</td><td>{{guest_name}}</td></tr>
+    <tr><td style="color:#878887;padding:4px 0;">Stay</td><td>{{check_in}} – {{check_out}}</td></tr>
+  </table>
+  <table width="100%" cellspacing="0" cellpadding="0" style="border-collapse:collapse;margin-bottom:16px;">
+    <tr><th style="${headStyle}">Method</th><th style="${headStyle}">Reference</th><th style="${headStyle}text-align:right;">Amount (INR)</th></tr>
+    <tr>
+      <td style="${cellStyle}">{{payment_method}}</td>
+      <td style="${cellStyle}">{{payment_reference}}{{^payment_reference}}—{{/payment_reference}}</td>
+      <td style="${cellStyle}text-align:right;"><b>{{payment_amount}}</b></td>
+    </tr>
+  </table>
+  {{#payment_notes}}<p style="color:#444444;">Notes: {{payment_notes}}</p>{{/payment_notes}}
+  <table cellspacing="0" cellpadding="0" style="margin-left:auto;">
+    <tr><td style="color:#878887;padding:4px 24px 4px 0;">Booking total</td><td style="text-align:right;">{{total_amount}}</td></tr>
+    <tr><td style="color:#878887;padding:4px 24px 4px 0;">Paid to date</td><td style="text-align:right;">{{paid_amount}}</td></tr>
+    <tr><td style="color:#878887;padding:4px 24px 4px 0;">Balance due</td><td style="text-align:right;"><b>{{balance_due}}</b></td></tr>
+  </table>`
+    ),
+  },
+  'payment-reminder': {
+    id: 'payment-reminder',
+    subject: 'Balance of INR {{balance_due}} due for your stay at {{accommodation_name}}',
+    body: frame(
+      'Payment Reminder',
+      `  <p><b>Dear {{guest_name}},</b></p>
+  <p>Thank you for booking with us. This is a reminder that a balance of <b>INR {{balance_due}}</b> is due for your stay from <b>{{check_in}}</b> to <b>{{check_out}}</b> (Booking ID <b>{{booking_ref}}</b>).</p>
+  <table cellspacing="0" cellpadding="0" style="margin:16px 0;">
+    <tr><td style="color:#878887;padding:4px 24px 4px 0;">Booking total</td><td style="text-align:right;">{{total_amount}}</td></tr>
+    <tr><td style="color:#878887;padding:4px 24px 4px 0;">Paid to date</td><td style="text-align:right;">{{paid_amount}}</td></tr>
+    <tr><td style="color:#878887;padding:4px 24px 4px 0;">Balance due</td><td style="text-align:right;"><b>{{balance_due}}</b></td></tr>
+  </table>
+  <p>Please settle the balance before check-in or at the property on arrival. Reply to <a href="mailto:{{contact_email}}" style="color:#216896;">{{contact_email}}</a> if you have already paid.</p>
+  <p><b>Team {{accommodation_name}}</b></p>`
+    ),
+  },
+  'pre-arrival': {
+    id: 'pre-arrival',
+    subject: 'See you soon at {{accommodation_name}} – {{check_in}}',
+    body: frame(
+      'Your Stay Is Almost Here',
+      `  <p><b>Dear {{guest_name}},</b></p>
+  <p>We look forward to welcoming you on <b>{{check_in}}</b> for {{nights}} night(s) (Booking ID <b>{{booking_ref}}</b>).</p>
+  <p>A quick reminder to carry warm clothes for the evenings, toiletries and any personal medicine.</p>
+  {{#map_link}}<p>Directions: <a href="{{map_link}}" style="color:#216896;">{{map_link}}</a></p>{{/map_link}}
+  {{#contact_phone}}<p>On the day of arrival, call {{contact_name}} on <b>{{contact_phone}}</b> for help finding the property.</p>{{/contact_phone}}
+  {{#balance_due}}<p>A balance of <b>INR {{balance_due}}</b> is payable at check-in.</p>{{/balance_due}}
+  <p><b>Team {{accommodation_name}}</b></p>`
+    ),
+  },
+  'cancellation-notice': {
+    id: 'cancellation-notice',
+    subject: 'Booking {{booking_ref}} has been cancelled',
+    body: frame(
+      'Cancellation Notice',
+      `  <p><b>Dear {{guest_name}},</b></p>
+  <p>Your booking <b>{{booking_ref}}</b> at {{accommodation_name}} for {{check_in}} to {{check_out}} was cancelled on {{cancellation_date}}.</p>
+  {{#cancellation_reason}}<p>Reason: {{cancellation_reason}}</p>{{/cancellation_reason}}
+  {{#refund_amount}}<p>A refund of <b>INR {{refund_amount}}</b> has been initiated as per our cancellation policy. It may take 5–7 working days to reflect in your account.</p>{{/refund_amount}}
+  {{^refund_amount}}<p>As per our cancellation policy, no refund is applicable for this booking.</p>{{/refund_amount}}
+  <p>We hope to welcome you another time.</p>
+  <p><b>Team {{accommodation_name}}</b></p>`
+    ),
+  },
+};
+
+// Saved templates override the built-in defaults; templates never saved fall back to them
+export const fetchDocumentTemplates = async (signal?: AbortSignal): Promise<Record<DocumentTemplateId, DocumentTemplate>> => {
+  const response = await api.get('/document-templates', { signal });
+  const saved = unwrap<DocumentTemplate[]>(response.data);
+  const templates = { ...DEFAULT_TEMPLATES };
+  (Array.isArray(saved) ? saved : []).forEach((template) => {
+    if (template.id in templates) {
+      templates[template.id] = { ...templates[template.id], ...template, customized: true };
+    }
+  });
+  return templates;
+};
+
+export const fetchDocumentTemplate = async (id: DocumentTemplateId): Promise<DocumentTemplate> =>
+  (await fetchDocumentTemplates())[id];
+
+export const saveDocumentTemplate = async (template: DocumentTemplate, previous: DocumentTemplate) => {
+  const response = await api.put(
+    `/document-templates/${template.id}`,
+    { subject: template.subject, body: template.body },
+    {
+      audit: {
+        action: 'document_template.update',
+        entityType: 'document-template',
+        entityId: template.id,
+        summary: `Updated the ${template.id} template`,
+        before: { subject: previous.subject, body: previous.body },
+        after: { subject: template.subject, body: template.body },
+      },
+    }
+  );
+  assertSuccess(response.data, 'Failed to save template');
+};
+
+export const resetDocumentTemplate = async (id: DocumentTemplateId) => {
+  const response = await api.delete(`/document-templates/${id}`, {
+    audit: {
+      action: 'document_template.reset',
+      entityType: 'document-template',
+      entityId: id,
+      summary: `Reset the ${id} template to the default`,
+    },
+  });
+  assertSuccess(response.data, 'Failed to reset template');
+};
+
+// Sends a rendered document by email through the backend mailer
+export const sendDocumentEmail = async (
+  templateId: DocumentTemplateId,
+  to: string,
+  document: RenderedDocument,
+  bookingId?: number
+) => {
+  const response = await api.post(
+    '/documents/email',
+    { template_id: templateId, booking_id: bookingId, to, subject: document.subject, html: document.html },
+    {
+      audit: {
+        action: 'document.email',
+        entityType: bookingId ? 'booking' : 'document-template',
+        entityId: bookingId ?? templateId,
+        summary: `Emailed "${document.subject}" to ${to}`,
+      },
+    }
+  );
+  assertSuccess(response.data, 'Failed to send email');
+};
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildStayTaxLines,
+  getAccommodationRate,
+  getFoodRate,
+  scaleTaxLines,
+  sumTaxLines,
+  type StayTaxInput,
+} from './gst';
+
+const stay = (overrides: Partial<StayTaxInput>): StayTaxInput => ({
+  accommodationName: 'Lake Cottage',
+  checkIn: '2026-10-23',
+  checkOut: '2026-10-25',
+  nights: 2,
+  rooms: 1,
+  totalAmount: 10500,
+  foodAmount: 0,
+  interState: false,
+  ...overrides,
+});
+
+describe('getAccommodationRate', () => {
+  it('taxes tariffs up to ₹7500 at 5%, including the ₹1000 band', () => {
+    expect(getAccommodationRate(800)).toBe(5);
+    expect(getAccommodationRate(1050)).toBe(5);
+    expect(getAccommodationRate(7875)).toBe(5);
+  });
+
+  it('moves to 18% once the tax-exclusive tariff is above ₹7500', () => {
+    expect(getAccommodationRate(7876)).toBe(18);
+    expect(getAccommodationRate(11800)).toBe(18);
+  });
+});
+
+describe('getFoodRate', () => {
+  it('uses 5% unless the property is specified premises', () => {
+    expect(getFoodRate(5250)).toBe(5);
+    expect(getFoodRate(7875)).toBe(5);
+    expect(getFoodRate(8850)).toBe(5);
+    expect(getFoodRate(11800)).toBe(18);
+    expect(getFoodRate(5250, true)).toBe(18);
+  });
+});
+
+describe('buildStayTaxLines', () => {
+  it('backs the taxable value out of the tax-inclusive room amount', () => {
+    const [room] = buildStayTaxLines(stay({}));
+    expect(room).toMatchObject({ kind: 'accommodation', quantity: 2, rate: 5, taxable_value: 10000, cgst: 250, sgst: 250 });
+  });
+
+  it('keeps room tariff and food served at the property on CGST and SGST for an out-of-state recipient', () => {
+    const lines = buildStayTaxLines(stay({ totalAmount: 12600, foodAmount: 2100, interState: true }));
+    expect(lines.map((line) => [line.kind, line.rate, line.cgst, line.sgst, line.igst])).toEqual([
+      ['accommodation', 5, 250, 250, 0],
+      ['food', 5, 50, 50, 0],
+    ]);
+    expect(sumTaxLines(lines)).toMatchObject({ taxable_value: 12000, cgst: 300, sgst: 300, igst: 0, total: 12600 });
+  });
+
+  it('taxes food at 18% when the stay is priced above ₹7500 a night', () => {
+    const lines = buildStayTaxLines(stay({ nights: 1, checkOut: '2026-10-24', totalAmount: 11800 + 1180, foodAmount: 1180 }));
+    expect(lines.map((line) => [line.kind, line.rate, line.taxable_value])).toEqual([
+      ['accommodation', 18, 10000],
+      ['food', 18, 1000],
+    ]);
+  });
+});
+
+describe('scaleTaxLines', () => {
+  it('splits a partial credit across lines with the same place-of-supply rules', () => {
+    const lines = buildStayTaxLines(stay({ totalAmount: 12600, foodAmount: 2100, interState: true }));
+    const credit = scaleTaxLines(lines, 6300, true);
+    expect(credit.map((line) => line.total)).toEqual([5250, 1050]);
+    expect(credit[0]).toMatchObject({ cgst: 125, sgst: 125, igst: 0 });
+    expect(credit[1]).toMatchObject({ cgst: 25, sgst: 25, igst: 0 });
+  });
+});
@@ -0,0 +1,222 @@
+// GST rules for invoicing stays: SAC codes, rate slabs and the CGST/SGST vs IGST split.
+// Booking amounts are tax-inclusive, so taxable values are backed out of the gross amount.
+
+export type SupplyKind = 'accommodation' | 'food';
+
+export const SAC_CODES: Record<SupplyKind, string> = {
+  accommodation: '996311',
+  food: '996331',
+};
+
+// Hotel accommodation is taxed by the tariff per unit per day (excluding tax); rates effective 22 Sep 2025.
+// Tariffs up to ₹1000 lost their exemption on 18 Jul 2022 and are taxed with the rest of the 5% slab.
+export const ACCOMMODATION_SLABS: { upTo: number; rate: number }[] = [
+  { upTo: 1000, rate: 5 },
+  { upTo: 7500, rate: 5 },
+  { upTo: Infinity, rate: 18 },
+];
+
+// Restaurant service is 5% without input tax credit, or 18% at "specified premises": a property where
+// any unit's tariff is above ₹7,500 a day
+export const FOOD_GST_RATE = 5;
+export const SPECIFIED_PREMISES_FOOD_RATE = 18;
+const SPECIFIED_PREMISES_TARIFF = 7500;
+
+export const INDIAN_STATES: { code: string; name: string }[] = [
+  { code: '01', name: 'Jammu and Kashmir' },
+  { code: '02', name: 'Himachal Pradesh' },
+  { code: '03', name: 'Punjab' },
+  { code: '04', name: 'Chandigarh' },
+  { code: '05', name: 'Uttarakhand' },
+  { code: '06', name: 'Haryana' },
+  { code: '07', name: 'Delhi' },
+  { code: '08', name: 'Rajasthan' },
+  { code: '09', name: 'Uttar Pradesh' },
+  { code: '10', name: 'Bihar' },
+  { code: '11', name: 'Sikkim' },
+  { code: '12', name: 'Arunachal Pradesh' },
+  { code: '13', name: 'Nagaland' },
+  { code: '14', name: 'Manipur' },
+  { code: '15', name: 'Mizoram' },
+  { code: '16', name: 'Tripura' },
+  { code: '17', name: 'Meghalaya' },
+  { code: '18', name: 'Assam' },
+  { code: '19', name: 'West Bengal' },
+  { code: '20', name: 'Jharkhand' },
+  { code: '21', name: 'Odisha' },
+  { code: '22', name: 'Chhattisgarh' },
+  { code: '23', name: 'Madhya Pradesh' },
+  { code: '24', name: 'Gujarat' },
+  { code: '26', name: 'Dadra and Nagar Haveli and Daman and Diu' },
+  { code: '27', name: 'Maharashtra' },
+  { code: '29', name: 'Karnataka' },
+  { code: '30', name: 'Goa' },
+  { code: '31', name: 'Lakshadweep' },
+  { code: '32', name: 'Kerala' },
+  { code: '33', name: 'Tamil Nadu' },
+  { code: '34', name: 'Puducherry' },
+  { code: '35', name: 'Andaman and Nicobar Islands' },
+  { code: '36', name: 'Telangana' },
+  { code: '37', name: 'Andhra Pradesh' },
+  { code: '38', name: 'Ladakh' },
+];
+
+export const getStateName = (code: string) => INDIAN_STATES.find((state) => state.code === code)?.name ?? code;
+
+const GSTIN_PATTERN = /^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+
+export const isValidGstin = (gstin: string) => GSTIN_PATTERN.test(gstin.trim().toUpperCase());
+
+// The first two digits of a GSTIN are the registering state's code
+export const getGstinStateCode = (gstin: string) => gstin.trim().slice(0, 2);
+
+export const roundCurrency = (amount: number) => Math.round(amount * 100) / 100;
+
+export interface TaxSplit {
+  cgst: number;
+  sgst: number;
+  igst: number;
+}
+
+// Intra-state supplies split the tax equally between CGST and SGST; inter-state supplies pay IGST
+export const splitTax = (tax: number, interState: boolean): TaxSplit => {
+  if (interState) return { cgst: 0, sgst: 0, igst: roundCurrency(tax) };
+  const cgst = roundCurrency(tax / 2);
+  return { cgst, sgst: roundCurrency(tax - cgst), igst: 0 };
+};
+
+// Accommodation (IGST Act s.12(3)) and food served at the property (s.12(4), performed there) are
+// supplied where the property is, so they stay on CGST and SGST whatever the recipient's state.
+// Only supplies made elsewhere follow the recipient.
+const ON_PREMISES_SUPPLIES: SupplyKind[] = ['accommodation', 'food'];
+
+export const isInterStateSupply = (kind: SupplyKind, recipientInterState: boolean) =>
+  !ON_PREMISES_SUPPLIES.includes(kind) && recipientInterState;
+
+// Picks the slab whose limit the tax-exclusive tariff falls under
+export const getAccommodationRate = (grossTariffPerUnitPerDay: number) =>
+  (
+    ACCOMMODATION_SLABS.find((slab) => grossTariffPerUnitPerDay / (1 + slab.rate / 100) <= slab.upTo) ??
+    ACCOMMODATION_SLABS[ACCOMMODATION_SLABS.length - 1]
+  ).rate;
+
+// A stay whose own tax-exclusive tariff is above the limit makes the property specified premises
+export const getFoodRate = (grossTariffPerUnitPerDay: number, specifiedPremises = false) => {
+  const rate = getAccommodationRate(grossTariffPerUnitPerDay);
+  const tariff = grossTariffPerUnitPerDay / (1 + rate / 100);
+  return specifiedPremises || tariff > SPECIFIED_PREMISES_TARIFF ? SPECIFIED_PREMISES_FOOD_RATE : FOOD_GST_RATE;
+};
+
+export interface TaxLine extends TaxSplit {
+  kind: SupplyKind;
+  description: string;
+  sac: string;
+  quantity: number;
+  unit: string;
+  rate: number;
+  taxable_value: number;
+  total: number;
+}
+
+// Builds a line from a tax-inclusive gross amount
+export const buildTaxLine = (
+  kind: SupplyKind,
+  description: string,
+  gross: number,
+  rate: number,
+  quantity: number,
+  unit: string,
+  interState: boolean
+): TaxLine => {
+  const total = roundCurrency(gross);
+  const taxableValue = roundCurrency(total / (1 + rate / 100));
+  return {
+    kind,
+    description,
+    sac: SAC_CODES[kind],
+    quantity,
+    unit,
+    rate,
+    taxable_value: taxableValue,
+    ...splitTax(total - taxableValue, interState),
+    total,
+  };
+};
+
+export interface StayTaxInput {
+  accommodationName: string;
+  checkIn: string;
+  checkOut: string;
+  nights: number;
+  rooms: number;
+  // Tax-inclusive amounts
+  totalAmount: number;
+  foodAmount: number;
+  // Whether the recipient's place of supply is outside the supplier's state
+  interState: boolean;
+  // Set when another unit at the property is priced above ₹7,500 a day
+  specifiedPremises?: boolean;
+}
+
+export const buildStayTaxLines = (input: StayTaxInput): TaxLine[] => {
+  const nights = Math.max(1, input.nights);
+  const rooms = Math.max(1, input.rooms);
+  const food = Math.min(Math.max(0, input.foodAmount), input.totalAmount);
+  const room = input.totalAmount - food;
+  const tariff = room / nights / rooms;
+  const lines: TaxLine[] = [];
+
+  if (room > 0) {
+    const rate = getAccommodationRate(tariff);
+    lines.push(
+      buildTaxLine(
+        'accommodation',
+        `${input.accommodationName} (${input.checkIn} to ${input.checkOut})`,
+        room,
+        rate,
+        nights * rooms,
+        'room-night',
+        isInterStateSupply('accommodation', input.interState)
+      )
+    );
+  }
+
+  if (food > 0) {
+    const rate = getFoodRate(tariff, input.specifiedPremises);
+    lines.push(buildTaxLine('food', 'Food and beverages', food, rate, 1, 'lot', isInterStateSupply('food', input.interState)));
+  }
+
+  return lines;
+};
+
+// Scales lines down to a partial amount (e.g. a credit note for part of an invoice); the last
+// line absorbs rounding so the scaled totals add up exactly
+export const scaleTaxLines = (lines: TaxLine[], amount: number, interState: boolean): TaxLine[] => {
+  const invoiceTotal = lines.reduce((sum, line) => sum + line.total, 0);
+  if (invoiceTotal <= 0 || amount <= 0) return [];
+  let remaining = roundCurrency(amount);
+
+  return lines.map((line, index) => {
+    const gross = index === lines.length - 1 ? remaining : roundCurrency((line.total / invoiceTotal) * amount);
+    remaining = roundCurrency(remaining - gross);
+    const lineInterState = isInterStateSupply(line.kind, interState);
+    return buildTaxLine(line.kind, line.description, gross, line.rate, line.quantity, line.unit, lineInterState);
+  });
+};
+
+export interface TaxTotals extends TaxSplit {
+  taxable_value: number;
+  total: number;
+}
+
+export const sumTaxLines = (lines: TaxLine[]): TaxTotals =>
+  lines.reduce<TaxTotals>(
+    (totals, line) => ({
+      taxable_value: roundCurrency(totals.taxable_value + line.taxable_value),
+      cgst: roundCurrency(totals.cgst + line.cgst),
+      sgst: roundCurrency(totals.sgst + line.sgst),
+      igst: roundCurrency(totals.igst + line.igst),
+      total: roundCurrency(totals.total + line.total),
+    }),
+    { taxable_value: 0, cgst: 0, sgst: 0, igst: 0, total: 0 }
+  );
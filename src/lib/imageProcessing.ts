@@ -0,0 +1,129 @@
+// Client-side image preparation before upload: phone photos are resized, re-encoded as WebP and
+// redrawn upright. Redrawing through a canvas also drops EXIF data (GPS position, camera details).
+
+export interface ImageProcessingOptions {
+  maxWidth: number;
+  maxHeight: number;
+  // 0–1, passed to canvas.toBlob
+  quality: number;
+  // Longest edge of the generated thumbnail; 0 disables thumbnails
+  thumbnailSize: number;
+}
+
+export const DEFAULT_IMAGE_OPTIONS: ImageProcessingOptions = {
+  maxWidth: Number(import.meta.env.VITE_IMAGE_MAX_WIDTH) || 2048,
+  maxHeight: Number(import.meta.env.VITE_IMAGE_MAX_HEIGHT) || 2048,
+  quality: 0.82,
+  thumbnailSize: 400,
+};
+
+export const MAX_DIMENSION_OPTIONS = [
+  { value: 1280, label: '1280 px (web)' },
+  { value: 2048, label: '2048 px (default)' },
+  { value: 3072, label: '3072 px (high quality)' },
+];
+
+export interface ProcessedImage {
+  file: File;
+  thumbnail: File | null;
+  width: number;
+  height: number;
+}
+
+// Animated GIFs and vector images would be flattened or rasterised by a canvas, so they are uploaded as-is
+const PASSTHROUGH_TYPES = ['image/gif', 'image/svg+xml'];
+
+const OUTPUT_TYPE = 'image/webp';
+
+interface DecodedImage {
+  source: CanvasImageSource;
+  width: number;
+  height: number;
+  close: () => void;
+}
+
+// createImageBitmap applies the EXIF orientation itself; browsers without it fall back to an <img>,
+// which modern engines also draw upright
+const decodeImage = async (file: File): Promise<DecodedImage> => {
+  if (typeof createImageBitmap === 'function') {
+    try {
+      const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+      return { source: bitmap, width: bitmap.width, height: bitmap.height, close: () => bitmap.close() };
+    } catch {
+      // Fall through to the <img> decoder
+    }
+  }
+
+  const url = URL.createObjectURL(file);
+  try {
+    const img = await new Promise<HTMLImageElement>((resolve, reject) => {
+      const element = new Image();
+      element.onload = () => resolve(element);
+      element.onerror = () => reject(new Error(`Could not read ${file.name} as an image`));
+      element.src = url;
+    });
+    return { source: img, width: img.naturalWidth, height: img.naturalHeight, close: () => undefined };
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+const fitWithin = (width: number, height: number, maxWidth: number, maxHeight: number) => {
+  const scale = Math.min(1, maxWidth / width, maxHeight / height);
+  return { width: Math.round(width * scale), height: Math.round(height * scale) };
+};
+
+const renderToFile = async (
+  image: DecodedImage,
+  width: number,
+  height: number,
+  quality: number,
+  name: string
+): Promise<File> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Image processing is not supported in this browser');
+
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(image.source, 0, 0, width, height);
+
+  let blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, OUTPUT_TYPE, quality));
+  // Browsers without a WebP encoder silently return PNG; JPEG is much smaller for photos
+  if (!blob || blob.type !== OUTPUT_TYPE) {
+    blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/jpeg', quality));
+  }
+  if (!blob) throw new Error(`Could not encode ${name}`);
+
+  const extension = blob.type === OUTPUT_TYPE ? 'webp' : 'jpg';
+  return new File([blob], `${name}.${extension}`, { type: blob.type, lastModified: Date.now() });
+};
+
+export const processImage = async (
+  file: File,
+  options: Partial<ImageProcessingOptions> = {}
+): Promise<ProcessedImage> => {
+  const { maxWidth, maxHeight, quality, thumbnailSize } = { ...DEFAULT_IMAGE_OPTIONS, ...options };
+
+  if (PASSTHROUGH_TYPES.includes(file.type) || !file.type.startsWith('image/')) {
+    return { file, thumbnail: null, width: 0, height: 0 };
+  }
+
+  const image = await decodeImage(file);
+  try {
+    const baseName = file.name.replace(/\.[^.]+$/, '') || 'image';
+    const size = fitWithin(image.width, image.height, maxWidth, maxHeight);
+    const processed = await renderToFile(image, size.width, size.height, quality, baseName);
+
+    let thumbnail: File | null = null;
+    if (thumbnailSize > 0) {
+      const thumbSize = fitWithin(image.width, image.height, thumbnailSize, thumbnailSize);
+      thumbnail = await renderToFile(image, thumbSize.width, thumbSize.height, quality, `${baseName}-thumb`);
+    }
+
+    return { file: processed, thumbnail, width: size.width, height: size.height };
+  } finally {
+    image.close();
+  }
+};
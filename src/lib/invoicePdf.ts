@@ -0,0 +1,194 @@
+// Text-based (selectable, searchable) PDF rendering of tax invoices and credit notes.
+// The built-in PDF fonts have no rupee glyph, so amounts are printed as "Rs.".
+
+import jsPDF from 'jspdf';
+import { getStateName, type TaxLine } from './gst';
+import { INVOICE_SUPPLIER, SUPPLIER_STATE_CODE, getInvoiceTypeLabel, type TaxDocument } from './invoices';
+
+const MARGIN = 40;
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+// Line height of wrapped 8pt table text (jsPDF's default 1.15 line height factor)
+const ROW_LINE_HEIGHT = 8 * 1.15;
+const BRAND_COLOR: [number, number, number] = [33, 104, 150];
+
+const money = (amount: number) =>
+  amount.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric' });
+
+const ONES = [
+  '', 'One', 'Two', 'Three', 'Four', 'Five', 'Six', 'Seven', 'Eight', 'Nine', 'Ten', 'Eleven', 'Twelve',
+  'Thirteen', 'Fourteen', 'Fifteen', 'Sixteen', 'Seventeen', 'Eighteen', 'Nineteen',
+];
+const TENS = ['', '', 'Twenty', 'Thirty', 'Forty', 'Fifty', 'Sixty', 'Seventy', 'Eighty', 'Ninety'];
+
+const belowThousand = (n: number): string => {
+  const hundreds = Math.floor(n / 100);
+  const rest = n % 100;
+  const restWords = rest < 20 ? ONES[rest] : `${TENS[Math.floor(rest / 10)]} ${ONES[rest % 10]}`.trim();
+  return [hundreds ? `${ONES[hundreds]} Hundred` : '', restWords].filter(Boolean).join(' ');
+};
+
+// Indian numbering (lakh, crore), as required on invoices
+export const amountInWords = (amount: number) => {
+  const rupees = Math.floor(amount);
+  const paise = Math.round((amount - rupees) * 100);
+  const parts: string[] = [];
+  const crore = Math.floor(rupees / 10000000);
+  const lakh = Math.floor((rupees % 10000000) / 100000);
+  const thousand = Math.floor((rupees % 100000) / 1000);
+  const rest = rupees % 1000;
+  if (crore) parts.push(`${belowThousand(crore)} Crore`);
+  if (lakh) parts.push(`${belowThousand(lakh)} Lakh`);
+  if (thousand) parts.push(`${belowThousand(thousand)} Thousand`);
+  if (rest) parts.push(belowThousand(rest));
+  const words = `Rupees ${parts.join(' ') || 'Zero'}`;
+  return paise ? `${words} and ${belowThousand(paise)} Paise Only` : `${words} Only`;
+};
+
+interface Column {
+  header: string;
+  width: number;
+  align?: 'left' | 'right';
+  value: (line: TaxLine, index: number) => string;
+}
+
+const COLUMNS: Column[] = [
+  { header: '#', width: 20, value: (_line, index) => String(index + 1) },
+  { header: 'Description', width: 140, value: (line) => line.description },
+  { header: 'SAC', width: 45, value: (line) => line.sac },
+  { header: 'Qty', width: 30, align: 'right', value: (line) => String(line.quantity) },
+  { header: 'Taxable', width: 60, align: 'right', value: (line) => money(line.taxable_value) },
+  { header: 'Rate', width: 30, align: 'right', value: (line) => `${line.rate}%` },
+  { header: 'CGST', width: 45, align: 'right', value: (line) => money(line.cgst) },
+  { header: 'SGST', width: 45, align: 'right', value: (line) => money(line.sgst) },
+  { header: 'IGST', width: 45, align: 'right', value: (line) => money(line.igst) },
+  { header: 'Total', width: CONTENT_WIDTH - 460, align: 'right', value: (line) => money(line.total) },
+];
+
+export const downloadTaxDocument = (document: TaxDocument, bookingRef: string) => {
+  const pdf = new jsPDF('p', 'pt', 'a4');
+  let y = MARGIN;
+
+  const text = (value: string | string[], x: number, options: { align?: 'left' | 'right'; bold?: boolean; size?: number } = {}) => {
+    pdf.setFont('helvetica', options.bold ? 'bold' : 'normal');
+    pdf.setFontSize(options.size ?? 9);
+    pdf.text(value, x, y, { align: options.align ?? 'left' });
+  };
+
+  // Supplier
+  pdf.setTextColor(...BRAND_COLOR);
+  text(INVOICE_SUPPLIER.legalName, MARGIN, { bold: true, size: 16 });
+  pdf.setTextColor(0, 0, 0);
+  text(getInvoiceTypeLabel(document.type).toUpperCase(), PAGE_WIDTH - MARGIN, { align: 'right', bold: true, size: 14 });
+  y += 16;
+  text(INVOICE_SUPPLIER.address, MARGIN);
+  text(`No. ${document.invoice_number}`, PAGE_WIDTH - MARGIN, { align: 'right', bold: true });
+  y += 12;
+  text(`GSTIN: ${INVOICE_SUPPLIER.gstin || 'Not configured'}`, MARGIN);
+  text(`Date: ${formatDate(document.issued_at)}`, PAGE_WIDTH - MARGIN, { align: 'right' });
+  y += 12;
+  text(`State: ${getStateName(SUPPLIER_STATE_CODE)} (${SUPPLIER_STATE_CODE})`, MARGIN);
+  text(`Booking: ${bookingRef}`, PAGE_WIDTH - MARGIN, { align: 'right' });
+  y += 10;
+  pdf.setDrawColor(...BRAND_COLOR);
+  pdf.setLineWidth(2);
+  pdf.line(MARGIN, y, PAGE_WIDTH - MARGIN, y);
+  y += 20;
+
+  // Recipient
+  text('Bill to', MARGIN, { bold: true });
+  text(
+    `Place of supply: ${getStateName(document.place_of_supply)} (${document.place_of_supply})`,
+    PAGE_WIDTH - MARGIN,
+    { align: 'right' }
+  );
+  y += 12;
+  [
+    document.customer_name,
+    document.customer_address,
+    document.customer_gstin ? `GSTIN: ${document.customer_gstin}` : null,
+    [document.customer_email, document.customer_phone].filter(Boolean).join(' | ') || null,
+  ]
+    .filter((line): line is string => !!line)
+    .forEach((line) => {
+      pdf.splitTextToSize(line, CONTENT_WIDTH / 2).forEach((wrapped: string) => {
+        text(wrapped, MARGIN);
+        y += 12;
+      });
+    });
+
+  if (document.type === 'credit-note') {
+    y += 4;
+    text(`Against invoice ${document.original_invoice_number ?? ''}`.trim(), MARGIN, { bold: true });
+    y += 12;
+    if (document.reason) {
+      pdf.splitTextToSize(`Reason: ${document.reason}`, CONTENT_WIDTH).forEach((wrapped: string) => {
+        text(wrapped, MARGIN);
+        y += 12;
+      });
+    }
+  }
+  y += 10;
+
+  // Line items
+  const drawRow = (cells: string[], bold: boolean) => {
+    const wrapped = cells.map((cell, index) => pdf.splitTextToSize(cell, COLUMNS[index].width - 6) as string[]);
+    const lineCount = Math.max(...wrapped.map((lines) => lines.length));
+    let x = MARGIN;
+    wrapped.forEach((lines, index) => {
+      const column = COLUMNS[index];
+      text(lines, column.align === 'right' ? x + column.width - 3 : x + 3, { align: column.align, bold, size: 8 });
+      x += column.width;
+    });
+    y += lineCount * ROW_LINE_HEIGHT + 4;
+    pdf.setDrawColor(221, 221, 221);
+    pdf.setLineWidth(0.5);
+    pdf.line(MARGIN, y, PAGE_WIDTH - MARGIN, y);
+    y += 12;
+  };
+
+  drawRow(COLUMNS.map((column) => column.header), true);
+  document.lines.forEach((line, index) => {
+    if (y > PAGE_HEIGHT - 160) {
+      pdf.addPage();
+      y = MARGIN;
+    }
+    drawRow(COLUMNS.map((column) => column.value(line, index)), false);
+  });
+
+  // Totals
+  y += 10;
+  const totalsX = PAGE_WIDTH - MARGIN - 200;
+  // Room tariff is always CGST + SGST, so an inter-state invoice can carry both splits
+  const taxRows: [string, number][] = [];
+  if (document.cgst > 0 || document.igst === 0) taxRows.push(['CGST', document.cgst], ['SGST', document.sgst]);
+  if (document.igst > 0) taxRows.push(['IGST', document.igst]);
+  const totalRows: [string, number][] = [['Taxable value', document.taxable_value], ...taxRows];
+  totalRows.forEach(([label, amount]) => {
+    text(label, totalsX);
+    text(`Rs. ${money(amount)}`, PAGE_WIDTH - MARGIN, { align: 'right' });
+    y += 14;
+  });
+  text(document.type === 'credit-note' ? 'Total credit' : 'Invoice total', totalsX, { bold: true, size: 10 });
+  text(`Rs. ${money(document.total)}`, PAGE_WIDTH - MARGIN, { align: 'right', bold: true, size: 10 });
+  y += 18;
+  pdf.splitTextToSize(amountInWords(document.total), CONTENT_WIDTH).forEach((wrapped: string) => {
+    text(wrapped, MARGIN, { bold: true });
+    y += 12;
+  });
+
+  y += 8;
+  text('Tax is not payable on reverse charge basis.', MARGIN, { size: 8 });
+  y += 11;
+  text(`Queries: ${INVOICE_SUPPLIER.email}`, MARGIN, { size: 8 });
+  y += 40;
+  text(`For ${INVOICE_SUPPLIER.legalName}`, PAGE_WIDTH - MARGIN, { align: 'right' });
+  y += 30;
+  text('Authorised Signatory', PAGE_WIDTH - MARGIN, { align: 'right', size: 8 });
+
+  pdf.save(`${document.invoice_number.replace(/\//g, '-')}.pdf`);
+};
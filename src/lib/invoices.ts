@@ -0,0 +1,96 @@
+// Tax invoices and credit notes issued against bookings. The backend assigns the next sequence
+// number in the document's series, so numbering stays gapless per financial year; documents are
+// stored exactly as issued and re-rendered from that snapshot.
+
+import { api, assertSuccess, unwrap } from './api';
+import { getGstinStateCode, sumTaxLines, type TaxLine, type TaxTotals } from './gst';
+
+export type InvoiceType = 'invoice' | 'credit-note';
+
+// Registered supplier details printed on every document. Override in .env.local.
+export const INVOICE_SUPPLIER = {
+  legalName: import.meta.env.VITE_INVOICE_LEGAL_NAME || 'Plumeria Retreat',
+  address: import.meta.env.VITE_INVOICE_ADDRESS || 'Pawna Lake, Maharashtra',
+  gstin: (import.meta.env.VITE_GSTIN || '').toUpperCase(),
+  email: 'booking@plumeriaretreat.com',
+  // Any unit priced above ₹7,500 a day, which moves food to the 18% rate
+  specifiedPremises: import.meta.env.VITE_SPECIFIED_PREMISES === 'true',
+};
+
+// Maharashtra when no GSTIN is configured
+export const SUPPLIER_STATE_CODE = INVOICE_SUPPLIER.gstin ? getGstinStateCode(INVOICE_SUPPLIER.gstin) : '27';
+
+const SERIES_PREFIX: Record<InvoiceType, string> = {
+  invoice: 'INV',
+  'credit-note': 'CN',
+};
+
+export interface TaxDocument extends TaxTotals {
+  id: number;
+  booking_id: number;
+  type: InvoiceType;
+  invoice_number: string;
+  financial_year: string;
+  sequence: number;
+  issued_at: string;
+  place_of_supply: string;
+  customer_name: string;
+  customer_email?: string | null;
+  customer_phone?: string | null;
+  customer_address?: string | null;
+  customer_gstin?: string | null;
+  // Credit notes reference the invoice they reduce
+  original_invoice_id?: number | null;
+  original_invoice_number?: string | null;
+  reason?: string | null;
+  lines: TaxLine[];
+}
+
+export type TaxDocumentInput = Omit<
+  TaxDocument,
+  'id' | 'booking_id' | 'invoice_number' | 'sequence' | 'issued_at' | keyof TaxTotals
+>;
+
+// Indian financial years run April to March, e.g. 2026-27
+export const getFinancialYear = (date: Date = new Date()) => {
+  const startYear = date.getMonth() >= 3 ? date.getFullYear() : date.getFullYear() - 1;
+  return `${startYear}-${String((startYear + 1) % 100).padStart(2, '0')}`;
+};
+
+// e.g. INV/2026-27/0007
+export const formatInvoiceNumber = (type: InvoiceType, financialYear: string, sequence: number) =>
+  `${SERIES_PREFIX[type]}/${financialYear}/${sequence.toString().padStart(4, '0')}`;
+
+export const getInvoiceTypeLabel = (type: InvoiceType) => (type === 'credit-note' ? 'Credit Note' : 'Tax Invoice');
+
+const normalizeDocument = (document: TaxDocument): TaxDocument => ({
+  ...document,
+  invoice_number:
+    document.invoice_number || formatInvoiceNumber(document.type, document.financial_year, document.sequence),
+  lines: Array.isArray(document.lines) ? document.lines : [],
+});
+
+export const fetchInvoices = async (bookingId: number, signal?: AbortSignal): Promise<TaxDocument[]> => {
+  const response = await api.get(`/bookings/${bookingId}/invoices`, { signal });
+  const documents = unwrap<TaxDocument[]>(response.data);
+  return (Array.isArray(documents) ? documents : []).map(normalizeDocument);
+};
+
+export const issueTaxDocument = async (
+  bookingId: number,
+  bookingRef: string,
+  input: TaxDocumentInput
+): Promise<TaxDocument> => {
+  const payload = { ...input, ...sumTaxLines(input.lines) };
+  const label = getInvoiceTypeLabel(input.type);
+  const response = await api.post(`/bookings/${bookingId}/invoices`, payload, {
+    audit: {
+      action: input.type === 'credit-note' ? 'invoice.credit_note' : 'invoice.issue',
+      entityType: 'booking',
+      entityId: bookingId,
+      summary: `Issued ${label.toLowerCase()} of ₹${payload.total.toLocaleString('en-IN')} for ${bookingRef}`,
+      after: payload,
+    },
+  });
+  return normalizeDocument(unwrap<TaxDocument>(assertSuccess(response.data, `Failed to issue ${label.toLowerCase()}`)));
+};
@@ -0,0 +1,236 @@
+// Media library: every uploaded image is registered once under /media and can then be attached to
+// properties, packages, blogs, services and gallery categories. Entities keep storing plain URLs;
+// after saving, they report which URLs they use so the library can warn before an image is deleted.
+
+import { api, getErrorMessage, isCanceled, uploadImage, unwrap, type ApiEnvelope, type Pagination } from './api';
+import { processImage, type ImageProcessingOptions } from './imageProcessing';
+
+export interface MediaItem {
+  id: number;
+  url: string;
+  // Small preview generated before upload; older items may not have one
+  thumbnail_url?: string | null;
+  filename: string;
+  alt_text: string;
+  mime_type?: string;
+  size?: number;
+  width?: number | null;
+  height?: number | null;
+  created_at: string;
+  // Number of places the image is attached, maintained by the backend from recorded usage
+  usage_count?: number;
+}
+
+export type MediaUsageEntity = 'accommodation' | 'package' | 'blog' | 'service' | 'gallery';
+
+export interface MediaUsage {
+  entity_type: MediaUsageEntity;
+  entity_id: string;
+  // e.g. "images", "packageImages", "ogImage"
+  field: string;
+  // Human readable name of the owning record, e.g. the accommodation or post title
+  label: string;
+}
+
+export const MEDIA_USAGE_LABELS: Record<MediaUsageEntity, string> = {
+  accommodation: 'Property',
+  package: 'Package',
+  blog: 'Blog post',
+  service: 'Service',
+  gallery: 'Gallery',
+};
+
+export interface MediaQuery {
+  search?: string;
+  page?: number;
+  limit?: number;
+}
+
+export const fetchMedia = async (query: MediaQuery = {}, signal?: AbortSignal) => {
+  const { data } = await api.get<ApiEnvelope<MediaItem[]>>('/media', { params: query, signal });
+  return { items: unwrap<MediaItem[]>(data), pagination: data.pagination as Pagination | undefined };
+};
+
+const readImageSize = (file: File) =>
+  new Promise<{ width: number; height: number } | null>((resolve) => {
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => {
+      resolve({ width: img.naturalWidth, height: img.naturalHeight });
+      URL.revokeObjectURL(url);
+    };
+    img.onerror = () => {
+      resolve(null);
+      URL.revokeObjectURL(url);
+    };
+    img.src = url;
+  });
+
+export interface UploadMediaOptions {
+  signal?: AbortSignal;
+  processing?: Partial<ImageProcessingOptions>;
+  // Fraction (0–1) of the upload completed, covering both the image and its thumbnail
+  onProgress?: (fraction: number) => void;
+}
+
+// An image stored on the image host but not yet registered in the library
+type StoredMedia = Omit<MediaItem, 'id' | 'created_at' | 'usage_count'>;
+
+// Resizes and re-encodes the file (see imageProcessing.ts) and uploads it and its thumbnail to the
+// image host
+const storeMedia = async (
+  file: File,
+  altText = '',
+  { signal, processing, onProgress }: UploadMediaOptions = {}
+): Promise<StoredMedia> => {
+  const processed = await processImage(file, processing);
+  const size = processed.width ? processed : await readImageSize(file);
+
+  const total = processed.file.size + (processed.thumbnail?.size || 0);
+  let thumbnailSent = 0;
+  let imageSent = 0;
+  const report = () => onProgress?.(total ? (imageSent + thumbnailSent) / total : 0);
+
+  const [url, thumbnailUrl] = await Promise.all([
+    uploadImage(processed.file, signal, (fraction) => {
+      imageSent = fraction * processed.file.size;
+      report();
+    }),
+    processed.thumbnail
+      ? uploadImage(processed.thumbnail, signal, (fraction) => {
+          thumbnailSent = fraction * (processed.thumbnail?.size || 0);
+          report();
+        })
+      : Promise.resolve(null),
+  ]);
+
+  return {
+    url,
+    thumbnail_url: thumbnailUrl,
+    filename: file.name,
+    alt_text: altText,
+    mime_type: processed.file.type,
+    size: processed.file.size,
+    width: size?.width ?? null,
+    height: size?.height ?? null,
+  };
+};
+
+const registerMedia = async (stored: StoredMedia, signal?: AbortSignal) => {
+  const response = await api.post('/media', stored, {
+    signal,
+    audit: { action: 'media.upload', entityType: 'media', summary: `Uploaded ${stored.filename}` },
+  });
+  return unwrap<MediaItem>(response.data);
+};
+
+// Uploads the image and its thumbnail and registers the result in the library
+export const uploadMedia = async (file: File, altText = '', options: UploadMediaOptions = {}): Promise<MediaItem> =>
+  registerMedia(await storeMedia(file, altText, options), options.signal);
+
+export type UploadStatus = 'queued' | 'processing' | 'uploading' | 'retrying' | 'done' | 'error';
+
+export interface UploadProgress {
+  name: string;
+  status: UploadStatus;
+  // 0–1
+  progress: number;
+  attempt: number;
+  error?: string;
+  item?: MediaItem;
+}
+
+export interface UploadBatchOptions extends Omit<UploadMediaOptions, 'onProgress'> {
+  altText?: string;
+  concurrency?: number;
+  // Extra attempts per file after the first failure
+  retries?: number;
+  onUpdate?: (index: number, progress: UploadProgress) => void;
+}
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Uploads several files in parallel, retrying failures with a growing delay. Resolves once every
+// file has either succeeded or run out of attempts; failures are reported per file, not thrown.
+// Once a file is on the image host, retries only register it, so no duplicate copies are stored.
+export const uploadMediaBatch = async (
+  files: File[],
+  { altText = '', concurrency = 3, retries = 2, signal, processing, onUpdate }: UploadBatchOptions = {}
+): Promise<UploadProgress[]> => {
+  const results: UploadProgress[] = files.map((file) => ({ name: file.name, status: 'queued', progress: 0, attempt: 0 }));
+  const update = (index: number, patch: Partial<UploadProgress>) => {
+    results[index] = { ...results[index], ...patch };
+    onUpdate?.(index, results[index]);
+  };
+
+  let next = 0;
+  const worker = async () => {
+    while (next < files.length && !signal?.aborted) {
+      const index = next++;
+      let stored: StoredMedia | null = null;
+      for (let attempt = 1; attempt <= retries + 1; attempt++) {
+        try {
+          update(index, {
+            status: attempt === 1 ? 'processing' : 'retrying',
+            attempt,
+            progress: stored ? 1 : 0,
+            error: undefined,
+          });
+          if (!stored) {
+            stored = await storeMedia(files[index], altText, {
+              signal,
+              processing,
+              onProgress: (fraction) => update(index, { status: 'uploading', progress: fraction }),
+            });
+          }
+          const item = await registerMedia(stored, signal);
+          update(index, { status: 'done', progress: 1, item });
+          break;
+        } catch (err) {
+          if (isCanceled(err) || attempt > retries) {
+            update(index, { status: 'error', error: getErrorMessage(err, 'Upload failed') });
+            break;
+          }
+          console.error(`Upload of ${files[index].name} failed (attempt ${attempt}):`, err);
+          await wait(1000 * attempt);
+        }
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, files.length) }, worker));
+  return results;
+};
+
+export const fetchMediaUsage = async (id: number, signal?: AbortSignal) => {
+  const response = await api.get(`/media/${id}/usage`, { signal });
+  return unwrap<MediaUsage[]>(response.data);
+};
+
+// Replaces the recorded usage of one field on one record. Call after the record itself has been
+// saved; a failure here only affects the delete warnings, so it is logged rather than surfaced.
+export const recordMediaUsage = async (
+  entityType: MediaUsageEntity,
+  entityId: string | number,
+  field: string,
+  urls: string[],
+  label: string
+) => {
+  try {
+    await api.put('/media/usage', {
+      entity_type: entityType,
+      entity_id: String(entityId),
+      field,
+      label,
+      urls: urls.filter(Boolean),
+    });
+  } catch (err) {
+    console.error('Error recording media usage:', err);
+  }
+};
+
+export const formatFileSize = (bytes?: number) => {
+  if (!bytes) return '';
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
@@ -0,0 +1,439 @@
+// Guest notifications: booking, payment, reminder, pre-arrival and cancellation messages over email
+// and WhatsApp. Messages are queued per guest and delivered through a pluggable transport:
+//   smtp    the backend relays email over SMTP and WhatsApp through its gateway
+//   outbox  development stand-in that writes messages to a local outbox instead of sending them
+//
+// With smtp the queue and delivery log are kept on the backend, so every staff member sees the same
+// history. The backend's worker delivers due messages; admin sessions of staff who can view bookings
+// also work the queue through useNotificationQueue. Each message is claimed on the backend just before
+// it is delivered, and the delivery call itself marks it sent, so a message is never sent twice.
+// Content is rendered at delivery time, so scheduled messages carry the booking's current payments
+// and balance.
+//
+// The outbox never touches the shared queue, which holds real guests' messages: messages are rendered
+// and written to this browser's outbox as soon as they are queued.
+
+import { ApiError, api, assertSuccess, getErrorMessage, unwrap } from './api';
+import { loadBookingConfirmation, type BookingConfirmation } from './bookingDocuments';
+import {
+  fetchDocumentTemplate,
+  renderDocument,
+  renderTemplate,
+  type DocumentTemplateId,
+  type TemplateValues,
+} from './documentTemplates';
+import { isRefund, isVoided } from './payments';
+import { buildPaymentValues } from './receipts';
+
+export type NotificationEvent =
+  | 'booking-confirmed'
+  | 'payment-received'
+  | 'balance-reminder'
+  | 'pre-arrival'
+  | 'cancellation';
+
+export type NotificationChannel = 'email' | 'whatsapp';
+
+export type NotificationStatus = 'queued' | 'sending' | 'sent' | 'failed' | 'skipped';
+
+export type NotificationTransportName = 'smtp' | 'outbox';
+
+export interface NotificationMessage {
+  id: string;
+  booking_id: number;
+  booking_ref: string;
+  event: NotificationEvent;
+  channel: NotificationChannel;
+  // Email address or WhatsApp number (country code, digits only)
+  recipient: string;
+  status: NotificationStatus;
+  attempts: number;
+  // Earliest time the next attempt may run; used for scheduled sends and retry backoff
+  send_after: string;
+  // Event-specific placeholder values merged over the booking's
+  values?: TemplateValues;
+  // Filled in from the rendered content once the message has been delivered
+  subject?: string;
+  body?: string;
+  transport?: NotificationTransportName;
+  last_error?: string | null;
+  created_at: string;
+  sent_at?: string;
+}
+
+export interface NotificationContent {
+  subject: string;
+  body: string;
+}
+
+export interface NotificationTransport {
+  name: NotificationTransportName;
+  label: string;
+  deliver: (message: NotificationMessage, content: NotificationContent) => Promise<void>;
+}
+
+interface NotificationEventDefinition {
+  label: string;
+  templateId: DocumentTemplateId;
+  // Plain-text WhatsApp message, using the same placeholders as the email template
+  whatsapp: string;
+  // Sent ahead of the stay; dropped if the booking is cancelled before it goes out
+  scheduled?: boolean;
+}
+
+export const NOTIFICATION_EVENTS: Record<NotificationEvent, NotificationEventDefinition> = {
+  'booking-confirmed': {
+    label: 'Booking confirmed',
+    templateId: 'booking-confirmation',
+    whatsapp:
+      'Hi {{guest_name}}, your booking {{booking_ref}} at {{accommodation_name}} is confirmed for {{check_in}} to {{check_out}} ({{total_guests}} guests). Paid: INR {{paid_amount}}. Balance: INR {{balance_due}}.{{#map_link}} Location: {{map_link}}{{/map_link}}',
+  },
+  'payment-received': {
+    label: 'Payment received',
+    templateId: 'payment-receipt',
+    whatsapp:
+      'Hi {{guest_name}}, we have received INR {{payment_amount}} by {{payment_method}} for booking {{booking_ref}} (receipt {{receipt_number}}). Balance due: INR {{balance_due}}.',
+  },
+  'balance-reminder': {
+    label: 'Balance reminder',
+    templateId: 'payment-reminder',
+    whatsapp:
+      'Hi {{guest_name}}, a balance of INR {{balance_due}} is due for your stay at {{accommodation_name}} from {{check_in}} (booking {{booking_ref}}). Please pay before check-in or on arrival.',
+    scheduled: true,
+  },
+  'pre-arrival': {
+    label: 'Pre-arrival',
+    templateId: 'pre-arrival',
+    whatsapp:
+      'Hi {{guest_name}}, we look forward to welcoming you at {{accommodation_name}} on {{check_in}}.{{#map_link}} Directions: {{map_link}}{{/map_link}}{{#contact_phone}} Call {{contact_name}} on {{contact_phone}} if you need help finding us.{{/contact_phone}}',
+    scheduled: true,
+  },
+  cancellation: {
+    label: 'Cancellation',
+    templateId: 'cancellation-notice',
+    whatsapp:
+      'Hi {{guest_name}}, your booking {{booking_ref}} at {{accommodation_name}} for {{check_in}} has been cancelled.{{#refund_amount}} A refund of INR {{refund_amount}} has been initiated.{{/refund_amount}}',
+  },
+};
+
+export const NOTIFICATION_CHANNELS: { value: NotificationChannel; label: string }[] = [
+  { value: 'email', label: 'Email' },
+  { value: 'whatsapp', label: 'WhatsApp' },
+];
+
+export const getNotificationStatusColor = (status: NotificationStatus) => {
+  switch (status) {
+    case 'sent':
+      return 'bg-green-100 text-green-800';
+    case 'failed':
+      return 'bg-red-100 text-red-800';
+    case 'skipped':
+      return 'bg-gray-100 text-gray-600';
+    default:
+      return 'bg-yellow-100 text-yellow-800';
+  }
+};
+
+// Attempts per message, and the wait before each retry
+export const MAX_DELIVERY_ATTEMPTS = 4;
+const RETRY_DELAYS_MINUTES = [1, 5, 30];
+// A message left in 'sending' (e.g. the tab closed mid-delivery) is picked up again after this long
+const SENDING_TIMEOUT_MINUTES = 5;
+
+const OUTBOX_KEY = 'notificationOutbox';
+// Oldest outbox entries are dropped beyond this many
+const MAX_OUTBOX_ENTRIES = 500;
+
+const minutesFromNow = (minutes: number) => new Date(Date.now() + minutes * 60000).toISOString();
+
+const listeners = new Set<() => void>();
+
+// Calls the listener whenever this session changes the queue
+export const subscribeNotifications = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const notifyListeners = () => listeners.forEach((listener) => listener());
+
+const readOutbox = (): NotificationMessage[] => {
+  const saved = localStorage.getItem(OUTBOX_KEY);
+  if (!saved) return [];
+  try {
+    const list = JSON.parse(saved);
+    return Array.isArray(list) ? list : [];
+  } catch {
+    return [];
+  }
+};
+
+// Queue bookkeeping is not audited; the deliveries themselves are
+export const fetchBookingNotifications = async (bookingId: number, signal?: AbortSignal) => {
+  if (getNotificationTransport().name === 'outbox') {
+    return readOutbox()
+      .filter((message) => message.booking_id === bookingId)
+      .sort((a, b) => b.created_at.localeCompare(a.created_at));
+  }
+  const response = await api.get(`/bookings/${bookingId}/notifications`, { signal });
+  const messages = unwrap<NotificationMessage[]>(response.data);
+  return (Array.isArray(messages) ? messages : []).sort((a, b) => b.created_at.localeCompare(a.created_at));
+};
+
+const fetchDueNotifications = async () => {
+  const response = await api.get('/notifications/due');
+  const messages = unwrap<NotificationMessage[]>(response.data);
+  return Array.isArray(messages) ? messages : [];
+};
+
+const updateMessage = async (id: string, changes: Partial<NotificationMessage>) => {
+  const response = await api.patch(`/notifications/${id}`, changes, { audit: false });
+  assertSuccess(response.data, 'Failed to update notification');
+  notifyListeners();
+};
+
+// Moves a message to 'sending' on the backend, which only succeeds while it is still queued and due
+// (or stuck in 'sending' past its claim). Returns the message as stored, or null when another
+// session claimed it first or it was sent, cancelled or rescheduled since the queue was read.
+const claimMessage = async (id: string) => {
+  try {
+    const response = await api.post(
+      `/notifications/${id}/claim`,
+      { send_after: minutesFromNow(SENDING_TIMEOUT_MINUTES) },
+      { audit: false }
+    );
+    return unwrap<NotificationMessage>(assertSuccess(response.data, 'Failed to claim notification'));
+  } catch (err) {
+    if (!(err instanceof ApiError && err.status === 409)) console.error('Error claiming notification:', err);
+    return null;
+  }
+};
+
+// Indian numbers without a country code get +91
+export const toWhatsAppNumber = (phone?: string | null) => {
+  const digits = (phone || '').replace(/\D/g, '').replace(/^0+/, '');
+  if (digits.length < 10) return '';
+  return digits.length === 10 ? `91${digits}` : digits;
+};
+
+// The backend sends the claimed message and marks it sent with this content in the same call. Sends
+// are keyed on the message id, so a retried call for a message already sent does not send it again.
+const smtpTransport: NotificationTransport = {
+  name: 'smtp',
+  label: 'SMTP / WhatsApp gateway',
+  deliver: async (message, content) => {
+    const channel = message.channel === 'email' ? 'email' : 'WhatsApp';
+    const response = await api.post(`/notifications/${message.id}/deliver`, content, {
+      audit: {
+        action: `notification.${message.channel}`,
+        entityType: 'booking',
+        entityId: message.booking_id,
+        summary: `Sent ${NOTIFICATION_EVENTS[message.event].label.toLowerCase()} ${channel} to ${message.recipient}`,
+      },
+    });
+    assertSuccess(response.data, `Failed to send ${channel} message`);
+  },
+};
+
+const outboxTransport: NotificationTransport = {
+  name: 'outbox',
+  label: 'Local outbox',
+  deliver: async (message, content) => {
+    const entry: NotificationMessage = {
+      ...message,
+      ...content,
+      status: 'sent',
+      attempts: message.attempts + 1,
+      transport: 'outbox',
+      sent_at: new Date().toISOString(),
+    };
+    localStorage.setItem(OUTBOX_KEY, JSON.stringify([...readOutbox(), entry].slice(-MAX_OUTBOX_ENTRIES)));
+  },
+};
+
+export const NOTIFICATION_TRANSPORTS: Record<NotificationTransportName, NotificationTransport> = {
+  smtp: smtpTransport,
+  outbox: outboxTransport,
+};
+
+// Development builds write to the outbox unless VITE_NOTIFICATION_TRANSPORT says otherwise
+export const getNotificationTransport = (): NotificationTransport => {
+  const configured = import.meta.env.VITE_NOTIFICATION_TRANSPORT;
+  if (configured && configured in NOTIFICATION_TRANSPORTS) return NOTIFICATION_TRANSPORTS[configured];
+  return import.meta.env.DEV ? outboxTransport : smtpTransport;
+};
+
+export interface QueueNotificationInput {
+  bookingId: number;
+  bookingRef: string;
+  event: NotificationEvent;
+  email?: string | null;
+  phone?: string | null;
+  channels?: NotificationChannel[];
+  sendAfter?: Date;
+  values?: TemplateValues;
+}
+
+// Queues one message per channel the guest can be reached on and returns them as stored
+export const queueNotification = async (input: QueueNotificationInput): Promise<NotificationMessage[]> => {
+  const recipients: Record<NotificationChannel, string> = {
+    email: (input.email || '').trim(),
+    whatsapp: toWhatsAppNumber(input.phone),
+  };
+  const now = new Date().toISOString();
+  const messages = (input.channels || NOTIFICATION_CHANNELS.map((channel) => channel.value))
+    .filter((channel) => recipients[channel])
+    .map<Omit<NotificationMessage, 'id'>>((channel) => ({
+      booking_id: input.bookingId,
+      booking_ref: input.bookingRef,
+      event: input.event,
+      channel,
+      recipient: recipients[channel],
+      status: 'queued',
+      attempts: 0,
+      send_after: input.sendAfter ? input.sendAfter.toISOString() : now,
+      values: input.values,
+      created_at: now,
+    }));
+
+  if (messages.length === 0) return [];
+  if (getNotificationTransport().name === 'outbox') return writeToOutbox(messages);
+  const response = await api.post(`/bookings/${input.bookingId}/notifications`, { messages }, { audit: false });
+  const queued = unwrap<NotificationMessage[]>(assertSuccess(response.data, 'Failed to queue notification'));
+  notifyListeners();
+  void processNotificationQueue();
+  return queued;
+};
+
+// Schedules the balance reminder and pre-arrival message for 10 AM, three days and one day before
+// check-in. Times already passed are not scheduled.
+export const scheduleStayNotifications = async (
+  input: Omit<QueueNotificationInput, 'event' | 'sendAfter'> & { checkIn: string }
+) => {
+  const schedule: [NotificationEvent, number][] = [
+    ['balance-reminder', 3],
+    ['pre-arrival', 1],
+  ];
+  const queued: NotificationMessage[] = [];
+  for (const [event, daysBefore] of schedule) {
+    const sendAfter = new Date(`${input.checkIn.slice(0, 10)}T10:00:00`);
+    sendAfter.setDate(sendAfter.getDate() - daysBefore);
+    if (isNaN(sendAfter.getTime()) || sendAfter.getTime() <= Date.now()) continue;
+    queued.push(...(await queueNotification({ ...input, event, sendAfter })));
+  }
+  return queued;
+};
+
+// Marks a booking's pending scheduled messages as skipped, e.g. when it is cancelled
+export const cancelScheduledNotifications = async (bookingId: number, reason: string) => {
+  const messages = await fetchBookingNotifications(bookingId);
+  for (const message of messages) {
+    if (message.status === 'queued' && NOTIFICATION_EVENTS[message.event].scheduled) {
+      await updateMessage(message.id, { status: 'skipped', last_error: reason });
+    }
+  }
+};
+
+export const retryNotification = async (id: string) => {
+  await updateMessage(id, { status: 'queued', attempts: 0, send_after: new Date().toISOString(), last_error: null });
+  void processNotificationQueue();
+};
+
+export const cancelNotification = (id: string) => updateMessage(id, { status: 'skipped', last_error: 'Cancelled by staff' });
+
+// Scheduled messages no longer apply once the booking is cancelled or, for reminders, fully paid
+const getSkipReason = (message: NotificationMessage, booking: BookingConfirmation) => {
+  if (NOTIFICATION_EVENTS[message.event].scheduled && booking.status === 'cancelled') return 'Booking is cancelled';
+  if (message.event === 'balance-reminder' && booking.balanceDue <= 0) return 'No balance due';
+  return null;
+};
+
+// The payment the message refers to, or the latest payment still counted on the ledger
+const getPaymentValues = (message: NotificationMessage, booking: BookingConfirmation) => {
+  const entry =
+    booking.payments.find((payment) => payment.id === message.values?.payment_id) ??
+    [...booking.payments].reverse().find((payment) => !isVoided(payment) && !isRefund(payment));
+  return entry ? buildPaymentValues(entry) : {};
+};
+
+const renderNotification = async (message: NotificationMessage, booking: BookingConfirmation): Promise<NotificationContent> => {
+  const event = NOTIFICATION_EVENTS[message.event];
+  const values = {
+    ...booking.values,
+    ...(message.event === 'payment-received' ? getPaymentValues(message, booking) : {}),
+    ...message.values,
+  };
+  if (message.channel === 'whatsapp') {
+    return { subject: '', body: renderTemplate(event.whatsapp, values, (value) => String(value ?? '')) };
+  }
+  const document = renderDocument(await fetchDocumentTemplate(event.templateId), values);
+  return { subject: document.subject, body: document.html };
+};
+
+// Renders messages straight into the local outbox; scheduled ones are written with today's content
+const writeToOutbox = async (messages: Omit<NotificationMessage, 'id'>[]) => {
+  const written: NotificationMessage[] = [];
+  for (const [index, fields] of messages.entries()) {
+    const message: NotificationMessage = { ...fields, id: `outbox-${Date.now()}-${index}` };
+    const booking = await loadBookingConfirmation(message.booking_id);
+    await outboxTransport.deliver(message, await renderNotification(message, booking));
+    written.push(message);
+  }
+  notifyListeners();
+  return written;
+};
+
+// Expects a message this session has claimed. Delivery marks the message sent on the backend, so only
+// skips and failures are saved here; if that save fails the message is claimed again later, which is
+// safe because nothing was sent.
+const deliverMessage = async (message: NotificationMessage, transport: NotificationTransport) => {
+  const attempts = message.attempts + 1;
+  let outcome: Partial<NotificationMessage>;
+
+  try {
+    const booking = await loadBookingConfirmation(message.booking_id);
+    const skipReason = getSkipReason(message, booking);
+    if (!skipReason) {
+      await transport.deliver(message, await renderNotification(message, booking));
+      notifyListeners();
+      return;
+    }
+    outcome = { status: 'skipped', last_error: skipReason };
+  } catch (err) {
+    console.error(`Error delivering ${message.event} ${message.channel} notification:`, err);
+    const retry = attempts < MAX_DELIVERY_ATTEMPTS;
+    const retryDelay = RETRY_DELAYS_MINUTES[Math.min(attempts, RETRY_DELAYS_MINUTES.length) - 1];
+    outcome = {
+      status: retry ? 'queued' : 'failed',
+      attempts,
+      last_error: getErrorMessage(err, 'Delivery failed'),
+      send_after: retry ? minutesFromNow(retryDelay) : message.send_after,
+    };
+  }
+
+  await updateMessage(message.id, outcome);
+};
+
+let processing: Promise<void> | null = null;
+
+// Delivers every message that is due, one at a time, claiming each just before it is sent;
+// concurrent calls in this tab share the same run. Only the real transport may claim messages.
+export const processNotificationQueue = () => {
+  const transport = getNotificationTransport();
+  if (transport.name !== 'smtp') return Promise.resolve();
+  if (!processing) {
+    processing = (async () => {
+      const due = await fetchDueNotifications();
+      for (const { id } of due) {
+        const claimed = await claimMessage(id);
+        if (claimed) await deliverMessage(claimed, transport);
+      }
+    })()
+      .catch((err) => console.error('Error processing notification queue:', err))
+      .finally(() => {
+        processing = null;
+      });
+  }
+  return processing;
+};
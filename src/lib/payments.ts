@@ -0,0 +1,192 @@
+// Per-booking payment ledger. Paid and remaining amounts are always derived from the ledger
+// entries rather than from the formatted totals shown in the bookings table.
+
+import { api, assertSuccess, unwrap } from './api';
+
+export type PaymentEntryType = 'payment' | 'refund';
+export type PaymentEntryStatus = 'success' | 'pending' | 'failed' | 'voided';
+
+export interface PaymentEntry {
+  id: number;
+  // Refunds are stored as negative amounts
+  amount: number;
+  type?: PaymentEntryType;
+  payment_method: string;
+  transaction_id?: string | null;
+  notes?: string | null;
+  status: PaymentEntryStatus | string;
+  receipt_number?: string | null;
+  void_reason?: string | null;
+  voided_at?: string | null;
+  created_at: string;
+  updated_at?: string | null;
+}
+
+export interface PaymentInput {
+  amount: number;
+  payment_method: string;
+  transaction_id?: string;
+  notes?: string;
+}
+
+export interface LedgerTotals {
+  paid: number;
+  refunded: number;
+  // Net amount kept after refunds
+  net: number;
+  remaining: number;
+}
+
+export const PAYMENT_METHOD_OPTIONS: { value: string; label: string }[] = [
+  { value: 'card', label: 'Credit/Debit Card' },
+  { value: 'gpay', label: 'Google Pay' },
+  { value: 'phonepe', label: 'PhonePe' },
+  { value: 'paytm', label: 'Paytm' },
+  { value: 'cash', label: 'Cash' },
+  { value: 'bank', label: 'Bank Transfer' },
+  { value: 'upi', label: 'UPI' },
+  { value: 'cheque', label: 'Cheque' },
+];
+
+export const getPaymentMethodLabel = (method: string) =>
+  PAYMENT_METHOD_OPTIONS.find((option) => option.value === method)?.label ?? method;
+
+export const isVoided = (entry: PaymentEntry) => entry.status === 'voided' || !!entry.voided_at;
+
+export const isRefund = (entry: PaymentEntry) => entry.type === 'refund' || Number(entry.amount) < 0;
+
+// Only settled, non-voided entries count towards what the guest has paid
+const countsTowardTotals = (entry: PaymentEntry) => !isVoided(entry) && entry.status !== 'failed' && entry.status !== 'pending';
+
+const toLedgerTotals = (totalAmount: number, paid: number, refunded: number): LedgerTotals => {
+  const net = paid - refunded;
+  return { paid, refunded, net, remaining: Math.max(0, totalAmount - net) };
+};
+
+export const getLedgerTotals = (totalAmount: number, entries: PaymentEntry[]): LedgerTotals => {
+  let paid = 0;
+  let refunded = 0;
+  entries.filter(countsTowardTotals).forEach((entry) => {
+    const amount = Number(entry.amount) || 0;
+    if (isRefund(entry)) refunded += Math.abs(amount);
+    else paid += amount;
+  });
+  return toLedgerTotals(totalAmount, paid, refunded);
+};
+
+// Receipts are numbered by the backend; older entries without one fall back to the entry id
+export const formatReceiptNumber = (entry: Pick<PaymentEntry, 'id' | 'receipt_number'>) =>
+  entry.receipt_number || `RCPT-${entry.id.toString().padStart(6, '0')}`;
+
+export const fetchPayments = async (bookingId: number, signal?: AbortSignal): Promise<PaymentEntry[]> => {
+  const response = await api.get(`/bookings/${bookingId}/payments`, { signal });
+  const entries = unwrap<PaymentEntry[]>(response.data);
+  return (Array.isArray(entries) ? entries : []).map((entry) => ({ ...entry, amount: Number(entry.amount) || 0 }));
+};
+
+// Per-booking sums of settled, non-voided entries, added up by the backend the same way as getLedgerTotals
+interface LedgerSums {
+  booking_id: number;
+  paid: number | string;
+  refunded: number | string;
+}
+
+const LEDGER_TOTALS_BATCH_SIZE = 100;
+
+// Totals for many bookings in one request per batch of ids. Bookings with no entries have paid nothing;
+// every booking in a batch that fails to load maps to null.
+export const fetchLedgerTotals = async (
+  bookings: { id: number; totalAmount: number }[],
+  signal?: AbortSignal
+): Promise<Record<number, LedgerTotals | null>> => {
+  const batches: (typeof bookings)[] = [];
+  for (let index = 0; index < bookings.length; index += LEDGER_TOTALS_BATCH_SIZE) {
+    batches.push(bookings.slice(index, index + LEDGER_TOTALS_BATCH_SIZE));
+  }
+
+  const results = await Promise.allSettled(
+    batches.map(async (batch) => {
+      const response = await api.get('/payments/totals', {
+        params: { booking_ids: batch.map((booking) => booking.id).join(',') },
+        signal,
+      });
+      const sums = unwrap<LedgerSums[]>(response.data);
+      return new Map((Array.isArray(sums) ? sums : []).map((entry) => [Number(entry.booking_id), entry]));
+    })
+  );
+
+  const totals: Record<number, LedgerTotals | null> = {};
+  results.forEach((result, index) => {
+    batches[index].forEach(({ id, totalAmount }) => {
+      if (result.status === 'rejected') {
+        totals[id] = null;
+        return;
+      }
+      const sums = result.value.get(id);
+      totals[id] = toLedgerTotals(totalAmount, Number(sums?.paid) || 0, Number(sums?.refunded) || 0);
+    });
+  });
+  return totals;
+};
+
+export const recordPayment = async (bookingId: number, bookingRef: string, input: PaymentInput, paidBefore: number) => {
+  const response = await api.post(`/bookings/${bookingId}/payments`, input, {
+    audit: {
+      action: 'payment.create',
+      entityType: 'payment',
+      entityId: bookingId,
+      summary: `Recorded ₹${input.amount.toLocaleString('en-IN')} ${input.payment_method} payment for ${bookingRef}`,
+      before: { paid_amount: paidBefore },
+      after: { paid_amount: paidBefore + input.amount, ...input },
+    },
+  });
+  // Returns the created entry when the backend sends it back
+  return assertSuccess<PaymentEntry | undefined>(response.data, 'Failed to add payment').data;
+};
+
+export const updatePayment = async (
+  bookingId: number,
+  bookingRef: string,
+  entry: PaymentEntry,
+  input: PaymentInput,
+  reason: string
+) => {
+  const response = await api.put(
+    `/bookings/${bookingId}/payments/${entry.id}`,
+    { ...input, reason },
+    {
+      audit: {
+        action: 'payment.update',
+        entityType: 'payment',
+        entityId: entry.id,
+        summary: `Corrected ${formatReceiptNumber(entry)} for ${bookingRef}: ${reason}`,
+        before: {
+          amount: entry.amount,
+          payment_method: entry.payment_method,
+          transaction_id: entry.transaction_id ?? null,
+          notes: entry.notes ?? null,
+        },
+        after: { ...input, reason },
+      },
+    }
+  );
+  assertSuccess(response.data, 'Failed to update payment');
+};
+
+export const voidPayment = async (bookingId: number, bookingRef: string, entry: PaymentEntry, reason: string) => {
+  const response = await api.post(
+    `/bookings/${bookingId}/payments/${entry.id}/void`,
+    { reason },
+    {
+      audit: {
+        action: 'payment.void',
+        entityType: 'payment',
+        entityId: entry.id,
+        summary: `Voided ${formatReceiptNumber(entry)} (₹${Math.abs(entry.amount).toLocaleString('en-IN')}) for ${bookingRef}: ${reason}`,
+        before: { status: entry.status, amount: entry.amount },
+        after: { status: 'voided', void_reason: reason },
+      },
+    }
+  );
+  assertSuccess(response.data, 'Failed to void payment');
+};
@@ -0,0 +1,35 @@
+// @vitest-environment jsdom
+import { describe, expect, it, vi } from 'vitest';
+import { renderTemplate } from './documentTemplates';
+import { downloadHtmlAsPdf } from './pdf';
+
+// Captures what would be drawn into the PDF
+const { drawn } = vi.hoisted(() => ({ drawn: [] as string[] }));
+
+vi.mock('html2canvas', () => ({
+  default: vi.fn(async (element: HTMLElement) => {
+    drawn.push(element.innerHTML);
+    return { width: 794, height: 1123, toDataURL: () => 'data:image/png;base64,' };
+  }),
+}));
+
+vi.mock('jspdf', () => ({
+  default: vi.fn(() => ({ addImage: vi.fn(), save: vi.fn() })),
+}));
+
+describe('downloadHtmlAsPdf', () => {
+  it('renders an edited template inert while keeping its layout', async () => {
+    const template =
+      '<table width="100%" cellpadding="0" style="border-collapse:collapse;"><tr><td style="color:#216896;">{{{note}}}</td></tr></table>' +
+      '<img src="x" onerror="window.__pwned = true"><script>window.__pwned = true</script>';
+    drawn.length = 0;
+
+    await downloadHtmlAsPdf(renderTemplate(template, { note: '<b onmouseover="alert(1)">Welcome</b>' }), 'test.pdf');
+
+    expect(drawn).toEqual([
+      '<table width="100%" cellpadding="0" style="border-collapse:collapse;"><tbody><tr><td style="color:#216896;"><b>Welcome</b></td></tr></tbody></table><img src="x">',
+    ]);
+    expect((window as unknown as { __pwned?: boolean }).__pwned).toBeUndefined();
+    expect(document.body.innerHTML).toBe('');
+  });
+});
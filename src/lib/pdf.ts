@@ -0,0 +1,40 @@
+// Renders an HTML document off-screen and saves it as a single-page PDF sized to the content
+
+import html2canvas from 'html2canvas';
+import jsPDF from 'jspdf';
+import { sanitizeHtml } from './seo';
+
+// A4 width in pixels at 96 DPI and in points
+const PAGE_WIDTH_PX = 794;
+const PAGE_WIDTH_PT = 595.28;
+
+// Templates are editable by staff, so the HTML is sanitised before it is attached to the admin's page
+export const downloadHtmlAsPdf = async (html: string, filename: string) => {
+  const container = document.createElement('div');
+  container.innerHTML = sanitizeHtml(html, { keepLayout: true });
+  container.style.position = 'absolute';
+  container.style.top = '-9999px';
+  container.style.left = '-9999px';
+  container.style.width = `${PAGE_WIDTH_PX}px`;
+  container.style.background = 'white';
+  document.body.appendChild(container);
+
+  try {
+    const canvas = await html2canvas(container, { scale: 2, useCORS: true });
+    const pdfHeight = (canvas.height * PAGE_WIDTH_PT) / canvas.width;
+    const pdf = new jsPDF('p', 'pt', [PAGE_WIDTH_PT, pdfHeight]);
+    pdf.addImage(canvas.toDataURL('image/png'), 'PNG', 0, 0, PAGE_WIDTH_PT, pdfHeight);
+    pdf.save(filename);
+  } finally {
+    document.body.removeChild(container);
+  }
+};
+
+// Escapes user-entered text (guest names, notes) before it is placed in a document template
+export const escapeHtml = (value: unknown) =>
+  String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
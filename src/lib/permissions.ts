@@ -0,0 +1,111 @@
+// Role → capability model used by routes, navigation and action buttons
+
+export type Role = 'owner' | 'manager' | 'front-desk' | 'content-editor';
+
+export type Capability =
+  | 'dashboard:view'
+  | 'analytics:view'
+  | 'properties:view'
+  | 'properties:edit'
+  | 'properties:delete'
+  | 'gallery:manage'
+  | 'media:manage'
+  | 'services:manage'
+  | 'bookings:view'
+  | 'bookings:create'
+  | 'bookings:edit'
+  | 'bookings:delete'
+  | 'payments:record'
+  | 'payments:adjust'
+  | 'calendar:manage'
+  | 'coupons:view'
+  | 'coupons:edit'
+  | 'coupons:delete'
+  | 'blogs:manage'
+  | 'categories:manage'
+  | 'catalog:manage'
+  | 'ratings:manage'
+  | 'templates:manage'
+  | 'users:manage'
+  | 'audit:view';
+
+export const ROLE_OPTIONS: { value: Role; label: string }[] = [
+  { value: 'owner', label: 'Owner' },
+  { value: 'manager', label: 'Manager' },
+  { value: 'front-desk', label: 'Front Desk' },
+  { value: 'content-editor', label: 'Content Editor' },
+];
+
+const ALL_CAPABILITIES: Capability[] = [
+  'dashboard:view',
+  'analytics:view',
+  'properties:view',
+  'properties:edit',
+  'properties:delete',
+  'gallery:manage',
+  'media:manage',
+  'services:manage',
+  'bookings:view',
+  'bookings:create',
+  'bookings:edit',
+  'bookings:delete',
+  'payments:record',
+  'payments:adjust',
+  'calendar:manage',
+  'coupons:view',
+  'coupons:edit',
+  'coupons:delete',
+  'blogs:manage',
+  'categories:manage',
+  'catalog:manage',
+  'ratings:manage',
+  'templates:manage',
+  'users:manage',
+  'audit:view',
+];
+
+const ROLE_CAPABILITIES: Record<Role, Capability[]> = {
+  owner: ALL_CAPABILITIES,
+  manager: ALL_CAPABILITIES.filter((capability) => capability !== 'users:manage'),
+  'front-desk': [
+    'dashboard:view',
+    'properties:view',
+    'bookings:view',
+    'bookings:create',
+    'bookings:edit',
+    'payments:record',
+    'calendar:manage',
+    'coupons:view',
+  ],
+  'content-editor': [
+    'dashboard:view',
+    'gallery:manage',
+    'media:manage',
+    'blogs:manage',
+    'categories:manage',
+    'ratings:manage',
+  ],
+};
+
+// Accounts created before the role model still carry admin/staff
+const LEGACY_ROLES: Record<string, Role> = {
+  admin: 'owner',
+  staff: 'front-desk',
+};
+
+export const normalizeRole = (role?: string | null): Role | null => {
+  const key = (role || '').trim().toLowerCase().replace(/[\s_]+/g, '-');
+  // Own keys only, so inherited names like "constructor" are never accepted as roles
+  if (Object.prototype.hasOwnProperty.call(ROLE_CAPABILITIES, key)) return key as Role;
+  return Object.prototype.hasOwnProperty.call(LEGACY_ROLES, key) ? LEGACY_ROLES[key] : null;
+};
+
+export const getRoleLabel = (role?: string | null): string => {
+  const normalized = normalizeRole(role);
+  return ROLE_OPTIONS.find((option) => option.value === normalized)?.label || role || 'Unknown';
+};
+
+export const hasCapability = (role: string | null | undefined, capability: Capability): boolean => {
+  const normalized = normalizeRole(role);
+  return normalized ? ROLE_CAPABILITIES[normalized].includes(capability) : false;
+};
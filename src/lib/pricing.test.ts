@@ -0,0 +1,148 @@
+import { describe, expect, it } from 'vitest';
+import {
+  calculateDiscount,
+  calculateQuote,
+  createRatePlan,
+  getStayDates,
+  type PricingAccommodation,
+  type RatePlan,
+} from './pricing';
+
+const cottage: PricingAccommodation = { type: 'Cottage', adultPrice: 1000, childPrice: 500 };
+const twoAdults = { adults: 2, children: 0, extraAdults: 0 };
+
+const plan = (overrides: Partial<RatePlan>): RatePlan => ({ ...createRatePlan(), name: 'Plan', ...overrides });
+
+describe('getStayDates', () => {
+  it('lists each night up to but not including check-out', () => {
+    expect(getStayDates('2026-10-23', '2026-10-26')).toEqual(['2026-10-23', '2026-10-24', '2026-10-25']);
+  });
+
+  it('crosses month and year boundaries without repeating or skipping nights', () => {
+    expect(getStayDates('2026-12-30T00:00:00.000Z', '2027-01-02')).toEqual(['2026-12-30', '2026-12-31', '2027-01-01']);
+    expect(getStayDates('2026-03-07', '2026-03-10')).toHaveLength(3);
+  });
+
+  it('returns no nights for missing or reversed dates', () => {
+    expect(getStayDates('', '2026-10-26')).toEqual([]);
+    expect(getStayDates('2026-10-26', '2026-10-26')).toEqual([]);
+    expect(getStayDates('2026-10-27', '2026-10-26')).toEqual([]);
+  });
+});
+
+describe('calculateQuote', () => {
+  it('prices weekday stays per adult and per child', () => {
+    const quote = calculateQuote({
+      accommodation: cottage,
+      checkIn: '2026-10-19',
+      checkOut: '2026-10-21',
+      guests: { adults: 2, children: 1, extraAdults: 0 },
+    });
+    expect(quote.numberOfNights).toBe(2);
+    expect(quote.nights.map((night) => night.amount)).toEqual([2500, 2500]);
+    expect(quote.total).toBe(5000);
+  });
+
+  it('charges villas a flat rate plus extra adults', () => {
+    const quote = calculateQuote({
+      accommodation: { type: 'Villa', adultPrice: 8000, RatePerPerson: 1200 },
+      checkIn: '2026-10-19',
+      checkOut: '2026-10-20',
+      guests: { adults: 6, children: 0, extraAdults: 2 },
+    });
+    expect(quote.total).toBe(10400);
+  });
+
+  it('applies multiplier rate plans with weekend rates on Friday and Saturday nights', () => {
+    const quote = calculateQuote({
+      accommodation: {
+        ...cottage,
+        ratePlans: [plan({ weekday: { adult: 1, child: 1 }, weekend: { adult: 1.5, child: 1 } })],
+      },
+      checkIn: '2026-10-22',
+      checkOut: '2026-10-25',
+      guests: twoAdults,
+    });
+    expect(quote.nights.map((night) => [night.date, night.weekend, night.amount])).toEqual([
+      ['2026-10-22', false, 2000],
+      ['2026-10-23', true, 3000],
+      ['2026-10-24', true, 3000],
+    ]);
+  });
+
+  it('prefers the shortest overlapping rate plan and supports absolute prices', () => {
+    const season = plan({ name: 'Monsoon', startDate: '2026-06-01', endDate: '2026-09-30', weekday: { adult: 0.8, child: 1 } });
+    const holiday = plan({
+      name: 'Ganesh week',
+      startDate: '2026-09-14',
+      endDate: '2026-09-20',
+      mode: 'absolute',
+      weekday: { adult: 1800, child: null },
+    });
+    const quote = calculateQuote({
+      accommodation: { ...cottage, ratePlans: [season, holiday] },
+      checkIn: '2026-09-13',
+      checkOut: '2026-09-15',
+      guests: twoAdults,
+    });
+    expect(quote.nights.map((night) => [night.ratePlan, night.adultPrice, night.childPrice])).toEqual([
+      ['Monsoon', 800, 500],
+      ['Ganesh week', 1800, 500],
+    ]);
+  });
+
+  it('lets date-specific overrides win over rate plans, keeping defaults for empty prices', () => {
+    const quote = calculateQuote({
+      accommodation: { ...cottage, ratePlans: [plan({ weekday: { adult: 2, child: 2 } })] },
+      checkIn: '2026-10-19',
+      checkOut: '2026-10-21',
+      guests: { adults: 1, children: 1, extraAdults: 0 },
+      overrides: [{ blocked_date: '2026-10-20T00:00:00.000Z', adult_price: '1500', child_price: null }],
+    });
+    expect(quote.nights[0]).toMatchObject({ adultPrice: 2000, childPrice: 1000, overridden: false });
+    expect(quote.nights[1]).toMatchObject({ adultPrice: 1500, childPrice: 1000, overridden: true });
+  });
+
+  it('reports the strictest minimum stay that a short stay breaks', () => {
+    const accommodation = {
+      ...cottage,
+      ratePlans: [
+        plan({ name: 'Diwali', startDate: '2026-11-07', endDate: '2026-11-10', minNights: 3 }),
+        plan({ name: 'Winter', startDate: '2026-11-01', endDate: '2027-02-28', minNights: 2 }),
+      ],
+    };
+    const short = calculateQuote({ accommodation, checkIn: '2026-11-06', checkOut: '2026-11-08', guests: twoAdults });
+    expect(short.minStayViolation).toEqual({ plan: 'Diwali', minNights: 3 });
+
+    const long = calculateQuote({ accommodation, checkIn: '2026-11-06', checkOut: '2026-11-09', guests: twoAdults });
+    expect(long.minStayViolation).toBeNull();
+  });
+
+  it('applies the coupon to the stay total', () => {
+    const quote = calculateQuote({
+      accommodation: cottage,
+      checkIn: '2026-10-19',
+      checkOut: '2026-10-21',
+      guests: twoAdults,
+      coupon: { code: 'FLAT500', discount: '500', discountType: 'fixed' },
+    });
+    expect(quote.baseTotal).toBe(4000);
+    expect(quote.discount).toBe(500);
+    expect(quote.total).toBe(3500);
+  });
+});
+
+describe('calculateDiscount', () => {
+  it('caps percentage discounts at the maximum', () => {
+    expect(calculateDiscount(10000, { code: 'TEN', discount: '10', discountType: 'percentage', maxDiscount: '500' })).toBe(9500);
+    expect(calculateDiscount(4000, { code: 'TEN', discount: '10', discountType: 'percentage', maxDiscount: '500' })).toBe(3600);
+  });
+
+  it('ignores coupons below their minimum amount', () => {
+    expect(calculateDiscount(1500, { code: 'MIN', discount: '300', discountType: 'fixed', minAmount: '2000' })).toBe(1500);
+  });
+
+  it('never discounts below zero', () => {
+    expect(calculateDiscount(400, { code: 'BIG', discount: '1000', discountType: 'fixed' })).toBe(0);
+  });
+});
@@ -0,0 +1,261 @@
+// Booking price quotes: nightly rates, seasonal/weekend rate plans, date-specific price overrides
+// and coupon discounts
+
+export interface PricingAccommodation {
+  type?: string;
+  // Flat villa rate for villas, per-adult rate for everything else
+  adultPrice?: number;
+  childPrice?: number;
+  // Villa charge per extra adult above the base capacity
+  RatePerPerson?: number;
+  ratePlans?: RatePlan[];
+}
+
+// A named season (or a year-round plan when both dates are empty) that changes the base prices.
+// 'multiplier' scales the base adult/child prices; 'absolute' replaces them.
+export interface RatePlan {
+  id: string;
+  name: string;
+  startDate: string;
+  endDate: string;
+  mode: 'multiplier' | 'absolute';
+  weekday: NightlyPrices;
+  weekend: NightlyPrices;
+  minNights: number;
+}
+
+export interface MinStayViolation {
+  plan: string;
+  minNights: number;
+}
+
+export interface NightlyPrices {
+  adult: number | null;
+  child: number | null;
+}
+
+// A calendar row (see Calendar.tsx) that may carry prices for a single date
+export interface PriceOverride {
+  blocked_date: string;
+  adult_price?: number | string | null;
+  child_price?: number | string | null;
+}
+
+export interface PricingCoupon {
+  code: string;
+  discount: string;
+  discountType: 'percentage' | 'fixed';
+  minAmount?: string | null;
+  maxDiscount?: string | null;
+}
+
+export interface GuestCounts {
+  adults: number;
+  children: number;
+  extraAdults: number;
+}
+
+export interface MealCounts {
+  veg: number;
+  nonVeg: number;
+  jain: number;
+}
+
+export interface QuoteRequest {
+  accommodation: PricingAccommodation;
+  checkIn: string;
+  checkOut: string;
+  guests: GuestCounts;
+  meals?: MealCounts;
+  // Overrides for this accommodation only; rows for other accommodations must be filtered out first
+  overrides?: PriceOverride[];
+  coupon?: PricingCoupon | null;
+}
+
+export interface NightQuote {
+  date: string;
+  adultPrice: number;
+  childPrice: number;
+  weekend: boolean;
+  ratePlan?: string;
+  overridden: boolean;
+  amount: number;
+}
+
+export interface BookingQuote {
+  nights: NightQuote[];
+  numberOfNights: number;
+  baseTotal: number;
+  discount: number;
+  total: number;
+  guestCount: number;
+  mealCount: number;
+  minStayViolation: MinStayViolation | null;
+}
+
+export const isVilla = (accommodation: PricingAccommodation | null | undefined) => accommodation?.type === 'Villa';
+
+export const toDateKey = (value: string) => (value || '').split('T')[0];
+
+const toPrice = (value: number | string | null | undefined): number | null => {
+  if (value === null || value === undefined || value === '') return null;
+  const price = typeof value === 'number' ? value : parseFloat(value);
+  return isNaN(price) ? null : price;
+};
+
+// Each night of the stay as YYYY-MM-DD, from check-in up to (not including) check-out
+export const getStayDates = (checkIn: string, checkOut: string): string[] => {
+  if (!checkIn || !checkOut) return [];
+
+  const start = new Date(toDateKey(checkIn));
+  const end = new Date(toDateKey(checkOut));
+  if (isNaN(start.getTime()) || isNaN(end.getTime()) || end <= start) return [];
+
+  const dates: string[] = [];
+  // Date-only strings parse as UTC midnight, so step and read back in UTC to stay on the same calendar day
+  for (let d = new Date(start); d < end; d.setUTCDate(d.getUTCDate() + 1)) {
+    dates.push(d.toISOString().split('T')[0]);
+  }
+  return dates;
+};
+
+// Friday and Saturday nights are charged at weekend rates
+export const WEEKEND_NIGHTS = [5, 6];
+
+export const isWeekendNight = (date: string) => WEEKEND_NIGHTS.includes(new Date(toDateKey(date)).getUTCDay());
+
+export const createRatePlan = (): RatePlan => ({
+  id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  name: '',
+  startDate: '',
+  endDate: '',
+  mode: 'multiplier',
+  weekday: { adult: 1, child: 1 },
+  weekend: { adult: 1, child: 1 },
+  minNights: 1,
+});
+
+const ratePlanCovers = (plan: RatePlan, date: string) =>
+  (!plan.startDate || date >= toDateKey(plan.startDate)) && (!plan.endDate || date <= toDateKey(plan.endDate));
+
+const ratePlanLength = (plan: RatePlan) =>
+  plan.startDate && plan.endDate
+    ? new Date(toDateKey(plan.endDate)).getTime() - new Date(toDateKey(plan.startDate)).getTime()
+    : Infinity;
+
+// When plans overlap the one with the shortest date range wins, so a holiday week beats its season
+export const findRatePlan = (plans: RatePlan[], date: string) =>
+  plans
+    .filter((plan) => ratePlanCovers(plan, date))
+    .sort((a, b) => ratePlanLength(a) - ratePlanLength(b))[0];
+
+export const applyRatePlan = (defaults: NightlyPrices, plan: RatePlan | undefined, weekend: boolean): NightlyPrices => {
+  if (!plan) return defaults;
+  const values = weekend ? plan.weekend : plan.weekday;
+
+  if (plan.mode === 'absolute') {
+    return {
+      adult: toPrice(values.adult) ?? defaults.adult,
+      child: toPrice(values.child) ?? defaults.child,
+    };
+  }
+  return {
+    adult: defaults.adult === null ? null : defaults.adult * (toPrice(values.adult) ?? 1),
+    child: defaults.child === null ? null : defaults.child * (toPrice(values.child) ?? 1),
+  };
+};
+
+export const calculateNumberOfNights = (checkIn: string, checkOut: string) => getStayDates(checkIn, checkOut).length;
+
+export const findPriceOverride = (overrides: PriceOverride[], date: string) =>
+  overrides.find(
+    (row) => toDateKey(row.blocked_date) === date && (toPrice(row.adult_price) !== null || toPrice(row.child_price) !== null)
+  );
+
+// Date-specific prices win over the defaults; a price left empty on the override keeps the default
+export const applyPriceOverride = (defaults: NightlyPrices, override?: PriceOverride | null): NightlyPrices => {
+  if (!override) return defaults;
+  return {
+    adult: toPrice(override.adult_price) ?? defaults.adult,
+    child: toPrice(override.child_price) ?? defaults.child,
+  };
+};
+
+export const calculateDiscount = (totalAmount: number, coupon: PricingCoupon | null | undefined): number => {
+  if (!coupon) return totalAmount;
+
+  const discount = parseFloat(coupon.discount);
+  const minAmount = coupon.minAmount ? parseFloat(coupon.minAmount) : 0;
+  const maxDiscount = coupon.maxDiscount ? parseFloat(coupon.maxDiscount) : Infinity;
+
+  if (totalAmount < minAmount) {
+    return totalAmount;
+  }
+
+  let discountedAmount = totalAmount;
+
+  if (coupon.discountType === 'percentage') {
+    const discountValue = totalAmount * (discount / 100);
+    const finalDiscount = Math.min(discountValue, maxDiscount);
+    discountedAmount = totalAmount - finalDiscount;
+  } else {
+    discountedAmount = totalAmount - discount;
+  }
+
+  return Math.max(0, discountedAmount);
+};
+
+export const calculateQuote = ({
+  accommodation,
+  checkIn,
+  checkOut,
+  guests,
+  meals,
+  overrides = [],
+  coupon,
+}: QuoteRequest): BookingQuote => {
+  const defaults: NightlyPrices = {
+    adult: accommodation.adultPrice || 0,
+    child: accommodation.childPrice || 0,
+  };
+  const villa = isVilla(accommodation);
+  const ratePlans = accommodation.ratePlans || [];
+  let minStayViolation: MinStayViolation | null = null;
+  const stayDates = getStayDates(checkIn, checkOut);
+
+  // Most specific wins: calendar override for the date, then the rate plan, then the base price
+  const nights = stayDates.map((date): NightQuote => {
+    const weekend = isWeekendNight(date);
+    const plan = findRatePlan(ratePlans, date);
+    const override = findPriceOverride(overrides, date);
+    const prices = applyPriceOverride(applyRatePlan(defaults, plan, weekend), override);
+
+    if (plan && stayDates.length < plan.minNights && (!minStayViolation || plan.minNights > minStayViolation.minNights)) {
+      minStayViolation = { plan: plan.name, minNights: plan.minNights };
+    }
+    const adultPrice = Number(prices.adult) || 0;
+    const childPrice = Number(prices.child) || 0;
+
+    // Villas: one flat rate for up to the base capacity plus a charge per extra adult.
+    // Everything else is priced per adult and per child.
+    const amount = villa
+      ? adultPrice + (Number(accommodation.RatePerPerson) || 0) * guests.extraAdults
+      : adultPrice * guests.adults + childPrice * guests.children;
+
+    return { date, adultPrice, childPrice, weekend, ratePlan: plan?.name, overridden: Boolean(override), amount };
+  });
+
+  const baseTotal = nights.reduce((sum, night) => sum + night.amount, 0);
+  const total = calculateDiscount(baseTotal, coupon);
+
+  return {
+    nights,
+    numberOfNights: nights.length,
+    baseTotal,
+    discount: baseTotal - total,
+    total,
+    guestCount: guests.adults + guests.children + guests.extraAdults,
+    mealCount: meals ? meals.veg + meals.nonVeg + meals.jain : 0,
+    minStayViolation,
+  };
+};
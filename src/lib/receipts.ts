@@ -0,0 +1,54 @@
+// Numbered payment receipts, rendered to PDF from a single ledger entry via the receipt template
+
+import { buildBookingValues, downloadBookingDocument, formatDocumentAmount, formatDocumentDate } from './bookingDocuments';
+import { formatReceiptNumber, getPaymentMethodLabel, isRefund, isVoided, type LedgerTotals, type PaymentEntry } from './payments';
+
+export interface ReceiptBooking {
+  bookingRef: string;
+  guest: string;
+  email?: string;
+  phone?: string;
+  accommodation: string;
+  checkIn: string;
+  checkOut: string;
+  totalAmount: number;
+}
+
+// Values describing a single ledger entry, shared by receipts and payment notifications
+export const buildPaymentValues = (entry: PaymentEntry) => ({
+  receipt_number: formatReceiptNumber(entry),
+  receipt_title: isRefund(entry) ? 'Refund Receipt' : 'Payment Receipt',
+  payment_date: formatDocumentDate(entry.created_at),
+  payment_amount: formatDocumentAmount(Math.abs(entry.amount)),
+  payment_method: getPaymentMethodLabel(entry.payment_method),
+  payment_reference: entry.transaction_id,
+  payment_notes: entry.notes,
+  is_void: isVoided(entry),
+  void_reason: entry.void_reason,
+});
+
+export const buildReceiptValues = (booking: ReceiptBooking, entry: PaymentEntry, totals: LedgerTotals) => ({
+  ...buildBookingValues({
+    bookingRef: booking.bookingRef,
+    guestName: booking.guest,
+    guestEmail: booking.email,
+    guestPhone: booking.phone,
+    accommodationName: booking.accommodation,
+    checkIn: booking.checkIn,
+    checkOut: booking.checkOut,
+    adults: 0,
+    children: 0,
+    rooms: 0,
+    totalAmount: booking.totalAmount,
+    advanceAmount: totals.net,
+    paidAmount: totals.net,
+  }),
+  ...buildPaymentValues(entry),
+});
+
+export const downloadPaymentReceipt = (booking: ReceiptBooking, entry: PaymentEntry, totals: LedgerTotals) =>
+  downloadBookingDocument(
+    'payment-receipt',
+    buildReceiptValues(booking, entry, totals),
+    `Receipt-${formatReceiptNumber(entry)}.pdf`
+  );
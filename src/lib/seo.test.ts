@@ -0,0 +1,34 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { sanitizeHtml } from './seo';
+
+describe('sanitizeHtml', () => {
+  it('keeps the formatting the editor produces', () => {
+    const html = '<h2>Pawna</h2><p class="ql-align-center"><strong>Lake</strong> <a href="https://example.com" target="_blank">view</a></p><img src="/a.jpg" alt="Lake">';
+    expect(sanitizeHtml(html)).toBe(
+      '<h2>Pawna</h2><p class="ql-align-center"><strong>Lake</strong> <a href="https://example.com" target="_blank" rel="noopener noreferrer">view</a></p><img src="/a.jpg" alt="Lake">'
+    );
+  });
+
+  it('removes scripting elements and event handlers', () => {
+    expect(sanitizeHtml('<p onclick="alert(1)">x<script>alert(1)</script></p><iframe srcdoc="<script>alert(1)</script>"></iframe>')).toBe('<p>x</p>');
+  });
+
+  it('drops javascript: and data: URLs, including entity- and whitespace-encoded schemes', () => {
+    expect(sanitizeHtml('<a href="java&#x09;script:alert(1)">a</a>')).toBe('<a>a</a>');
+    expect(sanitizeHtml('<a href=" JaVaScRiPt:alert(1)">a</a>')).toBe('<a>a</a>');
+    expect(sanitizeHtml('<a href="&#106;avascript:alert(1)">a</a>')).toBe('<a>a</a>');
+    expect(sanitizeHtml('<img src="data:image/svg+xml,<svg onload=alert(1)>">')).toBe('<img>');
+    expect(sanitizeHtml('<a href="mailto:hi@example.com">mail</a>')).toBe('<a href="mailto:hi@example.com">mail</a>');
+  });
+
+  it('removes forms, SVG links and base tags', () => {
+    expect(sanitizeHtml('<form action="javascript:alert(1)"><button formaction="javascript:alert(1)">go</button></form>')).toBe('');
+    expect(sanitizeHtml('<svg><a xlink:href="javascript:alert(1)"><text>x</text></a></svg>')).toBe('');
+    expect(sanitizeHtml('<base href="https://evil.example/"><p>x</p>')).toBe('<p>x</p>');
+  });
+
+  it('unwraps unknown elements but keeps their text', () => {
+    expect(sanitizeHtml('<section><p>kept</p></section><custom-tag>text</custom-tag>')).toBe('<p>kept</p>text');
+  });
+});
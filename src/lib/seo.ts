@@ -0,0 +1,164 @@
+// SEO metadata for public pages (blog posts): slugs, search-snippet limits, reading time and a
+// sanitised rendering of post content for the admin preview
+
+// Public website the blog is served from; post URLs are `${PUBLIC_SITE_URL}/blog/<slug>`
+export const PUBLIC_SITE_URL = (import.meta.env.VITE_PUBLIC_SITE_URL || 'https://plumeriaretreat.com').replace(/\/+$/, '');
+
+// Search engines truncate longer titles and descriptions in results
+export const META_TITLE_LIMIT = 60;
+export const META_DESCRIPTION_LIMIT = 160;
+
+const WORDS_PER_MINUTE = 200;
+
+export const slugify = (value: string) =>
+  value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/(^-|-$)/g, '');
+
+export const getBlogPostUrl = (slug: string) => `${PUBLIC_SITE_URL}/blog/${slug}`;
+
+const parseHtml = (html: string) => new DOMParser().parseFromString(html || '', 'text/html');
+
+export const getPlainText = (html: string) => (parseHtml(html).body.textContent || '').replace(/\s+/g, ' ').trim();
+
+export const getReadingTime = (html: string) => {
+  const words = getPlainText(html).split(' ').filter(Boolean).length;
+  return words === 0 ? 0 : Math.max(1, Math.round(words / WORDS_PER_MINUTE));
+};
+
+// Fallback meta description: the opening of the post, cut on a word boundary
+export const getExcerpt = (html: string, limit = META_DESCRIPTION_LIMIT) => {
+  const text = getPlainText(html);
+  if (text.length <= limit) return text;
+  const cut = text.lastIndexOf(' ', limit - 1);
+  return `${text.slice(0, cut > 0 ? cut : limit - 1)}…`;
+};
+
+// Elements the editor produces, and the attributes each may keep; anything else is unwrapped or dropped
+const ALLOWED_TAGS = new Set([
+  'p', 'br', 'hr', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'strong', 'b', 'em', 'i', 'u', 's', 'sub', 'sup', 'span',
+  'div', 'a', 'img', 'ul', 'ol', 'li', 'blockquote', 'pre', 'code', 'table', 'thead', 'tbody', 'tr', 'th', 'td',
+]);
+const ALLOWED_ATTRIBUTES: Record<string, string[]> = {
+  '*': ['class'],
+  a: ['href', 'title', 'target'],
+  img: ['src', 'alt', 'title', 'width', 'height'],
+  td: ['colspan', 'rowspan'],
+  th: ['colspan', 'rowspan'],
+};
+// Inline styles and table layout attributes that document templates are laid out with. CSS cannot run
+// script, so they are kept when sanitising a document rather than a blog post.
+const LAYOUT_ATTRIBUTES: Record<string, string[]> = {
+  '*': ['style', 'align'],
+  table: ['width', 'border', 'cellspacing', 'cellpadding'],
+  td: ['width', 'valign'],
+  th: ['width', 'valign'],
+};
+// Removed together with their content
+const DROPPED_TAGS = new Set([
+  'script', 'style', 'iframe', 'frame', 'object', 'embed', 'svg', 'math', 'form', 'template', 'base', 'link',
+  'meta', 'noscript', 'textarea', 'select', 'button', 'input',
+]);
+const LINK_SCHEMES = ['http:', 'https:', 'mailto:', 'tel:'];
+const IMAGE_SCHEMES = ['http:', 'https:'];
+
+// Browsers ignore whitespace and control characters inside a scheme (e.g. "java\tscript:"), so they are
+// stripped before the check. Relative URLs have no scheme and are allowed.
+const isSafeUrl = (value: string, schemes: string[]) => {
+  const url = Array.from(value)
+    .filter((char) => {
+      const code = char.charCodeAt(0);
+      return code > 0x20 && (code < 0x7f || code > 0x9f);
+    })
+    .join('');
+  const scheme = /^([a-z][a-z0-9+.-]*:)/i.exec(url)?.[1].toLowerCase();
+  return !scheme || schemes.includes(scheme);
+};
+
+const getAllowedAttributes = (tag: string, keepLayout: boolean) => [
+  ...ALLOWED_ATTRIBUTES['*'],
+  ...(ALLOWED_ATTRIBUTES[tag] || []),
+  ...(keepLayout ? [...LAYOUT_ATTRIBUTES['*'], ...(LAYOUT_ATTRIBUTES[tag] || [])] : []),
+];
+
+const cleanNode = (node: Node, keepLayout: boolean) => {
+  Array.from(node.childNodes).forEach((child) => {
+    if (child.nodeType === Node.TEXT_NODE) return;
+    if (child.nodeType !== Node.ELEMENT_NODE) {
+      child.remove();
+      return;
+    }
+    const element = child as Element;
+    const tag = element.localName;
+    if (DROPPED_TAGS.has(tag)) {
+      element.remove();
+      return;
+    }
+    cleanNode(element, keepLayout);
+    if (!ALLOWED_TAGS.has(tag)) {
+      element.replaceWith(...Array.from(element.childNodes));
+      return;
+    }
+
+    const allowed = getAllowedAttributes(tag, keepLayout);
+    Array.from(element.attributes).forEach(({ name, value }) => {
+      const unsafeUrl =
+        (name === 'href' && !isSafeUrl(value, LINK_SCHEMES)) || (name === 'src' && !isSafeUrl(value, IMAGE_SCHEMES));
+      if (!allowed.includes(name) || unsafeUrl) element.removeAttribute(name);
+    });
+    if (tag === 'a' && element.getAttribute('target')) element.setAttribute('rel', 'noopener noreferrer');
+  });
+};
+
+export interface SanitizeOptions {
+  // Keep inline styles and table layout, for documents rendered from editable templates
+  keepLayout?: boolean;
+}
+
+// Content is stored as HTML and rendered as-is by the public site. The admin preview keeps only an
+// allow-list of tags, attributes and URL schemes so nothing in a post can run script in the admin.
+export const sanitizeHtml = (html: string, { keepLayout = false }: SanitizeOptions = {}) => {
+  const doc = parseHtml(html);
+  cleanNode(doc.body, keepLayout);
+  return doc.body.innerHTML;
+};
+
+export interface SeoInput {
+  title: string;
+  metaTitle: string;
+  metaDescription: string;
+  slug: string;
+  content: string;
+  ogImage: string;
+  image: string;
+}
+
+// Non-blocking warnings shown next to the preview; posts can still be saved with them
+export const getSeoWarnings = ({ title, metaTitle, metaDescription, slug, content, ogImage, image }: SeoInput): string[] => {
+  const warnings: string[] = [];
+  const effectiveTitle = metaTitle.trim() || title.trim();
+
+  if (effectiveTitle.length > META_TITLE_LIMIT) {
+    warnings.push(`${metaTitle.trim() ? 'Meta title' : 'Title'} is ${effectiveTitle.length} characters; search results show about ${META_TITLE_LIMIT}.`);
+  }
+  if (!metaDescription.trim()) {
+    warnings.push('No meta description; search engines will use the opening of the post.');
+  } else if (metaDescription.trim().length > META_DESCRIPTION_LIMIT) {
+    warnings.push(`Meta description is ${metaDescription.trim().length} characters; search results show about ${META_DESCRIPTION_LIMIT}.`);
+  }
+  if (!slug) {
+    warnings.push('The URL slug is empty.');
+  }
+  if (!ogImage && !image) {
+    warnings.push('No Open Graph or featured image; social shares will have no picture.');
+  }
+
+  const missingAlt = Array.from(parseHtml(content).querySelectorAll('img')).filter(
+    (img) => !(img.getAttribute('alt') || '').trim()
+  ).length;
+  if (missingAlt > 0) {
+    warnings.push(`${missingAlt} image(s) in the content have no alt text.`);
+  }
+  return warnings;
+};
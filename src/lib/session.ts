@@ -0,0 +1,58 @@
+// Access/refresh token storage shared by the API client and AuthContext
+
+export interface SessionTokens {
+  accessToken: string;
+  refreshToken: string;
+}
+
+export interface SessionUser {
+  id: string;
+  name: string;
+  role: string;
+}
+
+const TOKENS_KEY = 'authTokens';
+
+// Signed-in user, mirrored here so non-React code (e.g. the audit trail) can read it
+let sessionUser: SessionUser | null = null;
+
+type ExpiredListener = () => void;
+const expiredListeners = new Set<ExpiredListener>();
+
+export const getTokens = (): SessionTokens | null => {
+  const saved = localStorage.getItem(TOKENS_KEY);
+  if (!saved) return null;
+  try {
+    const tokens = JSON.parse(saved) as SessionTokens;
+    return tokens.accessToken && tokens.refreshToken ? tokens : null;
+  } catch {
+    return null;
+  }
+};
+
+export const setTokens = (tokens: SessionTokens) => {
+  localStorage.setItem(TOKENS_KEY, JSON.stringify(tokens));
+};
+
+export const clearTokens = () => {
+  localStorage.removeItem(TOKENS_KEY);
+};
+
+export const getSessionUser = () => sessionUser;
+
+export const setSessionUser = (user: SessionUser | null) => {
+  sessionUser = user;
+};
+
+// Called by the API client when the refresh token is rejected
+export const expireSession = () => {
+  clearTokens();
+  expiredListeners.forEach((listener) => listener());
+};
+
+export const onSessionExpired = (listener: ExpiredListener) => {
+  expiredListeners.add(listener);
+  return () => {
+    expiredListeners.delete(listener);
+  };
+};
@@ -2,6 +2,9 @@ import React, { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './App.tsx';
 import './index.css';
+import { installAuditTrail } from './lib/audit';
+
+installAuditTrail();
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
@@ -1,13 +1,15 @@
 import React, { useState, useEffect } from 'react';
 import { useParams, useNavigate, Link } from 'react-router-dom';
-import axios from 'axios';
 import { toast } from 'react-toastify';
 import 'react-toastify/dist/ReactToastify.css';
-import { ArrowLeft, Building2, Plus, X, Save, Loader2, MapPin, Package } from 'lucide-react';
+import { ArrowLeft, Building2, Plus, X, Save, Loader2, MapPin, Package, CalendarRange, Trash2, Star, GripVertical, Image as ImageIcon } from 'lucide-react';
 import ReactQuill from 'react-quill';
 import 'react-quill/dist/quill.snow.css';
-
-const admin_BASE_URL = 'https://a.plumeriaretreat.com';
+import { api, getErrorMessage, unwrap } from '../lib/api';
+import { recordMediaUsage, uploadMedia } from '../lib/media';
+import { createRatePlan, type RatePlan } from '../lib/pricing';
+import MediaPickerModal from '../components/MediaPickerModal';
+import { moveItem, useDragReorder } from '../hooks/useDragReorder';
 
 const PROPERTY_TYPES = ['Villa', 'Suite', 'Cottage', 'Bungalow', 'Glamping', 'Standard', 'Deluxe','Couple Cottage'];
 
@@ -38,6 +40,7 @@ interface Accommodation {
   // Villa-specific fields from the first design
   maxPersonsVilla?: number;
   extraPersonRate?: number;
+  ratePlans: RatePlan[];
 }
 
 interface User {
@@ -89,19 +92,21 @@ const AccommodationForm: React.FC = () => {
     // Villa defaults
     maxPersonsVilla: 0,
     extraPersonRate: 0,
+    ratePlans: [],
   });
 
   const [users, setUsers] = useState<User[]>([]);
   const [cities, setCities] = useState<City[]>([]);
   const [amenities, setAmenities] = useState<Amenity[]>([]); 
-  const [newImageFiles, setNewImageFiles] = useState<File[]>([]); 
+  // Files picked from disk, keyed by the blob: preview URL shown in formData.images until saved
+  const [pendingUploads, setPendingUploads] = useState<Record<string, File>>({});
   const [newFeature, setNewFeature] = useState('');
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [loading, setLoading] = useState(false);
   const [fetching, setFetching] = useState(false);
   const [submitError, setSubmitError] = useState('');
   const [uploading, setUploading] = useState(false);
-  const [existingImages, setExistingImages] = useState<string[]>([]); 
+  const [pickerField, setPickerField] = useState<'images' | 'packageImages' | null>(null);
 
   useEffect(() => {
     if (isEditing && id) {
@@ -111,8 +116,8 @@ const AccommodationForm: React.FC = () => {
     const fetchData = async () => {
       try {
         const [usersRes, citiesRes] = await Promise.all([
-          axios.get(`${admin_BASE_URL}/admin/properties/users`),
-          axios.get(`${admin_BASE_URL}/admin/properties/cities`),
+          api.get('/properties/users'),
+          api.get('/properties/cities'),
         ]);
         
         setUsers(usersRes.data);
@@ -140,13 +145,10 @@ const AccommodationForm: React.FC = () => {
   const fetchAccommodation = async (accommodationId: string) => {
     setFetching(true);
     try {
-      const response = await axios.get(
-        `${admin_BASE_URL}/admin/properties/accommodations/${accommodationId}`
-      );
+      const response = await api.get(`/properties/accommodations/${accommodationId}`);
       
       const data = response.data;
       
-      setExistingImages(data.basicInfo.images || []);
       // --- MODIFIED: Updated fetch logic to map new Villa fields ---
       setFormData({
         id: data.id,
@@ -174,6 +176,7 @@ const AccommodationForm: React.FC = () => {
         // Map Villa-specific fields from API (assuming these key names)
         maxPersonsVilla: data.basicInfo?.MaxPersonVilla || 0,
         extraPersonRate: data.basicInfo?.RatePersonVilla || 0,
+        ratePlans: data.packages?.ratePlans || [],
       });
     } catch (error) {
       console.error('Error fetching accommodation:', error);
@@ -266,24 +269,63 @@ const AccommodationForm: React.FC = () => {
     }
   };
 
+  const addRatePlan = () => {
+    setFormData(prev => ({ ...prev, ratePlans: [...prev.ratePlans, createRatePlan()] }));
+  };
+
+  const updateRatePlan = (planId: string, changes: Partial<RatePlan>) => {
+    setFormData(prev => ({
+      ...prev,
+      ratePlans: prev.ratePlans.map(plan => (plan.id === planId ? { ...plan, ...changes } : plan)),
+    }));
+  };
+
+  const removeRatePlan = (planId: string) => {
+    setFormData(prev => ({ ...prev, ratePlans: prev.ratePlans.filter(plan => plan.id !== planId) }));
+  };
+
+  // Switching mode resets the values, since a multiplier of 1.2 makes no sense as a price and vice versa
+  const changeRatePlanMode = (plan: RatePlan, mode: RatePlan['mode']) => {
+    const values = mode === 'multiplier'
+      ? { adult: 1, child: 1 }
+      : { adult: formData.adultPrice || 0, child: formData.childPrice || 0 };
+    updateRatePlan(plan.id, { mode, weekday: { ...values }, weekend: { ...values } });
+  };
+
+  // Files picked from disk are shown via blob: preview URLs until they are uploaded on save
+  const isPendingUpload = (image: string) => image.startsWith('blob:');
+
   const removeImage = (image: string) => {
-    if (existingImages.includes(image)) {
-      setFormData({
-        ...formData,
-        images: formData.images.filter(img => img !== image),
-      });
-    } else {
-      const index = formData.images.indexOf(image);
-      setFormData({
-        ...formData,
-        images: formData.images.filter(img => img !== image),
-      });
-      setNewImageFiles(prevFiles => {
-        const newFiles = [...prevFiles];
-        newFiles.splice(index, 1);
-        return newFiles;
+    if (isPendingUpload(image)) {
+      setPendingUploads(prev => {
+        const next = { ...prev };
+        delete next[image];
+        return next;
       });
+      URL.revokeObjectURL(image);
     }
+    setFormData({
+      ...formData,
+      images: formData.images.filter(img => img !== image),
+    });
+  };
+
+  const removePackageImage = (image: string) => {
+    setFormData(prev => ({ ...prev, packageImages: (prev.packageImages || []).filter(img => img !== image) }));
+  };
+
+  // The first property image is the cover shown on listings
+  const imageDrag = useDragReorder(formData.images, images => setFormData(prev => ({ ...prev, images })));
+
+  const makeCoverImage = (index: number) => {
+    setFormData(prev => ({ ...prev, images: moveItem(prev.images, index, 0) }));
+  };
+
+  const addLibraryImages = (field: 'images' | 'packageImages', urls: string[]) => {
+    setFormData(prev => {
+      const current = prev[field] || [];
+      return { ...prev, [field]: [...current, ...urls.filter(url => !current.includes(url))] };
+    });
   };
 
   // --- MODIFIED: Added Villa-specific validation ---
@@ -303,6 +345,20 @@ const AccommodationForm: React.FC = () => {
         newErrors.maxPersonsVilla = 'Maximum persons must be greater than 0';
       }
     }
+
+
+    formData.ratePlans.forEach((plan, index) => {
+      const label = `Rate plan ${index + 1}`;
+      if (!plan.name.trim()) {
+        newErrors[`ratePlan-${plan.id}`] = `${label}: name is required`;
+      } else if (plan.startDate && plan.endDate && plan.endDate < plan.startDate) {
+        newErrors[`ratePlan-${plan.id}`] = `${label}: end date must be on or after the start date`;
+      } else if ([plan.weekday.adult, plan.weekday.child, plan.weekend.adult, plan.weekend.child].some(value => value !== null && value < 0)) {
+        newErrors[`ratePlan-${plan.id}`] = `${label}: prices and multipliers cannot be negative`;
+      } else if (plan.minNights < 1) {
+        newErrors[`ratePlan-${plan.id}`] = `${label}: minimum stay must be at least 1 night`;
+      }
+    });
     
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
@@ -320,11 +376,10 @@ const AccommodationForm: React.FC = () => {
 
     try {
       const uploadedImageUrls = await uploadNewImages();
-      const allImages = [...formData.images.filter(img => existingImages.includes(img)), ...uploadedImageUrls];
-
-      const url = isEditing
-        ? `${admin_BASE_URL}/admin/properties/accommodations/${id}`
-        : `${admin_BASE_URL}/admin/properties/accommodations`;
+      // Swap each preview for its uploaded URL, keeping the order chosen in the grid
+      const allImages = formData.images
+        .map(img => (isPendingUpload(img) ? uploadedImageUrls[img] : img))
+        .filter((img): img is string => Boolean(img));
 
       // --- MODIFIED: Updated requestData to send new Villa fields ---
       const requestData = {
@@ -363,21 +418,30 @@ const AccommodationForm: React.FC = () => {
             child: formData.type === 'Villa' ? 0 : formData.childPrice,
             maxGuests: formData.maxGuests,
           },
+          ratePlans: formData.ratePlans,
         }
       };
 
+      let savedId = id;
       if (isEditing) {
         console.log('Updating accommodation with data:', requestData);
-        await axios.put(url, requestData);
+        await api.put(`/properties/accommodations/${id}`, requestData);
       } else {
-        await axios.post(url, requestData);
+        const { data } = await api.post('/properties/accommodations', requestData);
+        savedId = unwrap<{ id?: number | string }>(data)?.id?.toString();
+      }
+      if (savedId) {
+        await Promise.all([
+          recordMediaUsage('accommodation', savedId, 'images', allImages, formData.name),
+          recordMediaUsage('package', savedId, 'packageImages', formData.packageImages || [], formData.packageName || formData.name),
+        ]);
       }
 
       toast.success(`Accommodation ${isEditing ? 'updated' : 'created'} successfully!`);
       navigate('/accommodations');
     } catch (error) {
       console.error('Error saving accommodation:', error);
-      const errorMessage = 'Failed to save accommodation';
+      const errorMessage = getErrorMessage(error, 'Failed to save accommodation');
       setSubmitError(errorMessage);
       toast.error(errorMessage);
     } finally {
@@ -385,30 +449,22 @@ const AccommodationForm: React.FC = () => {
     }
   };
 
-  const uploadNewImages = async (): Promise<string[]> => {
-    if (newImageFiles.length === 0) return [];
+  const uploadNewImages = async (): Promise<Record<string, string>> => {
+    const pending = Object.entries(pendingUploads);
+    if (pending.length === 0) return {};
 
     setUploading(true);
-    const uploadedUrls: string[] = [];
+    const uploadedUrls: Record<string, string> = {};
     
     try {
-      for (const file of newImageFiles) {
-        const formDataFile = new FormData();
-        formDataFile.append('image', file);
-        
-        const res = await axios.post('https://plumeriaretreat.com/upload.php', formDataFile, {
-          headers: { 'Content-Type': 'multipart/form-data' },
-        });
-
-        if (res.data.success && res.data.url) {
-          uploadedUrls.push(res.data.url);
-        }
+      for (const [previewUrl, file] of pending) {
+        uploadedUrls[previewUrl] = (await uploadMedia(file, formData.name)).url;
       }
       return uploadedUrls;
     } catch (error) {
       console.error('Image upload error:', error);
       toast.error('Failed to upload some images');
-      return [];
+      return uploadedUrls;
     } finally {
       setUploading(false);
     }
@@ -419,9 +475,11 @@ const AccommodationForm: React.FC = () => {
     if (!files) return;
     
     const newFiles = Array.from(files);
-    setNewImageFiles(prev => [...prev, ...newFiles]);
-    
     const previewUrls = newFiles.map(file => URL.createObjectURL(file));
+    setPendingUploads(prev => ({
+      ...prev,
+      ...Object.fromEntries(previewUrls.map((url, index) => [url, newFiles[index]]))
+    }));
     
     setFormData(prev => ({ ...prev, images: [...prev.images, ...previewUrls] }));
   };
@@ -623,20 +681,127 @@ const AccommodationForm: React.FC = () => {
                   {errors.packageDescription && <p className="mt-1 text-sm text-red-600">{errors.packageDescription}</p>}
                 </div>
               </div>
+
+              <div className="sm:col-span-6">
+                <div className="flex items-center justify-between">
+                  <span className="block text-sm font-medium text-gray-700">Package Images</span>
+                  <button type="button" onClick={() => setPickerField('packageImages')} className="inline-flex items-center px-3 py-1.5 border border-gray-300 rounded-md text-sm text-gray-700 bg-white hover:bg-gray-50"><ImageIcon className="h-4 w-4 mr-1" />Add from Library</button>
+                </div>
+                <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4 mt-2">
+                  {(formData.packageImages || []).map((image, index) => (
+                    <div key={image} className="relative group">
+                      <img src={image} alt={`Package ${index + 1}`} className="w-full h-32 object-cover rounded-lg"/>
+                      <button type="button" onClick={() => removePackageImage(image)} className="absolute top-2 right-2 p-1 bg-red-500 text-white rounded-full opacity-0 group-hover:opacity-100 transition-opacity"><X className="h-4 w-4" /></button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </div>
+        </div>
+
+        {/* Rate Plans */}
+        <div className="bg-white shadow rounded-lg p-6">
+            <div className="flex items-center justify-between mb-4">
+              <div className="flex items-center"><CalendarRange className="h-5 w-5 text-blue-600 mr-2" /><h2 className="text-lg font-medium text-gray-900">Rate Plans</h2></div>
+              <button type="button" onClick={addRatePlan} className="inline-flex items-center px-3 py-1.5 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"><Plus className="h-4 w-4 mr-1" />Add Plan</button>
             </div>
+            <p className="text-sm text-gray-500 mb-4">
+              Seasonal and weekend prices used when quoting bookings. Friday and Saturday nights use the weekend values.
+              Leave the dates empty for a year-round plan; where plans overlap, the shorter date range wins. Prices set on a date in the Calendar still take priority.
+            </p>
+
+            {formData.ratePlans.length === 0 ? (
+              <p className="text-sm text-gray-500 italic">No rate plans. The package prices above apply to every night.</p>
+            ) : (
+              <div className="space-y-4">
+                {formData.ratePlans.map(plan => {
+                  const isMultiplier = plan.mode === 'multiplier';
+                  const step = isMultiplier ? '0.05' : '0.01';
+                  const valueLabel = isMultiplier ? '×' : '₹';
+                  return (
+                    <div key={plan.id} className="border border-gray-200 rounded-md p-4">
+                      <div className="grid grid-cols-1 gap-y-4 gap-x-4 sm:grid-cols-6">
+                        <div className="sm:col-span-2">
+                          <label className="block text-sm font-medium text-gray-700">Plan Name</label>
+                          <input type="text" value={plan.name} onChange={(e) => updateRatePlan(plan.id, { name: e.target.value })} className="mt-1 shadow-sm block w-full sm:text-sm border-gray-300 rounded-md" placeholder="e.g., Monsoon Peak"/>
+                        </div>
+                        <div className="sm:col-span-1">
+                          <label className="block text-sm font-medium text-gray-700">From</label>
+                          <input type="date" value={plan.startDate} onChange={(e) => updateRatePlan(plan.id, { startDate: e.target.value })} className="mt-1 shadow-sm block w-full sm:text-sm border-gray-300 rounded-md"/>
+                        </div>
+                        <div className="sm:col-span-1">
+                          <label className="block text-sm font-medium text-gray-700">To</label>
+                          <input type="date" value={plan.endDate} min={plan.startDate || undefined} onChange={(e) => updateRatePlan(plan.id, { endDate: e.target.value })} className="mt-1 shadow-sm block w-full sm:text-sm border-gray-300 rounded-md"/>
+                        </div>
+                        <div className="sm:col-span-1">
+                          <label className="block text-sm font-medium text-gray-700">Pricing</label>
+                          <select value={plan.mode} onChange={(e) => changeRatePlanMode(plan, e.target.value as RatePlan['mode'])} className="mt-1 shadow-sm block w-full sm:text-sm border-gray-300 rounded-md">
+                            <option value="multiplier">Multiplier</option>
+                            <option value="absolute">Fixed price</option>
+                          </select>
+                        </div>
+                        <div className="sm:col-span-1">
+                          <label className="block text-sm font-medium text-gray-700">Min. Nights</label>
+                          <input type="number" min="1" value={plan.minNights} onChange={(e) => updateRatePlan(plan.id, { minNights: Number(e.target.value) || 1 })} className="mt-1 shadow-sm block w-full sm:text-sm border-gray-300 rounded-md"/>
+                        </div>
+
+                        <div className="sm:col-span-3">
+                          <label className="block text-sm font-medium text-gray-700">Weekday {formData.type === 'Villa' ? 'Villa' : 'Adult'} ({valueLabel})</label>
+                          <input type="number" min="0" step={step} value={plan.weekday.adult ?? ''} onChange={(e) => updateRatePlan(plan.id, { weekday: { ...plan.weekday, adult: e.target.value === '' ? null : Number(e.target.value) } })} className="mt-1 shadow-sm block w-full sm:text-sm border-gray-300 rounded-md"/>
+                        </div>
+                        <div className="sm:col-span-3">
+                          <label className="block text-sm font-medium text-gray-700">Weekend {formData.type === 'Villa' ? 'Villa' : 'Adult'} ({valueLabel})</label>
+                          <input type="number" min="0" step={step} value={plan.weekend.adult ?? ''} onChange={(e) => updateRatePlan(plan.id, { weekend: { ...plan.weekend, adult: e.target.value === '' ? null : Number(e.target.value) } })} className="mt-1 shadow-sm block w-full sm:text-sm border-gray-300 rounded-md"/>
+                        </div>
+                        {formData.type !== 'Villa' && (
+                          <>
+                            <div className="sm:col-span-3">
+                              <label className="block text-sm font-medium text-gray-700">Weekday Child ({valueLabel})</label>
+                              <input type="number" min="0" step={step} value={plan.weekday.child ?? ''} onChange={(e) => updateRatePlan(plan.id, { weekday: { ...plan.weekday, child: e.target.value === '' ? null : Number(e.target.value) } })} className="mt-1 shadow-sm block w-full sm:text-sm border-gray-300 rounded-md"/>
+                            </div>
+                            <div className="sm:col-span-3">
+                              <label className="block text-sm font-medium text-gray-700">Weekend Child ({valueLabel})</label>
+                              <input type="number" min="0" step={step} value={plan.weekend.child ?? ''} onChange={(e) => updateRatePlan(plan.id, { weekend: { ...plan.weekend, child: e.target.value === '' ? null : Number(e.target.value) } })} className="mt-1 shadow-sm block w-full sm:text-sm border-gray-300 rounded-md"/>
+                            </div>
+                          </>
+                        )}
+                      </div>
+                      <div className="mt-3 flex items-center justify-between">
+                        {errors[`ratePlan-${plan.id}`] ? <p className="text-sm text-red-600">{errors[`ratePlan-${plan.id}`]}</p> : <span />}
+                        <button type="button" onClick={() => removeRatePlan(plan.id)} className="inline-flex items-center text-sm text-red-600 hover:text-red-800"><Trash2 className="h-4 w-4 mr-1" />Remove</button>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
         </div>
 
         {/* Property Images Section */}
         <div className="bg-white shadow rounded-lg p-6">
             <h2 className="text-lg font-medium text-gray-900 border-b pb-2">Property Images</h2>
             <div className="mt-4">
-              <label className="block text-sm font-medium text-gray-700">Upload Images</label>
+              <div className="flex items-center justify-between">
+                <label className="block text-sm font-medium text-gray-700">Upload Images</label>
+                <button type="button" onClick={() => setPickerField('images')} className="inline-flex items-center px-3 py-1.5 border border-gray-300 rounded-md text-sm text-gray-700 bg-white hover:bg-gray-50"><ImageIcon className="h-4 w-4 mr-1" />Add from Library</button>
+              </div>
               <input type="file" multiple accept="image/*" onChange={handleImageFileChange} className="mt-1 block w-full text-sm text-gray-500 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-semibold file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100"/>
               {uploading && <div className="mt-2 flex items-center text-sm text-gray-500"><Loader2 className="mr-2 h-4 w-4 animate-spin" />Uploading images...</div>}
+              {formData.images.length > 1 && <p className="mt-2 text-xs text-gray-500">Drag images to reorder. The first image is the cover.</p>}
               <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4 mt-4">
                 {formData.images.map((image, index) => (
-                  <div key={index} className="relative group">
-                    <img src={image} alt={`Property ${index + 1}`} className="w-full h-32 object-cover rounded-lg"/>
+                  <div
+                    key={image}
+                    {...imageDrag.getItemProps(index)}
+                    className={`relative group cursor-move rounded-lg ${imageDrag.dragIndex === index ? 'opacity-40' : ''} ${imageDrag.overIndex === index && imageDrag.dragIndex !== index ? 'ring-2 ring-blue-500' : ''}`}
+                  >
+                    <img src={image} alt={`Property ${index + 1}`} className="w-full h-32 object-cover rounded-lg pointer-events-none"/>
+                    <span className="absolute top-2 left-2 p-1 bg-white/80 text-gray-600 rounded"><GripVertical className="h-4 w-4" /></span>
+                    {index === 0 ? (
+                      <span className="absolute bottom-2 left-2 inline-flex items-center px-2 py-0.5 text-xs font-medium bg-yellow-400 text-yellow-900 rounded"><Star className="h-3 w-3 mr-1" />Cover</span>
+                    ) : (
+                      <button type="button" onClick={() => makeCoverImage(index)} className="absolute bottom-2 left-2 inline-flex items-center px-2 py-0.5 text-xs font-medium bg-white text-gray-700 rounded opacity-0 group-hover:opacity-100 transition-opacity"><Star className="h-3 w-3 mr-1" />Make cover</button>
+                    )}
                     <button type="button" onClick={() => removeImage(image)} className="absolute top-2 right-2 p-1 bg-red-500 text-white rounded-full opacity-0 group-hover:opacity-100 transition-opacity"><X className="h-4 w-4" /></button>
                   </div>
                 ))}
@@ -656,6 +821,15 @@ const AccommodationForm: React.FC = () => {
           </button>
         </div>
       </form>
+
+      {pickerField && (
+        <MediaPickerModal
+          multiple
+          title={pickerField === 'images' ? 'Add Property Images' : 'Add Package Images'}
+          onSelect={(items) => addLibraryImages(pickerField, items.map(item => item.url))}
+          onClose={() => setPickerField(null)}
+        />
+      )}
     </div>
   );
 };
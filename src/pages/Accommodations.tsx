@@ -2,7 +2,8 @@ import React, { useState, useEffect, useMemo } from 'react';
 import { Building2, Plus, Search, Filter, Edit, Trash2, Eye, XCircle, Loader } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import Swal from 'sweetalert2';
- import axios from 'axios';
+import { useAuth } from '../contexts/AuthContext';
+import { api, getErrorMessage } from '../lib/api';
 interface Accommodation {
   id: number;
   name: string;
@@ -62,6 +63,7 @@ interface Filters {
 
 const Accommodations: React.FC = () => {
   const navigate = useNavigate();
+  const { can } = useAuth();
   const [searchTerm, setSearchTerm] = useState('');
   const [filterOpen, setFilterOpen] = useState(false);
   const [accommodations, setAccommodations] = useState<Accommodation[]>([]);
@@ -81,8 +83,6 @@ const Accommodations: React.FC = () => {
     hasPrevPage: false
   });
 
-  const API_BASE_URL = 'https://a.plumeriaretreat.com/admin/properties';
-
   // Fetch accommodations from backend
   useEffect(() => {
     fetchAccommodations();
@@ -93,30 +93,23 @@ const Accommodations: React.FC = () => {
       setLoading(true);
       setError('');
       
-      const params = new URLSearchParams();
-      if (searchTerm) params.append('search', searchTerm);
+      const params: Record<string, string | number> = {};
+      if (searchTerm) params.search = searchTerm;
       
       // Add filters
       Object.entries({ ...filters, ...filterParams }).forEach(([key, value]) => {
-        if (value) params.append(key, value);
+        if (value) params[key] = value;
       });
       
       // Add pagination
-      params.append('page', pagination.currentPage.toString());
-      params.append('perPage', pagination.perPage.toString());
-      
-      const response = await fetch(`${API_BASE_URL}/accommodations?${params.toString()}`);
+      params.page = pagination.currentPage;
+      params.perPage = pagination.perPage;
       
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData.message || 'Failed to fetch accommodations');
-      }
-      
-      const result: ApiResponse = await response.json();
+      const { data: result } = await api.get<ApiResponse>('/properties/accommodations', { params });
       setAccommodations(result.data);
       setPagination(result.pagination);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'An unknown error occurred');
+      setError(getErrorMessage(err, 'Failed to fetch accommodations'));
       console.error('Error fetching accommodations:', err);
     } finally {
       setLoading(false);
@@ -138,7 +131,7 @@ const handleDelete = async (id: number) => {
   if (!isConfirmed.isConfirmed) return;
 
   try {
-    await axios.delete(`${API_BASE_URL}/accommodations/${id}`);
+    await api.delete(`/properties/accommodations/${id}`);
     
     setAccommodations((prev) => prev.filter((acc) => acc.id !== id));
     
@@ -153,18 +146,10 @@ const handleDelete = async (id: number) => {
   // Toggle availability
   const toggleAvailability = async (id: number, currentStatus: boolean) => {
     try {
-      const response = await fetch(`${API_BASE_URL}/accommodations/${id}/toggle-availability`, {
-        method: 'PATCH',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ available: !currentStatus }),
+      await api.patch(`/properties/accommodations/${id}/toggle-availability`, {
+        available: !currentStatus,
       });
       
-      if (!response.ok) {
-        throw new Error('Failed to update availability');
-      }
-      
       setAccommodations(prev => prev.map(acc => 
         acc.id === id ? { ...acc, available: !currentStatus } : acc
       ));
@@ -248,15 +233,17 @@ const handleDelete = async (id: number) => {
           <h1 className="text-2xl font-bold text-gray-900">Accommodations</h1>
           <p className="mt-1 text-sm text-gray-500">Manage your resort's accommodations</p>
         </div>
-        <div className="mt-4 sm:mt-0">
-          <button
-            onClick={() => navigate('/accommodations/new')}
-            className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
-          >
-            <Plus className="h-4 w-4 mr-2" />
-            Add Accommodation
-          </button>
-        </div>
+        {can('properties:edit') && (
+          <div className="mt-4 sm:mt-0">
+            <button
+              onClick={() => navigate('/accommodations/new')}
+              className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add Accommodation
+            </button>
+          </div>
+        )}
       </div>
 
       {/* Search and Filter */}
@@ -384,7 +371,7 @@ const handleDelete = async (id: number) => {
                         ? 'bg-green-100 text-green-800 hover:bg-green-200'
                         : 'bg-red-100 text-red-800 hover:bg-red-200'
                     }`}
-                    onClick={() => toggleAvailability(accommodation.id, accommodation.available)}
+                    onClick={() => can('properties:edit') && toggleAvailability(accommodation.id, accommodation.available)}
                   >
                     {accommodation.available ? 'Available' : 'Unavailable'}
                   </span>
@@ -426,19 +413,23 @@ const handleDelete = async (id: number) => {
                 )}
 
                 <div className="mt-4 flex space-x-2">
-                  <button
-                    onClick={() => navigate(`/accommodations/${accommodation.id}`)}
-                    className="flex-1 inline-flex justify-center items-center px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors"
-                  >
-                    <Edit className="h-4 w-4 mr-1" />
-                    Edit
-                  </button>
-                  <button 
-                    onClick={() => handleDelete(accommodation.id)}
-                    className="inline-flex justify-center items-center px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-red-600 bg-white hover:bg-red-50 hover:text-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 transition-colors"
-                  >
-                    <Trash2 className="h-4 w-4" />
-                  </button>
+                  {can('properties:edit') && (
+                    <button
+                      onClick={() => navigate(`/accommodations/${accommodation.id}`)}
+                      className="flex-1 inline-flex justify-center items-center px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors"
+                    >
+                      <Edit className="h-4 w-4 mr-1" />
+                      Edit
+                    </button>
+                  )}
+                  {can('properties:delete') && (
+                    <button 
+                      onClick={() => handleDelete(accommodation.id)}
+                      className="inline-flex justify-center items-center px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-red-600 bg-white hover:bg-red-50 hover:text-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 transition-colors"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  )}
                   <button
                     onClick={() => navigate(`/accommodations/${accommodation.id}/view`)}
                     className="inline-flex justify-center items-center px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-blue-600 bg-white hover:bg-blue-50 hover:text-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors"
@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { Wifi, Music, UtensilsCrossed, Flame, Coffee, Plus, Trash2, Edit } from 'lucide-react';
+import { api, isCanceled, unwrap } from '../lib/api';
 
 interface Amenity {
   id: number;
@@ -8,8 +9,6 @@ interface Amenity {
   active: boolean;
 }
 
-const API_BASE_URL = 'https://a.plumeriaretreat.com/admin/amenities';
-
 const Amenities = () => {
   const [amenities, setAmenities] = useState<Amenity[]>([]);
   const [showAddModal, setShowAddModal] = useState(false);
@@ -17,30 +16,31 @@ const Amenities = () => {
   const [editAmenity, setEditAmenity] = useState<Amenity | null>(null);
 
   useEffect(() => {
-    fetchAmenities();
+    const controller = new AbortController();
+    fetchAmenities(controller.signal);
+    return () => controller.abort();
   }, []);
 
-  const fetchAmenities = async () => {
-    const res = await fetch(API_BASE_URL);
-    const data = await res.json();
-    setAmenities(data);
+  const fetchAmenities = async (signal?: AbortSignal) => {
+    try {
+      const res = await api.get('/amenities', { signal });
+      setAmenities(unwrap<Amenity[]>(res.data));
+    } catch (err) {
+      if (!isCanceled(err)) console.error('Error fetching amenities:', err);
+    }
   };
 
   const handleDelete = async (id: number) => {
     if (window.confirm('Are you sure you want to delete this amenity?')) {
-      await fetch(`${API_BASE_URL}/${id}`, { method: 'DELETE' });
+      await api.delete(`/amenities/${id}`);
       setAmenities(amenities.filter(a => a.id !== id));
     }
   };
 
   const handleAdd = async () => {
     if (newAmenity.name.trim()) {
-      const res = await fetch(API_BASE_URL, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ ...newAmenity, active: 1 })
-      });
-      const added = await res.json();
+      const res = await api.post('/amenities', { ...newAmenity, active: 1 });
+      const added = unwrap<Amenity>(res.data);
       setAmenities([added, ...amenities]);
       setNewAmenity({ name: '', icon: 'wifi' });
       setShowAddModal(false);
@@ -49,15 +49,9 @@ const Amenities = () => {
 
   const handleEdit = async () => {
     if (editAmenity && editAmenity.name.trim()) {
-      const res = await fetch(`${API_BASE_URL}/${editAmenity.id}`, {
-        method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(editAmenity),
-      });
-      if (res.ok) {
-        setAmenities(amenities.map(a => (a.id === editAmenity.id ? editAmenity : a)));
-        setEditAmenity(null);
-      }
+      await api.put(`/amenities/${editAmenity.id}`, editAmenity);
+      setAmenities(amenities.map(a => (a.id === editAmenity.id ? editAmenity : a)));
+      setEditAmenity(null);
     }
   };
 
@@ -0,0 +1,396 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { format, startOfMonth, startOfYear, subDays, subMonths } from 'date-fns';
+import { BarChart3, Loader, AlertCircle, RefreshCw, TrendingUp, TrendingDown } from 'lucide-react';
+import { api, getErrorMessage, isCanceled } from '../lib/api';
+import {
+  CHANNEL_LABELS,
+  formatMonth,
+  getChange,
+  getPreviousYearRange,
+  summarizeBookings,
+  type AnalyticsAccommodation,
+  type AnalyticsBooking,
+  type DateRange,
+} from '../lib/analytics';
+import { fetchAllBookings } from '../lib/bookingQueries';
+import ComparisonBarChart from '../components/ComparisonBarChart';
+
+type RangePreset = '30d' | '90d' | 'month' | 'ytd' | '12m' | 'custom';
+
+const RANGE_PRESETS: { value: RangePreset; label: string }[] = [
+  { value: '30d', label: 'Last 30 days' },
+  { value: '90d', label: 'Last 90 days' },
+  { value: 'month', label: 'This month' },
+  { value: 'ytd', label: 'Year to date' },
+  { value: '12m', label: 'Last 12 months' },
+  { value: 'custom', label: 'Custom' },
+];
+
+const toDateInput = (date: Date) => format(date, 'yyyy-MM-dd');
+
+const getPresetRange = (preset: RangePreset): DateRange => {
+  const today = new Date();
+  switch (preset) {
+    case '90d':
+      return { from: toDateInput(subDays(today, 89)), to: toDateInput(today) };
+    case 'month':
+      return { from: toDateInput(startOfMonth(today)), to: toDateInput(today) };
+    case 'ytd':
+      return { from: toDateInput(startOfYear(today)), to: toDateInput(today) };
+    case '12m':
+      return { from: toDateInput(startOfMonth(subMonths(today, 11))), to: toDateInput(today) };
+    default:
+      return { from: toDateInput(subDays(today, 29)), to: toDateInput(today) };
+  }
+};
+
+const formatCurrency = (amount: number) => `₹${Math.round(amount).toLocaleString('en-IN')}`;
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+interface MetricCardProps {
+  title: string;
+  value: string;
+  change: number | null;
+  hint?: string;
+}
+
+const MetricCard: React.FC<MetricCardProps> = ({ title, value, change, hint }) => (
+  <div className="bg-white rounded-lg shadow p-5">
+    <p className="text-sm font-medium text-gray-500 truncate" title={hint}>{title}</p>
+    <p className="mt-1 text-2xl font-semibold text-gray-900">{value}</p>
+    <div className="mt-3 flex items-center text-sm">
+      {change === null ? (
+        <span className="text-gray-400">No data last year</span>
+      ) : (
+        <>
+          {change >= 0 ? (
+            <TrendingUp className="h-4 w-4 text-green-500 mr-1" />
+          ) : (
+            <TrendingDown className="h-4 w-4 text-red-500 mr-1" />
+          )}
+          <span className={`font-medium ${change >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+            {change >= 0 ? '+' : ''}{change.toFixed(1)}%
+          </span>
+          <span className="text-gray-500 ml-1">vs. last year</span>
+        </>
+      )}
+    </div>
+  </div>
+);
+
+const Analytics: React.FC = () => {
+  const [bookings, setBookings] = useState<AnalyticsBooking[]>([]);
+  const [accommodations, setAccommodations] = useState<AnalyticsAccommodation[]>([]);
+  const [preset, setPreset] = useState<RangePreset>('30d');
+  const [range, setRange] = useState<DateRange>(() => getPresetRange('30d'));
+  const [compare, setCompare] = useState(true);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  const rangeValid = Boolean(range.from && range.to && range.from <= range.to);
+  // Every stay with a night in the selected range or its prior-year comparison checks out on or
+  // after the comparison range starts
+  const comparisonStart = rangeValid ? getPreviousYearRange(range).from : '';
+
+  useEffect(() => {
+    if (!comparisonStart) return;
+    const controller = new AbortController();
+
+    const fetchData = async () => {
+      try {
+        setLoading(true);
+        setError('');
+        const [bookingRows, accommodationsResponse] = await Promise.all([
+          fetchAllBookings<AnalyticsBooking>(
+            { date_field: 'check_out', start_date: comparisonStart },
+            controller.signal
+          ),
+          api.get<{ data: AnalyticsAccommodation[] }>('/properties/accommodations', {
+            params: { perPage: 1000 },
+            signal: controller.signal,
+          }),
+        ]);
+        setBookings(bookingRows);
+        setAccommodations(accommodationsResponse.data.data || []);
+      } catch (err) {
+        if (isCanceled(err)) return;
+        console.error('Error fetching analytics data:', err);
+        setError(getErrorMessage(err, 'Failed to load analytics'));
+      } finally {
+        if (!controller.signal.aborted) setLoading(false);
+      }
+    };
+
+    fetchData();
+    return () => controller.abort();
+  }, [comparisonStart, refreshKey]);
+
+  const current = useMemo(
+    () => (rangeValid ? summarizeBookings(bookings, accommodations, range) : null),
+    [bookings, accommodations, range, rangeValid]
+  );
+  const previous = useMemo(
+    () => (rangeValid ? summarizeBookings(bookings, accommodations, getPreviousYearRange(range)) : null),
+    [bookings, accommodations, range, rangeValid]
+  );
+
+  const handlePresetChange = (value: RangePreset) => {
+    setPreset(value);
+    if (value !== 'custom') setRange(getPresetRange(value));
+  };
+
+  const change = (key: 'revenue' | 'occupancy' | 'adr' | 'revpar') =>
+    current && previous ? getChange(current[key], previous[key]) : null;
+
+  // Value from the previous-year series at the same position, when comparison is switched on
+  const previousValue = <T,>(items: T[], index: number, pick: (item: T) => number) =>
+    compare && items[index] !== undefined ? pick(items[index]) : undefined;
+
+  return (
+    <div className="space-y-6 pb-16 md:pb-0">
+      <div className="sm:flex sm:items-start sm:justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 flex items-center">
+            <BarChart3 className="h-6 w-6 mr-2 text-blue-600" />
+            Analytics
+          </h1>
+          <p className="mt-1 text-sm text-gray-500">Revenue, occupancy and booking patterns by stay date</p>
+        </div>
+        <button
+          onClick={() => setRefreshKey(prev => prev + 1)}
+          disabled={loading}
+          className="mt-4 sm:mt-0 flex items-center px-3 py-1.5 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+          Refresh
+        </button>
+      </div>
+
+      {/* Date range */}
+      <div className="bg-white rounded-lg shadow p-4 flex flex-wrap items-end gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Period</label>
+          <select
+            value={preset}
+            onChange={e => handlePresetChange(e.target.value as RangePreset)}
+            className="border border-gray-300 rounded-md px-3 py-2 text-sm"
+          >
+            {RANGE_PRESETS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">From</label>
+          <input
+            type="date"
+            value={range.from}
+            onChange={e => {
+              setPreset('custom');
+              setRange(prev => ({ ...prev, from: e.target.value }));
+            }}
+            className="border border-gray-300 rounded-md px-3 py-2 text-sm"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">To</label>
+          <input
+            type="date"
+            value={range.to}
+            onChange={e => {
+              setPreset('custom');
+              setRange(prev => ({ ...prev, to: e.target.value }));
+            }}
+            className="border border-gray-300 rounded-md px-3 py-2 text-sm"
+          />
+        </div>
+        <label className="flex items-center text-sm text-gray-700 pb-2">
+          <input
+            type="checkbox"
+            checked={compare}
+            onChange={e => setCompare(e.target.checked)}
+            className="h-4 w-4 text-blue-600 border-gray-300 rounded mr-2"
+          />
+          Compare with previous year
+        </label>
+        {!rangeValid && <p className="text-sm text-red-600 pb-2">The start date must be on or before the end date.</p>}
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-md">
+          <div className="flex">
+            <AlertCircle className="h-5 w-5 text-red-400 mr-2 flex-shrink-0" />
+            <div className="text-sm text-red-700">{error}</div>
+          </div>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-16">
+          <Loader className="h-8 w-8 animate-spin text-blue-600" />
+        </div>
+      ) : current && previous && (
+        <>
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-4">
+            <MetricCard title="Revenue" value={formatCurrency(current.revenue)} change={change('revenue')} />
+            <MetricCard
+              title="Occupancy"
+              value={formatPercent(current.occupancy)}
+              change={change('occupancy')}
+              hint="Room nights sold ÷ room nights available"
+            />
+            <MetricCard
+              title="ADR"
+              value={formatCurrency(current.adr)}
+              change={change('adr')}
+              hint="Average daily rate: revenue ÷ room nights sold"
+            />
+            <MetricCard
+              title="RevPAR"
+              value={formatCurrency(current.revpar)}
+              change={change('revpar')}
+              hint="Revenue per available room night"
+            />
+          </div>
+
+          {/* Revenue by month */}
+          <div className="bg-white rounded-lg shadow">
+            <div className="px-4 py-5 sm:px-6 border-b border-gray-200">
+              <h3 className="text-lg font-medium leading-6 text-gray-900">Revenue by Month</h3>
+              <p className="mt-1 text-sm text-gray-500">Stay revenue, split across the nights of each booking</p>
+            </div>
+            <div className="p-4">
+              <ComparisonBarChart
+                data={current.revenueByMonth.map((entry, index) => ({
+                  label: formatMonth(entry.month),
+                  current: entry.revenue,
+                  previous: previousValue(previous.revenueByMonth, index, item => item.revenue),
+                }))}
+                formatValue={formatCurrency}
+              />
+            </div>
+          </div>
+
+          {/* Per accommodation */}
+          <div className="bg-white rounded-lg shadow overflow-hidden">
+            <div className="px-4 py-5 sm:px-6 border-b border-gray-200">
+              <h3 className="text-lg font-medium leading-6 text-gray-900">Performance by Accommodation</h3>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Accommodation</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Room Nights</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Occupancy</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">ADR</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">RevPAR</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Revenue</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {current.accommodations.length === 0 ? (
+                    <tr>
+                      <td colSpan={6} className="px-6 py-8 text-center text-sm text-gray-500">No accommodations found</td>
+                    </tr>
+                  ) : (
+                    current.accommodations.map(entry => (
+                      <tr key={entry.id ?? entry.name} className="hover:bg-gray-50">
+                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{entry.name}</td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700 text-right">
+                          {entry.soldRoomNights} / {entry.availableRoomNights || '—'}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700 text-right">
+                          {entry.availableRoomNights ? formatPercent(entry.occupancy) : '—'}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700 text-right">{formatCurrency(entry.adr)}</td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700 text-right">
+                          {entry.availableRoomNights ? formatCurrency(entry.revpar) : '—'}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 text-right">
+                          {formatCurrency(entry.revenue)}
+                        </td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+            <div className="bg-white rounded-lg shadow">
+              <div className="px-4 py-5 sm:px-6 border-b border-gray-200">
+                <h3 className="text-lg font-medium leading-6 text-gray-900">Booking Lead Time</h3>
+                <p className="mt-1 text-sm text-gray-500">
+                  Days between booking and check-in · average {current.averageLeadTime.toFixed(1)} days
+                </p>
+              </div>
+              <div className="p-4">
+                <ComparisonBarChart
+                  data={current.leadTime.map((bucket, index) => ({
+                    label: bucket.label,
+                    current: bucket.count,
+                    previous: previousValue(previous.leadTime, index, item => item.count),
+                  }))}
+                />
+              </div>
+            </div>
+
+            <div className="bg-white rounded-lg shadow">
+              <div className="px-4 py-5 sm:px-6 border-b border-gray-200">
+                <h3 className="text-lg font-medium leading-6 text-gray-900">Length of Stay</h3>
+                <p className="mt-1 text-sm text-gray-500">
+                  Bookings checking in this period · average {current.averageLengthOfStay.toFixed(1)} nights
+                </p>
+              </div>
+              <div className="p-4">
+                <ComparisonBarChart
+                  data={current.lengthOfStay.map((bucket, index) => ({
+                    label: bucket.label,
+                    current: bucket.count,
+                    previous: previousValue(previous.lengthOfStay, index, item => item.count),
+                  }))}
+                />
+              </div>
+            </div>
+          </div>
+
+          {/* Channel mix */}
+          <div className="bg-white rounded-lg shadow">
+            <div className="px-4 py-5 sm:px-6 border-b border-gray-200">
+              <h3 className="text-lg font-medium leading-6 text-gray-900">Booking Channels</h3>
+              <p className="mt-1 text-sm text-gray-500">Website bookings paid through PayU vs. bookings entered by staff</p>
+            </div>
+            <div className="p-4 grid grid-cols-1 gap-6 md:grid-cols-2">
+              <ComparisonBarChart
+                data={current.channels.map((entry, index) => ({
+                  label: CHANNEL_LABELS[entry.channel],
+                  current: entry.revenue,
+                  previous: previousValue(previous.channels, index, item => item.revenue),
+                }))}
+                formatValue={formatCurrency}
+              />
+              <ul className="space-y-3 self-center">
+                {current.channels.map(entry => (
+                  <li key={entry.channel} className="flex items-center justify-between text-sm">
+                    <span className="text-gray-700">{CHANNEL_LABELS[entry.channel]}</span>
+                    <span className="text-gray-900 font-medium">
+                      {entry.bookings} bookings · {formatCurrency(entry.revenue)}
+                      <span className="text-gray-500 font-normal ml-2">
+                        ({formatPercent(current.bookings ? entry.bookings / current.bookings : 0)})
+                      </span>
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default Analytics;
@@ -0,0 +1,317 @@
+import React, { useState, useEffect } from 'react';
+import { History, Loader, AlertCircle, ChevronDown, ChevronRight, RefreshCw } from 'lucide-react';
+import { api, assertSuccess, getErrorMessage, isCanceled, unwrap, type ApiEnvelope, type Pagination } from '../lib/api';
+import { AUDIT_ENTITY_TYPES, type AuditEntry } from '../lib/audit';
+
+interface UserOption {
+  id: string;
+  name: string;
+}
+
+interface AuditFilters {
+  actor_id: string;
+  entity_type: string;
+  from: string;
+  to: string;
+}
+
+const PAGE_SIZE = 50;
+
+const emptyFilters: AuditFilters = {
+  actor_id: '',
+  entity_type: '',
+  from: '',
+  to: '',
+};
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const AuditLog: React.FC = () => {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [users, setUsers] = useState<UserOption[]>([]);
+  const [filters, setFilters] = useState<AuditFilters>({ ...emptyFilters });
+  const [page, setPage] = useState(1);
+  const [pagination, setPagination] = useState<Pagination | null>(null);
+  const [expanded, setExpanded] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    api.get('/users', { signal: controller.signal })
+      .then((response) => setUsers(unwrap<UserOption[]>(response.data)))
+      .catch((err) => {
+        if (!isCanceled(err)) console.error('Error fetching users:', err);
+      });
+
+    return () => controller.abort();
+  }, []);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    const fetchEntries = async () => {
+      try {
+        setLoading(true);
+        setError('');
+
+        const params: Record<string, string | number> = { page, limit: PAGE_SIZE };
+        if (filters.actor_id) params.actor_id = filters.actor_id;
+        if (filters.entity_type) params.entity_type = filters.entity_type;
+        if (filters.from) params.from = filters.from;
+        if (filters.to) params.to = filters.to;
+
+        const response = await api.get<ApiEnvelope<AuditEntry[]>>('/audit-logs', {
+          params,
+          signal: controller.signal,
+        });
+        const body = assertSuccess(response.data, 'Failed to load audit log');
+        setEntries(body.data);
+        setPagination(body.pagination ?? null);
+      } catch (err) {
+        if (isCanceled(err)) return;
+        console.error('Error fetching audit log:', err);
+        setError(getErrorMessage(err, 'Failed to load audit log'));
+      } finally {
+        if (!controller.signal.aborted) setLoading(false);
+      }
+    };
+
+    fetchEntries();
+    return () => controller.abort();
+  }, [filters, page, refreshKey]);
+
+  const updateFilter = (key: keyof AuditFilters, value: string) => {
+    setFilters((prev) => ({ ...prev, [key]: value }));
+    setPage(1);
+  };
+
+  const entityLabel = (type: string) =>
+    AUDIT_ENTITY_TYPES.find((option) => option.value === type)?.label || type;
+
+  return (
+    <div className="space-y-6 pb-16 md:pb-0">
+      <div className="sm:flex sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Audit Log</h1>
+          <p className="mt-1 text-sm text-gray-500">Who changed what, and when</p>
+        </div>
+        <div className="mt-4 sm:mt-0">
+          <button
+            onClick={() => setRefreshKey((key) => key + 1)}
+            disabled={loading}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+          >
+            <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </button>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white p-4 rounded-md shadow grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">User</label>
+          <select
+            value={filters.actor_id}
+            onChange={(e) => updateFilter('actor_id', e.target.value)}
+            className="block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+          >
+            <option value="">All users</option>
+            {users.map((user) => (
+              <option key={user.id} value={user.id}>
+                {user.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Entity</label>
+          <select
+            value={filters.entity_type}
+            onChange={(e) => updateFilter('entity_type', e.target.value)}
+            className="block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+          >
+            <option value="">All entities</option>
+            {AUDIT_ENTITY_TYPES.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">From</label>
+          <input
+            type="date"
+            value={filters.from}
+            max={filters.to || undefined}
+            onChange={(e) => updateFilter('from', e.target.value)}
+            className="block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">To</label>
+          <input
+            type="date"
+            value={filters.to}
+            min={filters.from || undefined}
+            onChange={(e) => updateFilter('to', e.target.value)}
+            className="block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+          />
+        </div>
+        <div className="flex items-end">
+          <button
+            onClick={() => {
+              setFilters({ ...emptyFilters });
+              setPage(1);
+            }}
+            className="w-full px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+          >
+            Reset
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="rounded-md bg-red-50 p-4 border border-red-200">
+          <div className="flex">
+            <AlertCircle className="h-5 w-5 text-red-400" />
+            <p className="ml-3 text-sm text-red-700">{error}</p>
+          </div>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center items-center h-64">
+          <Loader className="h-8 w-8 animate-spin text-blue-600" />
+          <span className="ml-2 text-gray-600">Loading audit log...</span>
+        </div>
+      ) : entries.length === 0 ? (
+        <div className="text-center py-12 bg-white rounded-lg shadow">
+          <History className="mx-auto h-12 w-12 text-gray-400" />
+          <h3 className="mt-2 text-sm font-medium text-gray-900">No activity found</h3>
+          <p className="mt-1 text-sm text-gray-500">Try widening the date range or clearing filters.</p>
+        </div>
+      ) : (
+        <div className="bg-white shadow rounded-lg overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 w-8" />
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider whitespace-nowrap">
+                    When
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider whitespace-nowrap">
+                    User
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider whitespace-nowrap">
+                    Action
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider whitespace-nowrap">
+                    Entity
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Summary
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {entries.map((entry) => (
+                  <React.Fragment key={entry.id}>
+                    <tr
+                      className="hover:bg-gray-50 cursor-pointer"
+                      onClick={() => setExpanded(expanded === entry.id ? null : entry.id)}
+                    >
+                      <td className="px-6 py-4 text-gray-400">
+                        {expanded === entry.id ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {new Date(entry.created_at).toLocaleString('en-IN')}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                        {entry.actor_name}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-blue-100 text-blue-800">
+                          {entry.action}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {entityLabel(entry.entity_type)}
+                        {entry.entity_id && <span className="text-gray-400"> #{entry.entity_id}</span>}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-500">{entry.summary || '—'}</td>
+                    </tr>
+                    {expanded === entry.id && (
+                      <tr className="bg-gray-50">
+                        <td />
+                        <td colSpan={5} className="px-6 py-4">
+                          {entry.changes.length === 0 ? (
+                            <p className="text-sm text-gray-500">No field-level changes recorded.</p>
+                          ) : (
+                            <table className="min-w-full text-sm">
+                              <thead>
+                                <tr className="text-left text-xs text-gray-500 uppercase">
+                                  <th className="py-1 pr-4">Field</th>
+                                  <th className="py-1 pr-4">Before</th>
+                                  <th className="py-1">After</th>
+                                </tr>
+                              </thead>
+                              <tbody>
+                                {entry.changes.map((change) => (
+                                  <tr key={change.field} className="align-top">
+                                    <td className="py-1 pr-4 font-medium text-gray-700">{change.field}</td>
+                                    <td className="py-1 pr-4 text-red-700 break-all">{formatValue(change.from)}</td>
+                                    <td className="py-1 text-green-700 break-all">{formatValue(change.to)}</td>
+                                  </tr>
+                                ))}
+                              </tbody>
+                            </table>
+                          )}
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {pagination && pagination.totalPages > 1 && (
+            <div className="px-6 py-3 flex items-center justify-between border-t border-gray-200">
+              <p className="text-sm text-gray-700">
+                Page {pagination.page} of {pagination.totalPages} ({pagination.total} entries)
+              </p>
+              <div className="flex space-x-2">
+                <button
+                  onClick={() => setPage((p) => p - 1)}
+                  disabled={page <= 1}
+                  className="px-3 py-1 border border-gray-300 rounded-md text-sm text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                >
+                  Previous
+                </button>
+                <button
+                  onClick={() => setPage((p) => p + 1)}
+                  disabled={page >= pagination.totalPages}
+                  className="px-3 py-1 border border-gray-300 rounded-md text-sm text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                >
+                  Next
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AuditLog;
@@ -1,15 +1,50 @@
 import React, { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { ArrowLeft, Save, Upload, Loader, AlertCircle, Image as ImageIcon } from 'lucide-react';
+import { ArrowLeft, Save, Loader, AlertCircle, AlertTriangle, CheckCircle, XCircle, History, RotateCcw, Eye, Search, Image as ImageIcon } from 'lucide-react';
+import { api, assertSuccess, getErrorMessage, isCanceled, unwrap, type ApiEnvelope } from '../lib/api';
+import { recordMediaUsage, uploadMedia } from '../lib/media';
+import { getTodayKey } from '../lib/bookingQueries';
+import MediaPickerModal from '../components/MediaPickerModal';
+import {
+  BLOG_STATUS_OPTIONS,
+  getBlogStatusColor,
+  getBlogStatusLabel,
+  getEffectiveBlogStatus,
+  type BlogStatus,
+} from '../lib/blogStatus';
+import { buildCategoryOptions, getCategoryPath, type Category } from '../lib/categories';
+import {
+  META_DESCRIPTION_LIMIT,
+  META_TITLE_LIMIT,
+  getBlogPostUrl,
+  getExcerpt,
+  getReadingTime,
+  getSeoWarnings,
+  sanitizeHtml,
+  slugify,
+} from '../lib/seo';
 
 interface BlogPost {
   id?: number;
   title: string;
   content: string;
-  category: string;
+  category_id: number | null;
   image: string;
-  status: 'published' | 'draft';
+  status: BlogStatus;
   publishDate: string;
+  slug: string;
+  metaTitle: string;
+  metaDescription: string;
+  ogImage: string;
+  // Minutes, recalculated from the content on every save
+  readingTime?: number;
+}
+
+// A saved snapshot of a post, created by the backend on every update
+interface BlogRevision extends BlogPost {
+  revision_id: number;
+  author_name: string;
+  created_at: string;
 }
 
 const BlogForm: React.FC = () => {
@@ -18,39 +53,93 @@ const BlogForm: React.FC = () => {
   const isEditing = Boolean(id);
 
   const [loading, setLoading] = useState(false);
+  const [fetching, setFetching] = useState(isEditing);
+  const [uploading, setUploading] = useState(false);
+  const [pickerField, setPickerField] = useState<'image' | 'ogImage' | null>(null);
+  // The slug follows the title until it is edited by hand or the post already has one
+  const [slugEdited, setSlugEdited] = useState(false);
   const [error, setError] = useState('');
   const [success, setSuccess] = useState('');
+  const [original, setOriginal] = useState<BlogPost | null>(null);
+  const [revisions, setRevisions] = useState<BlogRevision[]>([]);
+  const [restoringId, setRestoringId] = useState<number | null>(null);
+  const [refreshKey, setRefreshKey] = useState(0);
+  const [categories, setCategories] = useState<Category[]>([]);
 
   const [formData, setFormData] = useState<BlogPost>({
     title: '',
     content: '',
-    category: 'camping',
+    category_id: null,
     image: '',
     status: 'draft',
-    publishDate: new Date().toISOString().split('T')[0]
+    publishDate: getTodayKey(),
+    slug: '',
+    metaTitle: '',
+    metaDescription: '',
+    ogImage: ''
   });
 
-  const categories = [
-    { id: 'camping', name: 'Camping' },
-    { id: 'nature', name: 'Nature' },
-    { id: 'nearby-places', name: 'Nearby Places Tour' },
-    { id: 'events', name: 'Events' }
-  ];
+  useEffect(() => {
+    const controller = new AbortController();
+
+    const fetchCategories = async () => {
+      try {
+        const response = await api.get('/categories', { signal: controller.signal });
+        setCategories(unwrap<Category[]>(response.data));
+      } catch (err) {
+        if (isCanceled(err)) return;
+        console.error('Error fetching categories:', err);
+        setError(getErrorMessage(err, 'Failed to load categories'));
+      }
+    };
+
+    fetchCategories();
+    return () => controller.abort();
+  }, []);
 
   useEffect(() => {
-    if (isEditing) {
-      // Mock fetch blog data
-      setFormData({
-        id: Number(id),
-        title: 'Sample Blog Post',
-        content: 'This is a sample blog post content.',
-        category: 'camping',
-        image: 'https://images.pexels.com/photos/2666598/pexels-photo-2666598.jpeg',
-        status: 'published',
-        publishDate: '2025-03-15'
-      });
-    }
-  }, [id]);
+    if (!isEditing) return;
+    const controller = new AbortController();
+
+    const fetchBlog = async () => {
+      try {
+        setFetching(true);
+        const response = await api.get<ApiEnvelope<BlogPost>>(`/blogs/${id}`, { signal: controller.signal });
+        const blog = assertSuccess(response.data, 'Failed to load blog post').data;
+        const post: BlogPost = {
+          ...blog,
+          publishDate: (blog.publishDate || '').split('T')[0],
+          slug: blog.slug || slugify(blog.title),
+          metaTitle: blog.metaTitle || '',
+          metaDescription: blog.metaDescription || '',
+          ogImage: blog.ogImage || '',
+        };
+        setFormData(post);
+        setOriginal(post);
+        // Changing the slug of a post that is already live would break its public URL
+        setSlugEdited(Boolean(blog.slug));
+      } catch (err) {
+        if (isCanceled(err)) return;
+        console.error('Error fetching blog:', err);
+        setError(getErrorMessage(err, 'Failed to load blog post'));
+      } finally {
+        if (!controller.signal.aborted) setFetching(false);
+      }
+    };
+
+    const fetchRevisions = async () => {
+      try {
+        const response = await api.get(`/blogs/${id}/revisions`, { signal: controller.signal });
+        setRevisions(unwrap<BlogRevision[]>(response.data));
+      } catch (err) {
+        if (!isCanceled(err)) console.error('Error fetching blog revisions:', err);
+      }
+    };
+
+    fetchBlog();
+    fetchRevisions();
+    return () => controller.abort();
+  }, [id, isEditing, refreshKey]);
 
   const handleChange = (
     e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>
@@ -58,19 +147,63 @@ const BlogForm: React.FC = () => {
     const { name, value } = e.target;
     setFormData(prev => ({
       ...prev,
-      [name]: value
+      [name]: name === 'category_id' ? (value ? Number(value) : null) : value,
+      ...(name === 'title' && !slugEdited ? { slug: slugify(value) } : {})
     }));
   };
 
+  const handleSlugChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setSlugEdited(true);
+    // Trailing hyphens are kept while typing and trimmed by slugify() on save
+    setFormData(prev => ({ ...prev, slug: e.target.value.toLowerCase().replace(/[^a-z0-9-]+/g, '-') }));
+  };
+
   const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
 
-    // Mock image upload
-    setFormData(prev => ({
-      ...prev,
-      image: URL.createObjectURL(file)
-    }));
+    setUploading(true);
+    setError('');
+    try {
+      const media = await uploadMedia(file, formData.title);
+      setFormData(prev => ({ ...prev, image: media.url }));
+    } catch (err) {
+      console.error('Error uploading blog image:', err);
+      setError(getErrorMessage(err, 'Failed to upload image'));
+    } finally {
+      setUploading(false);
+      e.target.value = '';
+    }
+  };
+
+  const handleRestore = async (revision: BlogRevision) => {
+    if (!window.confirm(`Restore the version saved on ${new Date(revision.created_at).toLocaleString('en-IN')}? Unsaved changes will be lost.`)) {
+      return;
+    }
+
+    setRestoringId(revision.revision_id);
+    setError('');
+    setSuccess('');
+    try {
+      const response = await api.post(`/blogs/${id}/revisions/${revision.revision_id}/restore`, undefined, {
+        audit: {
+          action: 'blog.restore',
+          entityType: 'blog',
+          entityId: id,
+          summary: `Restored "${revision.title}" to the revision from ${new Date(revision.created_at).toLocaleString('en-IN')}`,
+          before: original ? { ...original } : undefined,
+          after: { title: revision.title, content: revision.content, category_id: revision.category_id, image: revision.image, status: revision.status, publishDate: revision.publishDate },
+        }
+      });
+      assertSuccess(response.data, 'Failed to restore revision');
+      setSuccess('Revision restored');
+      setRefreshKey(key => key + 1);
+    } catch (err) {
+      console.error('Error restoring blog revision:', err);
+      setError(getErrorMessage(err, 'Failed to restore revision'));
+    } finally {
+      setRestoringId(null);
+    }
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -80,20 +213,79 @@ const BlogForm: React.FC = () => {
     setSuccess('');
 
     try {
-      // Mock API call
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
+      if (!formData.category_id) {
+        throw new Error('Please choose a category');
+      }
+      const slug = slugify(formData.slug || formData.title);
+      if (!slug) {
+        throw new Error('Please enter a URL slug');
+      }
+      if (formData.status === 'scheduled' && getEffectiveBlogStatus('scheduled', formData.publishDate) !== 'scheduled') {
+        throw new Error('Pick a future publish date to schedule this post');
+      }
+
+      // A published post with a future date goes live on that date, so store it as scheduled
+      const payload: BlogPost = {
+        title: formData.title.trim(),
+        content: formData.content,
+        category_id: formData.category_id,
+        image: formData.image,
+        status: getEffectiveBlogStatus(formData.status, formData.publishDate),
+        publishDate: formData.publishDate,
+        slug,
+        metaTitle: formData.metaTitle.trim(),
+        metaDescription: formData.metaDescription.trim(),
+        ogImage: formData.ogImage,
+        readingTime: getReadingTime(formData.content),
+      };
+
+      const audit = {
+        action: isEditing ? 'blog.update' : 'blog.create',
+        entityType: 'blog' as const,
+        entityId: id,
+        summary: `${isEditing ? 'Updated' : 'Created'} blog post "${payload.title}" (${getBlogStatusLabel(payload.status)})`,
+        before: original ? { ...original } : undefined,
+        after: { ...payload },
+      };
+      const response = isEditing
+        ? await api.put(`/blogs/${id}`, payload, { audit })
+        : await api.post('/blogs', payload, { audit });
+      const saved = assertSuccess<BlogPost>(response.data, 'Failed to save blog post').data;
+      const blogId = isEditing ? id : saved?.id;
+      if (blogId) {
+        await Promise.all([
+          recordMediaUsage('blog', blogId, 'image', [payload.image], payload.title),
+          recordMediaUsage('blog', blogId, 'ogImage', [payload.ogImage], payload.title),
+        ]);
+      }
+
       setSuccess(isEditing ? 'Blog updated successfully!' : 'Blog created successfully!');
       setTimeout(() => {
         navigate('/blogs');
       }, 1500);
     } catch (err) {
-      setError('Failed to save blog post');
+      console.error('Error saving blog:', err);
+      setError(getErrorMessage(err, 'Failed to save blog post'));
     } finally {
       setLoading(false);
     }
   };
 
+  if (fetching) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <Loader className="h-8 w-8 animate-spin text-navy-600" />
+        <span className="ml-2 text-gray-600">Loading blog post...</span>
+      </div>
+    );
+  }
+
+  const effectiveStatus = getEffectiveBlogStatus(formData.status, formData.publishDate);
+  const readingTime = getReadingTime(formData.content);
+  const seoWarnings = getSeoWarnings(formData);
+  const snippetTitle = formData.metaTitle.trim() || formData.title.trim() || 'Untitled post';
+  const snippetDescription = formData.metaDescription.trim() || getExcerpt(formData.content);
+
   return (
     <div className="space-y-6 pb-16 md:pb-0">
       <div className="sm:flex sm:items-center sm:justify-between">
@@ -161,42 +353,82 @@ const BlogForm: React.FC = () => {
               </div>
 
               <div className="sm:col-span-2">
-                <label htmlFor="category" className="block text-sm font-medium text-gray-700">
+                <label htmlFor="category_id" className="block text-sm font-medium text-gray-700">
                   Category *
                 </label>
                 <div className="mt-1">
                   <select
-                    id="category"
-                    name="category"
+                    id="category_id"
+                    name="category_id"
                     required
-                    value={formData.category}
+                    value={formData.category_id ?? ''}
                     onChange={handleChange}
                     className="shadow-sm focus:ring-navy-500 focus:border-navy-500 block w-full sm:text-sm border-gray-300 rounded-md"
                   >
-                    {categories.map(category => (
-                      <option key={category.id} value={category.id}>
-                        
-                        {category.name}
-                      </option>
-                    ))}
+                    <option value="">Select a category</option>
+                    {/* Inactive categories are hidden unless the post is already filed under one */}
+                    {buildCategoryOptions(categories)
+                      .filter(({ category }) => category.active || category.id === formData.category_id)
+                      .map(({ category, label }) => (
+                        <option key={category.id} value={category.id}>
+                          {label}
+                        </option>
+                      ))}
                   </select>
                 </div>
               </div>
 
-              <div className="sm:col-span-6">
-                <label htmlFor="content" className="block text-sm font-medium text-gray-700">
-                  Content *
-                </label>
-                <div className="mt-1">
-                  <textarea
-                    id="content"
-                    name="content"
-                    rows={8}
-                    required
-                    value={formData.content}
-                    onChange={handleChange}
-                    className="shadow-sm focus:ring-navy-500 focus:border-navy-500 block w-full sm:text-sm border-gray-300 rounded-md"
-                  />
+              <div className="sm:col-span-6 grid grid-cols-1 gap-4 lg:grid-cols-2">
+                <div>
+                  <div className="flex items-center justify-between">
+                    <label htmlFor="content" className="block text-sm font-medium text-gray-700">
+                      Content *
+                    </label>
+                    <span className="text-xs text-gray-500">
+                      {readingTime > 0 ? `${readingTime} min read` : 'HTML is supported'}
+                    </span>
+                  </div>
+                  <div className="mt-1">
+                    <textarea
+                      id="content"
+                      name="content"
+                      rows={20}
+                      required
+                      value={formData.content}
+                      onChange={handleChange}
+                      className="shadow-sm focus:ring-navy-500 focus:border-navy-500 block w-full sm:text-sm border-gray-300 rounded-md font-mono"
+                    />
+                  </div>
+                </div>
+
+                {/* Laid out like the post page on the public site, which renders the content as HTML */}
+                <div>
+                  <div className="flex items-center text-sm font-medium text-gray-700">
+                    <Eye className="h-4 w-4 mr-1" />
+                    Preview
+                  </div>
+                  <article className="mt-1 h-[30rem] overflow-y-auto border border-gray-200 rounded-md bg-white">
+                    {formData.image && (
+                      <img src={formData.image} alt={formData.title} className="w-full h-48 object-cover" />
+                    )}
+                    <div className="p-4">
+                      <h1 className="text-2xl font-bold text-gray-900">{formData.title || 'Untitled post'}</h1>
+                      <p className="mt-1 text-sm text-gray-500">
+                        {[
+                          getCategoryPath(categories, formData.category_id),
+                          formData.publishDate &&
+                            new Date(formData.publishDate).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' }),
+                          readingTime > 0 && `${readingTime} min read`,
+                        ]
+                          .filter(Boolean)
+                          .join(' • ')}
+                      </p>
+                      <div
+                        className="mt-4 text-gray-700 leading-relaxed space-y-4 [&_h2]:text-xl [&_h2]:font-semibold [&_h2]:text-gray-900 [&_h3]:text-lg [&_h3]:font-semibold [&_a]:text-navy-600 [&_a]:underline [&_img]:rounded-md [&_img]:max-w-full [&_ul]:list-disc [&_ul]:pl-6 [&_ol]:list-decimal [&_ol]:pl-6 [&_blockquote]:border-l-4 [&_blockquote]:pl-4 [&_blockquote]:italic"
+                        dangerouslySetInnerHTML={{ __html: sanitizeHtml(formData.content) }}
+                      />
+                    </div>
+                  </article>
                 </div>
               </div>
 
@@ -206,7 +438,12 @@ const BlogForm: React.FC = () => {
                 </label>
                 <div className="mt-1 flex justify-center px-6 pt-5 pb-6 border-2 border-gray-300 border-dashed rounded-md">
                   <div className="space-y-1 text-center">
-                    {formData.image ? (
+                    {uploading ? (
+                      <div className="flex items-center justify-center h-32 text-sm text-gray-500">
+                        <Loader className="h-5 w-5 mr-2 animate-spin" />
+                        Uploading...
+                      </div>
+                    ) : formData.image ? (
                       <div className="relative">
                         <img
                           src={formData.image}
@@ -239,7 +476,14 @@ const BlogForm: React.FC = () => {
                               onChange={handleImageUpload}
                             />
                           </label>
-                          <p className="pl-1">or drag and drop</p>
+                          <p className="pl-1">or</p>
+                          <button
+                            type="button"
+                            onClick={() => setPickerField('image')}
+                            className="pl-1 font-medium text-navy-600 hover:text-navy-500"
+                          >
+                            choose from library
+                          </button>
                         </div>
                         <p className="text-xs text-gray-500">
                           PNG, JPG, GIF up to 10MB
@@ -278,12 +522,148 @@ const BlogForm: React.FC = () => {
                     onChange={handleChange}
                     className="shadow-sm focus:ring-navy-500 focus:border-navy-500 block w-full sm:text-sm border-gray-300 rounded-md"
                   >
-                    <option value="draft">Draft</option>
-                    <option value="published">Published</option>
+                    {BLOG_STATUS_OPTIONS.map(option => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
                   </select>
                 </div>
+                {formData.status !== 'draft' && (
+                  <p className="mt-1 text-xs text-gray-500">
+                    {effectiveStatus === 'scheduled'
+                      ? `Goes live automatically on ${formData.publishDate}.`
+                      : formData.status === 'scheduled'
+                      ? 'Pick a future publish date to schedule this post.'
+                      : 'Visible on the site as soon as it is saved.'}
+                  </p>
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-white shadow rounded-lg overflow-hidden">
+          <div className="p-6 space-y-6">
+            <div className="flex items-center">
+              <Search className="h-5 w-5 text-navy-600 mr-2" />
+              <h2 className="text-lg font-medium text-gray-900">Search & Social</h2>
+            </div>
+
+            <div className="grid grid-cols-1 gap-y-6 gap-x-4 sm:grid-cols-6">
+              <div className="sm:col-span-6">
+                <label htmlFor="slug" className="block text-sm font-medium text-gray-700">
+                  URL Slug *
+                </label>
+                <div className="mt-1 flex rounded-md shadow-sm">
+                  <span className="inline-flex items-center px-3 rounded-l-md border border-r-0 border-gray-300 bg-gray-50 text-gray-500 sm:text-sm">
+                    {getBlogPostUrl('')}
+                  </span>
+                  <input
+                    type="text"
+                    name="slug"
+                    id="slug"
+                    value={formData.slug}
+                    onChange={handleSlugChange}
+                    className="focus:ring-navy-500 focus:border-navy-500 block w-full min-w-0 rounded-none rounded-r-md sm:text-sm border-gray-300"
+                  />
+                </div>
+                {!slugEdited && (
+                  <p className="mt-1 text-xs text-gray-500">Generated from the title until you edit it.</p>
+                )}
+              </div>
+
+              <div className="sm:col-span-6">
+                <div className="flex items-center justify-between">
+                  <label htmlFor="metaTitle" className="block text-sm font-medium text-gray-700">
+                    Meta Title
+                  </label>
+                  <span className={`text-xs ${formData.metaTitle.length > META_TITLE_LIMIT ? 'text-red-600' : 'text-gray-500'}`}>
+                    {formData.metaTitle.length}/{META_TITLE_LIMIT}
+                  </span>
+                </div>
+                <div className="mt-1">
+                  <input
+                    type="text"
+                    name="metaTitle"
+                    id="metaTitle"
+                    value={formData.metaTitle}
+                    onChange={handleChange}
+                    placeholder={formData.title}
+                    className="shadow-sm focus:ring-navy-500 focus:border-navy-500 block w-full sm:text-sm border-gray-300 rounded-md"
+                  />
+                </div>
+              </div>
+
+              <div className="sm:col-span-6">
+                <div className="flex items-center justify-between">
+                  <label htmlFor="metaDescription" className="block text-sm font-medium text-gray-700">
+                    Meta Description
+                  </label>
+                  <span className={`text-xs ${formData.metaDescription.length > META_DESCRIPTION_LIMIT ? 'text-red-600' : 'text-gray-500'}`}>
+                    {formData.metaDescription.length}/{META_DESCRIPTION_LIMIT}
+                  </span>
+                </div>
+                <div className="mt-1">
+                  <textarea
+                    id="metaDescription"
+                    name="metaDescription"
+                    rows={2}
+                    value={formData.metaDescription}
+                    onChange={handleChange}
+                    className="shadow-sm focus:ring-navy-500 focus:border-navy-500 block w-full sm:text-sm border-gray-300 rounded-md"
+                  />
+                </div>
+              </div>
+
+              <div className="sm:col-span-6">
+                <label htmlFor="ogImage" className="block text-sm font-medium text-gray-700">
+                  Open Graph Image
+                </label>
+                <div className="mt-1 flex items-center space-x-3">
+                  <input
+                    type="url"
+                    name="ogImage"
+                    id="ogImage"
+                    value={formData.ogImage}
+                    onChange={handleChange}
+                    placeholder={formData.image || 'https://'}
+                    className="shadow-sm focus:ring-navy-500 focus:border-navy-500 block w-full sm:text-sm border-gray-300 rounded-md"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setPickerField('ogImage')}
+                    className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-700 bg-white hover:bg-gray-50 whitespace-nowrap"
+                  >
+                    <ImageIcon className="h-4 w-4 mr-1" />
+                    Library
+                  </button>
+                </div>
+                <p className="mt-1 text-xs text-gray-500">
+                  Shown when the post is shared on social media. Defaults to the featured image. 1200×630 works best.
+                </p>
               </div>
             </div>
+
+            <div className="border border-gray-200 rounded-md p-4">
+              <p className="text-xs uppercase tracking-wide text-gray-500 mb-2">Search result preview</p>
+              <p className="text-sm text-green-700 truncate">{getBlogPostUrl(slugify(formData.slug || formData.title))}</p>
+              <p className="text-lg text-blue-800 truncate">{snippetTitle}</p>
+              <p className="text-sm text-gray-600 line-clamp-2">{snippetDescription || 'No description yet.'}</p>
+            </div>
+
+            {seoWarnings.length > 0 && (
+              <div className="bg-yellow-50 border border-yellow-200 rounded-md p-4">
+                <div className="flex">
+                  <AlertTriangle className="h-5 w-5 text-yellow-400 flex-shrink-0" />
+                  <ul className="ml-3 text-sm text-yellow-800 list-disc list-inside space-y-1">
+                    {seoWarnings.map(warning => (
+                      <li key={warning}>{warning}</li>
+                    ))}
+                  </ul>
+                </div>
+              </div>
+            )}
           </div>
         </div>
 
@@ -298,7 +678,7 @@ const BlogForm: React.FC = () => {
           </button>
           <button
             type="submit"
-            disabled={loading}
+            disabled={loading || uploading}
             className="inline-flex justify-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-navy-600 hover:bg-navy-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-navy-500 disabled:opacity-50 disabled:cursor-not-allowed"
           >
             {loading ? (
@@ -315,6 +695,61 @@ const BlogForm: React.FC = () => {
           </button>
         </div>
       </form>
+
+      {pickerField && (
+        <MediaPickerModal
+          title={pickerField === 'image' ? 'Choose Featured Image' : 'Choose Open Graph Image'}
+          onSelect={([media]) => setFormData(prev => ({ ...prev, [pickerField]: media.url }))}
+          onClose={() => setPickerField(null)}
+        />
+      )}
+
+      {isEditing && (
+        <div className="bg-white shadow rounded-lg overflow-hidden">
+          <div className="p-6">
+            <div className="flex items-center mb-4">
+              <History className="h-5 w-5 text-navy-600 mr-2" />
+              <h2 className="text-lg font-medium text-gray-900">Revision History</h2>
+            </div>
+
+            {revisions.length === 0 ? (
+              <p className="text-sm text-gray-500">No earlier versions of this post have been saved yet.</p>
+            ) : (
+              <ul className="divide-y divide-gray-200">
+                {revisions.map(revision => {
+                  const revisionStatus = getEffectiveBlogStatus(revision.status, revision.publishDate);
+                  return (
+                    <li key={revision.revision_id} className="py-3 flex items-center justify-between text-sm">
+                      <div>
+                        <div className="font-medium text-gray-900">{revision.title}</div>
+                        <div className="text-gray-500">
+                          {new Date(revision.created_at).toLocaleString('en-IN')} by {revision.author_name}
+                          <span className={`ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${getBlogStatusColor(revisionStatus)}`}>
+                            {getBlogStatusLabel(revisionStatus)}
+                          </span>
+                        </div>
+                      </div>
+                      <button
+                        type="button"
+                        onClick={() => handleRestore(revision)}
+                        disabled={restoringId !== null}
+                        className="inline-flex items-center px-3 py-1.5 border border-gray-300 rounded-md text-sm text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                      >
+                        {restoringId === revision.revision_id ? (
+                          <Loader className="h-4 w-4 mr-1 animate-spin" />
+                        ) : (
+                          <RotateCcw className="h-4 w-4 mr-1" />
+                        )}
+                        Restore
+                      </button>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
     </div>
   );
 };
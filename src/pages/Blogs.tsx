@@ -1,13 +1,22 @@
 import React, { useState, useEffect } from 'react';
-import { Plus, Search, Trash2, Edit2, XCircle, AlertCircle, CheckCircle } from 'lucide-react';
+import { Plus, Search, Trash2, Edit2, XCircle, AlertCircle, Loader } from 'lucide-react';
 import { Link } from 'react-router-dom';
+import { api, assertSuccess, getErrorMessage, isCanceled, unwrap, type ApiEnvelope } from '../lib/api';
+import {
+  BLOG_STATUS_OPTIONS,
+  getBlogStatusColor,
+  getBlogStatusLabel,
+  getEffectiveBlogStatus,
+  type BlogStatus,
+} from '../lib/blogStatus';
+import { buildCategoryOptions, getCategoryPath, getDescendantIds, type Category } from '../lib/categories';
 
 interface Blog {
   id: number;
   title: string;
-  category: string;
+  category_id: number | null;
   publishDate: string;
-  status: 'published' | 'draft';
+  status: BlogStatus;
   image: string;
 }
 
@@ -17,55 +26,80 @@ const Blogs: React.FC = () => {
   const [error, setError] = useState('');
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedCategory, setSelectedCategory] = useState('all');
+  const [selectedStatus, setSelectedStatus] = useState<BlogStatus | 'all'>('all');
+  const [refreshKey, setRefreshKey] = useState(0);
+  const [categories, setCategories] = useState<Category[]>([]);
 
-  const categories = [
-    { id: 'all', name: 'All Categories' },
-    { id: 'camping', name: 'Camping' },
-    { id: 'nature', name: 'Nature' },
-    { id: 'nearby-places', name: 'Nearby Places Tour' },
-    { id: 'events', name: 'Events' }
-  ];
-
-  // Mock data for demonstration
   useEffect(() => {
-    setBlogs([
-      {
-        id: 1,
-        title: 'Top 10 Camping Spots Near Our Resort',
-        category: 'camping',
-        publishDate: '2025-03-15',
-        status: 'published',
-        image: 'https://images.pexels.com/photos/2666598/pexels-photo-2666598.jpeg'
-      },
-      {
-        id: 2,
-        title: 'Wildlife Photography Guide',
-        category: 'nature',
-        publishDate: '2025-03-14',
-        status: 'published',
-        image: 'https://images.pexels.com/photos/1268855/pexels-photo-1268855.jpeg'
-      },
-      {
-        id: 3,
-        title: 'Upcoming Summer Festival',
-        category: 'events',
-        publishDate: '2025-03-13',
-        status: 'draft',
-        image: 'https://images.pexels.com/photos/2747449/pexels-photo-2747449.jpeg'
+    const controller = new AbortController();
+
+    const fetchCategories = async () => {
+      try {
+        const response = await api.get('/categories', { signal: controller.signal });
+        setCategories(unwrap<Category[]>(response.data));
+      } catch (err) {
+        if (!isCanceled(err)) console.error('Error fetching categories:', err);
       }
-    ]);
+    };
+
+    fetchCategories();
+    return () => controller.abort();
   }, []);
 
-  const handleDelete = (id: number) => {
-    if (window.confirm('Are you sure you want to delete this blog?')) {
-      setBlogs(blogs.filter(blog => blog.id !== id));
+  useEffect(() => {
+    const controller = new AbortController();
+
+    const fetchBlogs = async () => {
+      try {
+        setLoading(true);
+        setError('');
+        const response = await api.get<ApiEnvelope<Blog[]>>('/blogs', { signal: controller.signal });
+        setBlogs(assertSuccess(response.data, 'Failed to load blog posts').data);
+      } catch (err) {
+        if (isCanceled(err)) return;
+        console.error('Error fetching blogs:', err);
+        setError(getErrorMessage(err, 'Failed to load blog posts'));
+      } finally {
+        if (!controller.signal.aborted) setLoading(false);
+      }
+    };
+
+    fetchBlogs();
+    return () => controller.abort();
+  }, [refreshKey]);
+
+  const handleDelete = async (blog: Blog) => {
+    if (!window.confirm('Are you sure you want to delete this blog?')) return;
+
+    try {
+      const response = await api.delete(`/blogs/${blog.id}`, {
+        audit: {
+          action: 'blog.delete',
+          entityType: 'blog',
+          entityId: blog.id,
+          summary: `Deleted blog post "${blog.title}"`,
+          before: { ...blog },
+        }
+      });
+      assertSuccess(response.data, 'Failed to delete blog post');
+      setRefreshKey(key => key + 1);
+    } catch (err) {
+      console.error('Error deleting blog:', err);
+      setError(getErrorMessage(err, 'Failed to delete blog post'));
     }
   };
 
+  // Filtering by a parent category also shows posts filed under its subcategories
+  const selectedCategoryIds =
+    selectedCategory === 'all' ? null : getDescendantIds(categories, Number(selectedCategory));
+
   const filteredBlogs = blogs.filter(blog => {
     const matchesSearch = blog.title.toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesCategory = selectedCategory === 'all' || blog.category === selectedCategory;
-    return matchesSearch && matchesCategory;
+    const matchesCategory =
+      !selectedCategoryIds || (blog.category_id !== null && selectedCategoryIds.includes(blog.category_id));
+    const matchesStatus =
+      selectedStatus === 'all' || getEffectiveBlogStatus(blog.status, blog.publishDate) === selectedStatus;
+    return matchesSearch && matchesCategory && matchesStatus;
   });
 
   const formatDate = (dateString: string) => {
@@ -122,70 +156,100 @@ const Blogs: React.FC = () => {
           onChange={(e) => setSelectedCategory(e.target.value)}
           className="block w-full sm:w-48 pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-navy-500 focus:border-navy-500 sm:text-sm rounded-md"
         >
-          {categories.map(category => (
+          <option value="all">All Categories</option>
+          {buildCategoryOptions(categories).map(({ category, label }) => (
             <option key={category.id} value={category.id}>
-              {category.name}
+              {label}
+            </option>
+          ))}
+        </select>
+        <select
+          value={selectedStatus}
+          onChange={(e) => setSelectedStatus(e.target.value as BlogStatus | 'all')}
+          className="block w-full sm:w-40 pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-navy-500 focus:border-navy-500 sm:text-sm rounded-md"
+        >
+          <option value="all">All Statuses</option>
+          {BLOG_STATUS_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>
+              {option.label}
             </option>
           ))}
         </select>
       </div>
 
+      {error && (
+        <div className="rounded-md bg-red-50 p-4 border border-red-200">
+          <div className="flex">
+            <AlertCircle className="h-5 w-5 text-red-400" />
+            <p className="ml-3 text-sm text-red-700">{error}</p>
+          </div>
+        </div>
+      )}
+
+      {loading && (
+        <div className="flex justify-center items-center h-64">
+          <Loader className="h-8 w-8 animate-spin text-navy-600" />
+          <span className="ml-2 text-gray-600">Loading blog posts...</span>
+        </div>
+      )}
+
       {/* Blog Grid */}
-      <div className="grid gap-6 grid-cols-1 sm:grid-cols-2 lg:grid-cols-3">
-        {filteredBlogs.map(blog => (
-          <div key={blog.id} className="bg-white rounded-lg shadow overflow-hidden">
-            <div className="relative h-48">
-              <img
-                src={blog.image}
-                alt={blog.title}
-                className="w-full h-full object-cover"
-                onError={(e) => {
-                  (e.target as HTMLImageElement).src = 'https://images.pexels.com/photos/2666598/pexels-photo-2666598.jpeg';
-                }}
-              />
-              <div className="absolute top-2 right-2">
-                <span
-                  className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
-                    blog.status === 'published'
-                      ? 'bg-green-100 text-green-800'
-                      : 'bg-yellow-100 text-yellow-800'
-                  }`}
-                >
-                  {blog.status.charAt(0).toUpperCase() + blog.status.slice(1)}
-                </span>
+      {!loading && (
+        <div className="grid gap-6 grid-cols-1 sm:grid-cols-2 lg:grid-cols-3">
+          {filteredBlogs.map(blog => {
+            const status = getEffectiveBlogStatus(blog.status, blog.publishDate);
+            return (
+              <div key={blog.id} className="bg-white rounded-lg shadow overflow-hidden">
+                <div className="relative h-48">
+                  <img
+                    src={blog.image}
+                    alt={blog.title}
+                    className="w-full h-full object-cover"
+                    onError={(e) => {
+                      (e.target as HTMLImageElement).src = 'https://images.pexels.com/photos/2666598/pexels-photo-2666598.jpeg';
+                    }}
+                  />
+                  <div className="absolute top-2 right-2">
+                    <span
+                      className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getBlogStatusColor(status)}`}
+                    >
+                      {getBlogStatusLabel(status)}
+                    </span>
+                  </div>
+                </div>
+                <div className="p-4">
+                  <h3 className="text-lg font-medium text-gray-900 line-clamp-2">
+                    {blog.title}
+                  </h3>
+                  <div className="mt-2 flex items-center text-sm text-gray-500">
+                    <span>{getCategoryPath(categories, blog.category_id) || 'Uncategorised'}</span>
+                    <span className="mx-2">•</span>
+                    <span>{formatDate(blog.publishDate)}</span>
+                  </div>
+                  <div className="mt-4 flex space-x-2">
+                    <Link
+                      to={`/blogs/${blog.id}`}
+                      className="flex-1 inline-flex justify-center items-center px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-navy-500"
+                    >
+                      <Edit2 className="h-4 w-4 mr-1" />
+                      Edit
+                    </Link>
+                    <button
+                      onClick={() => handleDelete(blog)}
+                      className="inline-flex justify-center items-center px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-red-600 bg-white hover:bg-red-50 hover:text-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                </div>
               </div>
-            </div>
-            <div className="p-4">
-              <h3 className="text-lg font-medium text-gray-900 line-clamp-2">
-                {blog.title}
-              </h3>
-              <div className="mt-2 flex items-center text-sm text-gray-500">
-                <span className="capitalize">{blog.category}</span>
-                <span className="mx-2">•</span>
-                <span>{formatDate(blog.publishDate)}</span>
-              </div>
-              <div className="mt-4 flex space-x-2">
-                <Link
-                  to={`/blogs/${blog.id}/edit`}
-                  className="flex-1 inline-flex justify-center items-center px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-navy-500"
-                >
-                  <Edit2 className="h-4 w-4 mr-1" />
-                  Edit
-                </Link>
-                <button
-                  onClick={() => handleDelete(blog.id)}
-                  className="inline-flex justify-center items-center px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-red-600 bg-white hover:bg-red-50 hover:text-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500"
-                >
-                  <Trash2 className="h-4 w-4" />
-                </button>
-              </div>
-            </div>
-          </div>
-        ))}
-      </div>
+            );
+          })}
+        </div>
+      )}
 
       {/* Empty State */}
-      {filteredBlogs.length === 0 && (
+      {!loading && filteredBlogs.length === 0 && (
         <div className="text-center py-10">
           <svg
             className="mx-auto h-12 w-12 text-gray-400"
@@ -202,11 +266,11 @@ const Blogs: React.FC = () => {
           </svg>
           <h3 className="mt-2 text-sm font-medium text-gray-900">No blogs found</h3>
           <p className="mt-1 text-sm text-gray-500">
-            {searchTerm || selectedCategory !== 'all'
+            {searchTerm || selectedCategory !== 'all' || selectedStatus !== 'all'
               ? 'Try adjusting your search or filter criteria.'
               : 'Get started by creating your first blog post.'}
           </p>
-          {!searchTerm && selectedCategory === 'all' && (
+          {!searchTerm && selectedCategory === 'all' && selectedStatus === 'all' && (
             <div className="mt-6">
               <Link
                 to="/blogs/new"
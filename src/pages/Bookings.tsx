@@ -1,6 +1,5 @@
 import React, { useState, useEffect } from "react";
-import axios from "axios";
-import { Link } from "react-router-dom";
+import { Link, useSearchParams } from "react-router-dom";
 import {
   Download,
   Filter,
@@ -12,9 +11,34 @@ import {
   User,
   Plus,
   Trash2,
+  Pencil,
+  FileDown,
+  Send,
 } from "lucide-react";
 import BookingDetailsModal from "../components/BookingDetailsModal";
 import AddPaymentModal from "../components/AddPaymentModal";
+import BookingStatusModal from "../components/BookingStatusModal";
+import { useAuth } from "../contexts/AuthContext";
+import { api, assertSuccess, getErrorMessage, type ApiEnvelope } from "../lib/api";
+import {
+  BOOKING_STATUS_OPTIONS,
+  BOOKING_TRANSITIONS,
+  getAvailableTransitions,
+  getBookingStatusColor,
+  getBookingStatusLabel,
+  isBookingEditable,
+  parseBookingStatus,
+  type BookingStatus,
+  type BookingTransition,
+} from "../lib/bookingStatus";
+import { downloadBookingConfirmation, resendBookingConfirmation } from "../lib/bookingDocuments";
+import {
+  fetchBookingBalances,
+  hasBalanceDue,
+  toLocalDateKey,
+  type BookingBalances,
+  type BookingDateField,
+} from "../lib/bookingQueries";
 
 interface ApiBooking {
   id: number;
@@ -34,20 +58,11 @@ interface ApiBooking {
   advance_amount: string;
   payment_status: string;
   payment_txn_id: string | null;
+  status?: string | null;
+  cancellation_reason?: string | null;
   created_at: string;
 }
 
-interface ApiResponse {
-  success: boolean;
-  data: ApiBooking[];
-  pagination: {
-    total: number;
-    page: number;
-    limit: number;
-    totalPages: number;
-  };
-}
-
 interface Booking {
   id: number;
   bookingId: string;
@@ -65,10 +80,8 @@ interface Booking {
   children: number;
   rooms: number;
   amount: string;
-  paidAmount: string;
-  remainingAmount: string;
   paymentStatus: "Paid" | "Partial" | "Unpaid" | "Pending";
-  bookingStatus: "Confirmed" | "Pending" | "Cancelled";
+  bookingStatus: BookingStatus;
   paymentTxnId: string | null;
   createdAt: string;
   rawData?: ApiBooking;
@@ -85,28 +98,45 @@ interface FilterOptions {
   limit?: number;
 }
 
+const getTotalAmount = (booking: Booking) => parseFloat(booking.rawData?.total_amount ?? "0") || 0;
+
+const formatAmount = (amount: number) => `₹${amount.toLocaleString("en-IN")}`;
+
 const Bookings: React.FC = () => {
+  const { can } = useAuth();
+  const [searchParams] = useSearchParams();
   const [bookings, setBookings] = useState<Booking[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState("");
-  const [filterOpen, setFilterOpen] = useState(false);
+  const [filterOpen, setFilterOpen] = useState(() => searchParams.toString() !== "");
   const [selectedBooking, setSelectedBooking] = useState<number | null>(null);
   const [paymentModalOpen, setPaymentModalOpen] = useState(false);
   const [bookingForPayment, setBookingForPayment] = useState<number | null>(
     null
   );
+  const [statusChange, setStatusChange] = useState<{
+    id: number;
+    transition: BookingTransition;
+  } | null>(null);
+  const [confirmationBusyId, setConfirmationBusyId] = useState<number | null>(null);
+  // Keyed by booking id; undefined while loading, null when the ledger failed to load
+  const [ledgerTotals, setLedgerTotals] = useState<BookingBalances>({});
 
   // Added for client-side filtering
   const [allBookings, setAllBookings] = useState<Booking[]>([]);
   const [filteredBookings, setFilteredBookings] = useState<Booking[]>([]);
 
-  // Filter states
+  // Filter states, seeded from the URL so dashboard widgets can link to a filtered list
   const [filters, setFilters] = useState<FilterOptions>({});
-  const [startDate, setStartDate] = useState("");
-  const [endDate, setEndDate] = useState("");
-  const [paymentStatusFilter, setPaymentStatusFilter] = useState("");
-  const [bookingStatusFilter, setBookingStatusFilter] = useState("");
+  const [startDate, setStartDate] = useState(searchParams.get("start_date") || "");
+  const [endDate, setEndDate] = useState(searchParams.get("end_date") || "");
+  const [dateField, setDateField] = useState<BookingDateField>(
+    searchParams.get("date_field") === "check_out" ? "check_out" : "check_in"
+  );
+  const [paymentStatusFilter, setPaymentStatusFilter] = useState(searchParams.get("payment_status") || "");
+  const [bookingStatusFilter, setBookingStatusFilter] = useState(searchParams.get("status") || "");
+  const [balanceDueOnly, setBalanceDueOnly] = useState(searchParams.get("balance") === "due");
 
   // Pagination
   const [pagination, setPagination] = useState({
@@ -116,8 +146,6 @@ const Bookings: React.FC = () => {
     totalPages: 1,
   });
 
-  const API_BASE_URL = "https://a.plumeriaretreat.com/admin";
-
   const mapApiBookingToBooking = (apiBooking: ApiBooking): Booking => {
     let paymentStatus: "Paid" | "Partial" | "Unpaid" | "Pending" = "Pending";
 
@@ -136,11 +164,9 @@ const Bookings: React.FC = () => {
         paymentStatus = "Pending";
     }
 
-    const bookingStatus = "Confirmed";
+    const bookingStatus = parseBookingStatus(apiBooking.status);
 
     const totalAmount = parseFloat(apiBooking.total_amount);
-    const paidAmount = parseFloat(apiBooking.advance_amount);
-    const remainingAmount = totalAmount - paidAmount;
 
     return {
       id: apiBooking.id,
@@ -158,9 +184,7 @@ const Bookings: React.FC = () => {
       adults: apiBooking.adults,
       children: apiBooking.children,
       rooms: apiBooking.rooms,
-      amount: `₹${totalAmount.toLocaleString("en-IN")}`,
-      paidAmount: `₹${paidAmount.toLocaleString("en-IN")}`,
-      remainingAmount: `₹${remainingAmount.toLocaleString("en-IN")}`,
+      amount: formatAmount(totalAmount),
       paymentStatus,
       bookingStatus,
       paymentTxnId: apiBooking.payment_txn_id,
@@ -180,13 +204,13 @@ const Bookings: React.FC = () => {
         limit: 1000, // Fetch all records for client-side filtering
       };
 
-      const response = await axios.get<ApiResponse>(
-        `${API_BASE_URL}/bookings`,
-        { params }
-      );
+      const response = await api.get<ApiEnvelope<ApiBooking[]>>("/bookings", {
+        params,
+      });
+      const body = assertSuccess(response.data, "Failed to fetch bookings");
 
-      if (response.data.success && Array.isArray(response.data.data)) {
-        const mappedBookings = response.data.data.map(mapApiBookingToBooking);
+      if (Array.isArray(body.data)) {
+        const mappedBookings = body.data.map(mapApiBookingToBooking);
         
         // Sort by timestamp (newest first)
         const sortedBookings = mappedBookings.sort((a, b) => b.timestamp - a.timestamp);
@@ -207,11 +231,7 @@ const Bookings: React.FC = () => {
       }
     } catch (err) {
       console.error("Error fetching bookings:", err);
-      setError(
-        axios.isAxiosError(err)
-          ? err.response?.data?.message || err.message
-          : "Failed to fetch bookings"
-      );
+      setError(getErrorMessage(err, "Failed to fetch bookings"));
     } finally {
       setLoading(false);
     }
@@ -232,17 +252,14 @@ const Bookings: React.FC = () => {
       );
     }
 
-    // Apply date filter
+    // Apply date filter to the check-in or check-out date, both ends inclusive
     if (startDate || endDate) {
-      const start = startDate ? new Date(startDate) : null;
-      const end = endDate ? new Date(endDate) : null;
-
       filtered = filtered.filter(booking => {
         if (booking.rawData) {
-          const checkInDate = new Date(booking.rawData.check_in);
-          
-          if (start && checkInDate < start) return false;
-          if (end && checkInDate > end) return false;
+          const date = toLocalDateKey(booking.rawData[dateField]);
+
+          if (startDate && date < startDate) return false;
+          if (endDate && date > endDate) return false;
         }
         return true;
       });
@@ -265,16 +282,11 @@ const Bookings: React.FC = () => {
     
     // Apply booking status filter
     if (bookingStatusFilter) {
-      let statusToFilter: string | null = null;
-      switch (bookingStatusFilter) {
-        case 'confirmed': statusToFilter = 'Confirmed'; break;
-        case 'pending': statusToFilter = 'Pending'; break;
-        case 'cancelled': statusToFilter = 'Cancelled'; break;
-      }
-      
-      if (statusToFilter) {
-        filtered = filtered.filter(booking => booking.bookingStatus === statusToFilter);
-      }
+      filtered = filtered.filter(booking => booking.bookingStatus === bookingStatusFilter);
+    }
+
+    if (balanceDueOnly) {
+      filtered = filtered.filter(booking => booking.rawData && hasBalanceDue(booking.rawData, ledgerTotals));
     }
     
     setFilteredBookings(filtered);
@@ -328,7 +340,20 @@ const Bookings: React.FC = () => {
     if (allBookings.length > 0) {
       applyFilters();
     }
-  }, [searchTerm, startDate, endDate, paymentStatusFilter, bookingStatusFilter]);
+  }, [allBookings, searchTerm, startDate, endDate, dateField, paymentStatusFilter, bookingStatusFilter, balanceDueOnly, ledgerTotals]);
+
+  // Paid and remaining amounts, and the balance-due filter, come from the payment ledger of every loaded booking
+  useEffect(() => {
+    const rows = allBookings.flatMap((booking) => (booking.rawData ? [booking.rawData] : []));
+    if (rows.length === 0) return;
+    const controller = new AbortController();
+
+    fetchBookingBalances(rows, controller.signal).then((totals) => {
+      if (!controller.signal.aborted) setLedgerTotals(totals);
+    });
+
+    return () => controller.abort();
+  }, [allBookings]);
 
   // Handle pagination changes
   useEffect(() => {
@@ -347,8 +372,10 @@ const Bookings: React.FC = () => {
   const handleResetFilters = () => {
     setStartDate("");
     setEndDate("");
+    setDateField("check_in");
     setPaymentStatusFilter("");
     setBookingStatusFilter("");
+    setBalanceDueOnly(false);
     setSearchTerm("");
     setFilteredBookings(allBookings);
     setPagination({
@@ -377,9 +404,39 @@ const Bookings: React.FC = () => {
     fetchBookings();
   };
 
+  const handleDownloadConfirmation = async (id: number) => {
+    try {
+      setConfirmationBusyId(id);
+      await downloadBookingConfirmation(id);
+    } catch (err) {
+      console.error("Error generating confirmation:", err);
+      alert(getErrorMessage(err, "Failed to generate the confirmation. Please try again."));
+    } finally {
+      setConfirmationBusyId(null);
+    }
+  };
+
+  const handleResendConfirmation = async (booking: Booking) => {
+    if (!booking.email) {
+      alert("This booking has no guest email address.");
+      return;
+    }
+    if (!window.confirm(`Email the booking confirmation to ${booking.email}?`)) return;
+    try {
+      setConfirmationBusyId(booking.id);
+      const sentTo = await resendBookingConfirmation(booking.id);
+      alert(`Confirmation sent to ${sentTo}`);
+    } catch (err) {
+      console.error("Error resending confirmation:", err);
+      alert(getErrorMessage(err, "Failed to resend the confirmation. Please try again."));
+    } finally {
+      setConfirmationBusyId(null);
+    }
+  };
+
   const exportToCSV = async () => {
     try {
-      const response = await axios.get(`${API_BASE_URL}/bookings/export/csv`, {
+      const response = await api.get("/bookings/export/csv", {
         responseType: "blob",
       });
 
@@ -406,6 +463,22 @@ const Bookings: React.FC = () => {
     };
   };
 
+  const getLedgerAmount = (id: number, field: "net" | "remaining") => {
+    const totals = ledgerTotals[id];
+    if (totals === undefined) return "…";
+    return totals ? formatAmount(totals[field]) : "—";
+  };
+
+  // Paid and remaining amounts are loaded from the booking's payment ledger by the modal
+  const getPaymentModalBooking = (booking: Booking) => ({
+    id: booking.id,
+    bookingId: booking.bookingId,
+    guest: booking.guest,
+    email: booking.email,
+    phone: booking.phone,
+    totalAmount: getTotalAmount(booking),
+  });
+
   if (loading && bookings.length === 0) {
     return (
       <div className="flex justify-center items-center h-64">
@@ -447,13 +520,15 @@ const Bookings: React.FC = () => {
               </p>
             </div>
             <div className="mt-4 sm:mt-0 flex space-x-3">
-              <Link
-                to="/bookings/new"
-                className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-navy-600 hover:bg-navy-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-navy-500"
-              >
-                <Plus className="h-4 w-4 mr-2" />
-                New Booking
-              </Link>
+              {can("bookings:create") && (
+                <Link
+                  to="/bookings/new"
+                  className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-navy-600 hover:bg-navy-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-navy-500"
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  New Booking
+                </Link>
+              )}
               <button
                 type="button"
                 onClick={exportToCSV}
@@ -512,6 +587,14 @@ const Bookings: React.FC = () => {
                   <label className="block text-sm font-medium text-gray-700 mb-1">
                     Date Range
                   </label>
+                  <select
+                    value={dateField}
+                    onChange={(e) => setDateField(e.target.value as BookingDateField)}
+                    className="block w-full mb-2 border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                  >
+                    <option value="check_in">By check-in date</option>
+                    <option value="check_out">By check-out date</option>
+                  </select>
                   <div className="grid grid-cols-2 gap-2">
                     <input
                       type="date"
@@ -544,6 +627,15 @@ const Bookings: React.FC = () => {
                     <option value="failed">Unpaid</option>
                     <option value="">Pending</option>
                   </select>
+                  <label className="flex items-center mt-3 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={balanceDueOnly}
+                      onChange={(e) => setBalanceDueOnly(e.target.checked)}
+                      className="h-4 w-4 text-blue-600 border-gray-300 rounded mr-2"
+                    />
+                    Balance due only
+                  </label>
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -555,9 +647,11 @@ const Bookings: React.FC = () => {
                     className="block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
                   >
                     <option value="">All</option>
-                    <option value="confirmed">Confirmed</option>
-                    <option value="pending">Pending</option>
-                    <option value="cancelled">Cancelled</option>
+                    {BOOKING_STATUS_OPTIONS.map((option) => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
                   </select>
                 </div>
               </div>
@@ -641,7 +735,13 @@ const Bookings: React.FC = () => {
                   {bookings.map((booking) => (
                     <tr key={booking.id} className="hover:bg-gray-50">
                       <td className="px-6 py-4 text-sm font-medium text-blue-600">
-                        <button>{booking.bookingId}</button>
+                        <button
+                          onClick={() => handleOpenDetails(booking.id)}
+                          className="hover:text-blue-900 hover:underline"
+                          title="View details and payments"
+                        >
+                          {booking.bookingId}
+                        </button>
                       </td>
                       <td className="px-6 py-4 text-sm text-gray-900">
                         <div className="flex flex-col">
@@ -689,7 +789,7 @@ const Bookings: React.FC = () => {
                         {booking.amount}
                       </td>
                       <td className="px-6 py-4 text-sm text-gray-500">
-                        {booking.paidAmount}
+                        {getLedgerAmount(booking.id, "net")}
                       </td>
                       <td className="px-6 py-4 text-sm font-medium">
                         <span
@@ -701,7 +801,7 @@ const Bookings: React.FC = () => {
                               : "text-red-600"
                           }
                         >
-                          {booking.remainingAmount}
+                          {getLedgerAmount(booking.id, "remaining")}
                         </span>
                       </td>
                       <td className="px-6 py-4 text-sm">
@@ -721,43 +821,100 @@ const Bookings: React.FC = () => {
                       </td>
                       <td className="px-6 py-4 text-sm">
                         <span
-                          className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
-                            booking.bookingStatus === "Confirmed"
-                              ? "bg-green-100 text-green-800"
-                              : booking.bookingStatus === "Pending"
-                              ? "bg-blue-100 text-blue-800"
-                              : "bg-gray-100 text-gray-800"
-                          }`}
+                          className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${getBookingStatusColor(
+                            booking.bookingStatus
+                          )}`}
                         >
-                          {booking.bookingStatus}
+                          {getBookingStatusLabel(booking.bookingStatus)}
                         </span>
                       </td>
                       <td className="px-6 py-4 text-sm text-gray-500">
                         <div className="flex space-x-2">
+                          {can("bookings:delete") && (
+                            <button
+                              onClick={async () => {
+                                try {
+                                  const response = await api.delete(
+                                    `/bookings/delete/${booking.id}`,
+                                    {
+                                      audit: {
+                                        action: "booking.delete",
+                                        entityType: "booking",
+                                        entityId: booking.id,
+                                        summary: `Deleted booking ${booking.bookingId} (${booking.guest})`,
+                                        before: { ...booking.rawData },
+                                      },
+                                    }
+                                  );
+                                  console.log("Delete success:", response.data);
+                                  fetchBookings();
+                                } catch (error) {
+                                  console.error("Delete failed:", error);
+                                }
+                              }}
+                              className="text-red-600 hover:text-red-900"
+                              title="Delete"
+                            >
+                              <Trash2 className="h-5 w-5" />
+                            </button>
+                          )}
+                          {can("bookings:edit") && isBookingEditable(booking.bookingStatus) && (
+                            <Link
+                              to={`/bookings/${booking.id}/edit`}
+                              className="text-navy-600 hover:text-navy-900"
+                              title="Edit"
+                            >
+                              <Pencil className="h-5 w-5" />
+                            </Link>
+                          )}
+                          {can("payments:record") && (
+                            <button
+                              onClick={() => handleOpenPaymentModal(booking.id)}
+                              className="text-blue-600 hover:text-blue-900"
+                              title="Add Payment"
+                            >
+                              <DollarSign className="h-5 w-5" />
+                            </button>
+                          )}
                           <button
-                            onClick={async () => {
-                              try {
-                                const response = await axios.delete(
-                                  `${API_BASE_URL}/bookings/delete/${booking.id}`
-                                );
-                                console.log("Delete success:", response.data);
-                                fetchBookings();
-                              } catch (error) {
-                                console.error("Delete failed:", error);
-                              }
-                            }}
-                            className="text-red-600 hover:text-red-900"
-                            title="Delete"
-                          >
-                            <Trash2 className="h-5 w-5" />
-                          </button>
-                          <button
-                            onClick={() => handleOpenPaymentModal(booking.id)}
-                            className="text-blue-600 hover:text-blue-900"
-                            title="Add Payment"
+                            onClick={() => handleDownloadConfirmation(booking.id)}
+                            disabled={confirmationBusyId === booking.id}
+                            className="text-gray-600 hover:text-gray-900 disabled:opacity-50"
+                            title="Download confirmation"
                           >
-                            <DollarSign className="h-5 w-5" />
+                            <FileDown className="h-5 w-5" />
                           </button>
+                          {can("bookings:edit") && (
+                            <button
+                              onClick={() => handleResendConfirmation(booking)}
+                              disabled={confirmationBusyId === booking.id}
+                              className="text-green-600 hover:text-green-900 disabled:opacity-50"
+                              title="Resend confirmation"
+                            >
+                              <Send className="h-5 w-5" />
+                            </button>
+                          )}
+                          {can("bookings:edit") &&
+                            getAvailableTransitions(booking.bookingStatus).length > 0 && (
+                              <select
+                                value=""
+                                onChange={(e) =>
+                                  setStatusChange({
+                                    id: booking.id,
+                                    transition: e.target.value as BookingTransition,
+                                  })
+                                }
+                                className="border border-gray-300 rounded-md py-0.5 px-1 text-xs text-gray-700 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                                title="Change status"
+                              >
+                                <option value="">Status…</option>
+                                {getAvailableTransitions(booking.bookingStatus).map((transition) => (
+                                  <option key={transition} value={transition}>
+                                    {BOOKING_TRANSITIONS[transition].label}
+                                  </option>
+                                ))}
+                              </select>
+                            )}
                         </div>
                       </td>
                     </tr>
@@ -914,20 +1071,32 @@ const Bookings: React.FC = () => {
               bookings.find((b) => b.id === selectedBooking)!
             )}
             onClose={() => setSelectedBooking(null)}
+            onPaymentsChange={handlePaymentAdded}
           />
         )}
 
       {paymentModalOpen && bookingForPayment !== null && (
         <AddPaymentModal
-          booking={bookings.find((b) => b.id === bookingForPayment)!}
+          booking={getPaymentModalBooking(
+            bookings.find((b) => b.id === bookingForPayment)!
+          )}
           onClose={() => {
             setPaymentModalOpen(false);
             setBookingForPayment(null);
           }}
           onPaymentAdded={handlePaymentAdded}
-          apiBaseUrl={API_BASE_URL}
         />
       )}
+
+      {statusChange !== null &&
+        bookings.find((b) => b.id === statusChange.id) && (
+          <BookingStatusModal
+            booking={bookings.find((b) => b.id === statusChange.id)!}
+            transition={statusChange.transition}
+            onClose={() => setStatusChange(null)}
+            onStatusChanged={() => fetchBookings()}
+          />
+        )}
     </div>
   );
 };
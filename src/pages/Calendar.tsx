@@ -1,10 +1,9 @@
 import { useState, useEffect, useRef } from 'react';
 import { format, isBefore, startOfDay, parseISO } from 'date-fns';
 import { Calendar as CalendarIcon, X, Trash2, Edit2, AlertCircle, CheckCircle, Building2 } from 'lucide-react';
-import axios from 'axios';
-
-// API Configuration
-const admin_BASE_URL = 'https://a.plumeriaretreat.com/admin/calendar';
+import { useSearchParams } from 'react-router-dom';
+import { api } from '../lib/api';
+import { applyPriceOverride, findPriceOverride, type NightlyPrices } from '../lib/pricing';
 
 interface Accommodation {
   id: number;
@@ -47,12 +46,16 @@ interface BookedRoomData {
 }
 
 const Calendar = () => {
+  // Dashboard widgets link here with ?month=YYYY-MM and optionally ?accommodation=<id>
+  const [searchParams] = useSearchParams();
+  const linkedAccommodationId = useRef(Number(searchParams.get('accommodation')) || null);
+
   // State
   const [selectedDay, setSelectedDay] = useState<Date | null>(null);
   const [blockedDates, setBlockedDates] = useState<BlockedDate[]>([]);
   const [accommodations, setAccommodations] = useState<Accommodation[]>([]);
   const [reason, setReason] = useState('');
-  const [selectedAccommodationId, setSelectedAccommodationId] = useState<number | null>(null);
+  const [selectedAccommodationId, setSelectedAccommodationId] = useState<number | null>(linkedAccommodationId.current);
   const [selectedAccommodationType, setSelectedAccommodationType] = useState<string | null>(null); // <-- CHANGED 1: New state added
   const [selectedRoom, setSelectedRoom] = useState<number | null>(0);
   const [showForm, setShowForm] = useState(false);
@@ -61,7 +64,11 @@ const Calendar = () => {
   const [error, setError] = useState('');
   const [success, setSuccess] = useState('');
   const [editingDate, setEditingDate] = useState<BlockedDate | null>(null);
-  const [currentDate, setCurrentDate] = useState(new Date());
+  const [currentDate, setCurrentDate] = useState(() => {
+    const month = searchParams.get('month');
+    const linked = month ? parseISO(`${month}-01`) : null;
+    return linked && !isNaN(linked.getTime()) ? linked : new Date();
+  });
   const [adultPrice, setAdultPrice] = useState<number | ''>('');
   const [childPrice, setChildPrice] = useState<number | ''>('');
   const [availableRooms, setAvailableRooms] = useState<number | null>(null);
@@ -80,9 +87,7 @@ const Calendar = () => {
   const fetchBlockedDates = async () => {
     try {
       setLoading(true);
-      const response = await fetch(`${admin_BASE_URL}/blocked-dates`);
-      if (!response.ok) throw new Error('Failed to fetch blocked dates');
-      const data = await response.json();
+      const { data } = await api.get<ApiResponse>('/calendar/blocked-dates');
       if (data.success) {
         const formattedData = data.data.map((item: BlockedDate) => ({
           ...item,
@@ -103,22 +108,11 @@ const Calendar = () => {
   // Fetch blocked date prices for specific date and accommodation
   const fetchBlockedDatePrices = async (dateStr: string, accommodationId: number) => {
     try {
-      const response = await fetch(`${admin_BASE_URL}/blocked-dates`);
-      if (!response.ok) throw new Error('Failed to fetch blocked dates');
-      const data = await response.json();
+      const { data } = await api.get<ApiResponse>('/calendar/blocked-dates');
       
       if (data.success) {
-        const blockedDate = data.data.find((item: BlockedDate) => 
-          item.blocked_date.includes(dateStr) && 
-          item.accommodation_id === accommodationId
-        );
-        
-        if (blockedDate) {
-          return {
-            adult: blockedDate.adult_price,
-            child: blockedDate.child_price
-          };
-        }
+        const rows = data.data.filter((item: BlockedDate) => item.accommodation_id === accommodationId);
+        return findPriceOverride(rows, dateStr) || null;
       }
       return null;
     } catch (error) {
@@ -215,12 +209,12 @@ const Calendar = () => {
 
   const fetchAccommodations = async () => {
     try {
-      const response = await fetch(`https://a.plumeriaretreat.com/admin/properties/accommodations`);
-      if (!response.ok) throw new Error('Failed to fetch accommodations');
-      const data = await response.json();
+      const { data } = await api.get<ApiResponse>('/properties/accommodations');
       if (data.data.length > 0) {
         console.log('Fetched accommodations:', data.data[0].rooms);
         setAccommodations(data.data);
+        const linked = data.data.find((a: Accommodation) => a.id === linkedAccommodationId.current);
+        if (linked) setSelectedAccommodationType(linked.type.toLowerCase());
       }
     } catch (err) {
       console.error('Error fetching accommodations:', err);
@@ -231,11 +225,9 @@ const Calendar = () => {
   const fetchBookedRooms = async (accommodationId: number, checkInDate: string) => {
     try {
       setIsFetchingBookedRooms(true);
-      const response = await fetch(`https://a.plumeriaretreat.com/admin/bookings/room-occupancy?check_in=${checkInDate}&id=${accommodationId}`);
-      if (!response.ok) {
-        throw new Error('Failed to fetch booked rooms');
-      }
-      const data = await response.json();
+      const { data } = await api.get<{ total_rooms?: number }>('/bookings/room-occupancy', {
+        params: { check_in: checkInDate, id: accommodationId }
+      });
       return data.total_rooms || 0;
     } catch (error) {
       console.error('Error fetching booked rooms:', error);
@@ -260,7 +252,7 @@ const Calendar = () => {
     }
   }, [error, success]);
 
-  const getDefaultPrices = (accommodationId: number | null) => {
+  const getDefaultPrices = (accommodationId: number | null): NightlyPrices => {
     if (!accommodationId) return { adult: null, child: null };
     const accommodation = accommodations.find(a => a.id === accommodationId);
     if (!accommodation?.package?.pricing) return { adult: null, child: null };
@@ -271,17 +263,11 @@ const Calendar = () => {
   };
 
   // Get updated prices from blocked dates API
-  const getUpdatedPrices = async (dateStr: string, accommodationId: number) => {
+  const getUpdatedPrices = async (dateStr: string, accommodationId: number): Promise<NightlyPrices> => {
     try {
-      const blockedPrices = await fetchBlockedDatePrices(dateStr, accommodationId);
-      if (blockedPrices) {
-        return {
-          adult: blockedPrices.adult,
-          child: blockedPrices.child
-        };
-      }
-      // If no blocked date found, return default prices
-      return getDefaultPrices(accommodationId);
+      const override = await fetchBlockedDatePrices(dateStr, accommodationId);
+      // Falls back to the default prices when the date has no override
+      return applyPriceOverride(getDefaultPrices(accommodationId), override);
     } catch (error) {
       console.error('Error getting updated prices:', error);
       return getDefaultPrices(accommodationId);
@@ -549,18 +535,21 @@ const Calendar = () => {
 
     console.log('Payload to save:', payload);
     
-    const url = isUpdate
-      ? `${admin_BASE_URL}/blocked-dates/${blockedDateId}`
-      : `${admin_BASE_URL}/blocked-dates`;
-      
-    const response = await axios({
-      method: isUpdate ? 'put' : 'post',
-      url,
-      data: payload,
-      headers: { 'Content-Type': 'application/json' }
-    });
+    const previous = isUpdate ? blockedDates.find(b => b.id === blockedDateId) : undefined;
+    const audit = {
+      action: isUpdate ? 'blocked-date.update' : 'blocked-date.create',
+      entityType: 'blocked-date' as const,
+      entityId: blockedDateId,
+      summary: `${isUpdate ? 'Updated' : 'Blocked'} ${dateStr} for accommodation ${selectedAccommodationId}`,
+      before: previous ? { ...previous } : null,
+      after: payload,
+    };
+
+    const response = isUpdate
+      ? await api.put<ApiResponse>(`/calendar/blocked-dates/${blockedDateId}`, payload, { audit })
+      : await api.post<ApiResponse>('/calendar/blocked-dates', payload, { audit });
     
-    const data: ApiResponse = response.data;
+    const data = response.data;
     
     if (data.success) {
       setSuccess(isUpdate ? 'Updated successfully' : 'Saved successfully');
@@ -584,14 +573,16 @@ const Calendar = () => {
     
     try {
       setIsDeleting(true);
-      const response = await fetch(`${admin_BASE_URL}/blocked-dates/${date.id}`, {
-        method: 'DELETE',
+      const { data } = await api.delete<ApiResponse>(`/calendar/blocked-dates/${date.id}`, {
+        audit: {
+          action: 'blocked-date.delete',
+          entityType: 'blocked-date',
+          entityId: date.id,
+          summary: `Unblocked ${date.blocked_date} for accommodation ${date.accommodation_id}`,
+          before: { ...date },
+        }
       });
       
-      if (!response.ok) throw new Error('Delete failed');
-      
-      const data: ApiResponse = await response.json();
-      
       if (data.success) {
         setSuccess('Date unblocked successfully');
         await fetchBlockedDates();
@@ -1,137 +1,251 @@
-import React, { useState } from "react";
-import { Pencil, XCircle } from "lucide-react";
-
-type Category = {
-  id: number;
-  name: string;
-  image: string;
-  status: "active" | "inactive";
-};
+import React, { useState, useEffect } from "react";
+import { Link } from "react-router-dom";
+import { Pencil, Plus, Trash2, XCircle, AlertCircle, Loader, Grid } from "lucide-react";
+import { api, assertSuccess, getErrorMessage, isCanceled, unwrap } from "../lib/api";
+import {
+  buildCategoryOptions,
+  getChildCategories,
+  getDescendantIds,
+  type Category,
+} from "../lib/categories";
+
+const Categories: React.FC = () => {
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [refreshKey, setRefreshKey] = useState(0);
+  const [deleting, setDeleting] = useState<Category | null>(null);
+  const [reassignTo, setReassignTo] = useState("");
+  const [deleteLoading, setDeleteLoading] = useState(false);
+
+  useEffect(() => {
+    const controller = new AbortController();
 
-const initialCategories: Category[] = [
-  { id: 1, name: "Resort", image: "resort.jpg", status: "active" },
-  { id: 2, name: "Hotel", image: "hotel.jpg", status: "active" },
-  { id: 3, name: "Camping", image: "camping.jpg", status: "inactive" },
-  { id: 4, name: "Villa", image: "villa.jpg", status: "active" },
-];
+    const fetchCategories = async () => {
+      try {
+        setLoading(true);
+        setError("");
+        const response = await api.get("/categories", { signal: controller.signal });
+        setCategories(unwrap<Category[]>(response.data));
+      } catch (err) {
+        if (isCanceled(err)) return;
+        console.error("Error fetching categories:", err);
+        setError(getErrorMessage(err, "Failed to load categories"));
+      } finally {
+        if (!controller.signal.aborted) setLoading(false);
+      }
+    };
 
-const Categories = () => {
-  const [categories, setCategories] = useState(initialCategories);
-  const [editCategory, setEditCategory] = useState<Category | null>(null);
+    fetchCategories();
+    return () => controller.abort();
+  }, [refreshKey]);
 
-  const handleEditClick = (category: Category) => {
-    setEditCategory(category);
+  const options = buildCategoryOptions(categories);
+
+  const openDelete = (category: Category) => {
+    if (getChildCategories(categories, category.id).length > 0) {
+      setError(`"${category.name}" has subcategories. Move or delete them before deleting it.`);
+      return;
+    }
+    setError("");
+    setReassignTo("");
+    setDeleting(category);
   };
 
-  const handleSaveChanges = () => {
-    setCategories((prev) =>
-      prev.map((cat) => (cat.id === editCategory?.id ? editCategory : cat))
-    );
-    setEditCategory(null);
+  const handleDelete = async () => {
+    if (!deleting) return;
+    const postCount = deleting.post_count || 0;
+
+    if (postCount > 0 && !reassignTo) {
+      setError(`Choose a category to move the ${postCount} post(s) in "${deleting.name}" to`);
+      return;
+    }
+
+    try {
+      setDeleteLoading(true);
+      setError("");
+      const target = categories.find((category) => category.id === Number(reassignTo));
+      const response = await api.delete(`/categories/${deleting.id}`, {
+        data: postCount > 0 ? { reassign_to: Number(reassignTo) } : undefined,
+        audit: {
+          action: "category.delete",
+          entityType: "category",
+          entityId: deleting.id,
+          summary: `Deleted category "${deleting.name}"${
+            target ? `, moving ${postCount} post(s) to "${target.name}"` : ""
+          }`,
+          before: { ...deleting },
+        },
+      });
+      assertSuccess(response.data, "Failed to delete category");
+      setDeleting(null);
+      setRefreshKey((key) => key + 1);
+    } catch (err) {
+      console.error("Error deleting category:", err);
+      setError(getErrorMessage(err, "Failed to delete category"));
+    } finally {
+      setDeleteLoading(false);
+    }
   };
 
   return (
-    <div className="space-y-6 pb-16">
-      <h1 className="text-2xl font-bold text-gray-900">Categories</h1>
-      <p className="text-sm text-gray-500">
-        Manage categories for your resort business.
-      </p>
-
-      {/* Grid Layout for Categories */}
-      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
-        {categories.map((category) => (
-          <div key={category.id} className="bg-white rounded-lg shadow p-4">
-            <img
-              src={category.image}
-              alt={category.name}
-              className="h-40 w-full rounded-md object-cover"
-            />
-            <div className="flex items-center justify-between mt-3">
-              <div>
-                <h3 className="text-lg font-medium text-gray-900">
-                  {category.name}
-                </h3>
-                <span
-                  className={`px-2 py-1 text-xs font-semibold rounded-full ${
-                    category.status === "active"
-                      ? "bg-green-100 text-green-800"
-                      : "bg-red-100 text-red-800"
-                  }`}
-                >
-                  {category.status.charAt(0).toUpperCase() +
-                    category.status.slice(1)}
-                </span>
-              </div>
-              <button
-                onClick={() => handleEditClick(category)}
-                className="text-blue-600 hover:text-blue-800"
-              >
-                <Pencil className="h-5 w-5" />
-              </button>
-            </div>
-          </div>
-        ))}
+    <div className="space-y-6 pb-16 md:pb-0">
+      <div className="sm:flex sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Categories</h1>
+          <p className="mt-1 text-sm text-gray-500">
+            Manage categories for your resort business.
+          </p>
+        </div>
+        <div className="mt-4 sm:mt-0">
+          <Link
+            to="/categories/new"
+            className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Category
+          </Link>
+        </div>
       </div>
 
-      {/* Edit Modal */}
-      {editCategory && (
-        <div className="fixed inset-0 flex items-center justify-center bg-gray-900 bg-opacity-50">
+      {error && !deleting && (
+        <div className="rounded-md bg-red-50 p-4 border border-red-200">
+          <div className="flex">
+            <AlertCircle className="h-5 w-5 text-red-400" />
+            <p className="ml-3 text-sm text-red-700">{error}</p>
+          </div>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center items-center h-64">
+          <Loader className="h-8 w-8 animate-spin text-blue-600" />
+          <span className="ml-2 text-gray-600">Loading categories...</span>
+        </div>
+      ) : options.length === 0 ? (
+        <div className="text-center py-12 bg-white rounded-lg shadow">
+          <Grid className="mx-auto h-12 w-12 text-gray-400" />
+          <h3 className="mt-2 text-sm font-medium text-gray-900">No categories yet</h3>
+          <p className="mt-1 text-sm text-gray-500">Create a category to start organising blog posts.</p>
+        </div>
+      ) : (
+        <div className="bg-white shadow rounded-lg overflow-hidden">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Name
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Slug
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Posts
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Status
+                </th>
+                <th className="px-6 py-3" />
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {options.map(({ category, depth }) => (
+                <tr key={category.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-4 text-sm font-medium text-gray-900">
+                    <span style={{ paddingLeft: `${depth * 1.5}rem` }}>
+                      {depth > 0 && <span className="text-gray-400 mr-1">└</span>}
+                      {category.name}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-500">{category.slug}</td>
+                  <td className="px-6 py-4 text-sm text-gray-500">{category.post_count || 0}</td>
+                  <td className="px-6 py-4 text-sm">
+                    <span
+                      className={`px-2 py-1 text-xs font-semibold rounded-full ${
+                        category.active ? "bg-green-100 text-green-800" : "bg-red-100 text-red-800"
+                      }`}
+                    >
+                      {category.active ? "Active" : "Inactive"}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 text-sm text-right">
+                    <div className="flex justify-end space-x-3">
+                      <Link to={`/categories/${category.id}`} className="text-blue-600 hover:text-blue-800" title="Edit">
+                        <Pencil className="h-5 w-5" />
+                      </Link>
+                      <button
+                        onClick={() => openDelete(category)}
+                        className="text-red-600 hover:text-red-800"
+                        title="Delete"
+                      >
+                        <Trash2 className="h-5 w-5" />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Delete Modal */}
+      {deleting && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-gray-900 bg-opacity-50">
           <div className="bg-white p-6 rounded-lg shadow-lg w-96">
             <div className="flex justify-between items-center">
-              <h2 className="text-xl font-semibold">Edit Category</h2>
+              <h2 className="text-xl font-semibold">Delete Category</h2>
               <button
-                onClick={() => setEditCategory(null)}
+                onClick={() => setDeleting(null)}
                 className="text-red-500 hover:text-red-700"
+                disabled={deleteLoading}
               >
                 <XCircle className="h-6 w-6" />
               </button>
             </div>
-            <div className="mt-4 space-y-4">
-              <label className="block">
-                <span className="text-gray-700">Name</span>
-                <input
-                  type="text"
-                  value={editCategory.name}
-                  onChange={(e) =>
-                    setEditCategory({ ...editCategory, name: e.target.value })
-                  }
-                  className="block w-full mt-1 border-gray-300 rounded-md shadow-sm"
-                />
-              </label>
-              <label className="block">
-                <span className="text-gray-700">Image</span>
-                <input
-                  type="text"
-                  value={editCategory.image}
-                  onChange={(e) =>
-                    setEditCategory({ ...editCategory, image: e.target.value })
-                  }
-                  className="block w-full mt-1 border-gray-300 rounded-md shadow-sm"
-                />
-              </label>
-              <label className="block">
-                <span className="text-gray-700">Status</span>
+
+            <p className="mt-4 text-sm text-gray-700">
+              Delete <span className="font-medium">{deleting.name}</span>?
+            </p>
+
+            {(deleting.post_count || 0) > 0 && (
+              <label className="block mt-4">
+                <span className="text-sm text-gray-700">
+                  {deleting.post_count} post(s) use this category. Move them to:
+                </span>
                 <select
-                  value={editCategory.status}
-                  onChange={(e) =>
-                    setEditCategory({
-                      ...editCategory,
-                      status: e.target.value as "active" | "inactive",
-                    })
-                  }
-                  className="block w-full mt-1 border-gray-300 rounded-md shadow-sm"
+                  value={reassignTo}
+                  onChange={(e) => setReassignTo(e.target.value)}
+                  className="block w-full mt-1 border-gray-300 rounded-md shadow-sm sm:text-sm"
                 >
-                  <option value="active">Active</option>
-                  <option value="inactive">Inactive</option>
+                  <option value="">Select a category</option>
+                  {options
+                    .filter(({ category }) => !getDescendantIds(categories, deleting.id).includes(category.id))
+                    .map(({ category, label }) => (
+                      <option key={category.id} value={category.id}>
+                        {label}
+                      </option>
+                    ))}
                 </select>
               </label>
-            </div>
-            <div className="mt-4 flex justify-end">
+            )}
+
+            {error && <p className="mt-3 text-sm text-red-600">{error}</p>}
+
+            <div className="mt-6 flex justify-end space-x-3">
+              <button
+                onClick={() => setDeleting(null)}
+                disabled={deleteLoading}
+                className="px-4 py-2 border border-gray-300 rounded-md text-sm text-gray-700 bg-white hover:bg-gray-50"
+              >
+                Cancel
+              </button>
               <button
-                onClick={handleSaveChanges}
-                className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+                onClick={handleDelete}
+                disabled={deleteLoading || ((deleting.post_count || 0) > 0 && !reassignTo)}
+                className="px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 disabled:opacity-50"
               >
-                Save Changes
+                {deleteLoading ? "Deleting..." : "Delete"}
               </button>
             </div>
           </div>
@@ -141,4 +255,4 @@ const Categories = () => {
   );
 };
 
-export default Categories;
\ No newline at end of file
+export default Categories;
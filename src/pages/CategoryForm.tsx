@@ -1,25 +1,21 @@
 import React, { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { ArrowLeft, Grid, Save, Loader } from 'lucide-react';
+import { api, getErrorMessage, unwrap } from '../lib/api';
+import { buildCategoryOptions, getDescendantIds, type Category } from '../lib/categories';
+import { slugify } from '../lib/seo';
 
-interface Category {
-  id?: number;
-  name: string;
-  description: string;
-  slug: string;
-  parent_id?: number | null;
-  active: boolean;
-}
+type CategoryFormData = Omit<Category, 'id'> & { id?: number };
 
 const CategoryForm: React.FC = () => {
   const { id } = useParams();
   const navigate = useNavigate();
-  const isEditing = Boolean(id);
+  const isEditing = id !== undefined;
 
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
   const [categories, setCategories] = useState<Category[]>([]);
-  const [formData, setFormData] = useState<Category>({
+  const [formData, setFormData] = useState<CategoryFormData>({
     name: '',
     description: '',
     slug: '',
@@ -36,10 +32,8 @@ const CategoryForm: React.FC = () => {
 
   const fetchCategories = async () => {
     try {
-      const response = await fetch('https://adminplumeria-back.onrender.com/admin/categories');
-      if (!response.ok) throw new Error('Failed to fetch categories');
-      const data = await response.json();
-      setCategories(data);
+      const response = await api.get('/categories');
+      setCategories(unwrap<Category[]>(response.data));
     } catch (err) {
       console.error('Error fetching categories:', err);
     }
@@ -48,10 +42,8 @@ const CategoryForm: React.FC = () => {
   const fetchCategory = async () => {
     try {
       setLoading(true);
-      const response = await fetch(`https://a.plumeriaretreat.com/admin/categories/${id}`);
-      if (!response.ok) throw new Error('Category not found');
-      const data = await response.json();
-      setFormData(data);
+      const response = await api.get(`/categories/${id}`);
+      setFormData(unwrap<CategoryFormData>(response.data));
     } catch (err) {
       console.error('Error fetching category:', err);
       setError('Failed to load category');
@@ -64,23 +56,20 @@ const CategoryForm: React.FC = () => {
     const { name, value, type } = e.target;
     setFormData(prev => ({
       ...prev,
-      [name]: type === 'checkbox' ? (e.target as HTMLInputElement).checked : value
+      [name]: type === 'checkbox'
+        ? (e.target as HTMLInputElement).checked
+        : name === 'parent_id'
+          ? (value ? Number(value) : null)
+          : value
     }));
   };
 
-  const generateSlug = (name: string) => {
-    return name
-      .toLowerCase()
-      .replace(/[^a-z0-9]+/g, '-')
-      .replace(/(^-|-$)/g, '');
-  };
-
   const handleNameChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const name = e.target.value;
     setFormData(prev => ({
       ...prev,
       name,
-      slug: generateSlug(name)
+      slug: slugify(name)
     }));
   };
 
@@ -90,26 +79,16 @@ const CategoryForm: React.FC = () => {
       setLoading(true);
       setError('');
 
-      const url = isEditing
-        ? `https://a.plumeriaretreat.com/admin/categories/${id}`
-        : 'https://a.plumeriaretreat.com/admin/categories';
-
-      const response = await fetch(url, {
-        method: isEditing ? 'PUT' : 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify(formData)
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to save category');
+      if (isEditing) {
+        await api.put(`/categories/${id}`, formData);
+      } else {
+        await api.post('/categories', formData);
       }
 
       navigate('/categories');
     } catch (err) {
       console.error('Error saving category:', err);
-      setError('Failed to save category');
+      setError(getErrorMessage(err, 'Failed to save category'));
     } finally {
       setLoading(false);
     }
@@ -225,11 +204,12 @@ const CategoryForm: React.FC = () => {
                     className="shadow-sm focus:ring-blue-500 focus:border-blue-500 block w-full sm:text-sm border-gray-300 rounded-md"
                   >
                     <option value="">None</option>
-                    {categories
-                      .filter(cat => cat.id !== Number(id))
-                      .map(category => (
+                    {buildCategoryOptions(categories)
+                      // A category can't be nested under itself or one of its own subcategories
+                      .filter(({ category }) => !isEditing || !getDescendantIds(categories, Number(id)).includes(category.id))
+                      .map(({ category, label }) => (
                         <option key={category.id} value={category.id}>
-                          {category.name}
+                          {label}
                         </option>
                       ))}
                   </select>
@@ -1,5 +1,6 @@
-import React, { useState, useEffect } from 'react';
+import { useState, useEffect } from 'react';
 import { MapPin, Plus, Trash2, Edit } from 'lucide-react';
+import { api, assertSuccess, getErrorMessage, isCanceled, unwrap, type ApiEnvelope } from '../lib/api';
 
 interface Location {
   id: number;
@@ -8,12 +9,6 @@ interface Location {
   active: boolean;
 }
 
-interface ApiResponse {
-  success: boolean;
-  data: Location[];
-  message: string;
-}
-
 const Locations = () => {
   const [locations, setLocations] = useState<Location[]>([]);
   const [showAddModal, setShowAddModal] = useState(false);
@@ -21,95 +16,42 @@ const Locations = () => {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
 
-  const API_BASE_URL = 'https://a.plumeriaretreat.com/admin/cities';
-
   // Fetch locations from the server
   useEffect(() => {
+    const controller = new AbortController();
+
     const fetchLocations = async () => {
-      console.log('🚀 Starting to fetch locations from:', API_BASE_URL);
-      
       try {
-        console.log('📡 Making fetch request...');
-        const response = await fetch(API_BASE_URL, {
-          method: 'GET',
-          headers: {
-            'Content-Type': 'application/json',
-            'Accept': 'application/json'
-          }
-        });
-        
-        console.log('📥 Response received:', {
-          status: response.status,
-          statusText: response.statusText,
-          ok: response.ok,
-          contentType: response.headers.get('content-type')
+        const response = await api.get<ApiEnvelope<Location[]> | Location[]>('/cities', {
+          signal: controller.signal,
         });
-        
-        if (!response.ok) {
-          throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-        }
-        
-        console.log(' Parsing JSON...');
-        const result: ApiResponse = await response.json();
-        console.log(' Parsed result:', result);
-        
-        // Handle the consistent API response structure
-        if (result.success && Array.isArray(result.data)) {
-          console.log(' Success format detected, setting locations:', result.data);
-          setLocations(result.data);
-          setError(''); // Clear any previous errors
-        } else if (Array.isArray(result)) {
-          // Fallback for direct array response
-          console.log(' Direct array format, setting locations:', result);
-          setLocations(result as unknown as Location[]);
-          setError('');
-        } else {
-          console.log(' Unexpected response format:', result);
-          throw new Error((result as any).message || 'Unexpected response format');
-        }
+        setLocations(unwrap(response.data));
+        setError('');
       } catch (err) {
-        console.error(' Error fetching locations:', err);
-        const errorMessage = err instanceof Error ? err.message : String(err);
-        console.error('Error details:', {
-          name: err instanceof Error ? err.name : 'Unknown',
-          message: errorMessage,
-          stack: err instanceof Error ? err.stack : ''
-        });
-        setError(errorMessage);
+        if (isCanceled(err)) return;
+        console.error('Error fetching locations:', err);
+        setError(getErrorMessage(err, 'Failed to load locations'));
         setLocations([]); // Set empty array on error
       } finally {
-        console.log('🏁 Fetch completed, setting loading to false');
-        setLoading(false);
+        if (!controller.signal.aborted) setLoading(false);
       }
     };
 
     fetchLocations();
+    return () => controller.abort();
   }, []);
 
   const handleDelete = async (id: number) => {
     if (window.confirm('Are you sure you want to delete this location?')) {
       try {
-        console.log('🗑️ Deleting location with ID:', id);
-        const response = await fetch(`${API_BASE_URL}/${id}`, {
-          method: 'DELETE',
-          headers: {
-            'Content-Type': 'application/json',
-          }
-        });
-        
-        const result = await response.json();
-        console.log('Delete response:', result);
-        
-        if (!response.ok || !result.success) {
-          throw new Error(result.message || 'Failed to delete location');
-        }
-        
+        const response = await api.delete<ApiEnvelope<unknown>>(`/cities/${id}`);
+        assertSuccess(response.data, 'Failed to delete location');
+
         // Remove from local state
         setLocations(locations.filter(location => location.id !== id));
-        console.log('✅ Location deleted successfully');
       } catch (err) {
         console.error('Error deleting location:', err);
-        setError(err instanceof Error ? err.message : String(err));
+        setError(getErrorMessage(err, 'Failed to delete location'));
       }
     }
   };
@@ -117,30 +59,16 @@ const Locations = () => {
   const handleAdd = async () => {
     if (newLocation.name.trim() && newLocation.country.trim()) {
       try {
-        console.log('➕ Adding new location:', newLocation);
-        const response = await fetch(API_BASE_URL, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            name: newLocation.name.trim(),
-            country: newLocation.country.trim(),
-            active: true,
-          }),
+        const response = await api.post<ApiEnvelope<Location>>('/cities', {
+          name: newLocation.name.trim(),
+          country: newLocation.country.trim(),
+          active: true,
         });
-
-        const result = await response.json();
-        console.log('Add response:', result);
-
-        if (!response.ok || !result.success) {
-          throw new Error(result.message || 'Failed to add location');
-        }
+        const result = assertSuccess(response.data, 'Failed to add location');
 
         // Add to local state
         if (result.data) {
           setLocations([...locations, result.data]);
-          console.log('✅ Location added successfully');
         }
         
         // Reset form
@@ -149,7 +77,7 @@ const Locations = () => {
         setError(''); // Clear any previous errors
       } catch (err) {
         console.error('Error adding location:', err);
-        setError(err instanceof Error ? err.message : String(err));
+        setError(getErrorMessage(err, 'Failed to add location'));
       }
     } else {
       setError('Please fill in both name and country fields');
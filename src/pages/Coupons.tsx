@@ -3,7 +3,10 @@ import {
   Plus, Search, Trash2, Edit2, XCircle, AlertCircle, CheckCircle,
   Calendar, Users, Percent, Copy, Check as CheckIcon, IndianRupee
 } from 'lucide-react';
-import axios from 'axios';
+import { useSearchParams } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import { api, assertSuccess, getErrorMessage } from '../lib/api';
+import { EXPIRING_SOON_DAYS, isCouponExpired, isCouponExpiringSoon } from '../lib/coupons';
 
 interface Coupon {
   id: number;
@@ -39,7 +42,10 @@ interface Accommodation {
   id: number;
   name: string
 }
-const API_BASE_URL = 'https://a.plumeriaretreat.com/admin';
+
+type CouponFilter = 'all' | 'active' | 'expiring' | 'inactive' | 'expired';
+
+const COUPON_FILTERS: CouponFilter[] = ['all', 'active', 'expiring', 'inactive', 'expired'];
 
 const defaultCoupon: CouponFormData = {
   code: '',
@@ -54,6 +60,7 @@ const defaultCoupon: CouponFormData = {
 };
 
 const Coupons: React.FC = () => {
+  const { can } = useAuth();
   const [coupons, setCoupons] = useState<Coupon[]>([]);
   const [loading, setLoading] = useState(true);
   const [actionLoading, setActionLoading] = useState<number | null>(null);
@@ -66,11 +73,16 @@ const Coupons: React.FC = () => {
   const [newCoupon, setNewCoupon] = useState<CouponFormData>({ ...defaultCoupon });
   const [copiedCode, setCopiedCode] = useState<string | null>(null);
   const [accommodation, setAccommodation] = useState<Accommodation[]>([]); // <-- Add this line
-  const [filter, setFilter] = useState<'all' | 'active' | 'inactive' | 'expired'>('all');
+  const [searchParams] = useSearchParams();
+  // Dashboard widgets link here with ?filter=expiring
+  const [filter, setFilter] = useState<CouponFilter>(() => {
+    const initial = searchParams.get('filter') as CouponFilter | null;
+    return initial && COUPON_FILTERS.includes(initial) ? initial : 'all';
+  });
 
   const fetchAccommodation = useCallback(async () => {
     try {
-      const response = await axios.get(`${API_BASE_URL}/properties/accommodations`);
+      const response = await api.get('/properties/accommodations');
       console.log('Accommodation response:', response.data);
 
       const accommodations = response.data?.data;
@@ -96,11 +108,9 @@ const Coupons: React.FC = () => {
     try {
       setLoading(true);
       setError('');
-      const url = search
-        ? `${API_BASE_URL}/coupons?search=${encodeURIComponent(search)}`
-        : `${API_BASE_URL}/coupons`;
-      const response = await fetch(url);
-      const data = await response.json();
+      const { data } = await api.get('/coupons', {
+        params: search ? { search } : undefined
+      });
       console.log('Coupons response:', data);
       if (data.success && Array.isArray(data.data)) {
         setCoupons(
@@ -170,23 +180,25 @@ const Coupons: React.FC = () => {
   }, []);
 
   const handleToggleStatus = async (id: number) => {
+    const coupon = coupons.find((c) => c.id === id);
     try {
       setActionLoading(id);
-      const response = await fetch(`${API_BASE_URL}/coupons/${id}/toggle`, {
-        method: 'PATCH',
-        headers: { 'Content-Type': 'application/json' }
+      const response = await api.patch(`/coupons/${id}/toggle`, undefined, {
+        audit: {
+          action: 'coupon.toggle',
+          entityType: 'coupon',
+          entityId: id,
+          summary: `${coupon?.active ? 'Deactivated' : 'Activated'} coupon ${coupon?.code ?? id}`,
+          before: { active: coupon?.active },
+          after: { active: !coupon?.active },
+        }
       });
+      const data = assertSuccess(response.data, 'Failed to update coupon status');
 
-      const data = await response.json();
-
-      if (response.ok && data.success) {
-        showMessage(data.message || 'Coupon status updated successfully', 'success');
-        await fetchCoupons();
-      } else {
-        throw new Error(data.message || 'Failed to update coupon status');
-      }
+      showMessage(data.message || 'Coupon status updated successfully', 'success');
+      await fetchCoupons();
     } catch (error) {
-      showMessage(error instanceof Error ? error.message : 'Failed to update coupon status', 'error');
+      showMessage(getErrorMessage(error, 'Failed to update coupon status'), 'error');
     } finally {
       setActionLoading(null);
     }
@@ -199,21 +211,13 @@ const Coupons: React.FC = () => {
 
     try {
       setActionLoading(id);
-      const response = await fetch(`${API_BASE_URL}/coupons/${id}`, {
-        method: 'DELETE',
-        headers: { 'Content-Type': 'application/json' }
-      });
+      const response = await api.delete(`/coupons/${id}`);
+      const data = assertSuccess(response.data, 'Failed to delete coupon');
 
-      const data = await response.json();
-
-      if (response.ok && data.success) {
-        showMessage(data.message || 'Coupon deleted successfully', 'success');
-        await fetchCoupons();
-      } else {
-        throw new Error(data.message || 'Failed to delete coupon');
-      }
+      showMessage(data.message || 'Coupon deleted successfully', 'success');
+      await fetchCoupons();
     } catch (error) {
-      showMessage(error instanceof Error ? error.message : 'Failed to delete coupon', 'error');
+      showMessage(getErrorMessage(error, 'Failed to delete coupon'), 'error');
     } finally {
       setActionLoading(null);
     }
@@ -241,35 +245,25 @@ const Coupons: React.FC = () => {
 
     try {
       setActionLoading(-1);
-      const response = await fetch(`${API_BASE_URL}/coupons`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          code: newCoupon.code.trim(),
-          discount: Number(newCoupon.discount),                 // ✅ corrected field name
-          discountType: newCoupon.discountType,
-          minAmount: newCoupon.minAmount ? Number(newCoupon.minAmount) : null,
-          maxDiscount: newCoupon.maxDiscount ? Number(newCoupon.maxDiscount) : null,
-          usageLimit: newCoupon.usageLimit ? Number(newCoupon.usageLimit) : null,
-          active: newCoupon.active,
-          expiryDate: newCoupon.expiryDate,
-          accommodationType: newCoupon.accommodationType || 'all',
-        }),
-
+      const response = await api.post('/coupons', {
+        code: newCoupon.code.trim(),
+        discount: Number(newCoupon.discount),                 // ✅ corrected field name
+        discountType: newCoupon.discountType,
+        minAmount: newCoupon.minAmount ? Number(newCoupon.minAmount) : null,
+        maxDiscount: newCoupon.maxDiscount ? Number(newCoupon.maxDiscount) : null,
+        usageLimit: newCoupon.usageLimit ? Number(newCoupon.usageLimit) : null,
+        active: newCoupon.active,
+        expiryDate: newCoupon.expiryDate,
+        accommodationType: newCoupon.accommodationType || 'all',
       });
+      const data = assertSuccess(response.data, 'Failed to create coupon');
 
-      const data = await response.json();
-
-      if (response.ok && data.success) {
-        showMessage(data.message || 'Coupon created successfully', 'success');
-        setShowAddModal(false);
-        setNewCoupon({ ...defaultCoupon });
-        await fetchCoupons();
-      } else {
-        throw new Error(data.message || 'Failed to create coupon');
-      }
+      showMessage(data.message || 'Coupon created successfully', 'success');
+      setShowAddModal(false);
+      setNewCoupon({ ...defaultCoupon });
+      await fetchCoupons();
     } catch (error) {
-      showMessage(error instanceof Error ? error.message : 'Failed to create coupon', 'error');
+      showMessage(getErrorMessage(error, 'Failed to create coupon'), 'error');
     } finally {
       setActionLoading(null);
     }
@@ -286,35 +280,25 @@ const Coupons: React.FC = () => {
 
     try {
       setActionLoading(editingCoupon.id || 0);
-      const response = await fetch(`${API_BASE_URL}/coupons/${editingCoupon.id}`, {
-        method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          code: editingCoupon.code.trim(),
-          discount: Number(editingCoupon.discount),             // ✅ Correct key!
-          discountType: editingCoupon.discountType,
-          minAmount: editingCoupon.minAmount ? Number(editingCoupon.minAmount) : null,
-          maxDiscount: editingCoupon.maxDiscount ? Number(editingCoupon.maxDiscount) : null,
-          usageLimit: editingCoupon.usageLimit ? Number(editingCoupon.usageLimit) : null,
-          active: editingCoupon.active,
-          expiryDate: editingCoupon.expiryDate,
-          accommodationType: editingCoupon.accommodationType || 'all',
-        }),
-
+      const response = await api.put(`/coupons/${editingCoupon.id}`, {
+        code: editingCoupon.code.trim(),
+        discount: Number(editingCoupon.discount),             // ✅ Correct key!
+        discountType: editingCoupon.discountType,
+        minAmount: editingCoupon.minAmount ? Number(editingCoupon.minAmount) : null,
+        maxDiscount: editingCoupon.maxDiscount ? Number(editingCoupon.maxDiscount) : null,
+        usageLimit: editingCoupon.usageLimit ? Number(editingCoupon.usageLimit) : null,
+        active: editingCoupon.active,
+        expiryDate: editingCoupon.expiryDate,
+        accommodationType: editingCoupon.accommodationType || 'all',
       });
+      const data = assertSuccess(response.data, 'Failed to update coupon');
 
-      const data = await response.json();
-
-      if (response.ok && data.success) {
-        showMessage(data.message || 'Coupon updated successfully', 'success');
-        setShowEditModal(false);
-        setEditingCoupon(null);
-        await fetchCoupons();
-      } else {
-        throw new Error(data.message || 'Failed to update coupon');
-      }
+      showMessage(data.message || 'Coupon updated successfully', 'success');
+      setShowEditModal(false);
+      setEditingCoupon(null);
+      await fetchCoupons();
     } catch (error) {
-      showMessage(error instanceof Error ? error.message : 'Failed to update coupon', 'error');
+      showMessage(getErrorMessage(error, 'Failed to update coupon'), 'error');
     } finally {
       setActionLoading(null);
     }
@@ -354,9 +338,7 @@ const Coupons: React.FC = () => {
     });
   };
 
-  const isExpired = (dateString: string) => {
-    return new Date(dateString) < new Date();
-  };
+  const isExpired = isCouponExpired;
 
   const getFilteredCoupons = () => {
     let filtered = coupons.filter(coupon =>
@@ -366,6 +348,8 @@ const Coupons: React.FC = () => {
     switch (filter) {
       case 'active':
         return filtered.filter(coupon => coupon.active && !isExpired(coupon.expiryDate));
+      case 'expiring':
+        return filtered.filter(isCouponExpiringSoon);
       case 'inactive':
         return filtered.filter(coupon => !coupon.active);
       case 'expired':
@@ -399,13 +383,15 @@ const Coupons: React.FC = () => {
           >
             {loading ? 'Refreshing...' : 'Refresh'}
           </button>
-          <button
-            onClick={() => setShowAddModal(true)}
-            className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
-          >
-            <Plus className="h-4 w-4 mr-2" />
-            Add Coupon
-          </button>
+          {can('coupons:edit') && (
+            <button
+              onClick={() => setShowAddModal(true)}
+              className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add Coupon
+            </button>
+          )}
         </div>
       </div>
 
@@ -462,7 +448,7 @@ const Coupons: React.FC = () => {
         </div>
 
         <div className="flex space-x-2">
-          {(['all', 'active', 'inactive', 'expired'] as const).map((filterType) => (
+          {COUPON_FILTERS.map((filterType) => (
             <button
               key={filterType}
               onClick={() => setFilter(filterType)}
@@ -471,7 +457,9 @@ const Coupons: React.FC = () => {
                 : 'bg-white text-gray-700 border border-gray-300 hover:bg-gray-50'
                 }`}
             >
-              {filterType.charAt(0).toUpperCase() + filterType.slice(1)}
+              {filterType === 'expiring'
+                ? `Expiring (${EXPIRING_SOON_DAYS}d)`
+                : filterType.charAt(0).toUpperCase() + filterType.slice(1)}
             </button>
           ))}
         </div>
@@ -638,7 +626,7 @@ const Coupons: React.FC = () => {
                       <td className="px-6 py-4 whitespace-nowrap">
                         <button
                           onClick={() => handleToggleStatus(coupon.id)}
-                          disabled={expired || actionLoading === coupon.id}
+                          disabled={expired || actionLoading === coupon.id || !can('coupons:edit')}
                           className={`inline-flex items-center px-3 py-1 rounded-full text-xs font-medium transition-colors ${expired
                             ? 'bg-red-100 text-red-800 cursor-not-allowed'
                             : coupon.active
@@ -659,22 +647,26 @@ const Coupons: React.FC = () => {
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                         <div className="flex space-x-2">
-                          <button
-                            onClick={() => openEditModal(coupon)}
-                            disabled={actionLoading === coupon.id}
-                            className="text-blue-600 hover:text-blue-900 disabled:opacity-50 transition-colors"
-                            title="Edit Coupon"
-                          >
-                            <Edit2 className="h-5 w-5" />
-                          </button>
-                          <button
-                            onClick={() => handleDelete(coupon.id)}
-                            disabled={actionLoading === coupon.id}
-                            className="text-red-600 hover:text-red-900 disabled:opacity-50 transition-colors"
-                            title="Delete Coupon"
-                          >
-                            <Trash2 className="h-5 w-5" />
-                          </button>
+                          {can('coupons:edit') && (
+                            <button
+                              onClick={() => openEditModal(coupon)}
+                              disabled={actionLoading === coupon.id}
+                              className="text-blue-600 hover:text-blue-900 disabled:opacity-50 transition-colors"
+                              title="Edit Coupon"
+                            >
+                              <Edit2 className="h-5 w-5" />
+                            </button>
+                          )}
+                          {can('coupons:delete') && (
+                            <button
+                              onClick={() => handleDelete(coupon.id)}
+                              disabled={actionLoading === coupon.id}
+                              className="text-red-600 hover:text-red-900 disabled:opacity-50 transition-colors"
+                              title="Delete Coupon"
+                            >
+                              <Trash2 className="h-5 w-5" />
+                            </button>
+                          )}
                         </div>
                       </td>
                     </tr>
@@ -1,8 +1,14 @@
-import React, { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
-import { ArrowLeft, Calendar, Building2, User, CreditCard, UtensilsCrossed } from 'lucide-react';
-import html2canvas from 'html2canvas';
-import jsPDF from 'jspdf';
+import React, { useState, useEffect, useRef } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { ArrowLeft, Calendar, Building2, User, CreditCard, UtensilsCrossed, History } from 'lucide-react';
+import { api, assertSuccess, getErrorMessage, isCanceled, unwrap, type ApiEnvelope } from '../lib/api';
+import type { AuditEntry } from '../lib/audit';
+import { getBookingStatusLabel, isBookingEditable, parseBookingStatus } from '../lib/bookingStatus';
+import { calculateQuote, getStayDates, type BookingQuote, type RatePlan } from '../lib/pricing';
+import { buildBookingValues, downloadBookingDocument } from '../lib/bookingDocuments';
+import { formatBookingRef, toLocalDateKey } from '../lib/bookingQueries';
+import { queueNotification, scheduleStayNotifications } from '../lib/notifications';
+import { fetchPayments, getLedgerTotals } from '../lib/payments';
 
 interface Accommodation {
   id: number;
@@ -20,6 +26,7 @@ interface Accommodation {
   type?: string;
   MaxPersonVilla?: number;
   RatePerPerson?: number; // This is the "Extra Person Charge" for villas
+  ratePlans?: RatePlan[];
 }
 
 interface Coupon {
@@ -38,41 +45,99 @@ interface BlockedDate {
   accommodation_id: number;
   blocked_date: string;
   rooms_blocked: number;
+  rooms?: number | null;
+  // Date-specific prices set from the Calendar page
+  adult_price?: number | null;
+  child_price?: number | null;
 }
 
-const _BASE_URL = 'https://a.plumeriaretreat.com';
+interface NightAvailability {
+  date: string;
+  booked: number;
+  blocked: number;
+  available: number;
+}
 
-// Helper function to calculate the number of nights
-const calculateNumberOfDays = (checkIn: string, checkOut: string): number => {
-  if (!checkIn || !checkOut) return 0;
-  
-  const startDate = new Date(checkIn);
-  const endDate = new Date(checkOut);
+// Rows saved from the Calendar page only to change prices block zero rooms
+const isPriceOnlyRow = (row: BlockedDate) => (row.rooms_blocked ?? row.rooms) === 0;
 
-  // Don't calculate if dates are invalid
-  if (endDate <= startDate) return 0;
+// A booking as returned by GET /bookings/:id, used to prefill the form in edit mode
+interface BookingRecord {
+  id: number;
+  guest_name: string;
+  guest_email: string;
+  guest_phone: string | null;
+  accommodation_id: number;
+  check_in: string;
+  check_out: string;
+  adults: number;
+  children: number;
+  extra_adults?: number | null;
+  rooms: number;
+  food_veg: number;
+  food_nonveg: number;
+  food_jain: number;
+  coupon?: string | null;
+  total_amount: string;
+  advance_amount: string;
+  status?: string | null;
+}
 
-  const diffTime = Math.abs(endDate.getTime() - startDate.getTime());
-  const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24)); 
-  
-  // This is the number of nights
-  return diffDays;
-};
+// The fields a modification can change, in the shape recorded in the audit trail
+const toBookingSnapshot = (booking: {
+  accommodation_id: number;
+  check_in: string;
+  check_out: string;
+  adults: number;
+  children: number;
+  extra_adults?: number | null;
+  rooms: number;
+  food_veg: number;
+  food_nonveg: number;
+  food_jain: number;
+  coupon?: string | null;
+  total_amount: number | string;
+}) => ({
+  accommodation_id: Number(booking.accommodation_id),
+  check_in: toLocalDateKey(booking.check_in),
+  check_out: toLocalDateKey(booking.check_out),
+  adults: Number(booking.adults) || 0,
+  children: Number(booking.children) || 0,
+  extra_adults: Number(booking.extra_adults) || 0,
+  rooms: Number(booking.rooms) || 0,
+  food_veg: Number(booking.food_veg) || 0,
+  food_nonveg: Number(booking.food_nonveg) || 0,
+  food_jain: Number(booking.food_jain) || 0,
+  coupon: booking.coupon || '',
+  total_amount: parseFloat(String(booking.total_amount)) || 0,
+});
 
 const CreateBooking: React.FC = () => {
   const navigate = useNavigate();
+  const { id: bookingId } = useParams();
+  const isEditing = bookingId !== undefined;
   const [loading, setLoading] = useState(false);
+  const [fetchingBooking, setFetchingBooking] = useState(isEditing);
+  const [originalBooking, setOriginalBooking] = useState<BookingRecord | null>(null);
+  const [history, setHistory] = useState<AuditEntry[]>([]);
+  // Net amount paid on the booking being edited, from its payment ledger; null until loaded
+  const [paidSoFar, setPaidSoFar] = useState<number | null>(null);
+  // Values from the loaded booking that must survive the reset done when accommodation details arrive
+  const prefillRef = useRef<Record<string, string> | null>(null);
+  const pendingCouponRef = useRef<string | null>(null);
   const [accommodations, setAccommodations] = useState<Accommodation[]>([]);
   const [selectedAccommodation, setSelectedAccommodation] = useState<Accommodation | null>(null);
   const [availableCoupons, setAvailableCoupons] = useState<Coupon[]>([]);
   const [allApplicableCoupons, setAllApplicableCoupons] = useState<Coupon[]>([]);
   const [appliedCoupon, setAppliedCoupon] = useState<Coupon | null>(null);
+  const [quote, setQuote] = useState<BookingQuote | null>(null);
   const [availableRooms, setAvailableRooms] = useState<number>(0);
   const [bookedRooms, setBookedRooms] = useState<number>(0);
   const [blockedDates, setBlockedDates] = useState<BlockedDate[]>([]);
-  const [dateError, setDateError] = useState<string | null>(null);
-  const [showRoomAvailability, setShowRoomAvailability] = useState(false);
+    const [showRoomAvailability, setShowRoomAvailability] = useState(false);
   const [blockedRoomsCount, setBlockedRoomsCount] = useState<number>(0);
+  const [nightlyAvailability, setNightlyAvailability] = useState<NightAvailability[]>([]);
+  const [availabilityError, setAvailabilityError] = useState<string | null>(null);
   const [formData, setFormData] = useState({
     guest_name: '',
     guest_email: '',
@@ -108,8 +173,7 @@ const CreateBooking: React.FC = () => {
     const fetchAccommodations = async () => {
       try {
         setLoading(true);
-        const response = await fetch(`${_BASE_URL}/admin/properties/accommodations`);
-        const data = await response.json();
+        const { data } = await api.get('/properties/accommodations');
 
         const accommodationsData = data.data || [];
         if (Array.isArray(accommodationsData)) {
@@ -132,8 +196,7 @@ const CreateBooking: React.FC = () => {
   useEffect(() => {
     const fetchBlockedDates = async () => {
       try {
-        const response = await fetch(`${_BASE_URL}/admin/calendar/blocked-dates`);
-        const data = await response.json();
+        const { data } = await api.get('/calendar/blocked-dates');
         if (data.success && Array.isArray(data.data)) {
           setBlockedDates(data.data);
         }
@@ -145,6 +208,76 @@ const CreateBooking: React.FC = () => {
     fetchBlockedDates();
   }, []);
 
+  useEffect(() => {
+    if (!isEditing) return;
+    const controller = new AbortController();
+
+    const fetchBooking = async () => {
+      try {
+        setFetchingBooking(true);
+        const { data } = await api.get<ApiEnvelope<BookingRecord>>(`/bookings/${bookingId}`, {
+          signal: controller.signal
+        });
+        const booking = assertSuccess(data, 'Failed to load booking').data;
+
+        const prefill = {
+          guest_name: booking.guest_name || '',
+          guest_email: booking.guest_email || '',
+          guest_phone: booking.guest_phone || '',
+          accommodation_id: String(booking.accommodation_id),
+          check_in: toLocalDateKey(booking.check_in),
+          check_out: toLocalDateKey(booking.check_out),
+          adults: String(booking.adults || 1),
+          children: String(booking.children || 0),
+          extra_adults: String(booking.extra_adults || 0),
+          rooms: String(booking.rooms || 1),
+          food_veg: String(booking.food_veg || 0),
+          food_nonveg: String(booking.food_nonveg || 0),
+          food_jain: String(booking.food_jain || 0),
+          coupon_code: booking.coupon || '',
+          advance_amount: booking.advance_amount || '0',
+          notes: ''
+        };
+        prefillRef.current = prefill;
+        setOriginalBooking(booking);
+        setFormData(prev => ({ ...prev, ...prefill }));
+      } catch (error) {
+        if (isCanceled(error)) return;
+        console.error('Error fetching booking:', error);
+        alert(getErrorMessage(error, 'Failed to load booking'));
+        navigate('/bookings');
+      } finally {
+        if (!controller.signal.aborted) setFetchingBooking(false);
+      }
+    };
+
+    const fetchHistory = async () => {
+      try {
+        const { data } = await api.get('/audit-logs', {
+          params: { entity_type: 'booking', entity_id: bookingId, limit: 50 },
+          signal: controller.signal
+        });
+        setHistory(unwrap<AuditEntry[]>(data));
+      } catch (error) {
+        if (!isCanceled(error)) console.error('Error fetching booking history:', error);
+      }
+    };
+
+    const fetchPaidSoFar = async () => {
+      try {
+        const entries = await fetchPayments(Number(bookingId), controller.signal);
+        setPaidSoFar(getLedgerTotals(0, entries).net);
+      } catch (error) {
+        if (!isCanceled(error)) console.error('Error fetching booking payments:', error);
+      }
+    };
+
+    fetchBooking();
+    fetchHistory();
+    fetchPaidSoFar();
+    return () => controller.abort();
+  }, [isEditing, bookingId, navigate]);
+
   useEffect(() => {
     const fetchApplicableCoupons = async () => {
       if (!selectedAccommodation) {
@@ -153,8 +286,7 @@ const CreateBooking: React.FC = () => {
       }
 
       try {
-        const response = await fetch(`${_BASE_URL}/admin/coupons`);
-        const data = await response.json();
+        const { data } = await api.get('/coupons');
 
         if (data.success && Array.isArray(data.data)) {
           const filteredCoupons = data.data.filter((coupon: Coupon) => {
@@ -177,6 +309,18 @@ const CreateBooking: React.FC = () => {
     fetchApplicableCoupons();
   }, [selectedAccommodation]);
 
+  // Re-apply the coupon the booking was made with once the applicable coupons are known
+  useEffect(() => {
+    const code = pendingCouponRef.current;
+    if (!code || allApplicableCoupons.length === 0) return;
+
+    pendingCouponRef.current = null;
+    const coupon = allApplicableCoupons.find(c => c.code.toLowerCase() === code.toLowerCase());
+    if (coupon) {
+      setAppliedCoupon(coupon);
+    }
+  }, [allApplicableCoupons]);
+
   useEffect(() => {
     if (formData.coupon_code) {
       const searchTerm = formData.coupon_code.toLowerCase();
@@ -191,11 +335,7 @@ const CreateBooking: React.FC = () => {
 
   const fetchAccommodationDetails = async (id: string) => {
     try {
-      const response = await fetch(`${_BASE_URL}/admin/properties/accommodations/${id}`);
-      if (!response.ok) {
-        throw new Error('Failed to fetch accommodation details');
-      }
-      const data = await response.json();
+      const { data } = await api.get(`/properties/accommodations/${id}`);
       console.log(data);
       const accommodation: Accommodation = {
         id: data.id,
@@ -218,13 +358,30 @@ const CreateBooking: React.FC = () => {
         // We do the same for 'MaxPersonVilla' just in case.
         
         MaxPersonVilla: data.basicInfo?.MaxPersonVilla || undefined, 
-        RatePerPerson: data.basicInfo?.RatePersonVilla || undefined 
+        RatePerPerson: data.basicInfo?.RatePersonVilla || undefined,
+        ratePlans: data.packages?.ratePlans || []
       };
       
       setSelectedAccommodation(accommodation);
       setAvailableRooms(0);
       setShowRoomAvailability(false);
       setAppliedCoupon(null);
+
+      // On the first load in edit mode keep the booking's own values instead of resetting them
+      const prefill = prefillRef.current;
+      prefillRef.current = null;
+      if (prefill && prefill.accommodation_id === id) {
+        pendingCouponRef.current = prefill.coupon_code || null;
+        setFormData(prev => ({
+          ...prev,
+          coupon_code: prefill.coupon_code,
+          children: prefill.children,
+          extra_adults: prefill.extra_adults,
+          rooms: prefill.rooms
+        }));
+        return;
+      }
+
       // Reset conditional fields when accommodation changes
       setFormData(prev => ({
         ...prev,
@@ -237,18 +394,12 @@ const CreateBooking: React.FC = () => {
       console.error('Error fetching accommodation details:', error);
     }
   }
+  // Failures are thrown rather than read as an empty night, so availability never fails open
   const fetchBookedRooms = async (accommodationId: number, checkInDate: string) => {
-    try {
-      const response = await fetch(`${_BASE_URL}/admin/bookings/room-occupancy?check_in=${checkInDate}&id=${accommodationId}`);
-      if (!response.ok) {
-        throw new Error('Failed to fetch booked rooms');
-      }
-      const data = await response.json();
-      return data.total_rooms || 0;
-    } catch (error) {
-      console.error('Error fetching booked rooms:', error);
-      return 0;
-    }
+    const { data } = await api.get<{ total_rooms?: number }>('/bookings/room-occupancy', {
+      params: { check_in: checkInDate, id: accommodationId }
+    });
+    return data.total_rooms || 0;
   };
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
@@ -278,34 +429,66 @@ const CreateBooking: React.FC = () => {
         setFormData(prev => ({ ...prev, check_out: nextDayString }));
       }
 
-      validateDates(formData.check_in, nextDayString);
     }
-  }, [formData.check_in]);
+  }, [formData.check_in, formData.check_out]);
 
   useEffect(() => {
+    let cancelled = false;
+
     const calculateAvailableRooms = async () => {
       if (!formData.accommodation_id || !formData.check_in || !selectedAccommodation) {
         setAvailableRooms(0);
+        setNightlyAvailability([]);
+        setAvailabilityError(null);
         return;
       }
 
       const accommodationId = parseInt(formData.accommodation_id);
-      const booked = await fetchBookedRooms(accommodationId, formData.check_in);
-
-      setBookedRooms(booked);
+      const totalRooms = selectedAccommodation.available_rooms || 0;
+      // Every night of the stay; just the check-in night until a valid check-out is picked
+      const stayDates = getStayDates(formData.check_in, formData.check_out);
+      const nights = stayDates.length > 0 ? stayDates : [formData.check_in];
 
-      const blockedForDate = blockedDates.find(
-        b => b.accommodation_id === accommodationId && b.blocked_date === formData.check_in
-      );
-      const blockedRooms = blockedForDate ? blockedForDate.rooms_blocked : 0;
-      setBlockedRoomsCount(blockedRooms);
+      let bookedPerNight: number[];
+      try {
+        bookedPerNight = await Promise.all(nights.map(date => fetchBookedRooms(accommodationId, date)));
+      } catch (error) {
+        if (cancelled) return;
+        console.error('Error fetching booked rooms:', error);
+        setNightlyAvailability([]);
+        setAvailableRooms(0);
+        setAvailabilityError(getErrorMessage(error, 'Could not check room availability for these dates'));
+        return;
+      }
+      if (cancelled) return;
+      setAvailabilityError(null);
+
+      const availability = nights.map((date, index): NightAvailability => {
+        // The booking being edited already counts towards occupancy on its original dates
+        const ownRooms =
+          originalBooking &&
+          originalBooking.accommodation_id === accommodationId &&
+          date >= toLocalDateKey(originalBooking.check_in) &&
+          date < toLocalDateKey(originalBooking.check_out)
+            ? originalBooking.rooms || 1
+            : 0;
+        const booked = Math.max((bookedPerNight[index] || 0) - ownRooms, 0);
+
+        // Price-only rows from the Calendar page don't take any rooms
+        const blocked = blockedDates
+          .filter(b => b.accommodation_id === accommodationId && toLocalDateKey(b.blocked_date) === date && !isPriceOnlyRow(b))
+          .reduce((sum, b) => sum + ((b.rooms_blocked ?? b.rooms) || 0), 0);
+
+        return { date, booked, blocked, available: Math.max(totalRooms - booked - blocked, 0) };
+      });
 
-      const totalRooms = selectedAccommodation.available_rooms || 0;
-      const bookedCount = booked || 0;
-      const blockedCount = blockedRooms || 0;
+      // The tightest night caps how many rooms the whole stay can have
+      const tightest = availability.reduce((min, night) => (night.available < min.available ? night : min));
+      const availableRoomsValue = tightest.available;
 
-      const available = totalRooms - bookedCount - blockedCount;
-      const availableRoomsValue = Math.max(available, 0);
+      setNightlyAvailability(availability);
+      setBookedRooms(tightest.booked);
+      setBlockedRoomsCount(tightest.blocked);
       setAvailableRooms(availableRoomsValue);
       setShowRoomAvailability(true);
       
@@ -321,67 +504,25 @@ const CreateBooking: React.FC = () => {
     };
 
     calculateAvailableRooms();
-  }, [formData.accommodation_id, formData.check_in, blockedDates, selectedAccommodation]);
-
-  const validateDates = (checkIn: string, checkOut: string) => {
-    if (!checkIn || !checkOut) return;
-
-    const startDate = new Date(checkIn);
-    const endDate = new Date(checkOut);
-    const accommodationId = parseInt(formData.accommodation_id);
-
-    if (!accommodationId) return;
-
-    const accommodationBlockedDates = blockedDates.filter(
-      date => date.accommodation_id === accommodationId
-    );
-
-    let errorDate: string | null = null;
-    for (let d = new Date(startDate); d < endDate; d.setDate(d.getDate() + 1)) {
-      const dateString = d.toISOString().split('T')[0];
-
-      const isBlocked = accommodationBlockedDates.some(
-        blocked => blocked.blocked_date === dateString
-      );
-
-      if (isBlocked) {
-        errorDate = dateString;
-        break;
-      }
-    }
-
-    setDateError(errorDate ? `The date ${errorDate} is blocked for this accommodation` : null);
-  };
-
-  const calculateDiscount = (totalAmount: number, coupon: Coupon | null): number => {
-    if (!coupon) return totalAmount;
-
-    const discount = parseFloat(coupon.discount);
-    const minAmount = coupon.minAmount ? parseFloat(coupon.minAmount) : 0;
-    const maxDiscount = coupon.maxDiscount ? parseFloat(coupon.maxDiscount) : Infinity;
-
-    if (totalAmount < minAmount) {
-      return totalAmount;
-    }
-
-    let discountedAmount = totalAmount;
-
-    if (coupon.discountType === 'percentage') {
-      const discountValue = totalAmount * (discount / 100);
-      const finalDiscount = Math.min(discountValue, maxDiscount);
-      discountedAmount = totalAmount - finalDiscount;
-    } else {
-      discountedAmount = totalAmount - discount;
-    }
-
-    return Math.max(0, discountedAmount);
-  };
-
-  //
-  // --- *** 🚀 CHANGE 1: UPDATED PRICE CALCULATION LOGIC *** ---
-  //
+    return () => {
+      cancelled = true;
+    };
+  }, [formData.accommodation_id, formData.check_in, formData.check_out, blockedDates, selectedAccommodation, originalBooking]);
+
+  // A night only stops the booking when it has fewer rooms left than requested, using the same
+  // per-night inventory as the availability strip (partial blocks just reduce what is left)
+  const requestedRooms = selectedAccommodation?.type === 'Villa' ? 1 : Math.max(parseInt(formData.rooms) || 0, 1);
+  const shortNight = nightlyAvailability.find(night => night.available < requestedRooms);
+  const dateError = shortNight
+    ? shortNight.available === 0
+      ? `No rooms are left on ${shortNight.date} for this accommodation`
+      : `Only ${shortNight.available} room(s) are left on ${shortNight.date} for this accommodation`
+    : null;
+
+  // Reprice whenever the accommodation, dates, guests, calendar prices or coupon change (see lib/pricing)
   useEffect(() => {
     if (!selectedAccommodation) {
+      setQuote(null);
       setFormData(prev => ({
         ...prev,
         total_amount: '',
@@ -390,62 +531,24 @@ const CreateBooking: React.FC = () => {
       return;
     }
 
-    const adults = parseInt(formData.adults) || 0;
-    const children = parseInt(formData.children) || 0;
-    const extra_adults = parseInt(formData.extra_adults) || 0;
-    
-    // Calculate number of days (or nights)
-    const numberOfDays = calculateNumberOfDays(formData.check_in, formData.check_out);
-
-    if (numberOfDays === 0) {
-        // If dates are not set or are invalid, set price to 0
-        setFormData(prev => ({
-        ...prev,
-        total_amount: '0.00',
-        discounted_amount: '0.00'
-      }));
-      return;
-    }
-
-    let baseTotal = 0;
-
-    // Handle different pricing logic for villas
-  
-
-    if (selectedAccommodation.type === 'Villa') {
-      
-      console.log(selectedAccommodation);
-      // NEW LOGIC: (One Villa Price + (Extra Person Rate * extra persons)) * days
-      
-      // 1. This is the flat "one villa price" (e.g., for up to 15 guests)
-      //    We use 'adultPrice' field to store the flat villa rate.
-      const villaPricePerDay = (selectedAccommodation.adultPrice || 0);
-      
-      // 2. This is the "per person charge" only for extra adults
-      const extraPersonChargePerDay = (selectedAccommodation.RatePerPerson || 0) * extra_adults;
-      console.log('Extra Person Charge Per Day:', extraPersonChargePerDay);
-      
-      // 3. Add them together for the total daily rate
-      const totalPerDayPerVilla = Number(villaPricePerDay) + Number(extraPersonChargePerDay);
-      console.log('Total Per Day Per Villa:', Number(totalPerDayPerVilla));
-      
-      baseTotal = totalPerDayPerVilla * numberOfDays; 
-
-    } else {
-      // Regular logic: ((Adult price * adults) + (Child price * children)) * days
-      const adultPricePerDay = (selectedAccommodation.adultPrice || 0) * adults;
-      const childPricePerDay = (selectedAccommodation.childPrice || 0) * children;
-      const totalPerDay = adultPricePerDay + childPricePerDay;
-      
-      baseTotal = totalPerDay * numberOfDays;
-    }
-
-    const discountedTotal = calculateDiscount(baseTotal, appliedCoupon);
-
+    const nextQuote = calculateQuote({
+      accommodation: selectedAccommodation,
+      checkIn: formData.check_in,
+      checkOut: formData.check_out,
+      guests: {
+        adults: parseInt(formData.adults) || 0,
+        children: parseInt(formData.children) || 0,
+        extraAdults: parseInt(formData.extra_adults) || 0
+      },
+      overrides: blockedDates.filter(b => b.accommodation_id === selectedAccommodation.id),
+      coupon: appliedCoupon
+    });
+
+    setQuote(nextQuote);
     setFormData(prev => ({
       ...prev,
-      total_amount: baseTotal.toFixed(2),
-      discounted_amount: discountedTotal.toFixed(2)
+      total_amount: nextQuote.baseTotal.toFixed(2),
+      discounted_amount: nextQuote.total.toFixed(2)
     }));
   }, [
     selectedAccommodation,
@@ -455,734 +558,10 @@ const CreateBooking: React.FC = () => {
     formData.rooms, 
     formData.check_in,  
     formData.check_out, 
+    blockedDates,
     appliedCoupon
   ]);
   
-  const downloadPdf = (
-    email: string,
-    name: string,
-    BookingId: string,
-    CheckinDate: string,
-    CheckoutDate: string,
-    totalPrice: number,
-    advancePayable: number,
-    remainingAmount: number,
-    mobile: string,
-    totalPerson: number,
-    adult: number,
-    child: number,
-    extra_adults: number, // Added param
-    vegCount: number,
-    nonvegCount: number,
-    joinCount: number,
-    accommodationName: string,
-    accommodationAddress: string,
-    latitude: string,
-	  coupon : string,
-	  discount : number,
-	  full_amount : number,
-    rooms: number,
-    ownerName: string,
-    ownerPhone: string,
-    longitude: string,
-    owner_email: string) => {
-    const today: Date = new Date();
-
-    const day: string = String(today.getDate()).padStart(2, '0');
-    const month: string = String(today.getMonth() + 1).padStart(2, '0'); // Months are 0-indexed
-    const year: number = today.getFullYear();
-
-    // Conditionally create the child/extra adult HTML
-    const guestDetailHtml = selectedAccommodation?.type === 'Villa'
-      ? `<p style="padding-bottom: 5px;margin: 0px;">Extra Adults: <b>${extra_adults}</b></p>`
-      : `<p style="padding-bottom: 5px;margin: 0px;">Child: <b>${child}</b></p>`;
-
-    // Conditionally create food count HTML
-    const foodDetailHtml = selectedAccommodation?.type !== 'Villa'
-    ? `<p style="padding-bottom: 5px;margin: 0px;">Veg Count: <b>${vegCount}</b></p>
-       <p style="padding-bottom: 5px;margin: 0px;">Non Veg Count: <b>${nonvegCount}</b></p>
-       <p style="padding-bottom: 5px;margin: 0px;">Jain Count: <b>${joinCount}</b></p>`
-    : '';
-
-    // Conditionally create rooms HTML (only show if not a villa)
-    const roomDetailHtml = selectedAccommodation?.type !== 'Villa'
-    ? `<p style="padding-bottom: 5px;margin: 0px;">Rooms: <b>${rooms}</b></p>`
-    : '';
-
-    const BookingDate: string = `${year}-${month}-${day}`;
-    const html = `<!DOCTYPE html
-  PUBLIC "-//W3C//DTD XHTML 1.0 Transitional//EN" "http://www.w3.org/TR/xhtml1/DTD/xhtml1-transitional.dtd">
-<html xmlns="http://www.w3.org/1999/xhtml" xmlns:v="urn:schemas-microsoft-com:vml"
-  xmlns:o="urn:schemas-microsoft-com:office:office">
-
-<head>
-  <meta http-equiv="Content-type" content="text/html; charset=utf-8" />
-  <meta name="viewport" content="width=device-width, initial-scale=1, maximum-scale=1" />
-  <meta http-equiv="X-UA-Compatible" content="IE=edge" />
-  <meta name="format-detection" content="date=no" />
-  <meta name="format-detection" content="address=no" />
-  <meta name="format-detection" content="telephone=no" />
-  <meta name="x-apple-disable-message-reformatting" />
-  <link href="https://fonts.googleapis.com/css?family=Lato:400,400i,700,700i" rel="stylesheet" />
-  <title>Booking</title>
-  <link rel="shortcut icon" href="images/favicon.png">
-
-
-  <style type="text/css" media="screen">
-    body {
-      padding: 0 !important;
-      margin: 0 !important;
-      display: block !important;
-      min-width: 100% !important;
-      width: 100% !important;
-      background: #ffffff;
-      -webkit-text-size-adjust: none
-    }
-
-    a {
-      color: #000001;
-      text-decoration: none
-    }
-
-    p {
-      margin: 0 !important;
-    }
-
-    img {
-      -ms-interpolation-mode: bicubic;
-    }
-
-    .mcnPreviewText {
-      display: none !important;
-    }
-
-    .cke_editable,
-    .cke_editable a,
-    .cke_editable span,
-    .cke_editable a span {
-      color: #000001 !important;
-    }
-
-    @media only screen and (max-device-width: 480px),
-    only screen and (max-width: 480px) {
-      .mobile-shell {
-        width: 100% !important;
-        min-width: 100% !important;
-        padding: 0 3px;
-      }
-
-      .bg {
-        background-size: 100% auto !important;
-        -webkit-background-size: 100% auto !important;
-      }
-
-      .text-header,
-      .m-center {
-        text-align: center !important;
-      }
-
-      .center {
-        margin: 0 auto !important;
-      }
-
-      .container {
-        padding: 20px 10px !important
-      }
-
-      .td {
-        width: 100% !important;
-        min-width: 100% !important;
-      }
-
-      .m-td,
-      .m-hide {
-        display: none !important;
-        width: 0 !important;
-        height: 0 !important;
-        font-size: 0 !important;
-        line-height: 0 !important;
-        min-height: 0 !important;
-      }
-
-      .m-block {
-        display: block !important;
-      }
-
-      .column,
-      .column-dir,
-      .column-top,
-      .column-empty,
-      .column-empty2,
-      .column-dir-top {
-        float: left !important;
-        width: 100% !important;
-        display: block !important;
-      }
-
-      .column-empty {
-        padding-bottom: 30px !important;
-      }
-
-      .column-empty2 {
-        padding-bottom: 10px !important;
-      }
-
-      .content-spacing {
-        width: 15px !important;
-      }
-
-      /*
-       * THIS IS THE CRITICAL FIX: "and (screen)"
-       * This tells the mobile styles NOT to run during printing.
-      */
-      @media (max-width:600px) and (screen) {
-        .logoimg {
-          padding-top: 5px !important;
-        }
-
-        .logoimg img {
-          width: 130px !important;
-          height: 28px !important;
-        }
-
-        .mainhead {
-          font-size: 12px !important;
-        }
-
-        table th,
-        table td {
-          font-size: 7px !important;
-          line-height: 12px !important;
-          padding-bottom: 2px !important;
-        }
-
-        table.border-table th {
-          padding-top: 2px !important;
-        }
-
-        .paypd {
-          padding: 0px 2px !important;
-          font-size: 7px !important;
-          margin-bottom: 4px !important;
-        }
-
-        .p30-15 {
-          padding: 6px 0px 0 !important;
-        }
-
-        .socialimgs td,
-        .socialimgs td img {
-          width: 24px !important;
-          height: 24px !important;
-          padding: 0 1px;
-        }
-
-        .footertd {
-          padding: 12px 0 !;
-        }
-
-        .bordr {
-          border-top-width: 2px !important;
-        }
-
-        .mobheadpb {
-          padding-bottom: 8px !important;
-        }
-      }
-    }
-
-    /* --- PRINT STYLES --- */
-    /* This will override ALL mobile styles when creating a PDF */
-    /* This forces the 675px DESKTOP layout for ALL PDFs */
-    @media print {
-      body {
-        background: #ffffff !important;
-        width: 675px !important; /* Force desktop width */
-        min-width: 675px !important;
-        margin: 0 !important;
-        padding: 0 !important;
-      }
-
-      .mobile-shell {
-        width: 675px !important;
-        min-width: 675px !important;
-        padding: 0 !important; /* Remove mobile padding */
-      }
-
-      /* --- RESET ALL MOBILE FONT SIZES --- */
-
-      .mainhead {
-        font-size: 22px !important; /* Reset from mobile's 12px */
-      }
-
-      table th,
-      table td {
-        font-size: 13px !important; /* Reset from mobile's 7px */
-        line-height: 1.4 !important; /* Reset from mobile's 12px */
-      }
-
-      /* Reset specific desktop font sizes */
-      table.border-table th {
-        font-size: 13.5px !important;
-        line-height: 16px !important;
-      }
-
-      table.border-table td {
-        font-size: 13px !important;
-        line-height: 15px !important;
-      }
-
-      .pb25 {
-        font-size: 15px !important;
-        line-height: 22px !important;
-      }
-
-      /* --- RESET LOGO IMAGE SIZE --- */
-      .logoimg img {
-        width: auto !important; /* Reset from mobile's 130px */
-        height: 55px !important; /* Reset from mobile's 28px */
-      }
-
-      /* --- HIDE UNNECESSARY GUTTERS --- */
-      .m-td {
-        display: none !important;
-      }
-    }
-  </style>
-
-</head>
-
-<body class="body"
-  style="padding:0 !important; margin:0 !important; display:block !important; min-width:100% !important; width:100% !important; background:#ffffff; -webkit-text-size-adjust:none;">
-  <span class="mcnPreviewText"
-    style="display:none; font-size:0px; line-height:0px; max-height:0px; max-width:0px; opacity:0; overflow:hidden; visibility:hidden; mso-hide:all;"></span>
-
-  <table width="100%" border="0" cellspacing="0" cellpadding="0" bgcolor="#f4f4f4">
-    <tr>
-      <td align="center" valign="top">
-        <div mc:repeatable="Select" mc:variant="Hero Image">
-          <table width="100%" border="0" cellspacing="0" cellpadding="0">
-            <tr>
-              <td class="m-td" valign="top" style="font-size:0pt; line-height:0pt; text-align:left;">
-                <table width="100%" border="0" cellspacing="0" cellpadding="0" bgcolor="#f4f4f4" class="border"
-                  style="font-size:0pt; line-height:0pt; text-align:center; width:100%; min-width:100%;">
-                  <tr>
-                    <td bgcolor="#f4f4f4" height="auto" class="border"
-                      style="font-size:0pt; line-height:0pt; text-align:center; width:100%; min-width:100%;"> </td>
-                  </tr>
-                </table>
-              </td>
-              <td valign="center" align="center" class="bordr mobile-shell" width="675" bgcolor="#ffffff"
-                style="border-bottom: 3px solid #216896;">
-                <table width="675" border="0" cellspacing="0" cellpadding="0" class="mobile-shell">
-                  <tr>
-                    <td class="td"
-                      style="padding-top: 60px; width:675px; min-width:675px; font-size:0pt; line-height:0pt; padding:0; margin:0; font-weight:normal;">
-                      <table width="100%" border="0" cellspacing="0" cellpadding="0">
-                        <tr>
-                          <td class="p30-15" style="padding: 12px;">
-                            <table width="100%" border="0" cellspacing="0" cellpadding="0">
-                              <tr>
-                                <td class="h2 pb25 mainhead"
-                                  style="color:#444444; font-family:Lato, Arial ,sans-serif; font-size:22px; font-weight:bold; line-height:24px;padding-bottom:8px;">
-                                  <div mc:edit="text_2">${accommodationName} </div>
-                                </td>
-                              </tr>
-                              <tr>
-                                <td class="pb25"
-                                  style="color:#000000; font-family:Lato, Arial,sans-serif; font-size:15px; line-height:15px; padding-bottom:8px;width:100%;padding-right: 6px;">
-                                  <div mc:edit="text_3">Booking ID - <b>${BookingId}</b></div>
-                                </td>
-                              </tr>
-                              <tr>
-                                <td class="pb25"
-                                  style="color:#000000; font-family:Lato, Arial,sans-serif; font-size:14px; line-height:15px; padding-bottom:0;width:100%;padding-right: 5px;">
-                                  <div mc:edit="text_3">Booking Date - <span>${BookingDate}</span></div>
-                                </td>
-                              </tr>
-                            </table>
-                          </td>
-                          <td class="fluid-img logoimg"
-                            style="font-size:0pt; line-height:0pt; text-align:right;background:#ffffff;padding-right: 6px;">
-                            <img src="https://plumeriaretreat.com/assets/plumeria-removebg-preview-CWtMayYt.png"
-                              width="auto" height="55" mc:edit="image_2" style="max-height:55px;" border="0"
-                              alt="Logo" />
-                          </td>
-                        </tr>
-                      </table>
-                    </td>
-                  </tr>
-                </table>
-              </td>
-              <td class="m-td" valign="top" style="font-size:0pt; line-height:0pt; text-align:left;">
-                <table width="100%" border="0" cellspacing="0" cellpadding="0" bgcolor="#f4f4f4" class="border"
-                  style="font-size:0pt; line-height:0pt; text-align:center; width:100%; min-width:100%;">
-                  <tr>
-                    <td bgcolor="#f4f4f4" height="auto" class="border"
-                      style="font-size:0pt; line-height:0pt; text-align:center; width:100%; min-width:100%;"> </td>
-                  </tr>
-                </table>
-              </td>
-            </tr>
-          </table>
-        </div>
-
-
-        <div mc:repeatable="Select" mc:variant="Intro">
-          <table width="100%" border="0" cellspacing="0" cellpadding="0" bgcolor="#f4f4f4">
-            <tr>
-              <td class="m-td" valign="top" style="font-size:0pt; line-height:0pt; text-align:left;">
-                <table width="100%" border="0" cellspacing="0" cellpadding="0" bgcolor="#ffffff" class="border"
-                  style="font-size:0pt; line-height:0pt; text-align:center; width:100%; min-width:100%;">
-                  <tr>
-                    <td bgcolor="#f4f4f4" height="150" class="border"
-                      style="font-size:0pt; line-height:0pt; text-align:center; width:100%; min-width:100%;"> </td>
-                  </tr>
-                </table>
-              </td>
-              <td valign="top" align="center" class="mobile-shell p0-15" width="675" bgcolor="#ffffff">
-                <table width="675" border="0" cellspacing="0" cellpadding="0" class="mobile-shell">
-                  <tr>
-                    <td class="td"
-                      style="width:675px; min-width:675px; font-size:0pt; line-height:0pt; padding:0; margin:0; font-weight:normal;">
-                      <table width="100%" border="0" cellspacing="0" cellpadding="0">
-                        <tr>
-                          <td class="bbrr" bgcolor="#ffffff" style="border-radius:0px 0px 12px 12px;">
-                            <table width="100%" border="0" cellspacing="0" cellpadding="0">
-                              <tr>
-                                <td class="p30-15" style="padding: 12px;">
-
-                                  <table width="100%" border="0" cellspacing="0" cellpadding="0">
-                                    <tr>
-                                      <td class="pb25"
-                                        style="color:#000000; font-family:Lato, Arial,sans-serif; font-size:15px; line-height:22px; padding-bottom:8px;width:50%;">
-                                        <div mc:edit="text_3"><b>Dear <span>${name}</span>,</b></div>
-                                      </td>
-                                    </tr>
-                                    <tr>
-                                      <td class="pb25"
-                                        style="color:#000000; font-family:Lato, Arial,sans-serif; font-size:15px; line-height:22px; padding-bottom:8px;width:50%;">
-                                        <div mc:edit="text_3"><span>${accommodationName} </span> has
-                                          received a request for booking of
-                                          your Camping as per the details below. The primary guest <span>${name}</span>
-                                          will be
-                                          carrying a copy of this e-voucher. </div>
-                                      </td>
-                                    </tr>
-                                    <tr>
-                                      <td class="pb25"
-                                        style="color:#000000; font-family:Lato, Arial,sans-serif; font-size:15px; line-height:22px; padding-bottom:8px;width:50%;">
-                                        <div mc:edit="text_3">For your reference, Booking ID is
-                                          <span><b>${BookingId}</b></span>.</div>
-                                      </td>
-                                    </tr>
-                                    <tr>
-                                      <td class="pb25"
-                                        style="color:#000000; font-family:Lato, Arial,sans-serif; font-size:15px; line-height:22px; padding-bottom:8px;width:50%;">
-                                        <div mc:edit="text_3"><b>The amount payable to <span>Plumeria Retreat Pawna lake
-                                              AC cottage </span> for this booking
-                                            is <span>INR ${advancePayable}</span> as per the details below. Please email
-                                            us at
-                                            <a href="mailto: ${owner_email}"
-                                              style="color: #216896;">booking@plumeriaretreat.com</a> if there is any
-                                            discrepancy in this payment
-                                            amount.</b></div>
-                                      </td>
-                                    </tr>
-                                    <tr>
-                                      <td class="pb25"
-                                        style="color:#000000; font-family:Lato, Arial,sans-serif; font-size:15px; line-height:22px; padding-bottom:8px;width:100%;">
-                                        <div mc:edit="text_3">Kindly consider this e-voucher for booking confirmation
-                                          with the
-                                          following inclusions and services. </div>
-                                      </td>
-                                    </tr>
-                                  </table>
-
-                                  <table width="100%" border="0" cellspacing="0" cellpadding="0">
-                                    <tr>
-                                      <td class="pb25"
-                                        style="color:#000000; font-family:Lato, Arial,sans-serif; font-size:15px; line-height:22px; padding-bottom:8px;width:100%;">
-                                        <div mc:edit="text_3"><b>Team <span>${accommodationName}
-                                            </span></b></div>
-                                      </td>
-                                    </tr>
-                                    <tr>
-                                      <td class="pb25"
-                                        style="color:#878887; font-family:Lato, Arial,sans-serif; font-size:14px; line-height:22px; padding-bottom:8px;width:100%;text-align:right;">
-                                        <div mc:edit="text_3">All prices indicated below are in INR</div>
-                                      </td>
-                                    </tr>
-                                  </table>
-
-                                  <table class="border-table" width="100%"
-                                    style="font-family: arial, sans-serif;border-collapse: collapse;width: 100%; margin-bottom: 10px;"
-                                    cellspacing="0" cellpadding="0">
-                                    <tr>
-                                      <th class="bordr"
-                                        style="border: 1px solid #dddddd;border-top: 3px solid #216896;text-align: left;padding: 9px 7px 10px;color: #878887;font-family: Lato, Arial,sans-serif;font-size: 13.5px;line-height: 16px;">
-                                        BOOKING DETAILS</th>
-                                      <th class="bordr"
-                                        style="border: 1px solid #dddddd;border-top: 3px solid #216896;text-align: left;padding: 9px 7px 10px;color: #878887;font-family: Lato, Arial,sans-serif;font-size: 13.5px;line-height: 16px;">
-                                        PAYMENT BREAKUP</th>
-                                    </tr>
-                                    <tr>
-                                      <td valign="top"
-                                        style="border: 1px solid #dddddd;text-align: left;padding: 6px 7px 8px;color: #000000;font-family: Lato, Arial,sans-serif;font-size: 13px;line-height: 15px;">
-                                        <p style="padding-bottom: 5px;margin: 0px;">Mobile: <b>${mobile}</b></p>
-                                        <p style="padding-bottom: 5px;margin: 0px;">Check In: <b>${CheckinDate}</b></p>
-                                        <p style="padding-bottom: 5px;margin: 0px;">Check Out: <b>${CheckoutDate}</b>
-                                        </p>
-                                        <p style="padding-bottom: 5px;margin: 0px;">Total Person:
-                                          <b>${totalPerson}</b></p>
-                                        <p style="padding-bottom: 5px;margin: 0px;">Adult: <b>${adult}</b></p>
-
-                                        ${guestDetailHtml}
-                                        ${roomDetailHtml}
-
-                                        ${foodDetailHtml} </td>
-                                      <td
-                                        style="border: 1px solid #dddddd;text-align: left;padding: 6px 7px 8px;color: #000000;font-family: Lato, Arial,sans-serif;font-size: 14px;line-height: 16px;">
-                                        <table style="width: 100%;">
-                                          <tr>
-                                            <td valign="top" style="width: 100%;padding-right: 8px;">
-                                              <p style="padding-top: 5px;padding-bottom: 10px;margin: 0px;">
-                                                <b>TARRIF</b></p>
-                                              <p style="padding-bottom: 10px;margin: 0px;">Full Amount: <b
-                                                  style="float:right;">${full_amount}</b></p>
-                                              <p style="padding-bottom: 10px;margin: 0px;">Discount: <b
-                                                  style="float:right;">${discount}</b></p>
-                                              <p style="padding-bottom: 10px;margin: 0px;">Coupon: <b
-                                                  style="float:right;">${coupon}</b></p>
-
-                                              <p style="padding-bottom: 10px;margin: 0px;">Total Amount: <b
-                                                  style="float:right;">${totalPrice}</b></p>
-                                              <p style="padding-bottom: 10px;margin: 0px;">Advance Amount: <b
-                                                  style="float:right;">${advancePayable}</b></p>
-                                              <p style="padding-bottom: 10px;margin: 0px;">Remaining Amount: <b
-                                                  style="float:right;">${remainingAmount}</b></p>
-                                            </td>
-                                          </tr>
-                                        </table>
-                                      </td>
-                                    </tr>
-                                  </table>
-
-                                  <table width="100%" border="0" cellspacing="0" cellpadding="0">
-                                    <tr>
-                                      <td class="pb25 mobheadpb"
-                                        style="color:#000000; font-family:Lato, Arial,sans-serif; font-size:15px; line-height:22px; padding-bottom:24px;">
-                                        <div mc:edit="text_3"><b>Booking Cancellation Policy:</b> From
-                                          ${BookingDate},100%
-                                          penalty will be
-                                          charged. In case of no show : no refund.Booking cannot be
-                                          cancelled/modified on or after the booking date and time mentioned in
-                                          the Camping Confirmation Voucher. All time mentioned above is in
-                                          destination time.</div>
-                                      </td>
-                                    </tr>
-                                    <tr>
-                                      <td class="pb25 bordr"
-                                        style="color:#216896;border-bottom: 3px solid #216896; font-family:Lato, Arial,sans-serif; font-size:15px; line-height:22px; padding-bottom:6px;">
-                                        <div mc:edit="text_3"><b>Note</b></div>
-                                      </td>
-                                    </tr>
-                                    <tr>
-                                      <td class="pb25"
-                                        style="color:#000000; font-family:Lato, Arial,sans-serif; font-size:15px; line-height:22px; padding-bottom:8px;padding-top:8px;">
-                                        <div mc:edit="text_3">If your contact details have changed, please notify us so
-                                          that the
-                                          same can be updated in our records.</div>
-                                      </td>
-                                    </tr>
-                                    <tr>
-                                      <td class="pb25 mobheadpb"
-                                        style="color:#000000; font-family:Lato, Arial,sans-serif; font-size:15px; line-height:22px; padding-bottom:24px;">
-                                        <div mc:edit="text_3">If the booking is cancelled or changed by guest at a later
-                                          stage,
-                                          you will be notified and this confirmation email & Plumeria Retreat Pawna lake
-                                          AC cottage Booking ID will be null and void.</div>
-                                      </td>
-                                    </tr>
-                                  </table>
-
-                                  <table width="100%" border="0" cellspacing="0" cellpadding="0">
-                                    <tr>
-                                      <td>
-                                        <table width="100%" border="0" cellspacing="0" cellpadding="0">
-                                          <tr>
-                                            <td class="pb25 bordr"
-                                              style="color:#216896;border-bottom: 3px solid #216896; font-family:Lato, Arial,sans-serif; font-size:15px; line-height:22px; padding-bottom:6px;">
-                                              <div mc:edit="text_3"><b>${accommodationName} Contact
-                                                  Info</b></div>
-                                            </td>
-                                          </tr>
-                                        </table>
-                                      </td>
-                                    </tr>
-                                  </table>
-                                  <table width="100%" border="0" cellspacing="0" cellpadding="0">
-                                    <tr>
-                                      <td style="padding-top:8px;padding-bottom:8px;width:50%;">
-                                        <table width="100%" border="0" cellspacing="0" cellpadding="0">
-                                          <tr>
-                                            <td class="pb25"
-                                              style="color:#000000; font-family:Lato, Arial,sans-serif; font-size:15px; line-height:22px;">
-                                              <div mc:edit="text_3"><b>${accommodationName} </b></div>
-                                            </td>
-                                          </tr>
-                                          <tr>
-                                            <td class="pb25"
-                                              style="color:#000000; font-family:Lato, Arial,sans-serif; font-size:15px; line-height:22px;">
-                                              <div mc:edit="text_3">At- <span>${accommodationAddress}</span></div>
-                                            </td>
-                                          </tr>
-                                          <tr>
-                                            <td class="pb25"
-                                              style="color:#000000; font-family:Lato, Arial,sans-serif; font-size:15px; line-height:22px;">
-                                              <div mc:edit="text_3"><span>pawna lake</span></div>
-                                            </td>
-                                          </tr>
-                                          <tr>
-                                            <td class="pb25"
-                                              style="color:#216896; font-family:Lato, Arial,sans-serif; font-size:14px; line-height:22px;">
-                                              <div mc:edit="text_3">
-                                                <a href="http://maps.google.com/maps?q=${latitude},${longitude}"
-                                                  style="color: #216896;">Google Maps Link</a>
-                                              </div>
-                                            </td>
-                                          </tr>
-                                        </table>
-                                      </td>
-                                      <td style="padding-top:8px;padding-bottom:8px;width:50%;">
-                                        <table width="100%" border="0" cellspacing="0" cellpadding="0">
-                                          <tr>
-                                            <td class="pb25"
-                                              style="color:#000000; font-family:Lato, Arial,sans-serif; font-size:14px; line-height:22px;">
-                                              <div mc:edit="text_3">
-                                                <span><b>Email- </b></span><span><a
-                                                    href="mailto:${owner_email}"
-                                                    style="color: #164e6f;"><b>booking@plumeriaretreat.com</b></a></span>
-                                              </div>
-                                            </td>
-                                          </tr>
-                                          <tr>
-                                            <td class="pb25"
-                                              style="color:#000000; font-family:Lato, Arial,sans-serif; font-size:14px; line-height:22px;">
-                                              <div mc:edit="text_3">
-                                                <span><b>Contact Number- </b></span>
-                                                <span>${ownerName}</span>- <span>${ownerPhone}</span>
-                                              </div>
-                                            </td>
-                                          </tr>
-                                        </table>
-                                      </td>
-                                    </tr>
-                                  </table>
-
-
-
-                                  <table width="100%" border="0" cellspacing="0" cellpadding="0"
-                                    style="padding-top: 10px;border-top:1px solid #dddddd;">
-                                    <tr>
-                                      <td class="pb25"
-                                        style="color:#000000; font-family:Lato, Arial,sans-serif; font-size:15px; line-height:22px; padding-bottom:8px;">
-                                        <div mc:edit="text_3"><b>Note</b> - Please do not reply to this email. It has
-                                          been sent from an
-                                          email account that is not monitored. To ensure that you receive
-                                          communication related to your booking from Plumeria Retreat Pawna lake AC
-                                          cottage , please add <a href="mailto:booking@plumeriaretreat.com "
-                                            style="color: #164e6f;"><b>booking@plumeriaretreat.com </b></a> to your
-                                          contact list
-                                          and
-                                          address book.</div>
-                                      </td>
-                                    </tr>
-                                  </table>
-                                  <table width="100%" border="0" cellspacing="0" cellpadding="0"
-                                    style="padding-top: 15px;">
-                                    <tr>
-                                      <td class="pb25 bordr"
-                                        style="color:#216896;border-bottom: 3px solid #216896; font-family:Lato, Arial,sans-serif; font-size:15px; line-height:22px; padding-bottom:6px;">
-                                        <div mc:edit="text_3"><b>Things to Carry</b></div>
-                                      </td>
-                                    </tr>
-                                    <tr>
-                                      <td class-"pb25"
-                                        style="color:#000000; font-family:Lato, Arial,sans-serif; font-size:15px; line-height:22px; padding-top:8px; padding-bottom:8px;">
-                                        • Always good to carry extra pair of clothes<br>
-                                        • Winter and warm clothes as it will be cold night<br>
-                                        • Toothbrush and paste (toiletries)<br>
-                                        • Any other things you feel necessary<br>
-                                        • Personal medicine if any
-                                      </td>
-                                    </tr>
-                                  </table>
-                                </td>
-                              </tr>
-                            </table>
-                          </td>
-                        </tr>
-                      </table>
-                    </td>
-                  </tr>
-                </table>
-              </td>
-              <td class="m-td" valign="top" style="font-size:0pt; line-height:0pt; text-align:left;">
-                <table width="100%" border="0" cellspacing="0" cellpadding="0" bgcolor="#ffffff" class="border"
-                  style="font-size:0pt; line-height:0pt; text-align:left; width:100%; min-width:100%;">
-                  <tr>
-                    <td bgcolor="#f4f4f4" height="150" class="border"
-                      style="font-size:0pt; line-height:0pt; text-align:left; width:100%; min-width:100%;"> </td>
-                  </tr>
-                </table>
-              </td>
-            </tr>
-          </table>
-        </div>
-
-      </td>
-    </tr>
-  </table>
-</body>
-
-</html>`
-    const container = document.createElement('div');
-  container.innerHTML = html;
-
-  container.style.position = 'absolute';
-  container.style.top = '-9999px';
-  container.style.left = '-9999px';
-  container.style.width = '794px'; // A4 width in pixels at 96 DPI
-  container.style.background = 'white';
-  container.style.padding = '0';
-  container.style.margin = '0';
-
-  document.body.appendChild(container);
-
-  html2canvas(container, {
-    scale: 2,
-    useCORS: true
-  }).then((canvas) => {
-    const imgData = canvas.toDataURL('image/png');
-
-    // Use image size to create a custom-height PDF
-    const imgWidth = canvas.width;
-    const imgHeight = canvas.height;
-
-    const pdfWidth = 595.28; // A4 width in pt
-    const pdfHeight = (imgHeight * pdfWidth) / imgWidth; // dynamic height
-
-    const pdf = new jsPDF('p', 'pt', [pdfWidth, pdfHeight]);
-    pdf.addImage(imgData, 'PNG', 0, 0, pdfWidth, pdfHeight);
-    pdf.save(`Booking-${BookingId}.pdf`);
-
-    document.body.removeChild(container);
-  }).catch((error) => {
-    console.error("PDF generation failed:", error);
-    document.body.removeChild(container);
-  });
-  }
   useEffect(() => {
     if (formData.accommodation_id) {
       fetchAccommodationDetails(formData.accommodation_id);
@@ -1204,6 +583,21 @@ const CreateBooking: React.FC = () => {
       return;
     }
     
+    if (availabilityError) {
+      alert(`${availabilityError}. Please try again before saving.`);
+      return;
+    }
+
+    if (dateError) {
+      alert(dateError);
+      return;
+    }
+
+    if (quote?.minStayViolation) {
+      alert(`${quote.minStayViolation.plan} requires a minimum stay of ${quote.minStayViolation.minNights} nights.`);
+      return;
+    }
+
     // This check is valid for villas too (a villa is 1 room, if availableRooms is 0, it's booked)
     if (availableRooms === 0) {
       alert('This accommodation is fully booked for the selected date. Please choose another date or accommodation.');
@@ -1268,7 +662,7 @@ const CreateBooking: React.FC = () => {
 
     setLoading(true);
     try {
-      const bookingPayload = {
+      const bookingDetails = {
         guest_name: formData.guest_name,
         guest_email: formData.guest_email,
         guest_phone: formData.guest_phone || null,
@@ -1286,78 +680,127 @@ const CreateBooking: React.FC = () => {
 	      discount : parseFloat(formData.total_amount || '0') - parseFloat(formData.discounted_amount || '0'),
 	      full_amount : parseFloat(formData.total_amount),
         total_amount: parseFloat(formData.discounted_amount || formData.total_amount),
-        advance_amount: parseFloat(formData.advance_amount || '0'),
         isvilla: selectedAccommodation?.type === 'Villa' ? true : false,
-        
-        
       };
-      console.log("bookingPayload :",bookingPayload);
-      const response = await fetch(`https://a.plumeriaretreat.com/admin/bookings/offline`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(bookingPayload),
-      });
-      console.log("response :",response);
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Failed to create booking');
+
+      if (isEditing && originalBooking) {
+        // Payments are recorded separately, so a modification never touches the advance
+        const before = toBookingSnapshot(originalBooking);
+        const after = toBookingSnapshot(bookingDetails);
+        const priceDelta = after.total_amount - before.total_amount;
+        const reason = formData.notes.trim();
+
+        const response = await api.put(
+          `/bookings/${bookingId}`,
+          {
+            ...bookingDetails,
+            previous_total: before.total_amount,
+            price_delta: priceDelta,
+            modification_reason: reason || undefined
+          },
+          {
+            audit: {
+              action: 'booking.modify',
+              entityType: 'booking',
+              entityId: bookingId,
+              summary: `Modified booking #${bookingId}: ₹${before.total_amount.toLocaleString('en-IN')} → ₹${after.total_amount.toLocaleString('en-IN')}${reason ? ` (${reason})` : ''}`,
+              before,
+              after
+            }
+          }
+        );
+        assertSuccess(response.data, 'Failed to update booking');
+
+        alert('Booking updated successfully!');
+        navigate('/bookings');
+        return;
       }
 
-      const result = await response.json();
+      const advanceAmount = parseFloat(formData.advance_amount || '0') || 0;
+      // The advance is sent as the booking's first ledger entry so the backend records both together;
+      // balances are read from the ledger, not from advance_amount
+      const bookingPayload = {
+        ...bookingDetails,
+        advance_amount: advanceAmount,
+        payment:
+          advanceAmount > 0
+            ? {
+                amount: advanceAmount,
+                type: 'payment',
+                payment_method: formData.payment_method,
+                notes: 'Advance taken at booking',
+              }
+            : undefined,
+      };
+      console.log("bookingPayload :",bookingPayload);
+      const { data: result } = await api.post('/bookings/offline', bookingPayload);
       console.log("result",result)
-      // Updated total person calculation
-      const totalPerson = bookingPayload.adults + bookingPayload.children + bookingPayload.extra_adults;
-
-      // Use selectedAccommodation state for PDF details (cleaner)
-      const accommodationName = selectedAccommodation?.name || '';
-      const accommodationAddress = selectedAccommodation?.address || '';
-      const latitude = (selectedAccommodation?.latitude || 0).toString();
-      const longitude = (selectedAccommodation?.longitude || 0).toString();
-
-downloadPdf(
-  bookingPayload.guest_email,
-  bookingPayload.guest_name,
-  result.data.booking.id.toString(),
-  bookingPayload.check_in,
-  bookingPayload.check_out,
-  bookingPayload.total_amount,
-  bookingPayload.advance_amount,
-  (bookingPayload.total_amount - bookingPayload.advance_amount),
-  bookingPayload.guest_phone || '',
-  totalPerson,
-  bookingPayload.adults,
-  bookingPayload.children,
-  bookingPayload.extra_adults,
-  bookingPayload.food_veg,
-  bookingPayload.food_nonveg,
-  bookingPayload.food_jain,
-  accommodationName,
-  accommodationAddress,
-  latitude,
-  bookingPayload.coupon,
-  bookingPayload.discount,
-  bookingPayload.full_amount,
-  bookingPayload.rooms,
-  result.data.owner_name.toString() || '',
-  result.data.owner_phone.toString() || '',
-  longitude,
-  result.data.owner_email.toString()
-);
+      // The confirmation is rendered from the editable booking-confirmation template
+      downloadBookingDocument(
+        'booking-confirmation',
+        buildBookingValues({
+          bookingRef: formatBookingRef(result.data.booking.id),
+          guestName: bookingPayload.guest_name,
+          guestEmail: bookingPayload.guest_email,
+          guestPhone: bookingPayload.guest_phone,
+          accommodationName: selectedAccommodation?.name || '',
+          accommodationAddress: selectedAccommodation?.address,
+          latitude: selectedAccommodation?.latitude,
+          longitude: selectedAccommodation?.longitude,
+          isVilla: bookingPayload.isvilla,
+          checkIn: bookingPayload.check_in,
+          checkOut: bookingPayload.check_out,
+          adults: bookingPayload.adults,
+          children: bookingPayload.children,
+          extraAdults: bookingPayload.extra_adults,
+          rooms: bookingPayload.rooms,
+          vegCount: bookingPayload.food_veg,
+          nonVegCount: bookingPayload.food_nonveg,
+          jainCount: bookingPayload.food_jain,
+          nights: quote?.nights || [],
+          fullAmount: bookingPayload.full_amount,
+          couponCode: bookingPayload.coupon,
+          discount: bookingPayload.discount,
+          totalAmount: bookingPayload.total_amount,
+          advanceAmount: bookingPayload.advance_amount,
+          contactName: result.data.owner_name?.toString(),
+          contactPhone: result.data.owner_phone?.toString(),
+          contactEmail: result.data.owner_email?.toString(),
+        }),
+        `Booking-${formatBookingRef(result.data.booking.id)}.pdf`
+      ).catch((error) => {
+        console.error("PDF generation failed:", error);
+      });
+
+      const recipient = {
+        bookingId: result.data.booking.id,
+        bookingRef: formatBookingRef(result.data.booking.id),
+        email: bookingPayload.guest_email,
+        phone: bookingPayload.guest_phone,
+      };
+      Promise.all([
+        queueNotification({ ...recipient, event: 'booking-confirmed' }),
+        scheduleStayNotifications({ ...recipient, checkIn: bookingPayload.check_in }),
+      ]).catch((error) => console.error('Error queueing booking notifications:', error));
 
       alert('Booking created successfully!');
       navigate('/bookings');
 
     } catch (error) {
-      console.error('Error creating booking:', error);
-      alert(`Error creating booking: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      console.error(`Error ${isEditing ? 'updating' : 'creating'} booking:`, error);
+      alert(`Error ${isEditing ? 'updating' : 'creating'} booking: ${getErrorMessage(error, 'Unknown error')}`);
     } finally {
       setLoading(false);
     }
   };
 
-  if (loading && accommodations.length === 0) {
+  const bookingStatus = originalBooking ? parseBookingStatus(originalBooking.status) : null;
+  const isLocked = bookingStatus !== null && !isBookingEditable(bookingStatus);
+  const previousTotal = originalBooking ? parseFloat(originalBooking.total_amount || '0') : 0;
+  const newTotal = parseFloat(formData.discounted_amount || formData.total_amount || '0');
+  const priceDelta = newTotal - previousTotal;
+
+  if ((loading && accommodations.length === 0) || fetchingBooking) {
     return (
       <div className="flex justify-center items-center h-64">
         <div className="text-gray-500">Loading...</div>
@@ -1376,12 +819,22 @@ downloadPdf(
             >
               <ArrowLeft className="h-5 w-5" />
             </button>
-            <h1 className="text-2xl font-bold text-gray-900">Create New Booking</h1>
+            <h1 className="text-2xl font-bold text-gray-900">
+              {isEditing ? `Edit Booking #${bookingId}` : 'Create New Booking'}
+            </h1>
           </div>
-          <p className="mt-1 text-sm text-gray-500">Add a new booking manually</p>
+          <p className="mt-1 text-sm text-gray-500">
+            {isEditing ? 'Change dates, rooms or guests and review the new price' : 'Add a new booking manually'}
+          </p>
         </div>
       </div>
 
+      {isLocked && bookingStatus && (
+        <div className="rounded-md bg-yellow-50 p-4 border border-yellow-200 text-sm text-yellow-800">
+          This booking is {getBookingStatusLabel(bookingStatus).toLowerCase()} and can no longer be modified.
+        </div>
+      )}
+
       <form onSubmit={handleSubmit} className="space-y-8 min-w-max">
         <div className="bg-white shadow rounded-lg overflow-hidden min-w-max">
           <div className="p-6 space-y-6">
@@ -1497,6 +950,38 @@ downloadPdf(
                 />
               </div>
 
+              {nightlyAvailability.length > 0 && (
+                <div className="sm:col-span-2">
+                  <div className="text-xs font-medium text-gray-500 mb-1">Rooms free per night</div>
+                  <div className="flex flex-wrap gap-1">
+                    {nightlyAvailability.map(night => (
+                      <div
+                        key={night.date}
+                        title={`${night.date}: ${night.available} free (Booked: ${night.booked}, Blocked: ${night.blocked})`}
+                        className={`px-2 py-1 rounded text-xs text-center ${
+                          night.available <= 0
+                            ? 'bg-red-100 text-red-800'
+                            : night.available < (selectedAccommodation?.available_rooms || 0)
+                            ? 'bg-yellow-100 text-yellow-800'
+                            : 'bg-green-100 text-green-800'
+                        }`}
+                      >
+                        <div>{night.date.slice(5)}</div>
+                        <div className="font-semibold">{night.available}</div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {availabilityError && (
+                <div className="sm:col-span-2">
+                  <div className="text-sm text-red-600 bg-red-50 p-2 rounded-md">
+                    {availabilityError}. Availability couldn't be checked, so the booking can't be saved yet.
+                  </div>
+                </div>
+              )}
+
               {dateError && (
                 <div className="sm:col-span-2">
                   <div className="text-sm text-red-600 bg-red-50 p-2 rounded-md">
@@ -1584,10 +1069,10 @@ downloadPdf(
                     {showRoomAvailability ? (
                       availableRooms <= 0 ? (
                         <span className="text-red-600 font-medium">
-                          All rooms booked for the selected date
+                          No rooms free on every night of the selected stay
                         </span>
                       ) : (
-                        `${availableRooms} room(s) available (Total: ${selectedAccommodation?.available_rooms || 0
+                        `${availableRooms} room(s) available for the whole stay (Total: ${selectedAccommodation?.available_rooms || 0
                         }, Booked: ${bookedRooms}, Blocked: ${blockedRoomsCount})`
                       )
                     ) : formData.accommodation_id && !formData.check_in ? (
@@ -1764,42 +1249,136 @@ downloadPdf(
                 )}
               </div>
 
-              <div>
-                <label htmlFor="advance_amount" className="block text-sm font-medium text-gray-700">
-                  Advance Amount (₹)
-                </label>
-                <input
-                  type="number"
-                  id="advance_amount"
-                  name="advance_amount"
-                  step="0.01"
-                  min="0"
-                  value={formData.advance_amount}
-                  onChange={handleChange}
-                  className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-navy-500 focus:border-navy-500 sm:text-sm"
-                />
-              </div>
+              {quote && quote.nights.length > 0 && (
+                <div className="sm:col-span-2">
+                  <h3 className="text-sm font-medium text-gray-700 mb-2">Night-by-Night Breakdown</h3>
+                  <table className="min-w-full text-sm border border-gray-200 rounded-md">
+                    <thead className="bg-gray-50">
+                      <tr className="text-left text-xs text-gray-500 uppercase">
+                        <th className="py-2 px-3">Night</th>
+                        <th className="py-2 px-3">{selectedAccommodation?.type === 'Villa' ? 'Villa Rate' : 'Adult Rate'}</th>
+                        {selectedAccommodation?.type !== 'Villa' && <th className="py-2 px-3">Child Rate</th>}
+                        <th className="py-2 px-3 text-right">Amount</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                      {quote.nights.map(night => (
+                        <tr key={night.date}>
+                          <td className="py-2 px-3 text-gray-700">
+                            {night.date}
+                            {night.weekend && <span className="ml-1 text-xs text-gray-500">(weekend)</span>}
+                            {night.overridden ? (
+                              <span className="ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-purple-100 text-purple-800">
+                                Special rate
+                              </span>
+                            ) : night.ratePlan && (
+                              <span className="ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-blue-100 text-blue-800">
+                                {night.ratePlan}
+                              </span>
+                            )}
+                          </td>
+                          <td className="py-2 px-3 text-gray-700">₹{night.adultPrice.toLocaleString('en-IN')}</td>
+                          {selectedAccommodation?.type !== 'Villa' && (
+                            <td className="py-2 px-3 text-gray-700">₹{night.childPrice.toLocaleString('en-IN')}</td>
+                          )}
+                          <td className="py-2 px-3 text-right font-medium text-gray-900">₹{night.amount.toLocaleString('en-IN')}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                    <tfoot className="bg-gray-50 text-gray-700">
+                      <tr>
+                        <td colSpan={selectedAccommodation?.type === 'Villa' ? 2 : 3} className="py-2 px-3">Subtotal</td>
+                        <td className="py-2 px-3 text-right font-medium">₹{quote.baseTotal.toLocaleString('en-IN')}</td>
+                      </tr>
+                      {quote.discount > 0 && (
+                        <tr>
+                          <td colSpan={selectedAccommodation?.type === 'Villa' ? 2 : 3} className="py-2 px-3">Coupon discount</td>
+                          <td className="py-2 px-3 text-right font-medium text-green-600">−₹{quote.discount.toLocaleString('en-IN')}</td>
+                        </tr>
+                      )}
+                    </tfoot>
+                  </table>
+                  {quote.minStayViolation && (
+                    <div className="mt-2 text-sm text-red-600 bg-red-50 p-2 rounded-md">
+                      {quote.minStayViolation.plan} requires a minimum stay of {quote.minStayViolation.minNights} nights.
+                    </div>
+                  )}
+                </div>
+              )}
 
-              <div>
-                <label htmlFor="payment_method" className="block text-sm font-medium text-gray-700">
-                  Payment Method
-                </label>
-                <select
-                  id="payment_method"
-                  name="payment_method"
-                  value={formData.payment_method}
-                  onChange={handleChange}
-                  className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-navy-500 focus:border-navy-500 sm:text-sm"
-                >
-                  {paymentMethods.map(method => (
-                    <option key={method.id} value={method.id}>{method.name}</option>
-                  ))}
-                </select>
-              </div>
+              {isEditing ? (
+                <div className="sm:col-span-2 p-4 bg-gray-50 border border-gray-200 rounded-md text-sm text-gray-700 space-y-1">
+                  <div className="flex justify-between">
+                    <span>Previous total</span>
+                    <span className="font-medium">₹{previousTotal.toLocaleString('en-IN')}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span>New total</span>
+                    <span className="font-medium">₹{newTotal.toLocaleString('en-IN')}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span>Difference</span>
+                    <span
+                      className={`font-medium ${
+                        priceDelta > 0 ? 'text-red-600' : priceDelta < 0 ? 'text-green-600' : 'text-gray-700'
+                      }`}
+                    >
+                      {priceDelta > 0 ? '+' : priceDelta < 0 ? '−' : ''}₹{Math.abs(priceDelta).toLocaleString('en-IN')}
+                    </span>
+                  </div>
+                  <div className="flex justify-between border-t border-gray-200 pt-1">
+                    <span>Paid so far</span>
+                    <span className="font-medium">
+                      {paidSoFar === null ? '—' : `₹${paidSoFar.toLocaleString('en-IN')}`}
+                    </span>
+                  </div>
+                  {paidSoFar !== null && (
+                    <div className="flex justify-between">
+                      <span>{newTotal - paidSoFar < 0 ? 'Refund due' : 'Balance due'}</span>
+                      <span className="font-medium">₹{Math.abs(newTotal - paidSoFar).toLocaleString('en-IN')}</span>
+                    </div>
+                  )}
+                </div>
+              ) : (
+                <>
+                  <div>
+                    <label htmlFor="advance_amount" className="block text-sm font-medium text-gray-700">
+                      Advance Amount (₹)
+                    </label>
+                    <input
+                      type="number"
+                      id="advance_amount"
+                      name="advance_amount"
+                      step="0.01"
+                      min="0"
+                      value={formData.advance_amount}
+                      onChange={handleChange}
+                      className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-navy-500 focus:border-navy-500 sm:text-sm"
+                    />
+                  </div>
+    
+                  <div>
+                    <label htmlFor="payment_method" className="block text-sm font-medium text-gray-700">
+                      Payment Method
+                    </label>
+                    <select
+                      id="payment_method"
+                      name="payment_method"
+                      value={formData.payment_method}
+                      onChange={handleChange}
+                      className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-navy-500 focus:border-navy-500 sm:text-sm"
+                    >
+                      {paymentMethods.map(method => (
+                        <option key={method.id} value={method.id}>{method.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                </>
+              )}
 
               <div>
                 <label htmlFor="notes" className="block text-sm font-medium text-gray-700">
-                  Notes (Optional)
+                  {isEditing ? 'Reason for Change (Optional)' : 'Notes (Optional)'}
                 </label>
                 <textarea
                   id="notes"
@@ -1826,12 +1405,50 @@ downloadPdf(
           <button
             type="submit"
             className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-navy-600 hover:bg-navy-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-navy-500 disabled:opacity-50"
-            disabled={loading}
+            disabled={loading || isLocked || !!availabilityError}
           >
-            {loading ? 'Creating...' : 'Create Booking'}
+            {isEditing
+              ? (loading ? 'Saving...' : 'Save Changes')
+              : (loading ? 'Creating...' : 'Create Booking')}
           </button>
         </div>
       </form>
+
+      {isEditing && (
+        <div className="bg-white shadow rounded-lg overflow-hidden min-w-max">
+          <div className="p-6">
+            <div className="flex items-center mb-4">
+              <History className="h-5 w-5 text-navy-600 mr-2" />
+              <h2 className="text-lg font-medium text-gray-900">Modification History</h2>
+            </div>
+
+            {history.length === 0 ? (
+              <p className="text-sm text-gray-500">No changes have been recorded for this booking yet.</p>
+            ) : (
+              <ul className="divide-y divide-gray-200">
+                {history.map(entry => (
+                  <li key={entry.id} className="py-3 text-sm">
+                    <div className="flex justify-between">
+                      <span className="font-medium text-gray-900">{entry.summary || entry.action}</span>
+                      <span className="text-gray-500">{new Date(entry.created_at).toLocaleString('en-IN')}</span>
+                    </div>
+                    <div className="text-gray-500">by {entry.actor_name}</div>
+                    {entry.changes.length > 0 && (
+                      <div className="mt-1 text-gray-600">
+                        {entry.changes.map(change => (
+                          <div key={change.field}>
+                            {change.field}: {String(change.from ?? '—')} → {String(change.to ?? '—')}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
     </div>
   );
 };
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { 
   Building2, 
   Image, 
@@ -8,8 +8,46 @@ import {
   Users, 
   DollarSign,
   RefreshCw,
-  AlertCircle
+  AlertCircle,
+  LogIn,
+  LogOut,
+  Wallet,
+  Ticket,
+  Ban,
+  LayoutGrid,
+  Plus,
+  RotateCcw
 } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { format, addDays, parseISO } from 'date-fns';
+import { api, getErrorMessage } from '../lib/api';
+import { useAuth } from '../contexts/AuthContext';
+import DashboardWidget from '../components/DashboardWidget';
+import { useDragReorder } from '../hooks/useDragReorder';
+import {
+  fetchAllBookings,
+  fetchBookingBalances,
+  formatBookingRef,
+  getBalanceDue,
+  getTodayKey,
+  hasBalanceDue,
+  isArrivalOn,
+  isDepartureOn,
+  type BookingBalances,
+  type BookingSummary
+} from '../lib/bookingQueries';
+import { parseBookingStatus } from '../lib/bookingStatus';
+import { EXPIRING_SOON_DAYS, isCouponExpiringSoon } from '../lib/coupons';
+import {
+  DASHBOARD_WIDGETS,
+  fetchWidgetLayout,
+  getWidgetDefinition,
+  loadWidgetLayout,
+  resetWidgetLayout,
+  saveWidgetLayout,
+  DEFAULT_WIDGET_LAYOUT,
+  type DashboardWidgetId
+} from '../lib/dashboardWidgets';
 
 // StatCard Component
 type StatCardProps = {
@@ -19,13 +57,14 @@ type StatCardProps = {
   icon: React.ReactNode;
   trend: 'up' | 'down';
   loading?: boolean;
+  link?: string;
 };
 
-const StatCard: React.FC<StatCardProps> = ({ title, value, change, icon, trend, loading = false }) => {
+const StatCard: React.FC<StatCardProps> = ({ title, value, change, icon, trend, loading = false, link }) => {
   const isPositive = trend === 'up';
   
-  return (
-    <div className="bg-white rounded-lg shadow p-6">
+  const card = (
+    <div className={`bg-white rounded-lg shadow p-6 ${link ? 'transition-shadow hover:shadow-lg' : ''}`}>
       <div className="flex items-center justify-between">
         <div className="flex-1">
           <p className="text-sm font-medium text-gray-500 truncate">{title}</p>
@@ -56,6 +95,8 @@ const StatCard: React.FC<StatCardProps> = ({ title, value, change, icon, trend,
       </div>
     </div>
   );
+
+  return link ? <Link to={link} className="block">{card}</Link> : card;
 };
 
 // RecentBookingsTable Component
@@ -230,8 +271,81 @@ const QuickAccessCard: React.FC<QuickAccessCardProps> = ({ title, count, icon, l
   );
 };
 
+// WidgetList Component
+type WidgetListItem = {
+  key: string | number;
+  primary: string;
+  secondary?: string;
+  trailing?: string;
+};
+
+const WidgetList: React.FC<{ items: WidgetListItem[]; empty: string }> = ({ items, empty }) => {
+  if (items.length === 0) {
+    return <p className="px-4 py-6 text-center text-sm text-gray-500">{empty}</p>;
+  }
+
+  return (
+    <ul className="divide-y divide-gray-100">
+      {items.slice(0, WIDGET_LIST_LIMIT).map(item => (
+        <li key={item.key} className="flex items-center justify-between px-4 py-2.5">
+          <div className="min-w-0">
+            <p className="text-sm font-medium text-gray-900 truncate">{item.primary}</p>
+            {item.secondary && <p className="text-xs text-gray-500 truncate">{item.secondary}</p>}
+          </div>
+          {item.trailing && <span className="ml-3 flex-shrink-0 text-sm text-gray-700">{item.trailing}</span>}
+        </li>
+      ))}
+      {items.length > WIDGET_LIST_LIMIT && (
+        <li className="px-4 py-2 text-xs text-gray-500">and {items.length - WIDGET_LIST_LIMIT} more</li>
+      )}
+    </ul>
+  );
+};
+
+const WIDGET_LIST_LIMIT = 5;
+
+// Blocked inventory is shown this many days ahead
+const BLOCKED_INVENTORY_DAYS = 14;
+
+type DashboardCoupon = {
+  id: number;
+  code: string;
+  active: boolean;
+  expiryDate: string;
+};
+
+type DashboardBlockedDate = {
+  id: number;
+  blocked_date: string;
+  reason?: string;
+  accommodation_id?: number;
+  accommodation_name?: string;
+  rooms?: number | null;
+};
+
+const formatCurrency = (amount: number) => `₹${amount.toLocaleString('en-IN')}`;
+
+const RETRY_DELAY = 3000; // 3 seconds
+const MAX_RETRIES = 3;
+const REQUEST_TIMEOUT = 8000; // 8 seconds
+
+// Enhanced fetch with timeout and retry
+const fetchWithRetry = async (endpoint: string, retries = MAX_RETRIES): Promise<any> => {
+  try {
+    const response = await api.get(endpoint, { timeout: REQUEST_TIMEOUT });
+    return response.data;
+  } catch (err) {
+    if (retries > 0) {
+      await new Promise(resolve => setTimeout(resolve, RETRY_DELAY));
+      return fetchWithRetry(endpoint, retries - 1);
+    }
+    throw err;
+  }
+};
+
 // Main Dashboard Component
 const Dashboard = () => {
+  const { user, can } = useAuth();
   const [stats, setStats] = useState({
     totalBookings: '0',
     bookingChange: '+0%',
@@ -251,49 +365,44 @@ const Dashboard = () => {
   });
   
   const [recentBookings, setRecentBookings] = useState<Booking[]>([]);
+  const [bookings, setBookings] = useState<BookingSummary[]>([]);
+  const [balances, setBalances] = useState<BookingBalances>({});
+  const [coupons, setCoupons] = useState<DashboardCoupon[]>([]);
+  const [blockedDates, setBlockedDates] = useState<DashboardBlockedDate[]>([]);
   const [loadingStates, setLoadingStates] = useState({
     stats: true,
     quickStats: true,
-    recentBookings: true
+    recentBookings: true,
+    bookings: false,
+    coupons: false,
+    blockedDates: false
   });
   const [errors, setErrors] = useState({
     stats: null as string | null,
     quickStats: null as string | null,
-    recentBookings: null as string | null
+    recentBookings: null as string | null,
+    bookings: null as string | null,
+    coupons: null as string | null,
+    blockedDates: null as string | null
   });
+  const [layout, setLayout] = useState<DashboardWidgetId[]>(() => loadWidgetLayout(user?.id));
+  const [editing, setEditing] = useState(false);
 
-  const admin_BASE_URL = 'https://a.plumeriaretreat.com/admin';
-  const RETRY_DELAY = 3000; // 3 seconds
-  const MAX_RETRIES = 3;
-  const REQUEST_TIMEOUT = 8000; // 8 seconds
-
-  // Enhanced fetch with timeout and retry
-  const fetchWithRetry = async (endpoint: string, retries = MAX_RETRIES): Promise<any> => {
-    try {
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT);
-      
-      const response = await fetch(`${admin_BASE_URL}${endpoint}`, {
-        signal: controller.signal
+  // Replace the cached layout with the one saved on the account
+  useEffect(() => {
+    if (!user?.id) return;
+    const controller = new AbortController();
+    fetchWidgetLayout(user.id, controller.signal)
+      .then(setLayout)
+      .catch(err => {
+        if (controller.signal.aborted) return;
+        console.error('Error fetching dashboard layout:', err);
       });
-      
-      clearTimeout(timeoutId);
-      
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-      return await response.json();
-    } catch (err) {
-      if (retries > 0) {
-        await new Promise(resolve => setTimeout(resolve, RETRY_DELAY));
-        return fetchWithRetry(endpoint, retries - 1);
-      }
-      throw err;
-    }
-  };
+    return () => controller.abort();
+  }, [user?.id]);
 
   // Fetch dashboard stats
-  const fetchStats = async () => {
+  const fetchStats = useCallback(async () => {
     try {
       setLoadingStates(prev => ({ ...prev, stats: true }));
       setErrors(prev => ({ ...prev, stats: null }));
@@ -305,10 +414,10 @@ const Dashboard = () => {
     } finally {
       setLoadingStates(prev => ({ ...prev, stats: false }));
     }
-  };
+  }, []);
 
   // Fetch quick access stats
-  const fetchQuickStats = async () => {
+  const fetchQuickStats = useCallback(async () => {
     try {
       setLoadingStates(prev => ({ ...prev, quickStats: true }));
       setErrors(prev => ({ ...prev, quickStats: null }));
@@ -320,10 +429,10 @@ const Dashboard = () => {
     } finally {
       setLoadingStates(prev => ({ ...prev, quickStats: false }));
     }
-  };
+  }, []);
 
   // Fetch recent bookings
-  const fetchRecentBookings = async () => {
+  const fetchRecentBookings = useCallback(async () => {
     try {
       setLoadingStates(prev => ({ ...prev, recentBookings: true }));
       setErrors(prev => ({ ...prev, recentBookings: null }));
@@ -335,26 +444,342 @@ const Dashboard = () => {
     } finally {
       setLoadingStates(prev => ({ ...prev, recentBookings: false }));
     }
-  };
+  }, []);
 
-  // Load all data on component mount
-  useEffect(() => {
-    fetchStats();
-    fetchQuickStats();
-    fetchRecentBookings();
+  // Fetch the booking list behind the arrivals, departures and balances widgets, with balances from
+  // the payment ledger
+  const fetchBookings = useCallback(async () => {
+    try {
+      setLoadingStates(prev => ({ ...prev, bookings: true }));
+      setErrors(prev => ({ ...prev, bookings: null }));
+      const rows = await fetchAllBookings();
+      setBalances(await fetchBookingBalances(rows.filter(row => parseBookingStatus(row.status) !== 'cancelled')));
+      setBookings(rows);
+    } catch (err) {
+      console.error('Error fetching bookings:', err);
+      setErrors(prev => ({ ...prev, bookings: 'Failed to load bookings. Please try again.' }));
+    } finally {
+      setLoadingStates(prev => ({ ...prev, bookings: false }));
+    }
+  }, []);
+
+  // Fetch coupons
+  const fetchCoupons = useCallback(async () => {
+    try {
+      setLoadingStates(prev => ({ ...prev, coupons: true }));
+      setErrors(prev => ({ ...prev, coupons: null }));
+      const data = await fetchWithRetry('/coupons');
+      setCoupons(Array.isArray(data.data)
+        ? data.data.map((c: DashboardCoupon) => ({ id: c.id, code: c.code, active: !!c.active, expiryDate: c.expiryDate }))
+        : []);
+    } catch (err) {
+      console.error('Error fetching coupons:', err);
+      setErrors(prev => ({ ...prev, coupons: 'Failed to load coupons. Please try again.' }));
+    } finally {
+      setLoadingStates(prev => ({ ...prev, coupons: false }));
+    }
+  }, []);
+
+  // Fetch blocked dates
+  const fetchBlockedDates = useCallback(async () => {
+    try {
+      setLoadingStates(prev => ({ ...prev, blockedDates: true }));
+      setErrors(prev => ({ ...prev, blockedDates: null }));
+      const data = await fetchWithRetry('/calendar/blocked-dates');
+      setBlockedDates(Array.isArray(data.data) ? data.data : []);
+    } catch (err) {
+      console.error('Error fetching blocked dates:', err);
+      setErrors(prev => ({ ...prev, blockedDates: 'Failed to load blocked dates. Please try again.' }));
+    } finally {
+      setLoadingStates(prev => ({ ...prev, blockedDates: false }));
+    }
   }, []);
 
   // Refresh all data
-  const refreshAll = () => {
+  const refreshAll = useCallback(() => {
     fetchStats();
     fetchQuickStats();
     fetchRecentBookings();
-  };
+    if (can('bookings:view')) fetchBookings();
+    if (can('coupons:view')) fetchCoupons();
+    if (can('calendar:manage')) fetchBlockedDates();
+  }, [can, fetchStats, fetchQuickStats, fetchRecentBookings, fetchBookings, fetchCoupons, fetchBlockedDates]);
+
+  // Load all data on component mount
+  useEffect(() => {
+    refreshAll();
+  }, [refreshAll]);
 
   // Check if any component is still loading
   const anyLoading = Object.values(loadingStates).some(state => state);
   const anyError = Object.values(errors).some(error => error !== null);
 
+  // Widgets the user has added and is allowed to see, in their chosen order
+  const visibleWidgets = layout.filter(id => {
+    const definition = getWidgetDefinition(id);
+    return definition && can(definition.capability);
+  });
+  const availableWidgets = DASHBOARD_WIDGETS.filter(widget => !layout.includes(widget.id) && can(widget.capability));
+
+  const updateLayout = (next: DashboardWidgetId[]) => {
+    setLayout(next);
+    saveWidgetLayout(user?.id, next).catch(err => {
+      console.error('Error saving dashboard layout:', err);
+      alert(getErrorMessage(err, 'Failed to save your dashboard layout'));
+    });
+  };
+
+  // Widgets hidden by the user's role keep their place at the end of the saved layout
+  const widgetDrag = useDragReorder(
+    visibleWidgets,
+    next => updateLayout([...next, ...layout.filter(id => !next.includes(id))]),
+    editing
+  );
+
+  const handleResetLayout = () => {
+    setLayout(DEFAULT_WIDGET_LAYOUT);
+    resetWidgetLayout(user?.id).catch(err => {
+      console.error('Error resetting dashboard layout:', err);
+      alert(getErrorMessage(err, 'Failed to reset your dashboard layout'));
+    });
+  };
+
+  const today = getTodayKey();
+  const arrivals = bookings.filter(booking => isArrivalOn(booking, today));
+  const departures = bookings.filter(booking => isDepartureOn(booking, today));
+  const pendingBalances = bookings
+    .filter(booking => hasBalanceDue(booking, balances))
+    .sort((a, b) => getBalanceDue(b, balances) - getBalanceDue(a, balances));
+  const expiringCoupons = coupons
+    .filter(isCouponExpiringSoon)
+    .sort((a, b) => new Date(a.expiryDate).getTime() - new Date(b.expiryDate).getTime());
+  const blockedUntil = format(addDays(new Date(), BLOCKED_INVENTORY_DAYS), 'yyyy-MM-dd');
+  // Rows with a reason block rooms; rows without one only override prices
+  const upcomingBlocks = blockedDates
+    .filter(row => row.reason && row.blocked_date.split('T')[0] >= today && row.blocked_date.split('T')[0] <= blockedUntil)
+    .sort((a, b) => a.blocked_date.localeCompare(b.blocked_date));
+
+  const guestLine = (booking: BookingSummary) =>
+    `${booking.accommodation_name || 'Not specified'} · ${booking.adults + booking.children} guests · ${booking.rooms} room(s)`;
+
+  const renderWidget = (id: DashboardWidgetId, index: number) => {
+    const definition = getWidgetDefinition(id);
+    if (!definition) return null;
+
+    const frameProps = {
+      title: definition.title,
+      wide: definition.wide,
+      editing,
+      dragging: widgetDrag.dragIndex === index,
+      dropTarget: widgetDrag.overIndex === index && widgetDrag.dragIndex !== index,
+      dragProps: widgetDrag.getItemProps(index),
+      onRemove: () => updateLayout(layout.filter(widgetId => widgetId !== id)),
+    };
+
+    switch (id) {
+      case 'stats':
+        return (
+          <DashboardWidget key={id} {...frameProps} bare>
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-4">
+              <StatCard 
+                title="Total Bookings" 
+                value={stats.totalBookings} 
+                change={stats.bookingChange} 
+                icon={<Calendar className="h-6 w-6 text-blue-600" />} 
+                trend="up" 
+                loading={loadingStates.stats}
+                link={can('bookings:view') ? '/bookings' : undefined}
+              />
+              <StatCard 
+                title="Occupancy Rate" 
+                value={stats.occupancyRate} 
+                change={stats.occupancyChange} 
+                icon={<Building2 className="h-6 w-6 text-amber-600" />} 
+                trend="up" 
+                loading={loadingStates.stats}
+                link={can('analytics:view') ? '/analytics' : undefined}
+              />
+              <StatCard 
+                title="Revenue" 
+                value={stats.revenue} 
+                change={stats.revenueChange} 
+                icon={<DollarSign className="h-6 w-6 text-green-600" />} 
+                trend="up" 
+                loading={loadingStates.stats}
+                link={can('analytics:view') ? '/analytics' : undefined}
+              />
+              <StatCard 
+                title="Website Visitors" 
+                value={stats.websiteVisitors} 
+                change={stats.visitorsChange} 
+                icon={<Users className="h-6 w-6 text-indigo-600" />} 
+                trend="up" 
+                loading={loadingStates.stats}
+              />
+            </div>
+          </DashboardWidget>
+        );
+      case 'arrivals':
+        return (
+          <DashboardWidget
+            key={id}
+            {...frameProps}
+            icon={<LogIn className="h-5 w-5 text-green-600" />}
+            count={arrivals.length}
+            loading={loadingStates.bookings}
+            error={errors.bookings}
+            link={`/bookings?date_field=check_in&start_date=${today}&end_date=${today}`}
+          >
+            <WidgetList
+              items={arrivals.map(booking => ({
+                key: booking.id,
+                primary: booking.guest_name,
+                secondary: guestLine(booking),
+                trailing: getBalanceDue(booking, balances) > 0 ? `${formatCurrency(getBalanceDue(booking, balances))} due` : undefined,
+              }))}
+              empty="No arrivals today"
+            />
+          </DashboardWidget>
+        );
+      case 'departures':
+        return (
+          <DashboardWidget
+            key={id}
+            {...frameProps}
+            icon={<LogOut className="h-5 w-5 text-amber-600" />}
+            count={departures.length}
+            loading={loadingStates.bookings}
+            error={errors.bookings}
+            link={`/bookings?date_field=check_out&start_date=${today}&end_date=${today}`}
+          >
+            <WidgetList
+              items={departures.map(booking => ({
+                key: booking.id,
+                primary: booking.guest_name,
+                secondary: guestLine(booking),
+                trailing: getBalanceDue(booking, balances) > 0 ? `${formatCurrency(getBalanceDue(booking, balances))} due` : undefined,
+              }))}
+              empty="No departures today"
+            />
+          </DashboardWidget>
+        );
+      case 'pending-balances':
+        return (
+          <DashboardWidget
+            key={id}
+            {...frameProps}
+            icon={<Wallet className="h-5 w-5 text-red-600" />}
+            count={pendingBalances.length}
+            loading={loadingStates.bookings}
+            error={errors.bookings}
+            link="/bookings?balance=due"
+          >
+            <WidgetList
+              items={pendingBalances.map(booking => ({
+                key: booking.id,
+                primary: `${formatBookingRef(booking.id)} · ${booking.guest_name}`,
+                secondary: `Check-in ${new Date(booking.check_in).toLocaleDateString('en-IN')}`,
+                trailing: formatCurrency(getBalanceDue(booking, balances)),
+              }))}
+              empty="No outstanding balances"
+            />
+          </DashboardWidget>
+        );
+      case 'expiring-coupons':
+        return (
+          <DashboardWidget
+            key={id}
+            {...frameProps}
+            icon={<Ticket className="h-5 w-5 text-purple-600" />}
+            count={expiringCoupons.length}
+            loading={loadingStates.coupons}
+            error={errors.coupons}
+            link="/coupons?filter=expiring"
+          >
+            <WidgetList
+              items={expiringCoupons.map(coupon => ({
+                key: coupon.id,
+                primary: coupon.code,
+                trailing: `Expires ${new Date(coupon.expiryDate).toLocaleDateString('en-IN')}`,
+              }))}
+              empty={`No coupons expire in the next ${EXPIRING_SOON_DAYS} days`}
+            />
+          </DashboardWidget>
+        );
+      case 'blocked-inventory':
+        return (
+          <DashboardWidget
+            key={id}
+            {...frameProps}
+            icon={<Ban className="h-5 w-5 text-gray-600" />}
+            count={upcomingBlocks.length}
+            loading={loadingStates.blockedDates}
+            error={errors.blockedDates}
+            link={`/calendar?month=${(upcomingBlocks[0]?.blocked_date || today).slice(0, 7)}`}
+            linkLabel="Open calendar"
+          >
+            <WidgetList
+              items={upcomingBlocks.map(row => ({
+                key: row.id,
+                primary: `${row.accommodation_name || 'All accommodations'}${row.rooms ? ` · Room ${row.rooms}` : ' · All rooms'}`,
+                secondary: row.reason,
+                trailing: format(parseISO(row.blocked_date.split('T')[0]), 'd MMM'),
+              }))}
+              empty={`Nothing blocked in the next ${BLOCKED_INVENTORY_DAYS} days`}
+            />
+          </DashboardWidget>
+        );
+      case 'quick-access':
+        return (
+          <DashboardWidget key={id} {...frameProps} bare>
+            <div className="grid grid-cols-2 gap-4 sm:grid-cols-4">
+              <QuickAccessCard 
+                title="Accommodations" 
+                count={quickStats.accommodations} 
+                icon={<Building2 className="h-10 w-10 text-blue-600" />} 
+                link="/accommodations" 
+                loading={loadingStates.quickStats}
+              />
+              <QuickAccessCard 
+                title="Gallery" 
+                count={quickStats.gallery} 
+                icon={<Image className="h-10 w-10 text-purple-600" />} 
+                link="/gallery" 
+                loading={loadingStates.quickStats}
+              />
+              <QuickAccessCard 
+                title="Services" 
+                count={quickStats.services} 
+                icon={<Coffee className="h-10 w-10 text-amber-600" />} 
+                link="/services" 
+                loading={loadingStates.quickStats}
+              />
+              <QuickAccessCard 
+                title="Today's Bookings" 
+                count={quickStats.todayBookings} 
+                icon={<Calendar className="h-10 w-10 text-green-600" />} 
+                link="/bookings" 
+                loading={loadingStates.quickStats}
+              />
+            </div>
+          </DashboardWidget>
+        );
+      case 'recent-bookings':
+        return (
+          <DashboardWidget key={id} {...frameProps} link="/bookings">
+            <RecentBookingsTable 
+              bookings={recentBookings} 
+              loading={loadingStates.recentBookings} 
+              error={errors.recentBookings}
+              onRetry={fetchRecentBookings}
+            />
+          </DashboardWidget>
+        );
+      default:
+        return null;
+    }
+  };
+
   return (
     <div className="space-y-6 pb-16 md:pb-0">
       <div className="flex justify-between items-start">
@@ -362,14 +787,25 @@ const Dashboard = () => {
           <h1 className="text-2xl font-bold text-gray-900">Dashboard</h1>
           <p className="mt-1 text-sm text-gray-500">Resort overview and performance metrics</p>
         </div>
-        <button
-          onClick={refreshAll}
-          disabled={anyLoading}
-          className="flex items-center px-3 py-1.5 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
-        >
-          <RefreshCw className={`h-4 w-4 mr-2 ${anyLoading ? 'animate-spin' : ''}`} />
-          Refresh
-        </button>
+        <div className="flex space-x-2">
+          <button
+            onClick={() => setEditing(prev => !prev)}
+            className={`flex items-center px-3 py-1.5 border rounded-md text-sm font-medium focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 ${
+              editing ? 'border-transparent text-white bg-blue-600 hover:bg-blue-700' : 'border-gray-300 text-gray-700 bg-white hover:bg-gray-50'
+            }`}
+          >
+            <LayoutGrid className="h-4 w-4 mr-2" />
+            {editing ? 'Done' : 'Customize'}
+          </button>
+          <button
+            onClick={refreshAll}
+            disabled={anyLoading}
+            className="flex items-center px-3 py-1.5 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <RefreshCw className={`h-4 w-4 mr-2 ${anyLoading ? 'animate-spin' : ''}`} />
+            Refresh
+          </button>
+        </div>
       </div>
 
       {anyError && (
@@ -382,9 +818,9 @@ const Dashboard = () => {
               <h3 className="text-sm font-medium text-red-800">There were errors loading some data</h3>
               <div className="mt-2 text-sm text-red-700">
                 <ul className="list-disc pl-5 space-y-1">
-                  {errors.stats && <li>{errors.stats}</li>}
-                  {errors.quickStats && <li>{errors.quickStats}</li>}
-                  {errors.recentBookings && <li>{errors.recentBookings}</li>}
+                  {Object.values(errors).filter(Boolean).map(message => (
+                    <li key={message}>{message}</li>
+                  ))}
                 </ul>
               </div>
             </div>
@@ -392,105 +828,51 @@ const Dashboard = () => {
         </div>
       )}
 
-      {/* Stats Cards */}
-      <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-4">
-        <StatCard 
-          title="Total Bookings" 
-          value={stats.totalBookings} 
-          change={stats.bookingChange} 
-          icon={<Calendar className="h-6 w-6 text-blue-600" />} 
-          trend="up" 
-          loading={loadingStates.stats}
-        />
-        <StatCard 
-          title="Occupancy Rate" 
-          value={stats.occupancyRate} 
-          change={stats.occupancyChange} 
-          icon={<Building2 className="h-6 w-6 text-amber-600" />} 
-          trend="up" 
-          loading={loadingStates.stats}
-        />
-        <StatCard 
-          title="Revenue" 
-          value={stats.revenue} 
-          change={stats.revenueChange} 
-          icon={<DollarSign className="h-6 w-6 text-green-600" />} 
-          trend="up" 
-          loading={loadingStates.stats}
-        />
-        <StatCard 
-          title="Website Visitors" 
-          value={stats.websiteVisitors} 
-          change={stats.visitorsChange} 
-          icon={<Users className="h-6 w-6 text-indigo-600" />} 
-          trend="up" 
-          loading={loadingStates.stats}
-        />
-      </div>
-
-      {/* Quick Access Cards */}
-      <div className="grid grid-cols-2 gap-4 sm:grid-cols-4">
-        <QuickAccessCard 
-          title="Accommodations" 
-          count={quickStats.accommodations} 
-          icon={<Building2 className="h-10 w-10 text-blue-600" />} 
-          link="/accommodations" 
-          loading={loadingStates.quickStats}
-        />
-        <QuickAccessCard 
-          title="Gallery" 
-          count={quickStats.gallery} 
-          icon={<Image className="h-10 w-10 text-purple-600" />} 
-          link="/gallery" 
-          loading={loadingStates.quickStats}
-        />
-        <QuickAccessCard 
-          title="Services" 
-          count={quickStats.services} 
-          icon={<Coffee className="h-10 w-10 text-amber-600" />} 
-          link="/services" 
-          loading={loadingStates.quickStats}
-        />
-        <QuickAccessCard 
-          title="Today's Bookings" 
-          count={quickStats.todayBookings} 
-          icon={<Calendar className="h-10 w-10 text-green-600" />} 
-          link="/bookings" 
-          loading={loadingStates.quickStats}
-        />
-      </div>
-
-      {/* Recent Bookings */}
-      <div className="bg-white rounded-lg shadow overflow-hidden">
-        <div className="px-4 py-5 sm:px-6 border-b border-gray-200">
-          <h3 className="text-lg font-medium leading-6 text-gray-900">Recent Bookings</h3>
-          <p className="mt-1 text-sm text-gray-500">Latest 5 bookings from guests</p>
+      {/* Layout editor */}
+      {editing && (
+        <div className="bg-blue-50 border border-blue-200 rounded-md p-4">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <p className="text-sm text-blue-900">Drag widgets to rearrange them, or remove the ones you don't need.</p>
+            <button
+              onClick={handleResetLayout}
+              className="flex items-center text-sm text-blue-700 hover:text-blue-900"
+            >
+              <RotateCcw className="h-4 w-4 mr-1" />
+              Reset to default
+            </button>
+          </div>
+          {availableWidgets.length > 0 && (
+            <div className="mt-3 flex flex-wrap gap-2">
+              {availableWidgets.map(widget => (
+                <button
+                  key={widget.id}
+                  onClick={() => updateLayout([...layout, widget.id])}
+                  className="flex items-center px-3 py-1.5 border border-blue-300 rounded-md text-sm text-blue-700 bg-white hover:bg-blue-100"
+                  title={widget.description}
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  {widget.title}
+                </button>
+              ))}
+            </div>
+          )}
         </div>
-        <RecentBookingsTable 
-          bookings={recentBookings} 
-          loading={loadingStates.recentBookings} 
-          error={errors.recentBookings}
-          onRetry={fetchRecentBookings}
-        />
-      </div>
+      )}
 
-      {/* Revenue Trend Placeholder */}
-      <div className="bg-white rounded-lg shadow">
-        <div className="px-4 py-5 sm:px-6 border-b border-gray-200">
-          <div className="flex items-center justify-between">
-            <div>
-              <h3 className="text-lg font-medium leading-6 text-gray-900">Revenue Trend</h3>
-              <p className="mt-1 text-sm text-gray-500">Last 7 days performance</p>
-            </div>
-            <TrendingUp className="h-6 w-6 text-green-500" />
-          </div>
+      {/* Widgets */}
+      {visibleWidgets.length === 0 ? (
+        <div className="text-center py-10 bg-white rounded-lg shadow">
+          <LayoutGrid className="mx-auto h-12 w-12 text-gray-400" />
+          <h3 className="mt-2 text-sm font-medium text-gray-900">No widgets on your dashboard</h3>
+          <p className="mt-1 text-sm text-gray-500">Use Customize to add some.</p>
         </div>
-        <div className="p-4 h-64 flex items-center justify-center">
-          <p className="text-gray-500">Revenue chart will be displayed here</p>
+      ) : (
+        <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+          {visibleWidgets.map((id, index) => renderWidget(id, index))}
         </div>
-      </div>
+      )}
     </div>
   );
 };
 
-export default Dashboard;
\ No newline at end of file
+export default Dashboard;
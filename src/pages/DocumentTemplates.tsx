@@ -0,0 +1,314 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AlertCircle, CheckCircle, FileDown, FileText, Loader, RotateCcw, Save, Send } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { getErrorMessage, isCanceled } from '../lib/api';
+import {
+  DEFAULT_TEMPLATES,
+  DOCUMENT_TEMPLATE_TYPES,
+  TEMPLATE_PLACEHOLDERS,
+  fetchDocumentTemplates,
+  getSampleValues,
+  renderDocument,
+  resetDocumentTemplate,
+  saveDocumentTemplate,
+  sendDocumentEmail,
+  type DocumentTemplate,
+  type DocumentTemplateId,
+} from '../lib/documentTemplates';
+import { downloadHtmlAsPdf } from '../lib/pdf';
+
+const DocumentTemplates: React.FC = () => {
+  const { user } = useAuth();
+  const [templates, setTemplates] = useState<Record<DocumentTemplateId, DocumentTemplate>>(DEFAULT_TEMPLATES);
+  const [selectedId, setSelectedId] = useState<DocumentTemplateId>('booking-confirmation');
+  const [subject, setSubject] = useState(DEFAULT_TEMPLATES['booking-confirmation'].subject);
+  const [body, setBody] = useState(DEFAULT_TEMPLATES['booking-confirmation'].body);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+  const [refreshKey, setRefreshKey] = useState(0);
+  const bodyRef = useRef<HTMLTextAreaElement>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setLoading(true);
+
+    fetchDocumentTemplates(controller.signal)
+      .then(setTemplates)
+      .catch((err) => {
+        if (isCanceled(err)) return;
+        console.error('Error fetching document templates:', err);
+        setError(getErrorMessage(err, 'Failed to load templates'));
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false);
+      });
+
+    return () => controller.abort();
+  }, [refreshKey]);
+
+  // Load the selected template into the editor whenever the selection or saved copy changes
+  useEffect(() => {
+    setSubject(templates[selectedId].subject);
+    setBody(templates[selectedId].body);
+  }, [templates, selectedId]);
+
+  const saved = templates[selectedId];
+  const isDirty = subject !== saved.subject || body !== saved.body;
+  const preview = renderDocument({ ...saved, subject, body }, getSampleValues(selectedId));
+
+  const handleSelect = (id: DocumentTemplateId) => {
+    if (isDirty && !window.confirm('Discard unsaved changes to this template?')) return;
+    setSelectedId(id);
+    setError('');
+    setSuccess('');
+  };
+
+  // Inserts the placeholder at the cursor in the body editor
+  const insertPlaceholder = (key: string, html?: boolean) => {
+    const token = html ? `{{{${key}}}}` : `{{${key}}}`;
+    const textarea = bodyRef.current;
+    if (!textarea) {
+      setBody((prev) => prev + token);
+      return;
+    }
+    const { selectionStart, selectionEnd } = textarea;
+    setBody(body.slice(0, selectionStart) + token + body.slice(selectionEnd));
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(selectionStart + token.length, selectionStart + token.length);
+    });
+  };
+
+  const handleSave = async () => {
+    if (!subject.trim() || !body.trim()) {
+      setError('Subject and body are required');
+      return;
+    }
+    try {
+      setSaving(true);
+      setError('');
+      await saveDocumentTemplate({ ...saved, subject, body }, saved);
+      setSuccess('Template saved');
+      setRefreshKey((prev) => prev + 1);
+    } catch (err) {
+      console.error('Error saving template:', err);
+      setError(getErrorMessage(err, 'Failed to save template'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReset = async () => {
+    if (!window.confirm('Reset this template to the built-in default? Your edits will be lost.')) return;
+    try {
+      setSaving(true);
+      setError('');
+      if (saved.customized) {
+        await resetDocumentTemplate(selectedId);
+        setRefreshKey((prev) => prev + 1);
+      } else {
+        setSubject(DEFAULT_TEMPLATES[selectedId].subject);
+        setBody(DEFAULT_TEMPLATES[selectedId].body);
+      }
+      setSuccess('Template reset to the default');
+    } catch (err) {
+      console.error('Error resetting template:', err);
+      setError(getErrorMessage(err, 'Failed to reset template'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDownloadSample = async () => {
+    try {
+      setError('');
+      await downloadHtmlAsPdf(preview.html, `${selectedId}-sample.pdf`);
+    } catch (err) {
+      console.error('PDF generation failed:', err);
+      setError('Failed to generate the sample PDF');
+    }
+  };
+
+  const handleSendTest = async () => {
+    if (!user?.email) return;
+    try {
+      setSaving(true);
+      setError('');
+      await sendDocumentEmail(selectedId, user.email, preview);
+      setSuccess(`Test email sent to ${user.email}`);
+    } catch (err) {
+      console.error('Error sending test email:', err);
+      setError(getErrorMessage(err, 'Failed to send test email'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6 pb-16 md:pb-0">
+      <div className="sm:flex sm:items-start sm:justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 flex items-center">
+            <FileText className="h-6 w-6 mr-2 text-blue-600" />
+            Document Templates
+          </h1>
+          <p className="mt-1 text-sm text-gray-500">
+            Confirmations, receipts, reminders and cancellation notices. The same template is used for PDFs and emails.
+          </p>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-md">
+          <div className="flex">
+            <AlertCircle className="h-5 w-5 text-red-400 mr-2 flex-shrink-0" />
+            <div className="text-sm text-red-700">{error}</div>
+          </div>
+        </div>
+      )}
+      {success && (
+        <div className="p-4 bg-green-50 border border-green-200 rounded-md">
+          <div className="flex">
+            <CheckCircle className="h-5 w-5 text-green-400 mr-2 flex-shrink-0" />
+            <div className="text-sm text-green-700">{success}</div>
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 gap-6 lg:grid-cols-4">
+        <div className="bg-white rounded-lg shadow divide-y divide-gray-100 self-start">
+          {DOCUMENT_TEMPLATE_TYPES.map((type) => (
+            <button
+              key={type.id}
+              type="button"
+              onClick={() => handleSelect(type.id)}
+              className={`w-full text-left px-4 py-3 ${selectedId === type.id ? 'bg-blue-50' : 'hover:bg-gray-50'}`}
+            >
+              <p className={`text-sm font-medium ${selectedId === type.id ? 'text-blue-700' : 'text-gray-900'}`}>
+                {type.name}
+                {templates[type.id].customized && (
+                  <span className="ml-2 px-1.5 py-0.5 text-xs rounded bg-gray-100 text-gray-600">Edited</span>
+                )}
+              </p>
+              <p className="text-xs text-gray-500">{type.description}</p>
+            </button>
+          ))}
+        </div>
+
+        <div className="lg:col-span-3 space-y-6">
+          {loading ? (
+            <div className="flex justify-center py-16">
+              <Loader className="h-8 w-8 animate-spin text-blue-600" />
+            </div>
+          ) : (
+            <div className="bg-white rounded-lg shadow p-4 space-y-4">
+              <div>
+                <label htmlFor="template-subject" className="block text-sm font-medium text-gray-700 mb-1">
+                  Email subject
+                </label>
+                <input
+                  id="template-subject"
+                  type="text"
+                  value={subject}
+                  onChange={(e) => setSubject(e.target.value)}
+                  className="block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                  disabled={saving}
+                />
+              </div>
+
+              <div>
+                <p className="block text-sm font-medium text-gray-700 mb-1">Placeholders</p>
+                <div className="flex flex-wrap gap-1">
+                  {TEMPLATE_PLACEHOLDERS[selectedId].map((placeholder) => (
+                    <button
+                      key={placeholder.key}
+                      type="button"
+                      onClick={() => insertPlaceholder(placeholder.key, placeholder.html)}
+                      className="px-2 py-0.5 text-xs rounded-full border border-gray-300 text-gray-700 hover:bg-blue-50 hover:border-blue-300"
+                      title={`Insert ${placeholder.label}`}
+                    >
+                      {placeholder.key}
+                    </button>
+                  ))}
+                </div>
+                <p className="mt-1 text-xs text-gray-500">
+                  Wrap content in {'{{#key}}…{{/key}}'} to show it only when a value is set, or {'{{^key}}…{{/key}}'} when it is
+                  not.
+                </p>
+              </div>
+
+              <div>
+                <label htmlFor="template-body" className="block text-sm font-medium text-gray-700 mb-1">
+                  Body (HTML)
+                </label>
+                <textarea
+                  id="template-body"
+                  ref={bodyRef}
+                  rows={16}
+                  value={body}
+                  onChange={(e) => setBody(e.target.value)}
+                  className="block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 font-mono text-xs focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                  disabled={saving}
+                  spellCheck={false}
+                />
+              </div>
+
+              <div className="flex flex-wrap justify-end gap-2">
+                <button
+                  type="button"
+                  onClick={handleReset}
+                  disabled={saving}
+                  className="flex items-center px-3 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                >
+                  <RotateCcw className="h-4 w-4 mr-1" /> Reset to Default
+                </button>
+                <button
+                  type="button"
+                  onClick={handleDownloadSample}
+                  disabled={saving}
+                  className="flex items-center px-3 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                >
+                  <FileDown className="h-4 w-4 mr-1" /> Sample PDF
+                </button>
+                {user?.email && (
+                  <button
+                    type="button"
+                    onClick={handleSendTest}
+                    disabled={saving}
+                    className="flex items-center px-3 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                    title={`Send the preview to ${user.email}`}
+                  >
+                    <Send className="h-4 w-4 mr-1" /> Send Test Email
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={handleSave}
+                  disabled={saving || !isDirty}
+                  className="flex items-center px-4 py-2 rounded-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+                >
+                  <Save className="h-4 w-4 mr-1" /> {saving ? 'Saving...' : 'Save Template'}
+                </button>
+              </div>
+            </div>
+          )}
+
+          <div className="bg-white rounded-lg shadow">
+            <div className="px-4 py-3 border-b border-gray-200">
+              <h2 className="text-base font-medium text-gray-900">Preview</h2>
+              <p className="text-sm text-gray-500">
+                Subject: <span className="text-gray-900">{preview.subject}</span>
+              </p>
+            </div>
+            {/* Sandboxed so template markup can't run scripts in the admin */}
+            <iframe title="Template preview" sandbox="" srcDoc={preview.html} className="w-full h-[600px] border-0" />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DocumentTemplates;
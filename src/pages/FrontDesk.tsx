@@ -0,0 +1,359 @@
+import React, { useState, useEffect } from 'react';
+import { format, addDays } from 'date-fns';
+import {
+  ConciergeBell, LogIn, LogOut, Wallet, Loader, AlertCircle, CheckCircle, RefreshCw, Building2, Phone, Users, Utensils
+} from 'lucide-react';
+import AddPaymentModal from '../components/AddPaymentModal';
+import { useAuth } from '../contexts/AuthContext';
+import { api, getErrorMessage, isCanceled } from '../lib/api';
+import {
+  BOOKING_TRANSITIONS,
+  getAvailableTransitions,
+  getBookingStatusColor,
+  getBookingStatusLabel,
+  parseBookingStatus,
+  type BookingTransition,
+} from '../lib/bookingStatus';
+import {
+  fetchAllBookings,
+  fetchBookingBalances,
+  formatBookingRef,
+  getBalanceDue,
+  getTodayKey,
+  toLocalDateKey,
+  type BookingBalances,
+  type BookingSummary,
+} from '../lib/bookingQueries';
+
+interface FrontDeskBooking extends BookingSummary {
+  guest_email: string;
+  guest_phone: string;
+  food_veg: number;
+  food_nonveg: number;
+  food_jain: number;
+  payment_status: string;
+}
+
+type FrontDeskDay = 'today' | 'tomorrow';
+
+const formatCurrency = (amount: number) => `₹${amount.toLocaleString('en-IN')}`;
+
+const groupByAccommodation = (bookings: FrontDeskBooking[]) => {
+  const groups = new Map<string, FrontDeskBooking[]>();
+  bookings.forEach(booking => {
+    const name = booking.accommodation_name || 'Not specified';
+    groups.set(name, [...(groups.get(name) || []), booking]);
+  });
+  return Array.from(groups.entries()).sort(([a], [b]) => a.localeCompare(b));
+};
+
+const sumMeals = (bookings: FrontDeskBooking[]) => ({
+  veg: bookings.reduce((sum, booking) => sum + (Number(booking.food_veg) || 0), 0),
+  nonVeg: bookings.reduce((sum, booking) => sum + (Number(booking.food_nonveg) || 0), 0),
+  jain: bookings.reduce((sum, booking) => sum + (Number(booking.food_jain) || 0), 0),
+});
+
+const FrontDesk: React.FC = () => {
+  const { can } = useAuth();
+  const [bookings, setBookings] = useState<FrontDeskBooking[]>([]);
+  const [balances, setBalances] = useState<BookingBalances>({});
+  const [day, setDay] = useState<FrontDeskDay>('today');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+  const [updatingId, setUpdatingId] = useState<number | null>(null);
+  const [paymentBooking, setPaymentBooking] = useState<FrontDeskBooking | null>(null);
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    const fetchBookings = async () => {
+      try {
+        setLoading(true);
+        // Arrivals and departures for today and tomorrow, so switching days needs no refetch
+        const dates = { start_date: getTodayKey(), end_date: toLocalDateKey(addDays(new Date(), 1)) };
+        const [arriving, departing] = await Promise.all(
+          (['check_in', 'check_out'] as const).map(field =>
+            fetchAllBookings<FrontDeskBooking>({ date_field: field, ...dates }, controller.signal)
+          )
+        );
+        // Same-day and one-night stays come back from both queries
+        const loaded = Array.from(new Map([...arriving, ...departing].map(booking => [booking.id, booking])).values());
+        setBalances(await fetchBookingBalances(loaded, controller.signal));
+        setBookings(loaded);
+      } catch (err) {
+        if (isCanceled(err)) return;
+        console.error('Error fetching bookings:', err);
+        setError(getErrorMessage(err, 'Failed to load bookings'));
+      } finally {
+        if (!controller.signal.aborted) setLoading(false);
+      }
+    };
+
+    fetchBookings();
+    return () => controller.abort();
+  }, [refreshKey]);
+
+  // Clear messages after 3 seconds
+  useEffect(() => {
+    if (error || success) {
+      const timer = setTimeout(() => {
+        setError('');
+        setSuccess('');
+      }, 3000);
+      return () => clearTimeout(timer);
+    }
+  }, [error, success]);
+
+  const date = day === 'today' ? new Date() : addDays(new Date(), 1);
+  const dateKey = toLocalDateKey(date);
+  // Guests stay listed after checking in or out so the desk can see who has already been handled
+  const scheduledOn = (field: 'check_in' | 'check_out') =>
+    bookings.filter(booking =>
+      toLocalDateKey(booking[field]) === dateKey && parseBookingStatus(booking.status) !== 'cancelled'
+    );
+  const arrivals = scheduledOn('check_in');
+  const departures = scheduledOn('check_out');
+
+  const handleTransition = async (booking: FrontDeskBooking, transition: BookingTransition) => {
+    const { label, to } = BOOKING_TRANSITIONS[transition];
+    const balance = getBalanceDue(booking, balances);
+    if (transition === 'check-out') {
+      const warning =
+        balances[booking.id] === null
+          ? `Payments for ${booking.guest_name} could not be loaded, so any balance is unknown.`
+          : balance > 0
+            ? `${booking.guest_name} still owes ${formatCurrency(balance)}.`
+            : '';
+      if (warning && !window.confirm(`${warning} Check out anyway?`)) return;
+    }
+
+    try {
+      setUpdatingId(booking.id);
+      setError('');
+      await api.patch(`/bookings/${booking.id}/status`, { status: to }, {
+        audit: {
+          action: `booking.${transition}`,
+          entityType: 'booking',
+          entityId: booking.id,
+          summary: `${label} ${formatBookingRef(booking.id)}`,
+          before: { status: parseBookingStatus(booking.status) },
+          after: { status: to },
+        }
+      });
+      setBookings(prev => prev.map(entry => (entry.id === booking.id ? { ...entry, status: to } : entry)));
+      setSuccess(`${booking.guest_name}: ${getBookingStatusLabel(to).toLowerCase()}`);
+    } catch (err) {
+      console.error('Error updating booking status:', err);
+      setError(getErrorMessage(err, 'Failed to update booking status'));
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const renderBooking = (booking: FrontDeskBooking, transition: BookingTransition) => {
+    const status = parseBookingStatus(booking.status);
+    const balance = getBalanceDue(booking, balances);
+    const ledgerMissing = balances[booking.id] === null;
+    const nights = Math.round(
+      (new Date(toLocalDateKey(booking.check_out)).getTime() - new Date(toLocalDateKey(booking.check_in)).getTime()) / 86400000
+    );
+    const canTransition = can('bookings:edit') && getAvailableTransitions(status).includes(transition);
+
+    return (
+      <li key={booking.id} className="px-4 py-3">
+        <div className="flex flex-wrap items-start justify-between gap-2">
+          <div className="min-w-0">
+            <p className="text-sm font-medium text-gray-900">
+              {booking.guest_name}
+              <span className="ml-2 text-xs font-normal text-gray-500">{formatBookingRef(booking.id)}</span>
+            </p>
+            <p className="mt-0.5 flex items-center text-xs text-gray-500">
+              <Phone className="h-3 w-3 mr-1" />
+              {booking.guest_phone || '—'}
+              <span className="mx-2">·</span>
+              {nights} night(s), {booking.rooms} room(s)
+            </p>
+          </div>
+          <span className={`inline-flex px-2 py-0.5 text-xs font-semibold rounded-full ${getBookingStatusColor(status)}`}>
+            {getBookingStatusLabel(status)}
+          </span>
+        </div>
+
+        <div className="mt-2 flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-gray-600">
+          <span className="flex items-center">
+            <Users className="h-3.5 w-3.5 mr-1" />
+            {booking.adults} adult(s), {booking.children} child(ren)
+          </span>
+          <span className="flex items-center">
+            <Utensils className="h-3.5 w-3.5 mr-1" />
+            Veg {booking.food_veg || 0} · Non-veg {booking.food_nonveg || 0} · Jain {booking.food_jain || 0}
+          </span>
+          {ledgerMissing ? (
+            <span className="text-gray-500">Payments unavailable</span>
+          ) : (
+            <span className={balance > 0 ? 'font-medium text-red-600' : 'text-green-600'}>
+              {balance > 0 ? `${formatCurrency(balance)} due` : 'Fully paid'}
+            </span>
+          )}
+        </div>
+
+        <div className="mt-2 flex flex-wrap gap-2">
+          {canTransition && (
+            <button
+              type="button"
+              onClick={() => handleTransition(booking, transition)}
+              disabled={updatingId === booking.id}
+              className="inline-flex items-center px-3 py-1 rounded-md text-xs font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+            >
+              {updatingId === booking.id ? (
+                <Loader className="h-3.5 w-3.5 mr-1 animate-spin" />
+              ) : transition === 'check-in' ? (
+                <LogIn className="h-3.5 w-3.5 mr-1" />
+              ) : (
+                <LogOut className="h-3.5 w-3.5 mr-1" />
+              )}
+              {BOOKING_TRANSITIONS[transition].label}
+            </button>
+          )}
+          {balance > 0 && can('payments:record') && (
+            <button
+              type="button"
+              onClick={() => setPaymentBooking(booking)}
+              className="inline-flex items-center px-3 py-1 border border-gray-300 rounded-md text-xs font-medium text-gray-700 bg-white hover:bg-gray-50"
+            >
+              <Wallet className="h-3.5 w-3.5 mr-1" />
+              Collect Balance
+            </button>
+          )}
+        </div>
+      </li>
+    );
+  };
+
+  const renderPanel = (title: string, icon: React.ReactNode, list: FrontDeskBooking[], transition: BookingTransition) => {
+    const meals = sumMeals(list);
+    const guests = list.reduce((sum, booking) => sum + booking.adults + booking.children, 0);
+
+    return (
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <div className="px-4 py-4 border-b border-gray-200">
+          <h2 className="flex items-center text-lg font-medium text-gray-900">
+            {icon}
+            {title}
+            <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-semibold bg-blue-100 text-blue-800">
+              {list.length}
+            </span>
+          </h2>
+          <p className="mt-1 text-sm text-gray-500">
+            {guests} guests · Meals: Veg {meals.veg}, Non-veg {meals.nonVeg}, Jain {meals.jain}
+          </p>
+        </div>
+
+        {list.length === 0 ? (
+          <p className="px-4 py-8 text-center text-sm text-gray-500">Nothing scheduled</p>
+        ) : (
+          groupByAccommodation(list).map(([accommodation, group]) => (
+            <div key={accommodation}>
+              <h3 className="flex items-center px-4 py-2 bg-gray-50 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                <Building2 className="h-3.5 w-3.5 mr-1" />
+                {accommodation} ({group.length})
+              </h3>
+              <ul className="divide-y divide-gray-100">
+                {group.map(booking => renderBooking(booking, transition))}
+              </ul>
+            </div>
+          ))
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-6 pb-16 md:pb-0">
+      <div className="sm:flex sm:items-start sm:justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 flex items-center">
+            <ConciergeBell className="h-6 w-6 mr-2 text-blue-600" />
+            Front Desk
+          </h1>
+          <p className="mt-1 text-sm text-gray-500">
+            Arrivals and departures for {format(date, 'EEEE, d MMMM yyyy')}
+          </p>
+        </div>
+        <div className="mt-4 sm:mt-0 flex space-x-2">
+          {(['today', 'tomorrow'] as const).map(option => (
+            <button
+              key={option}
+              onClick={() => setDay(option)}
+              className={`px-4 py-1.5 text-sm font-medium rounded-md transition-colors ${
+                day === option
+                  ? 'bg-blue-100 text-blue-700 border border-blue-300'
+                  : 'bg-white text-gray-700 border border-gray-300 hover:bg-gray-50'
+              }`}
+            >
+              {option === 'today' ? 'Today' : 'Tomorrow'}
+            </button>
+          ))}
+          <button
+            onClick={() => setRefreshKey(prev => prev + 1)}
+            disabled={loading}
+            className="flex items-center px-3 py-1.5 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+            title="Refresh"
+          >
+            <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-md">
+          <div className="flex">
+            <AlertCircle className="h-5 w-5 text-red-400 mr-2 flex-shrink-0" />
+            <div className="text-sm text-red-700">{error}</div>
+          </div>
+        </div>
+      )}
+      {success && (
+        <div className="p-4 bg-green-50 border border-green-200 rounded-md">
+          <div className="flex">
+            <CheckCircle className="h-5 w-5 text-green-400 mr-2 flex-shrink-0" />
+            <div className="text-sm text-green-700">{success}</div>
+          </div>
+        </div>
+      )}
+
+      {loading && bookings.length === 0 ? (
+        <div className="flex justify-center py-16">
+          <Loader className="h-8 w-8 animate-spin text-blue-600" />
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+          {renderPanel('Arrivals', <LogIn className="h-5 w-5 mr-2 text-green-600" />, arrivals, 'check-in')}
+          {renderPanel('Departures', <LogOut className="h-5 w-5 mr-2 text-amber-600" />, departures, 'check-out')}
+        </div>
+      )}
+
+      {paymentBooking && (
+        <AddPaymentModal
+          booking={{
+            id: paymentBooking.id,
+            bookingId: formatBookingRef(paymentBooking.id),
+            guest: paymentBooking.guest_name,
+            email: paymentBooking.guest_email,
+            phone: paymentBooking.guest_phone,
+            totalAmount: parseFloat(String(paymentBooking.total_amount)) || 0,
+          }}
+          onClose={() => setPaymentBooking(null)}
+          onPaymentAdded={() => {
+            setSuccess(`Payment recorded for ${paymentBooking.guest_name}`);
+            setRefreshKey(prev => prev + 1);
+          }}
+        />
+      )}
+    </div>
+  );
+};
+
+export default FrontDesk;
@@ -1,5 +1,11 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Image, Search, Filter, UploadCloud, XCircle, Trash2, Edit, Eye, AlertCircle, CheckCircle } from 'lucide-react';
+import { Image, Images, Search, Filter, UploadCloud, XCircle, Trash2, Edit, Eye, AlertCircle, CheckCircle, GripVertical, Save, CheckSquare, Square, EyeOff, Type, RotateCcw } from 'lucide-react';
+import { api, getErrorMessage } from '../lib/api';
+import { recordMediaUsage, uploadMediaBatch, type MediaItem, type UploadProgress } from '../lib/media';
+import { DEFAULT_IMAGE_OPTIONS, MAX_DIMENSION_OPTIONS } from '../lib/imageProcessing';
+import MediaPickerModal from '../components/MediaPickerModal';
+import UploadProgressList from '../components/UploadProgressList';
+import { useDragReorder } from '../hooks/useDragReorder';
 
 interface GalleryImage {
   id: string;
@@ -31,6 +37,40 @@ interface GalleryStats {
   by_category: CategoryStat[];
 }
 
+// How long the undo banner is offered after a bulk delete
+const UNDO_WINDOW_MS = 8000;
+
+type GalleryImageUpdate = { id: string } & Partial<Pick<GalleryImage, 'category' | 'active' | 'alt_text'>>;
+
+// The backend soft-deletes, so the delete is saved immediately and an undo restores the same rows
+const deleteGalleryImages = async (images: GalleryImage[]) => {
+  const ids = images.map(img => img.id);
+  await api.post('/gallery/bulk-delete', { ids }, {
+    audit: {
+      action: 'gallery.bulk_delete',
+      entityType: 'gallery',
+      summary: `Deleted ${ids.length} gallery image(s)`,
+      before: { images: images.map(img => ({ id: img.id, title: img.title, category: img.category })) },
+    }
+  });
+  await Promise.all(ids.map(id => recordMediaUsage('gallery', id, 'image_url', [], '')));
+};
+
+const restoreGalleryImages = async (images: GalleryImage[]) => {
+  const ids = images.map(img => img.id);
+  await api.post('/gallery/bulk-restore', { ids }, {
+    audit: {
+      action: 'gallery.bulk_restore',
+      entityType: 'gallery',
+      summary: `Restored ${ids.length} gallery image(s)`,
+      after: { images: images.map(img => ({ id: img.id, title: img.title, category: img.category })) },
+    }
+  });
+  await Promise.all(
+    images.map(img => recordMediaUsage('gallery', img.id, 'image_url', [img.image_url], img.title || img.category))
+  );
+};
+
 const Gallery = () => {
   const [images, setImages] = useState<GalleryImage[]>([]);
   const [loading, setLoading] = useState<boolean>(true);
@@ -48,8 +88,20 @@ const Gallery = () => {
     alt_text: '',
     description: ''
   });
-  const API_BASE_URL = 'https://a.plumeriaretreat.com'; // Change to your backend URL
   const [selectedFiles, setSelectedFiles] = useState<FileList | null>(null);
+  // Images picked from the media library instead of uploaded from disk
+  const [selectedMedia, setSelectedMedia] = useState<MediaItem[]>([]);
+  const [showPicker, setShowPicker] = useState(false);
+  const [maxDimension, setMaxDimension] = useState(DEFAULT_IMAGE_OPTIONS.maxWidth);
+  const [uploads, setUploads] = useState<UploadProgress[]>([]);
+  const [orderChanged, setOrderChanged] = useState(false);
+  const [savingOrder, setSavingOrder] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [bulkSaving, setBulkSaving] = useState(false);
+  const [altDrafts, setAltDrafts] = useState<Record<string, string> | null>(null);
+  const [altForAll, setAltForAll] = useState('');
+  const [pendingDelete, setPendingDelete] = useState<GalleryImage[] | null>(null);
+  const pendingDeleteRef = useRef<{ images: GalleryImage[]; timer: ReturnType<typeof setTimeout> } | null>(null);
 
   const filters = [
     { id: 'all', name: 'All' },
@@ -63,15 +115,19 @@ const Gallery = () => {
   const fetchImages = async () => {
     try {
       setLoading(true);
-      const params = new URLSearchParams();
-      if (activeFilter !== 'all') params.append('category', activeFilter);
-      if (searchTerm) params.append('search', searchTerm);
-
-      const response = await fetch(`${API_BASE_URL}/admin/gallery?${params}`);
-      if (!response.ok) throw new Error('Failed to fetch images');
+      const params: Record<string, string> = {};
+      if (activeFilter !== 'all') params.category = activeFilter;
+      if (searchTerm) params.search = searchTerm;
 
-      const data: GalleryApiResponse = await response.json();
-      setImages(data.images || []);
+      const { data } = await api.get<GalleryApiResponse>('/gallery', { params });
+      const fetched = data.images || [];
+      // sort_order is only meaningful within one category
+      setImages(
+        activeFilter === 'all'
+          ? fetched
+          : [...fetched].sort((a, b) => (a.sort_order ?? 0) - (b.sort_order ?? 0))
+      );
+      setOrderChanged(false);
     } catch (err: any) {
       setError('Failed to load gallery images');
       console.error('Error fetching images:', err);
@@ -83,77 +139,62 @@ const Gallery = () => {
   // Fetch gallery statistics
   const fetchStats = async () => {
     try {
-      const response = await fetch(`${API_BASE_URL}/admin/gallery/stats`, {
-        method: 'GET',
-      });
-      if (!response.ok) throw new Error('Failed to fetch stats');
-      const data: GalleryStats = await response.json();
+      const { data } = await api.get<GalleryStats>('/gallery/stats');
       setStats(data);
     } catch (err) {
       console.error('Error fetching stats:', err);
     }
   };
 
-  // Upload images to backend
-  const handleUpload = async (files: FileList | null, details: typeof uploadDetails) => {
-    if (!files || files.length === 0) return;
+  // Upload new files to the media library (or reuse library images) and add them to the gallery
+  const handleUpload = async (files: FileList | null, media: MediaItem[], details: typeof uploadDetails) => {
+    if ((!files || files.length === 0) && media.length === 0) return;
 
     try {
       setUploading(true);
       setError('');
 
-      const uploadedImages: { src: string; alt: string }[] = [];
-
-      for (const file of Array.from(files)) {
-        const formData = new FormData();
-        formData.append('image', file); // Make sure PHP expects 'image'
-
-        // Upload to PHP endpoint
-        console.log('Uploading file:', formData.get('image'));
-        const res = await fetch('https://plumeriaretreat.com/upload.php', {
-          method: 'POST',
-          body: formData,
-        });
-        const rawText = await res.text(); // ✅ Safe single read
-        let data: any;
-
-        try {
-          data = JSON.parse(rawText);
-        } catch (err) {
-          console.error('Non-JSON PHP response:', rawText);
-          throw new Error(`Server error: ${rawText || res.statusText}`);
-        }
+      const uploadedImages: { src: string; alt: string }[] = media.map(item => ({
+        src: item.url,
+        alt: details.alt_text || item.alt_text || item.filename,
+      }));
 
-        if (data.success && data.filename) {
+      const fileList = Array.from(files || []);
+      setUploads(fileList.map(file => ({ name: file.name, status: 'queued', progress: 0, attempt: 0 })));
+      const results = await uploadMediaBatch(fileList, {
+        altText: details.alt_text,
+        processing: { maxWidth: maxDimension, maxHeight: maxDimension },
+        onUpdate: (index, progress) =>
+          setUploads(prev => prev.map((upload, i) => (i === index ? progress : upload))),
+      });
+      results.forEach((result, index) => {
+        if (result.item) {
           uploadedImages.push({
-            src: data.url,
-            alt: details.alt_text || file.name,
+            src: result.item.url,
+            alt: details.alt_text || fileList[index].name,
           });
-        } else {
-          throw new Error(data.message || 'Upload failed on server');
         }
-      }
-
-      // Save image metadata to your backend
-      const response = await fetch(`${API_BASE_URL}/admin/gallery/upload`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          images: uploadedImages,
-          category: details.category,
-          title: details.title,
-          alt_text: details.alt_text,
-          description: details.description,
-        }),
       });
 
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Image metadata save failed');
+      const failed = results.filter(result => result.status === 'error').length;
+      if (uploadedImages.length === 0) {
+        throw new Error(failed > 0 ? `All ${failed} upload(s) failed` : 'Nothing was uploaded');
       }
 
-      const savedData: { images: GalleryImage[] } = await response.json();
-      setSuccess(`${savedData.images.length} image(s) uploaded successfully`);
+      // Save image metadata to your backend
+      const { data: savedData } = await api.post<{ images: GalleryImage[] }>('/gallery/upload', {
+        images: uploadedImages,
+        category: details.category,
+        title: details.title,
+        alt_text: details.alt_text,
+        description: details.description,
+      });
+      setSuccess(
+        `${savedData.images.length} image(s) uploaded successfully${failed > 0 ? `, ${failed} failed` : ''}`
+      );
+      await Promise.all(
+        savedData.images.map(img => recordMediaUsage('gallery', img.id, 'image_url', [img.image_url], img.title || img.category))
+      );
 
       // Refresh UI
       await fetchImages();
@@ -168,8 +209,8 @@ const Gallery = () => {
         description: ''
       });
 
-    } catch (err: any) {
-      setError(err.message || 'Image upload failed');
+    } catch (err) {
+      setError(getErrorMessage(err, 'Image upload failed'));
       console.error('Upload error:', err);
     } finally {
       setUploading(false);
@@ -178,12 +219,173 @@ const Gallery = () => {
 
   // Handle modal upload
   const handleModalUpload = () => {
-    if (!selectedFiles) return;
-    handleUpload(selectedFiles, uploadDetails);
+    if (!selectedFiles && selectedMedia.length === 0) return;
+    handleUpload(selectedFiles, selectedMedia, uploadDetails);
     setShowUploadModal(false);
     setSelectedFiles(null);
+    setSelectedMedia([]);
+  };
+
+  const handleLibrarySelect = (items: MediaItem[]) => {
+    setSelectedMedia(items);
+    setSelectedFiles(null);
+    setUploadDetails(prev => ({
+      ...prev,
+      category: activeFilter === 'all' ? 'accommodation' : activeFilter,
+      alt_text: items.length === 1 ? items[0].alt_text : prev.alt_text,
+    }));
+    setShowUploadModal(true);
+  };
+
+  // Images can only be sorted within a single category, with the full (unsearched) list visible
+  const canReorder = activeFilter !== 'all' && !searchTerm;
+  const imageDrag = useDragReorder(
+    images,
+    reordered => {
+      setImages(reordered);
+      setOrderChanged(true);
+    },
+    canReorder && !savingOrder
+  );
+
+  const handleSaveOrder = async () => {
+    try {
+      setSavingOrder(true);
+      setError('');
+      const order = images.map((img, index) => ({ id: img.id, sort_order: index }));
+      await api.put('/gallery/reorder', { category: activeFilter, order }, {
+        audit: {
+          action: 'gallery.reorder',
+          entityType: 'gallery',
+          entityId: activeFilter,
+          summary: `Reordered ${order.length} image(s) in ${filters.find(f => f.id === activeFilter)?.name || activeFilter}`,
+          after: { order: order.map(entry => entry.id) },
+        }
+      });
+      setImages(prev => prev.map((img, index) => ({ ...img, sort_order: index })));
+      setOrderChanged(false);
+      setSuccess('Image order saved');
+    } catch (err) {
+      console.error('Error saving gallery order:', err);
+      setError(getErrorMessage(err, 'Failed to save image order'));
+    } finally {
+      setSavingOrder(false);
+    }
+  };
+
+  const selectedImages = images.filter(img => selectedIds.includes(img.id));
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => (prev.includes(id) ? prev.filter(selected => selected !== id) : [...prev, id]));
+  };
+
+  const applyBulkUpdate = async (updates: GalleryImageUpdate[], summary: string) => {
+    try {
+      setBulkSaving(true);
+      setError('');
+      await api.patch('/gallery/bulk', { updates }, {
+        audit: {
+          action: 'gallery.bulk_update',
+          entityType: 'gallery',
+          summary,
+          after: { updates },
+        }
+      });
+      setSuccess(summary);
+      setSelectedIds([]);
+      await fetchImages();
+      await fetchStats();
+    } catch (err) {
+      console.error('Error updating gallery images:', err);
+      setError(getErrorMessage(err, 'Failed to update images'));
+    } finally {
+      setBulkSaving(false);
+    }
+  };
+
+  const handleBulkCategory = (category: string) => {
+    if (!category) return;
+    const name = filters.find(f => f.id === category)?.name || category;
+    applyBulkUpdate(
+      selectedIds.map(id => ({ id, category })),
+      `Moved ${selectedIds.length} image(s) to ${name}`
+    );
+  };
+
+  const handleBulkActive = (active: boolean) => {
+    applyBulkUpdate(
+      selectedIds.map(id => ({ id, active: active ? 1 : 0 })),
+      `${active ? 'Showed' : 'Hid'} ${selectedIds.length} image(s)`
+    );
+  };
+
+  const openAltEditor = () => {
+    setAltForAll('');
+    setAltDrafts(Object.fromEntries(selectedImages.map(img => [img.id, img.alt_text || ''])));
+  };
+
+  const handleSaveAltText = async () => {
+    if (!altDrafts) return;
+    const updates = selectedImages
+      .filter(img => (altDrafts[img.id] ?? '').trim() !== (img.alt_text || ''))
+      .map(img => ({ id: img.id, alt_text: altDrafts[img.id].trim() }));
+    setAltDrafts(null);
+    if (updates.length === 0) return;
+    await applyBulkUpdate(updates, `Updated alt text on ${updates.length} image(s)`);
   };
 
+  const handleBulkDelete = async () => {
+    if (!window.confirm(`Delete ${selectedImages.length} image(s)? You can undo this for a few seconds.`)) return;
+
+    // Saved on the server straight away, so closing or reloading the page during the undo window
+    // can't lose the delete
+    const toDelete = selectedImages;
+    try {
+      await deleteGalleryImages(toDelete);
+    } catch (err) {
+      console.error('Bulk delete error:', err);
+      setError(getErrorMessage(err, 'Failed to delete images'));
+      fetchImages();
+      return;
+    }
+
+    // Only the latest bulk delete can be undone
+    if (pendingDeleteRef.current) clearTimeout(pendingDeleteRef.current.timer);
+    const timer = setTimeout(() => {
+      pendingDeleteRef.current = null;
+      setPendingDelete(null);
+    }, UNDO_WINDOW_MS);
+    pendingDeleteRef.current = { images: toDelete, timer };
+
+    setPendingDelete(toDelete);
+    setImages(prev => prev.filter(img => !toDelete.some(deleted => deleted.id === img.id)));
+    setSelectedIds([]);
+    fetchStats();
+  };
+
+  const handleUndoDelete = async () => {
+    const pending = pendingDeleteRef.current;
+    if (!pending) return;
+    clearTimeout(pending.timer);
+    pendingDeleteRef.current = null;
+    setPendingDelete(null);
+
+    try {
+      await restoreGalleryImages(pending.images);
+    } catch (err) {
+      console.error('Bulk restore error:', err);
+      setError(getErrorMessage(err, 'Failed to restore images'));
+    }
+    fetchImages();
+    fetchStats();
+  };
+
+  useEffect(() => {
+    return () => {
+      if (pendingDeleteRef.current) clearTimeout(pendingDeleteRef.current.timer);
+    };
+  }, []);
+
   // Delete image from backend
   const handleDelete = async (imageId: string, imageUrl?: string) => {
     if (!window.confirm('Are you sure you want to delete this image?')) return;
@@ -196,21 +398,8 @@ const Gallery = () => {
         
 
       // 2. Delete from your backend DB
-      const response = await fetch(`${API_BASE_URL}/admin/gallery/${imageId}`, {
-        method: 'DELETE',
-      });
-
-      if (!response.ok) {
-        let errorMsg = 'Delete failed';
-        try {
-          const errorData = await response.json();
-          errorMsg = errorData.error || errorMsg;
-        } catch {
-          // If not JSON, fallback to status text
-          errorMsg = response.statusText || errorMsg;
-        }
-        throw new Error(errorMsg);
-      }
+      await api.delete(`/gallery/${imageId}`);
+      await recordMediaUsage('gallery', imageId, 'image_url', [], '');
 
       setSuccess('Image deleted successfully');
       setImages(prev => prev.filter(img => img.id !== imageId));
@@ -234,6 +423,7 @@ const Gallery = () => {
 
   // Fetch data on component mount and filter/search changes
   useEffect(() => {
+    setSelectedIds([]);
     fetchImages();
   }, [activeFilter, searchTerm]);
 
@@ -246,6 +436,7 @@ const Gallery = () => {
     const files = e.target.files;
     if (files && files.length > 0) {
       setSelectedFiles(files);
+      setSelectedMedia([]);
       // Set default category based on current filter
       setUploadDetails(prev => ({
         ...prev,
@@ -275,6 +466,15 @@ const Gallery = () => {
         className="hidden"
       />
 
+      {showPicker && (
+        <MediaPickerModal
+          multiple
+          title="Add Images to Gallery"
+          onSelect={handleLibrarySelect}
+          onClose={() => setShowPicker(false)}
+        />
+      )}
+
       {/* Upload Modal */}
       {showUploadModal && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-40">
@@ -284,6 +484,7 @@ const Gallery = () => {
               onClick={() => {
                 setShowUploadModal(false);
                 setSelectedFiles(null);
+                setSelectedMedia([]);
               }}
             >
               <XCircle className="h-6 w-6" />
@@ -298,6 +499,16 @@ const Gallery = () => {
                 </p>
               </div>
             )}
+            {selectedMedia.length > 0 && (
+              <div className="mb-4 p-3 bg-gray-50 rounded-md">
+                <p className="text-sm text-gray-600 mb-2">From media library:</p>
+                <div className="flex flex-wrap gap-2">
+                  {selectedMedia.map(item => (
+                    <img key={item.id} src={item.url} alt={item.alt_text} className="h-12 w-12 object-cover rounded" />
+                  ))}
+                </div>
+              </div>
+            )}
 
             <div className="space-y-4">
               <div>
@@ -338,6 +549,24 @@ const Gallery = () => {
                 />
               </div>
 
+              {selectedFiles && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Resize To</label>
+                  <select
+                    className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm px-3 py-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                    value={maxDimension}
+                    onChange={e => setMaxDimension(Number(e.target.value))}
+                  >
+                    {MAX_DIMENSION_OPTIONS.map(option => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                  <p className="mt-1 text-xs text-gray-500">
+                    Longest edge. Images are converted to WebP and location data is removed before upload.
+                  </p>
+                </div>
+              )}
+
               <div>
                 <label className="block text-sm font-medium text-gray-700">Description</label>
                 <textarea
@@ -356,6 +585,7 @@ const Gallery = () => {
                   onClick={() => {
                     setShowUploadModal(false);
                     setSelectedFiles(null);
+                    setSelectedMedia([]);
                   }}
                 >
                   Cancel
@@ -374,6 +604,72 @@ const Gallery = () => {
         </div>
       )}
 
+      {/* Bulk alt text modal */}
+      {altDrafts && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-40">
+          <div className="bg-white rounded-lg shadow-lg p-6 w-full max-w-lg relative">
+            <button
+              className="absolute top-2 right-2 text-gray-400 hover:text-gray-600"
+              onClick={() => setAltDrafts(null)}
+            >
+              <XCircle className="h-6 w-6" />
+            </button>
+            <h2 className="text-lg font-semibold mb-4">Edit Alt Text ({selectedImages.length} images)</h2>
+
+            <div className="flex space-x-2 mb-4">
+              <input
+                type="text"
+                value={altForAll}
+                onChange={e => setAltForAll(e.target.value)}
+                className="flex-1 border rounded-md px-3 py-2 text-sm"
+                placeholder="Same alt text for every image"
+              />
+              <button
+                type="button"
+                disabled={!altForAll.trim()}
+                onClick={() => setAltDrafts(Object.fromEntries(selectedImages.map(img => [img.id, altForAll])))}
+                className="px-3 py-2 rounded-md bg-gray-200 text-gray-700 text-sm hover:bg-gray-300 disabled:opacity-50"
+              >
+                Apply to all
+              </button>
+            </div>
+
+            <div className="space-y-3 max-h-96 overflow-y-auto">
+              {selectedImages.map(img => (
+                <div key={img.id} className="flex items-center space-x-3">
+                  <img src={img.image_url} alt={img.alt_text || img.title} className="h-12 w-12 object-cover rounded flex-shrink-0" />
+                  <input
+                    type="text"
+                    value={altDrafts[img.id] ?? ''}
+                    onChange={e => setAltDrafts(prev => (prev ? { ...prev, [img.id]: e.target.value } : prev))}
+                    className="flex-1 border rounded-md px-3 py-2 text-sm"
+                    placeholder={img.title || 'Describe the image'}
+                  />
+                </div>
+              ))}
+            </div>
+
+            <div className="flex justify-end space-x-3 pt-4">
+              <button
+                type="button"
+                className="px-4 py-2 rounded-md bg-gray-200 text-gray-700 hover:bg-gray-300 transition-colors"
+                onClick={() => setAltDrafts(null)}
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                className="px-4 py-2 rounded-md bg-blue-600 text-white hover:bg-blue-700 transition-colors disabled:opacity-50"
+                disabled={bulkSaving}
+                onClick={handleSaveAltText}
+              >
+                Save Alt Text
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Header */}
       <div className="sm:flex sm:items-center sm:justify-between">
         <div>
@@ -382,7 +678,16 @@ const Gallery = () => {
             Manage your resort's image gallery ({stats.total} images)
           </p>
         </div>
-        <div className="mt-4 sm:mt-0">
+        <div className="mt-4 sm:mt-0 flex space-x-3">
+          <button
+            type="button"
+            onClick={() => setShowPicker(true)}
+            disabled={uploading}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+          >
+            <Images className="h-4 w-4 mr-2" />
+            From Library
+          </button>
           <button
             type="button"
             onClick={triggerUpload}
@@ -418,6 +723,8 @@ const Gallery = () => {
         </div>
       )}
 
+      <UploadProgressList uploads={uploads} onDismiss={() => setUploads([])} />
+
       {/* Search and Filter */}
       <div className="flex flex-col sm:flex-row space-y-4 sm:space-y-0 sm:space-x-4">
         <div className="relative flex-1">
@@ -494,13 +801,130 @@ const Gallery = () => {
         </div>
       )}
 
+      {/* Undo banner for the last bulk delete */}
+      {pendingDelete && (
+        <div className="flex items-center justify-between p-3 bg-gray-800 text-white rounded-md text-sm">
+          <span>Deleted {pendingDelete.length} image(s).</span>
+          <button
+            type="button"
+            onClick={handleUndoDelete}
+            className="inline-flex items-center font-medium text-blue-300 hover:text-blue-200"
+          >
+            <RotateCcw className="h-4 w-4 mr-1" />
+            Undo
+          </button>
+        </div>
+      )}
+
+      {/* Bulk actions */}
+      {selectedIds.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 p-3 bg-blue-50 border border-blue-200 rounded-md text-sm">
+          <span className="font-medium text-blue-900 mr-2">{selectedIds.length} selected</span>
+          <button
+            type="button"
+            onClick={() => setSelectedIds(images.map(img => img.id))}
+            className="text-blue-700 hover:underline"
+          >
+            Select all
+          </button>
+          <button type="button" onClick={() => setSelectedIds([])} className="text-blue-700 hover:underline mr-auto">
+            Clear
+          </button>
+          <select
+            value=""
+            onChange={e => handleBulkCategory(e.target.value)}
+            disabled={bulkSaving}
+            className="border border-gray-300 rounded-md px-2 py-1.5 bg-white disabled:opacity-50"
+          >
+            <option value="">Move to category...</option>
+            {filters.filter(f => f.id !== 'all').map(f => (
+              <option key={f.id} value={f.id}>{f.name}</option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={() => handleBulkActive(true)}
+            disabled={bulkSaving}
+            className="inline-flex items-center px-3 py-1.5 border border-gray-300 rounded-md bg-white text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+          >
+            <Eye className="h-4 w-4 mr-1" />
+            Show
+          </button>
+          <button
+            type="button"
+            onClick={() => handleBulkActive(false)}
+            disabled={bulkSaving}
+            className="inline-flex items-center px-3 py-1.5 border border-gray-300 rounded-md bg-white text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+          >
+            <EyeOff className="h-4 w-4 mr-1" />
+            Hide
+          </button>
+          <button
+            type="button"
+            onClick={openAltEditor}
+            disabled={bulkSaving}
+            className="inline-flex items-center px-3 py-1.5 border border-gray-300 rounded-md bg-white text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+          >
+            <Type className="h-4 w-4 mr-1" />
+            Alt Text
+          </button>
+          <button
+            type="button"
+            onClick={handleBulkDelete}
+            disabled={bulkSaving}
+            className="inline-flex items-center px-3 py-1.5 rounded-md text-white bg-red-600 hover:bg-red-700 disabled:opacity-50"
+          >
+            <Trash2 className="h-4 w-4 mr-1" />
+            Delete
+          </button>
+        </div>
+      )}
+
+      {/* Reorder bar */}
+      {!loading && images.length > 1 && (
+        <div className="flex items-center justify-between text-sm text-gray-500">
+          <span className="flex items-center">
+            <GripVertical className="h-4 w-4 mr-1" />
+            {canReorder
+              ? 'Drag images to change the order they appear in on the website.'
+              : 'Pick a category and clear the search to reorder images.'}
+          </span>
+          {orderChanged && (
+            <div className="flex space-x-2">
+              <button
+                type="button"
+                onClick={fetchImages}
+                disabled={savingOrder}
+                className="px-3 py-1.5 border border-gray-300 rounded-md text-sm text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+              >
+                Discard
+              </button>
+              <button
+                type="button"
+                onClick={handleSaveOrder}
+                disabled={savingOrder}
+                className="inline-flex items-center px-3 py-1.5 rounded-md text-sm text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+              >
+                <Save className="h-4 w-4 mr-1" />
+                {savingOrder ? 'Saving...' : 'Save Order'}
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Gallery Grid */}
       {!loading && (
         <div className="grid gap-4 grid-cols-2 sm:grid-cols-3 md:grid-cols-4">
-          {images.map((image) => (
+          {images.map((image, index) => (
             <div
               key={image.id}
-              className="relative group rounded-lg overflow-hidden bg-gray-200"
+              {...imageDrag.getItemProps(index)}
+              className={`relative group rounded-lg overflow-hidden bg-gray-200 ${canReorder ? 'cursor-move' : ''} ${
+                imageDrag.dragIndex === index ? 'opacity-40' : ''
+              } ${imageDrag.overIndex === index && imageDrag.dragIndex !== index ? 'ring-2 ring-blue-500' : ''} ${
+                selectedIds.includes(image.id) ? 'ring-4 ring-blue-600' : ''
+              }`}
               style={{ aspectRatio: '1/1' }} // Ensures square containers
             >
               {/* Image container with full coverage */}
@@ -515,6 +939,25 @@ const Gallery = () => {
                   }}
                 />
 
+                {/* Selection checkbox */}
+                <button
+                  type="button"
+                  onClick={() => toggleSelected(image.id)}
+                  className={`absolute top-2 left-2 z-10 p-0.5 bg-white rounded text-blue-600 transition-opacity ${
+                    selectedIds.length > 0 ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'
+                  }`}
+                  title={selectedIds.includes(image.id) ? 'Deselect image' : 'Select image'}
+                >
+                  {selectedIds.includes(image.id) ? <CheckSquare className="h-5 w-5" /> : <Square className="h-5 w-5" />}
+                </button>
+
+                {image.active === 0 && (
+                  <span className="absolute top-2 right-2 z-10 inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-gray-900/70 text-white">
+                    <EyeOff className="h-3 w-3 mr-1" />
+                    Hidden
+                  </span>
+                )}
+
                 {/* Hover overlay with buttons */}
                 <div className="absolute inset-0 bg-black bg-opacity-0 group-hover:bg-opacity-30 transition-opacity duration-300 flex items-center justify-center">
                   <div className="opacity-0 group-hover:opacity-100 flex space-x-2 transition-opacity duration-200">
@@ -1,4 +1,5 @@
 import React, { useState } from 'react';
+import { Navigate, useLocation, useNavigate, type Location } from 'react-router-dom';
 import { Building2, Eye, EyeOff, Lock, Mail, AlertCircle } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 
@@ -7,7 +8,14 @@ const LoginPage: React.FC = () => {
   const [password, setPassword] = useState('');
   const [showPassword, setShowPassword] = useState(false);
   const [error, setError] = useState('');
-  const { login, isLoading } = useAuth();
+  const { user, login, isLoading } = useAuth();
+  const navigate = useNavigate();
+  const location = useLocation();
+
+  // Route ProtectedRoute redirected away from, if any
+  const from = (location.state as { from?: Location } | null)?.from;
+  const redirectTo = from ? `${from.pathname}${from.search}${from.hash}` : '/';
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
@@ -19,9 +27,15 @@ const LoginPage: React.FC = () => {
     const success = await login(email, password);
     if (!success) {
       setError('Invalid credentials. Please try again.');
+      return;
     }
+    navigate(redirectTo, { replace: true });
   };
 
+  if (user) {
+    return <Navigate to={redirectTo} replace />;
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-100 py-12 px-4 sm:px-6 lg:px-8">
       <div className="max-w-md w-full space-y-8">
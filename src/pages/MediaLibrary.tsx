@@ -0,0 +1,370 @@
+import React, { useEffect, useState } from 'react';
+import { Search, UploadCloud, Trash2, Loader, AlertCircle, CheckCircle, XCircle, Link2, Image as ImageIcon } from 'lucide-react';
+import { api, assertSuccess, getErrorMessage, isCanceled, type Pagination } from '../lib/api';
+import {
+  MEDIA_USAGE_LABELS,
+  fetchMedia,
+  fetchMediaUsage,
+  formatFileSize,
+  uploadMediaBatch,
+  type MediaItem,
+  type MediaUsage,
+  type UploadProgress,
+} from '../lib/media';
+import UploadProgressList from '../components/UploadProgressList';
+
+const PAGE_SIZE = 36;
+
+const MediaLibrary: React.FC = () => {
+  const [items, setItems] = useState<MediaItem[]>([]);
+  const [pagination, setPagination] = useState<Pagination | undefined>();
+  const [page, setPage] = useState(1);
+  const [search, setSearch] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+  const [refreshKey, setRefreshKey] = useState(0);
+  const [uploads, setUploads] = useState<UploadProgress[]>([]);
+
+  const [active, setActive] = useState<MediaItem | null>(null);
+  const [altText, setAltText] = useState('');
+  const [usage, setUsage] = useState<MediaUsage[] | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    const loadMedia = async () => {
+      try {
+        setLoading(true);
+        setError('');
+        const result = await fetchMedia(
+          { search: search.trim() || undefined, page, limit: PAGE_SIZE },
+          controller.signal
+        );
+        setItems(result.items);
+        setPagination(result.pagination);
+      } catch (err) {
+        if (isCanceled(err)) return;
+        console.error('Error fetching media:', err);
+        setError(getErrorMessage(err, 'Failed to load media library'));
+      } finally {
+        if (!controller.signal.aborted) setLoading(false);
+      }
+    };
+
+    const timer = setTimeout(loadMedia, search ? 300 : 0);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [search, page, refreshKey]);
+
+  // Usage is loaded whenever an image is opened so the delete warning is always current
+  useEffect(() => {
+    if (!active) return;
+    const controller = new AbortController();
+    setUsage(null);
+
+    fetchMediaUsage(active.id, controller.signal)
+      .then(setUsage)
+      .catch(err => {
+        if (isCanceled(err)) return;
+        console.error('Error fetching media usage:', err);
+        setUsage([]);
+      });
+    return () => controller.abort();
+  }, [active]);
+
+  const openItem = (item: MediaItem) => {
+    setActive(item);
+    setAltText(item.alt_text || '');
+  };
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    if (files.length === 0) return;
+
+    setUploading(true);
+    setError('');
+    setSuccess('');
+    setUploads(files.map(file => ({ name: file.name, status: 'queued', progress: 0, attempt: 0 })));
+    try {
+      const results = await uploadMediaBatch(files, {
+        onUpdate: (index, progress) =>
+          setUploads(prev => prev.map((upload, i) => (i === index ? progress : upload))),
+      });
+      const uploaded = results.filter(result => result.status === 'done').length;
+      if (uploaded > 0) setSuccess(`${uploaded} image(s) uploaded successfully`);
+      if (uploaded < files.length) setError(`${files.length - uploaded} image(s) failed to upload`);
+      setPage(1);
+      setRefreshKey(key => key + 1);
+    } finally {
+      setUploading(false);
+      e.target.value = '';
+    }
+  };
+
+  const handleSaveAlt = async () => {
+    if (!active) return;
+    try {
+      setSaving(true);
+      setError('');
+      const response = await api.put(
+        `/media/${active.id}`,
+        { alt_text: altText.trim() },
+        {
+          audit: {
+            action: 'media.update',
+            entityType: 'media',
+            entityId: active.id,
+            summary: `Updated alt text for ${active.filename}`,
+            before: { alt_text: active.alt_text },
+            after: { alt_text: altText.trim() },
+          }
+        }
+      );
+      assertSuccess(response.data, 'Failed to update image');
+      const updated = { ...active, alt_text: altText.trim() };
+      setItems(prev => prev.map(item => (item.id === active.id ? updated : item)));
+      setActive(updated);
+      setSuccess('Alt text saved');
+    } catch (err) {
+      console.error('Error updating media:', err);
+      setError(getErrorMessage(err, 'Failed to update image'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!active) return;
+    const inUse = usage && usage.length > 0;
+    const message = inUse
+      ? `This image is used in ${usage.length} place(s):\n\n${usage
+          .map(entry => `• ${MEDIA_USAGE_LABELS[entry.entity_type]}: ${entry.label}`)
+          .join('\n')}\n\nDeleting it will leave broken images there. Delete anyway?`
+      : 'Are you sure you want to delete this image?';
+    if (!window.confirm(message)) return;
+
+    try {
+      setSaving(true);
+      setError('');
+      const response = await api.delete(`/media/${active.id}`, {
+        // The backend refuses to delete images with recorded usage unless forced
+        params: inUse ? { force: true } : undefined,
+        audit: {
+          action: 'media.delete',
+          entityType: 'media',
+          entityId: active.id,
+          summary: `Deleted ${active.filename}${inUse ? ` (used in ${usage.length} place(s))` : ''}`,
+          before: { ...active },
+        }
+      });
+      assertSuccess(response.data, 'Failed to delete image');
+      setActive(null);
+      setSuccess('Image deleted');
+      setRefreshKey(key => key + 1);
+    } catch (err) {
+      console.error('Error deleting media:', err);
+      setError(getErrorMessage(err, 'Failed to delete image'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const totalPages = pagination?.totalPages || 1;
+
+  return (
+    <div className="space-y-6 pb-16 md:pb-0">
+      <div className="sm:flex sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Media Library</h1>
+          <p className="mt-1 text-sm text-gray-500">
+            Images uploaded once here can be used across properties, packages, blogs and the gallery.
+          </p>
+        </div>
+        <div className="mt-4 sm:mt-0">
+          <label className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 cursor-pointer">
+            {uploading ? <Loader className="h-4 w-4 mr-2 animate-spin" /> : <UploadCloud className="h-4 w-4 mr-2" />}
+            {uploading ? 'Uploading...' : 'Upload Images'}
+            <input type="file" accept="image/*" multiple className="sr-only" onChange={handleUpload} disabled={uploading} />
+          </label>
+        </div>
+      </div>
+
+      {success && (
+        <div className="rounded-md bg-green-50 p-4 border border-green-200">
+          <div className="flex">
+            <CheckCircle className="h-5 w-5 text-green-400" />
+            <p className="ml-3 text-sm text-green-700">{success}</p>
+          </div>
+        </div>
+      )}
+      {error && (
+        <div className="rounded-md bg-red-50 p-4 border border-red-200">
+          <div className="flex">
+            <AlertCircle className="h-5 w-5 text-red-400" />
+            <p className="ml-3 text-sm text-red-700">{error}</p>
+          </div>
+        </div>
+      )}
+
+      <UploadProgressList uploads={uploads} onDismiss={() => setUploads([])} />
+
+      <div className="relative max-w-md">
+        <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+          <Search className="h-5 w-5 text-gray-400" />
+        </div>
+        <input
+          type="text"
+          value={search}
+          onChange={(e) => {
+            setSearch(e.target.value);
+            setPage(1);
+          }}
+          placeholder="Search by file name or alt text"
+          className="block w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md leading-5 bg-white placeholder-gray-500 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+        />
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center items-center h-64">
+          <Loader className="h-8 w-8 animate-spin text-blue-600" />
+          <span className="ml-2 text-gray-600">Loading media...</span>
+        </div>
+      ) : items.length === 0 ? (
+        <div className="text-center py-12 bg-white rounded-lg shadow">
+          <ImageIcon className="mx-auto h-12 w-12 text-gray-400" />
+          <h3 className="mt-2 text-sm font-medium text-gray-900">No images found</h3>
+          <p className="mt-1 text-sm text-gray-500">
+            {search ? 'Try a different search.' : 'Upload your first image to get started.'}
+          </p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-6 gap-4">
+          {items.map(item => (
+            <button
+              type="button"
+              key={item.id}
+              onClick={() => openItem(item)}
+              className="group relative bg-white rounded-lg shadow overflow-hidden text-left focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <img src={item.thumbnail_url || item.url} alt={item.alt_text} className="h-32 w-full object-cover" loading="lazy" />
+              <div className="p-2">
+                <p className="text-xs font-medium text-gray-900 truncate">{item.filename}</p>
+                <p className="text-xs text-gray-500 flex items-center">
+                  <Link2 className="h-3 w-3 mr-1" />
+                  {item.usage_count ? `Used ${item.usage_count}×` : 'Unused'}
+                  {!item.alt_text && <span className="ml-2 text-yellow-600">No alt</span>}
+                </p>
+              </div>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {totalPages > 1 && (
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-gray-500">
+            Page {page} of {totalPages}
+          </p>
+          <div className="space-x-2">
+            <button
+              onClick={() => setPage(prev => prev - 1)}
+              disabled={page <= 1}
+              className="px-3 py-1.5 border border-gray-300 rounded-md text-sm text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+            >
+              Previous
+            </button>
+            <button
+              onClick={() => setPage(prev => prev + 1)}
+              disabled={page >= totalPages}
+              className="px-3 py-1.5 border border-gray-300 rounded-md text-sm text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+            >
+              Next
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Details Modal */}
+      {active && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-gray-900 bg-opacity-50 p-4">
+          <div className="bg-white rounded-lg shadow-lg w-full max-w-2xl max-h-full overflow-y-auto">
+            <div className="flex justify-between items-center p-4 border-b">
+              <h2 className="text-lg font-semibold truncate">{active.filename}</h2>
+              <button onClick={() => setActive(null)} className="text-gray-400 hover:text-gray-500" disabled={saving}>
+                <XCircle className="h-6 w-6" />
+              </button>
+            </div>
+            <div className="p-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+              <img src={active.url} alt={active.alt_text} className="w-full rounded-md object-contain max-h-72 bg-gray-50" />
+              <div className="space-y-3 text-sm">
+                <div className="text-gray-500">
+                  {active.width && active.height ? `${active.width} × ${active.height} px` : 'Unknown size'}
+                  {active.size ? ` • ${formatFileSize(active.size)}` : ''}
+                  <br />
+                  Uploaded {new Date(active.created_at).toLocaleDateString('en-IN')}
+                </div>
+                <a href={active.url} target="_blank" rel="noreferrer" className="block text-blue-600 hover:underline truncate">
+                  {active.url}
+                </a>
+                <div>
+                  <label htmlFor="media-alt" className="block font-medium text-gray-700">
+                    Alt Text
+                  </label>
+                  <textarea
+                    id="media-alt"
+                    rows={2}
+                    value={altText}
+                    onChange={(e) => setAltText(e.target.value)}
+                    className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                  />
+                </div>
+                <div>
+                  <p className="font-medium text-gray-700">Used in</p>
+                  {usage === null ? (
+                    <p className="text-gray-500 flex items-center">
+                      <Loader className="h-4 w-4 mr-1 animate-spin" /> Checking...
+                    </p>
+                  ) : usage.length === 0 ? (
+                    <p className="text-gray-500">Not used anywhere.</p>
+                  ) : (
+                    <ul className="mt-1 space-y-1 text-gray-600">
+                      {usage.map(entry => (
+                        <li key={`${entry.entity_type}-${entry.entity_id}-${entry.field}`}>
+                          {MEDIA_USAGE_LABELS[entry.entity_type]}: {entry.label}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              </div>
+            </div>
+            <div className="flex justify-between p-4 border-t bg-gray-50">
+              <button
+                onClick={handleDelete}
+                disabled={saving || usage === null}
+                className="inline-flex items-center px-4 py-2 text-sm text-red-600 border border-red-200 rounded-md bg-white hover:bg-red-50 disabled:opacity-50"
+              >
+                <Trash2 className="h-4 w-4 mr-1" />
+                Delete
+              </button>
+              <button
+                onClick={handleSaveAlt}
+                disabled={saving || altText.trim() === (active.alt_text || '')}
+                className="px-4 py-2 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                {saving ? 'Saving...' : 'Save Alt Text'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MediaLibrary;
@@ -1,5 +1,6 @@
-import React, { useState, useEffect } from 'react';
-import { Star, Building2, User, Calendar, Trash2 } from 'lucide-react';
+import { useState, useEffect } from 'react';
+import { Star, Building2, User, Calendar, Trash2, AlertCircle } from 'lucide-react';
+import { api, getErrorMessage, isCanceled, unwrap } from '../lib/api';
 
 interface Rating {
   id: number;
@@ -14,21 +15,34 @@ interface Rating {
 const Ratings = () => {
   const [ratings, setRatings] = useState<Rating[]>([]);
   const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
-    fetch('https://adminplumeria-back.onrender.com/admin/ratings')
-      .then(res => res.json())
-      .then(data => {
-        setRatings(data);
+    const controller = new AbortController();
+    api.get('/ratings', { signal: controller.signal })
+      .then(res => {
+        setRatings(unwrap<Rating[]>(res.data));
         setLoading(false);
       })
-      .catch(() => setLoading(false));
+      .catch((err) => {
+        if (isCanceled(err)) return;
+        console.error('Error fetching ratings:', err);
+        setError(getErrorMessage(err, 'Failed to load ratings'));
+        setLoading(false);
+      });
+    return () => controller.abort();
   }, []);
 
   const handleDelete = async (id: number) => {
     if (window.confirm('Are you sure you want to delete this rating?')) {
-      await fetch(`https://adminplumeria-back.onrender.com/admin/ratings/${id}`, { method: 'DELETE' });
-      setRatings(ratings.filter(rating => rating.id !== id));
+      try {
+        setError(null);
+        await api.delete(`/ratings/${id}`);
+        setRatings(ratings.filter(rating => rating.id !== id));
+      } catch (err) {
+        console.error('Error deleting rating:', err);
+        setError(getErrorMessage(err, 'Failed to delete rating'));
+      }
     }
   };
 
@@ -62,6 +76,15 @@ const Ratings = () => {
         </div>
       </div>
 
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-md">
+          <div className="flex">
+            <AlertCircle className="h-5 w-5 text-red-400 mr-2 flex-shrink-0" />
+            <div className="text-sm text-red-700">{error}</div>
+          </div>
+        </div>
+      )}
+
       <div className="bg-white rounded-lg shadow overflow-hidden">
         <div className="min-w-full divide-y divide-gray-200">
           {loading && (
@@ -1,7 +1,8 @@
 import React, { useState, useEffect } from 'react';
-import { ArrowLeft, Coffee, Save, Loader, AlertCircle, Upload } from 'lucide-react';
-
-const API_BASE_URL =  'https://adminplumeria-back.onrender.com/admin';
+import { ArrowLeft, Coffee, Save, Loader, AlertCircle, Upload, Image as ImageIcon } from 'lucide-react';
+import { api, getErrorMessage, unwrap } from '../lib/api';
+import { recordMediaUsage, uploadMedia } from '../lib/media';
+import MediaPickerModal from '../components/MediaPickerModal';
 
 const ServiceForm = () => {
   // Get ID from URL params (simulate useParams)
@@ -10,6 +11,7 @@ const ServiceForm = () => {
   const [error, setError] = useState('');
   const [success, setSuccess] = useState('');
   const [uploading, setUploading] = useState(false);
+  const [showPicker, setShowPicker] = useState(false);
 
   const isEditing = serviceId !== null;
 
@@ -46,13 +48,8 @@ const ServiceForm = () => {
       setLoading(true);
       setError('');
       
-      const response = await fetch(`${API_BASE_URL}/services/${serviceId}`);
-      
-      if (!response.ok) {
-        throw new Error('Service not found');
-      }
-      
-      const service = await response.json();
+      const response = await api.get(`/services/${serviceId}`);
+      const service = unwrap<SubmitData>(response.data);
       setFormData({
         name: service.name,
         description: service.description,
@@ -62,11 +59,7 @@ const ServiceForm = () => {
         available: service.available
       });
     } catch (err) {
-      setError(
-        err && typeof err === 'object' && 'message' in err
-          ? (err as { message: string }).message
-          : 'Failed to fetch service'
-      );
+      setError(getErrorMessage(err, 'Failed to fetch service'));
     } finally {
       setLoading(false);
     }
@@ -88,10 +81,6 @@ const ServiceForm = () => {
     }
   };
 
-  interface ImageUploadResponse {
-    imageUrl: string;
-  }
-
   interface ImageUploadEvent extends React.ChangeEvent<HTMLInputElement> {
     target: HTMLInputElement & EventTarget & { files: FileList };
   }
@@ -104,28 +93,16 @@ const ServiceForm = () => {
       setUploading(true);
       setError('');
 
-      const formDataUpload = new FormData();
-      formDataUpload.append('image', file);
-
-      const response = await fetch(`${API_BASE_URL}/upload`, {
-        method: 'POST',
-        body: formDataUpload,
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to upload image');
-      }
-
-      const { imageUrl }: ImageUploadResponse = await response.json();
+      const media = await uploadMedia(file, formData.name);
       setFormData(prev => ({
         ...prev,
-        image: imageUrl
+        image: media.url
       }));
 
       setSuccess('Image uploaded successfully!');
       setTimeout(() => setSuccess(''), 3000);
-    } catch (err: any) {
-      setError(err.message || 'Failed to upload image');
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to upload image'));
     } finally {
       setUploading(false);
     }
@@ -163,11 +140,6 @@ const ServiceForm = () => {
     available: boolean;
   }
 
-  interface ErrorResponse {
-    error?: string;
-    [key: string]: any;
-  }
-
   const handleSubmit = async (e: React.FormEvent<HTMLFormElement>): Promise<void> => {
     e.preventDefault();
     
@@ -186,23 +158,15 @@ const ServiceForm = () => {
         duration: parseInt(formData.duration as any)
       };
 
-      const url = isEditing 
-        ? `${API_BASE_URL}/services/${serviceId}`
-        : `${API_BASE_URL}/services`;
-      
-      const method: 'PUT' | 'POST' = isEditing ? 'PUT' : 'POST';
-
-      const response: Response = await fetch(url, {
-        method,
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(submitData),
-      });
-
-      if (!response.ok) {
-        const errorData: ErrorResponse = await response.json();
-        throw new Error(errorData.error || 'Failed to save service');
+      let savedId = serviceId;
+      if (isEditing) {
+        await api.put(`/services/${serviceId}`, submitData);
+      } else {
+        const { data } = await api.post('/services', submitData);
+        savedId = unwrap<{ id?: number }>(data)?.id ?? null;
+      }
+      if (savedId !== null) {
+        await recordMediaUsage('service', savedId, 'image', [submitData.image], submitData.name);
       }
 
       setSuccess(isEditing ? 'Service updated successfully!' : 'Service created successfully!');
@@ -212,8 +176,8 @@ const ServiceForm = () => {
         window.location.href = '/services';
       }, 1500);
 
-    } catch (err: any) {
-      setError(err.message || 'Failed to save service');
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to save service'));
     } finally {
       setLoading(false);
     }
@@ -365,6 +329,14 @@ const ServiceForm = () => {
                       <Upload className="h-4 w-4 mr-2" />
                       {uploading ? 'Uploading...' : 'Choose File'}
                     </label>
+                    <button
+                      type="button"
+                      onClick={() => setShowPicker(true)}
+                      className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                    >
+                      <ImageIcon className="h-4 w-4 mr-2" />
+                      Media Library
+                    </button>
                     {uploading && <Loader className="h-4 w-4 animate-spin text-blue-600" />}
                   </div>
                 </div>
@@ -476,6 +448,14 @@ const ServiceForm = () => {
           </button>
         </div>
       </form>
+
+      {showPicker && (
+        <MediaPickerModal
+          title="Choose Service Image"
+          onSelect={([media]) => setFormData(prev => ({ ...prev, image: media.url }))}
+          onClose={() => setShowPicker(false)}
+        />
+      )}
     </div>
   );
 };
@@ -1,7 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { Coffee, Plus, Search, Filter, Edit, Trash2, Eye, XCircle, Loader, AlertCircle } from 'lucide-react';
-
-const API_BASE_URL = 'https://plumeriaadminback-production.up.railway.app/admin';
+import { api, getErrorMessage, unwrap } from '../lib/api';
 
 const Services = () => {
   const [services, setServices] = useState<Service[]>([]);
@@ -22,27 +21,15 @@ const Services = () => {
       setLoading(true);
       setError('');
       
-      const params = new URLSearchParams();
-      if (searchTerm) params.append('search', searchTerm);
-      if (filters.priceRange) params.append('priceRange', filters.priceRange);
-      if (filters.availability) params.append('availability', filters.availability);
-      params.append('sortBy', sortBy);
-      params.append('sortOrder', sortOrder);
+      const params: Record<string, string> = { sortBy, sortOrder };
+      if (searchTerm) params.search = searchTerm;
+      if (filters.priceRange) params.priceRange = filters.priceRange;
+      if (filters.availability) params.availability = filters.availability;
 
-      const response = await fetch(`${API_BASE_URL}/services?${params}`);
-      
-      if (!response.ok) {
-        throw new Error('Failed to fetch services');
-      }
-      
-      const data = await response.json();
-      setServices(data);
+      const response = await api.get('/services', { params });
+      setServices(unwrap<Service[]>(response.data));
     } catch (err) {
-      setError(
-        err && typeof err === 'object' && 'message' in err
-          ? (err as { message: string }).message
-          : 'Something went wrong'
-      );
+      setError(getErrorMessage(err, 'Failed to fetch services'));
       console.error('Error fetching services:', err);
     } finally {
       setLoading(false);
@@ -72,18 +59,12 @@ const Services = () => {
     }
 
     try {
-      const response = await fetch(`${API_BASE_URL}/services/${id}`, {
-        method: 'DELETE',
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to delete service');
-      }
+      await api.delete(`/services/${id}`);
 
       // Remove service from local state
       setServices((services: Service[]) => services.filter((service: Service) => service.id !== id));
-    } catch (err: any) {
-      setError(err.message || 'Failed to delete service');
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to delete service'));
       console.error('Error deleting service:', err);
     }
   };
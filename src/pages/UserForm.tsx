@@ -1,6 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { ArrowLeft, User, Save, Loader, Upload } from 'lucide-react';
+import { ArrowLeft, User, Save, Loader } from 'lucide-react';
+import { api, getErrorMessage, unwrap } from '../lib/api';
+import { ROLE_OPTIONS, normalizeRole } from '../lib/permissions';
 
 interface UserData {
   name: string;
@@ -24,7 +26,7 @@ const UserForm: React.FC = () => {
     name: '',
     email: '',
     phoneNumber: '',
-    role: 'staff',
+    role: 'front-desk',
     status: 'active',
     avatar: '',
     password: '',
@@ -40,11 +42,11 @@ const UserForm: React.FC = () => {
   const fetchUser = async () => {
     try {
       setLoading(true);
-      const response = await fetch(`https://a.plumeriaretreat.com/admin/users/${id}`);
-      if (!response.ok) throw new Error('User not found');
-      const data = await response.json();
+      const response = await api.get(`/users/${id}`);
+      const data = unwrap<UserData>(response.data);
       setFormData({
         ...data,
+        role: normalizeRole(data.role) || 'front-desk',
         password: '',
         confirmPassword: ''
       });
@@ -83,26 +85,16 @@ const UserForm: React.FC = () => {
         delete submitData.confirmPassword;
       }
 
-      const url = isEditing
-        ? `https://a.plumeriaretreat.com/admin/users/${id}`
-        : 'https://a.plumeriaretreat.com/admin/users';
-
-      const response = await fetch(url, {
-        method: isEditing ? 'PUT' : 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify(submitData)
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to save user');
+      if (isEditing) {
+        await api.put(`/users/${id}`, submitData);
+      } else {
+        await api.post('/users', submitData);
       }
 
       navigate('/users');
     } catch (err) {
       console.error('Error saving user:', err);
-      setError('Failed to save user');
+      setError(getErrorMessage(err, 'Failed to save user'));
     } finally {
       setLoading(false);
     }
@@ -252,9 +244,11 @@ const UserForm: React.FC = () => {
                       onChange={handleChange}
                       className="w-full px-4 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
                     >
-                      <option value="admin">Admin</option>
-                      <option value="manager">Manager</option>
-                      <option value="staff">Staff</option>
+                      {ROLE_OPTIONS.map((option) => (
+                        <option key={option.value} value={option.value}>
+                          {option.label}
+                        </option>
+                      ))}
                     </select>
                   </div>
 
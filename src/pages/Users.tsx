@@ -14,6 +14,8 @@ import {
   Users2Icon,
   Phone,
 } from 'lucide-react';
+import { api, getErrorMessage, isCanceled, unwrap } from '../lib/api';
+import { ROLE_OPTIONS, getRoleLabel, normalizeRole } from '../lib/permissions';
 
 // User Interface
 interface User {
@@ -52,7 +54,7 @@ const Users: React.FC = () => {
     name: '',
     email: '',
     phoneNumber: '',
-    role: 'staff',
+    role: 'front-desk',
     status: 'active',
     avatar: '',
     password: '',
@@ -66,36 +68,31 @@ const Users: React.FC = () => {
 
   // Fetch users from the server
   useEffect(() => {
+    const controller = new AbortController();
+
     const fetchUsers = async () => {
       try {
         setLoading(true);
-        const response = await fetch('https://a.plumeriaretreat.com/admin/users');
-        if (!response.ok) {
-          throw new Error('Failed to fetch users');
-        }
-        const data = await response.json();
-        setUsers(data);
+        const response = await api.get('/users', { signal: controller.signal });
+        setUsers(unwrap<User[]>(response.data));
       } catch (err) {
+        if (isCanceled(err)) return;
         console.error('Error fetching users:', err);
         setError('Failed to load users');
       } finally {
-        setLoading(false);
+        if (!controller.signal.aborted) setLoading(false);
       }
     };
 
     fetchUsers();
+    return () => controller.abort();
   }, []);
 
   const handleDelete = async (id: number) => {
     if (window.confirm('Are you sure you want to delete this user?')) {
       try {
         setDeletingId(id);
-        const response = await fetch(`https://a.plumeriaretreat.com/admin/users/${id}`, {
-          method: 'DELETE',
-        });
-        if (!response.ok) {
-          throw new Error('Failed to delete user');
-        }
+        await api.delete(`/users/${id}`);
         setUsers(users.filter((user) => user.id !== id));
       } catch (err) {
         console.error('Error deleting user:', err);
@@ -112,7 +109,7 @@ const Users: React.FC = () => {
       name: user.name,
       email: user.email,
       phoneNumber: user.phoneNumber,
-      role: user.role,
+      role: normalizeRole(user.role) || 'front-desk',
       status: user.status,
       avatar: user.avatar || '',
       password: '',
@@ -151,25 +148,11 @@ const Users: React.FC = () => {
       setLoading(true);
       setError('');
 
-      const url = editingUser 
-        ? `https://a.plumeriaretreat.com/admin/users/${editingUser.id}`
-        : 'https://a.plumeriaretreat.com/admin/users';
-
-      const method = editingUser ? 'PUT' : 'POST';
-
-      const response = await fetch(url, {
-        method,
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(formData),
-      });
+      const response = editingUser
+        ? await api.put(`/users/${editingUser.id}`, formData)
+        : await api.post('/users', formData);
 
-      if (!response.ok) {
-        throw new Error(editingUser ? 'Failed to update user' : 'Failed to create user');
-      }
-
-      const updatedUser = await response.json();
+      const updatedUser = unwrap<User>(response.data);
       
       if (editingUser) {
         setUsers(users.map(user => user.id === editingUser.id ? updatedUser : user));
@@ -182,7 +165,7 @@ const Users: React.FC = () => {
         name: '',
         email: '',
         phoneNumber: '',
-        role: 'staff',
+        role: 'front-desk',
         status: 'active',
         avatar: '',
         password: '',
@@ -192,7 +175,7 @@ const Users: React.FC = () => {
       setShowModal(false);
     } catch (err) {
       console.error('Error saving user:', err);
-      setError(editingUser ? 'Failed to update user' : 'Failed to create user');
+      setError(getErrorMessage(err, editingUser ? 'Failed to update user' : 'Failed to create user'));
     } finally {
       setLoading(false);
     }
@@ -204,20 +187,22 @@ const Users: React.FC = () => {
       user.email.toLowerCase().includes(searchTerm.toLowerCase()) ||
       user.phoneNumber.toLowerCase().includes(searchTerm.toLowerCase());
 
-    const matchesRole = !filters.role || user.role === filters.role;
+    const matchesRole = !filters.role || normalizeRole(user.role) === filters.role;
     const matchesStatus = !filters.status || user.status === filters.status;
 
     return matchesSearch && matchesRole && matchesStatus;
   });
 
   const getRoleColor = (role: string): string => {
-    switch (role.toLowerCase()) {
-      case 'admin':
+    switch (normalizeRole(role)) {
+      case 'owner':
         return 'bg-purple-100 text-purple-800';
       case 'manager':
         return 'bg-blue-100 text-blue-800';
-      case 'staff':
+      case 'front-desk':
         return 'bg-green-100 text-green-800';
+      case 'content-editor':
+        return 'bg-amber-100 text-amber-800';
       default:
         return 'bg-gray-100 text-gray-800';
     }
@@ -253,7 +238,7 @@ const Users: React.FC = () => {
                     name: '',
                     email: '',
                     phoneNumber: '',
-                    role: 'staff',
+                    role: 'front-desk',
                     status: 'active',
                     avatar: '',
                     password: '',
@@ -314,9 +299,11 @@ const Users: React.FC = () => {
                     className="block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
                   >
                     <option value="">All Roles</option>
-                    <option value="admin">Admin</option>
-                    <option value="manager">Manager</option>
-                    <option value="staff">Staff</option>
+                    {ROLE_OPTIONS.map((option) => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
                   </select>
                 </div>
                 <div>
@@ -419,7 +406,7 @@ const Users: React.FC = () => {
                               user.role
                             )}`}
                           >
-                            {user.role.charAt(0).toUpperCase() + user.role.slice(1)}
+                            {getRoleLabel(user.role)}
                           </span>
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap">
@@ -591,9 +578,11 @@ const Users: React.FC = () => {
                                   onChange={handleChange}
                                   className="shadow-sm focus:ring-blue-500 focus:border-blue-500 block w-full sm:text-sm border border-gray-300 rounded-md p-2"
                                 >
-                                  <option value="admin">Admin</option>
-                                  <option value="manager">Manager</option>
-                                  <option value="staff">Staff</option>
+                                  {ROLE_OPTIONS.map((option) => (
+                                    <option key={option.value} value={option.value}>
+                                      {option.label}
+                                    </option>
+                                  ))}
                                 </select>
                               </div>
                             </div>
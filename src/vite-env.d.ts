@@ -1 +1,18 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_API_BASE_URL?: string;
+  readonly VITE_UPLOAD_URL?: string;
+  readonly VITE_PUBLIC_SITE_URL?: string;
+  readonly VITE_IMAGE_MAX_WIDTH?: string;
+  readonly VITE_IMAGE_MAX_HEIGHT?: string;
+  readonly VITE_GSTIN?: string;
+  readonly VITE_INVOICE_LEGAL_NAME?: string;
+  readonly VITE_INVOICE_ADDRESS?: string;
+  readonly VITE_SPECIFIED_PREMISES?: string;
+  readonly VITE_NOTIFICATION_TRANSPORT?: 'smtp' | 'outbox';
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}